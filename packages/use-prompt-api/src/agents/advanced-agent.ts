@@ -4,6 +4,7 @@
 
 import type { AdvancedAgentConfig, AgentResult, AgentPlan } from '../types';
 import { BasicAgent } from './basic-agent';
+import { parsePlan } from './planning';
 
 export class AdvancedAgent extends BasicAgent {
   private currentPlan: AgentPlan | null = null;
@@ -84,7 +85,7 @@ ${this.formatStepsForReflection()}
 Create a revised step-by-step plan.`;
 
     const planResponse = await this.session.prompt(replanPrompt);
-    this.currentPlan = this.parsePlan(planResponse);
+    this.currentPlan = parsePlan(planResponse);
 
     return this.currentPlan;
   }
@@ -116,7 +117,7 @@ Break it down into clear, actionable steps. For each step, specify:
 3. Dependencies on other steps`;
 
     const planResponse = await this.session.prompt(planningPrompt);
-    return this.parsePlan(planResponse);
+    return parsePlan(planResponse);
   }
 
   private async executeWithReflection(task: string): Promise<AgentResult> {
@@ -160,25 +161,6 @@ You are also capable of:
     return basePrompt + planningAddition;
   }
 
-  private parsePlan(planText: string): AgentPlan {
-    // Simple plan parsing - extract numbered steps
-    const stepRegex = /(\d+)\.\s*([^\n]+)/g;
-    const steps: string[] = [];
-    let match;
-
-    while ((match = stepRegex.exec(planText)) !== null) {
-      steps.push(match[2]!.trim());
-    }
-
-    // Build simple sequential dependencies
-    const dependencies: Record<number, number[]> = {};
-    for (let i = 1; i < steps.length; i++) {
-      dependencies[i] = [i - 1];
-    }
-
-    return { steps, dependencies };
-  }
-
   private formatStepsForReflection(): string {
     return this.steps
       .map((step) => {
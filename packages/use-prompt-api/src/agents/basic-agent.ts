@@ -2,10 +2,10 @@
  * Basic agent for multi-turn task execution
  */
 
-import type { AgentConfig, AgentResult, AgentStep, TaskStatus } from '../types';
+import type { AgentConfig, AgentResult, AgentRunOptions, AgentStep, TaskStatus } from '../types';
 import { SessionManager } from '../core';
 import { FunctionRegistry } from '../function-calling/function-registry';
-import { executeFunctionCall } from '../function-calling/function-executor';
+import { executeFunctionCallWithConfirmation } from '../function-calling/function-executor';
 import {
   buildFunctionSystemPrompt,
   parseFunctionCall,
@@ -18,6 +18,7 @@ export class BasicAgent {
   protected status: TaskStatus = 'idle';
   protected steps: AgentStep[] = [];
   protected shouldStop = false;
+  protected abortController: AbortController | null = null;
 
   constructor(protected config: AgentConfig) {
     this.registry = new FunctionRegistry();
@@ -26,11 +27,21 @@ export class BasicAgent {
     }
   }
 
-  async run(task: string): Promise<AgentResult> {
+  async run(task: string, options: AgentRunOptions = {}): Promise<AgentResult> {
     this.status = 'running';
     this.steps = [];
     this.shouldStop = false;
 
+    // stop() and the caller's signal both abort whatever the agent is waiting on
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const { signal } = abortController;
+    const onExternalAbort = () => this.stop();
+    if (options.signal?.aborted) {
+      this.stop();
+    }
+    options.signal?.addEventListener('abort', onExternalAbort, { once: true });
+
     try {
       // Create session with system prompt
       this.session = new SessionManager();
@@ -54,7 +65,7 @@ export class BasicAgent {
         };
 
         // Get model response
-        const response = await this.session.prompt(currentPrompt);
+        const response = await this.session.prompt(currentPrompt, { signal });
         
         // Parse for function calls
         const parsed = parseFunctionCall(response);
@@ -64,8 +75,13 @@ export class BasicAgent {
           step.thought = parsed.reasoning;
           step.action = parsed.functionCall;
 
-          // Execute function
-          const result = await executeFunctionCall(parsed.functionCall, this.registry);
+          // Execute function, pausing for the user's confirmation on mutating calls
+          const result = await executeFunctionCallWithConfirmation(
+            parsed.functionCall,
+            this.registry,
+            this.config.confirmFunctionCall,
+            { signal }
+          );
           step.observation = result;
 
           // Prepare next prompt with function result
@@ -122,6 +138,16 @@ export class BasicAgent {
         iterations: iteration,
       };
     } catch (error) {
+      if (this.shouldStop) {
+        this.status = 'stopped';
+        return {
+          status: 'stopped',
+          steps: this.steps,
+          finalAnswer: this.steps[this.steps.length - 1]?.thought,
+          iterations: this.steps.length,
+        };
+      }
+
       this.status = 'failed';
       return {
         status: 'failed',
@@ -130,6 +156,8 @@ export class BasicAgent {
         iterations: this.steps.length,
       };
     } finally {
+      options.signal?.removeEventListener('abort', onExternalAbort);
+      this.abortController = null;
       if (this.session) {
         this.session.destroy();
         this.session = null;
@@ -139,6 +167,7 @@ export class BasicAgent {
 
   stop(): void {
     this.shouldStop = true;
+    this.abortController?.abort();
   }
 
   getStatus(): TaskStatus {
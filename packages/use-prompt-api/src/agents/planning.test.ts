@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatPlan, parsePlan } from './planning';
+
+describe('parsePlan', () => {
+  it('reads numbered steps and chains each to the one before', () => {
+    const plan = parsePlan('1. Open the page\n2) Find the search box\n  3.   Search for "pricing"  ');
+
+    expect(plan.steps).toEqual(['Open the page', 'Find the search box', 'Search for "pricing"']);
+    expect(plan.dependencies).toEqual({ 1: [0], 2: [1] });
+  });
+
+  it('ignores prose around the list and numbers inside a step', () => {
+    const plan = parsePlan(
+      'Here is my plan:\n\n1. Read the 2. paragraph\nThis needs care.\n2. Summarize it in 3 sentences\n\nDone in 2. steps.'
+    );
+
+    expect(plan.steps).toEqual(['Read the 2. paragraph', 'Summarize it in 3 sentences']);
+  });
+
+  it('returns an empty plan when there are no numbered steps', () => {
+    expect(parsePlan('I will just answer directly.')).toEqual({ steps: [], dependencies: {} });
+    expect(parsePlan('')).toEqual({ steps: [], dependencies: {} });
+  });
+
+  it('gives a single step no dependencies', () => {
+    expect(parsePlan('1. Answer the question')).toEqual({ steps: ['Answer the question'], dependencies: {} });
+  });
+});
+
+describe('formatPlan', () => {
+  it('numbers the steps from 1', () => {
+    expect(formatPlan({ steps: ['Open the page', 'Read it'], dependencies: { 1: [0] } })).toBe(
+      '1. Open the page\n2. Read it'
+    );
+  });
+
+  it('round-trips through parsePlan', () => {
+    const plan = parsePlan('1. First\n2. Second\n3. Third');
+
+    expect(parsePlan(formatPlan(plan))).toEqual(plan);
+  });
+});
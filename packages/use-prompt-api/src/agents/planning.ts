@@ -0,0 +1,34 @@
+/**
+ * Plan parsing shared by AdvancedAgent and custom agent loops
+ */
+
+import type { AgentPlan } from '../types';
+
+/**
+ * Parse a numbered list ("1. Do this") into a plan with sequential dependencies.
+ * Only numbers at the start of a line count as steps.
+ */
+export function parsePlan(planText: string): AgentPlan {
+  const stepRegex = /^\s*(\d+)[.)]\s*(.+)$/gm;
+  const steps: string[] = [];
+  let match;
+
+  while ((match = stepRegex.exec(planText)) !== null) {
+    steps.push(match[2]!.trim());
+  }
+
+  // Build simple sequential dependencies
+  const dependencies: Record<number, number[]> = {};
+  for (let i = 1; i < steps.length; i++) {
+    dependencies[i] = [i - 1];
+  }
+
+  return { steps, dependencies };
+}
+
+/**
+ * Format a plan back into a numbered list, e.g. to include it in a prompt.
+ */
+export function formatPlan(plan: AgentPlan): string {
+  return plan.steps.map((step, index) => `${index + 1}. ${step}`).join('\n');
+}
@@ -2,12 +2,33 @@
  * Function execution utilities
  */
 
-import type { FunctionCall, ToolResult } from '../types';
+import type { ConfirmationHandler, FunctionCall, FunctionCallContext, FunctionDefinition, ToolResult } from '../types';
 import { FunctionRegistry } from './function-registry';
 
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts so callers are not held
+ * up by handlers that ignore the signal.
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Function call aborted'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
 export async function executeFunctionCall(
   call: FunctionCall,
-  registry: FunctionRegistry
+  registry: FunctionRegistry,
+  context: FunctionCallContext = {}
 ): Promise<ToolResult> {
   const { name, arguments: args } = call;
 
@@ -31,7 +52,7 @@ export async function executeFunctionCall(
     }
 
     // Execute the function
-    const result = await definition.handler(args);
+    const result = await raceAbort(Promise.resolve(definition.handler(args, context)), context.signal);
 
     return {
       success: true,
@@ -76,6 +97,60 @@ function validateArguments(
   return null;
 }
 
+export function requiresConfirmation(definition: FunctionDefinition | undefined): boolean {
+  return definition?.riskLevel === 'mutating';
+}
+
+export async function describeFunctionCall(
+  call: FunctionCall,
+  definition: FunctionDefinition | undefined
+): Promise<string> {
+  const fallback = `run ${call.name} with ${JSON.stringify(call.arguments)}`;
+  if (!definition?.describeCall) {
+    return fallback;
+  }
+
+  try {
+    return await definition.describeCall(call.arguments);
+  } catch (error) {
+    console.warn(`Failed to describe call to ${call.name}:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Execute a function call, asking `confirm` first when the function is mutating.
+ * Declined calls (and mutating calls without a confirmation handler) are reported
+ * back as failed results so the model can tell the user.
+ */
+export async function executeFunctionCallWithConfirmation(
+  call: FunctionCall,
+  registry: FunctionRegistry,
+  confirm?: ConfirmationHandler,
+  context: FunctionCallContext = {}
+): Promise<ToolResult> {
+  const definition = registry.get(call.name);
+
+  if (requiresConfirmation(definition)) {
+    const approved = confirm
+      ? await confirm({
+          functionCall: call,
+          riskLevel: definition!.riskLevel!,
+          description: await describeFunctionCall(call, definition),
+        })
+      : false;
+
+    if (!approved) {
+      return {
+        success: false,
+        error: `The user declined to run ${call.name}. Do not retry unless they ask again.`,
+      };
+    }
+  }
+
+  return executeFunctionCall(call, registry, context);
+}
+
 export async function executeFunctionCalls(
   calls: FunctionCall[],
   registry: FunctionRegistry
@@ -64,13 +64,15 @@ export function createFunctionDefinition(
   name: string,
   description: string,
   parameters: FunctionParameter,
-  handler: (...args: unknown[]) => Promise<unknown> | unknown
+  handler: (...args: unknown[]) => Promise<unknown> | unknown,
+  options: Pick<FunctionDefinition, 'riskLevel' | 'describeCall'> = {}
 ): FunctionDefinition {
   return {
     name,
     description,
     parameters,
     handler,
+    ...options,
   };
 }
 
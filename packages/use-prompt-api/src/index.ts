@@ -39,6 +39,9 @@ export {
 } from './function-calling/function-registry';
 export {
   executeFunctionCall,
+  executeFunctionCallWithConfirmation,
+  requiresConfirmation,
+  describeFunctionCall,
   executeFunctionCalls,
   formatToolResult,
   formatToolResults,
@@ -67,6 +70,7 @@ export {
   StoppingConditions,
   createRetryStrategy,
 } from './agents/agent-utils';
+export { parsePlan, formatPlan } from './agents/planning';
 
 // Streaming
 export { StreamProcessor, collectStream, streamToAsyncIterator } from './streaming/stream-processor';
@@ -123,8 +127,13 @@ export type {
   StructuredPromptOptions,
   FunctionParameter,
   FunctionDefinition,
+  RiskLevel,
   FunctionCall,
   ToolResult,
+  ConfirmationRequest,
+  ConfirmationHandler,
+  FunctionCallContext,
+  AgentRunOptions,
   TaskStatus,
   AgentStep,
   AgentConfig,
@@ -72,11 +72,22 @@ export interface FunctionParameter {
   required?: string[];
 }
 
+/**
+ * What a function can change. Read-only functions only observe, navigation functions
+ * move focus or scroll, and mutating functions change page or user data, so agents
+ * ask for confirmation before running them.
+ */
+export type RiskLevel = 'read-only' | 'navigation' | 'mutating';
+
 export interface FunctionDefinition {
   name: string;
   description: string;
   parameters: FunctionParameter;
   handler: (...args: unknown[]) => Promise<unknown> | unknown;
+  // Treated as 'read-only' when omitted
+  riskLevel?: RiskLevel;
+  // Human readable summary of a call, used when asking the user for confirmation
+  describeCall?: (args: Record<string, unknown>) => Promise<string> | string;
 }
 
 export interface FunctionCall {
@@ -90,6 +101,20 @@ export interface ToolResult {
   error?: string;
 }
 
+export interface ConfirmationRequest {
+  functionCall: FunctionCall;
+  riskLevel: RiskLevel;
+  description: string;
+}
+
+// Passed to function handlers as their second argument
+export interface FunctionCallContext {
+  signal?: AbortSignal;
+}
+
+// Resolves to true when the user approves the call
+export type ConfirmationHandler = (request: ConfirmationRequest) => Promise<boolean>;
+
 // Agent Types
 export type TaskStatus = 'idle' | 'running' | 'completed' | 'failed' | 'stopped';
 
@@ -107,6 +132,13 @@ export interface AgentConfig {
   systemPrompt?: string;
   onStep?: (step: AgentStep) => void;
   stopCondition?: (steps: AgentStep[]) => boolean;
+  // Asked before every mutating function call; without it mutating calls are declined
+  confirmFunctionCall?: ConfirmationHandler;
+}
+
+export interface AgentRunOptions {
+  // Aborts the in-flight prompt and function call and ends the run as 'stopped'
+  signal?: AbortSignal;
 }
 
 export interface AdvancedAgentConfig extends AgentConfig {
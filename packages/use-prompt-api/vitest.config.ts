@@ -1,6 +1,8 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  // Keeps Vite from picking up the extension's PostCSS config from the repository root
+  css: { postcss: {} },
   test: {
     environment: 'jsdom',
     globals: true,
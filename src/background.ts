@@ -1,6 +1,14 @@
 // Background script to handle keyboard shortcuts and sidepanel commands
 
 import { err, log } from "~lib/log";
+import { call, createReceiver, notify } from "~lib/messaging";
+import { DEFAULT_EMBEDDING_MODEL_ID, type EmbeddingModelInfo } from "~lib/semantic-search/embedding-model";
+import { PreIndexScheduler } from "~lib/semantic-search/pre-indexer";
+import { ChromeTTSEngine, handleOffscreenPlaybackEvent, OffscreenNeuralEngine, type TTSEngine } from "~lib/tts/engine";
+import { DEFAULT_NEURAL_VOICE_ID, getNeuralVoice } from "~lib/tts/neural-voice";
+import { SpeechCoordinator, type SpeechOrigin } from "~lib/tts/speech-coordinator";
+import { USER_CONFIG_STORAGE_KEY } from "~lib/user-config-storage";
+import type { UserConfig } from "~types/user-config";
 
 // Debug helper for offscreen communication
 declare global {
@@ -33,33 +41,43 @@ let creatingOffscreen: Promise<void> | null = null;
 let cacheCleanupInterval: NodeJS.Timeout | null = null;
 
 /**
- * Ensure offscreen document for embedding generation exists
+ * Check if offscreen document already exists
  */
-async function ensureEmbeddingOffscreenDocument(): Promise<void> {
+async function offscreenDocumentExists(): Promise<boolean> {
     const offscreenUrl = chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH);
-
-    // Check if offscreen document already exists
     const existingContexts = await chrome.runtime.getContexts({
         contextTypes: ['OFFSCREEN_DOCUMENT'],
         documentUrls: [offscreenUrl]
     });
+    return existingContexts.length > 0;
+}
 
-    if (existingContexts.length > 0) {
+/**
+ * Ensure offscreen document for embedding generation exists
+ */
+async function ensureEmbeddingOffscreenDocument(): Promise<void> {
+    // Avoid creating multiple instances. Checked first: the document exists before it
+    // has been switched to the configured model.
+    if (creatingOffscreen) {
+        await creatingOffscreen;
         return;
     }
 
-    // Avoid creating multiple instances
-    if (creatingOffscreen) {
-        await creatingOffscreen;
+    if (await offscreenDocumentExists()) {
         return;
     }
 
     try {
-        creatingOffscreen = chrome.offscreen.createDocument({
-            url: OFFSCREEN_DOCUMENT_PATH,
-            reasons: ['DOM_PARSER' as chrome.offscreen.Reason],
-            justification: 'Load and run transformers.js model for semantic search embeddings'
-        });
+        creatingOffscreen = (async () => {
+            await chrome.offscreen.createDocument({
+                url: OFFSCREEN_DOCUMENT_PATH,
+                reasons: ['DOM_PARSER' as chrome.offscreen.Reason, 'AUDIO_PLAYBACK' as chrome.offscreen.Reason],
+                justification: 'Load and run transformers.js models for semantic search embeddings, and synthesize and play neural speech'
+            });
+
+            // A new document starts with the default model; switch it before any request uses it
+            await call('offscreen', { type: 'SELECT_EMBEDDING_MODEL', modelId: await getConfiguredEmbeddingModelId() });
+        })();
 
         await creatingOffscreen;
         creatingOffscreen = null;
@@ -72,24 +90,53 @@ async function ensureEmbeddingOffscreenDocument(): Promise<void> {
     }
 }
 
+/**
+ * The embedding model chosen in Advanced settings. Read from storage each time, since
+ * the settings are changed from the sidepanel.
+ */
+async function getConfiguredEmbeddingModelId(): Promise<string> {
+    const result = await chrome.storage.local.get(USER_CONFIG_STORAGE_KEY);
+    const config = result[USER_CONFIG_STORAGE_KEY] as UserConfig | undefined;
+    return config?.advanced?.embeddingModel ?? DEFAULT_EMBEDDING_MODEL_ID;
+}
+
+/**
+ * The neural voice chosen in TTS settings, read from storage like the embedding model
+ */
+async function getConfiguredNeuralVoiceId(): Promise<string> {
+    const result = await chrome.storage.local.get(USER_CONFIG_STORAGE_KEY);
+    const config = result[USER_CONFIG_STORAGE_KEY] as UserConfig | undefined;
+    return config?.tts?.neuralVoice ?? DEFAULT_NEURAL_VOICE_ID;
+}
+
+/**
+ * The engine chosen in TTS settings: a neural voice plays in the offscreen document,
+ * system voices through chrome.tts
+ */
+async function getConfiguredSpeechEngine(): Promise<TTSEngine> {
+    const result = await chrome.storage.local.get(USER_CONFIG_STORAGE_KEY);
+    const config = result[USER_CONFIG_STORAGE_KEY] as UserConfig | undefined;
+    if (config?.tts?.engine === 'neural') {
+        return new OffscreenNeuralEngine(getNeuralVoice(config.tts.neuralVoice).id, ensureEmbeddingOffscreenDocument);
+    }
+    return systemSpeechEngine;
+}
+
 /**
  * Load embedding model in offscreen document
  */
-async function loadEmbeddingModel(): Promise<void> {
+async function loadEmbeddingModel(modelId?: string): Promise<EmbeddingModelInfo> {
     try {
         await ensureEmbeddingOffscreenDocument();
 
         log('[semantic-search] Loading embedding model...');
-        const response = await chrome.runtime.sendMessage({
-            target: 'offscreen',
-            type: 'LOAD_EMBEDDING_MODEL'
+        const { model } = await call('offscreen', {
+            type: 'LOAD_EMBEDDING_MODEL',
+            modelId: modelId ?? await getConfiguredEmbeddingModelId()
         });
 
-        if (!response?.success) {
-            throw new Error(response?.error || 'Failed to load embedding model');
-        }
-
-        log('[semantic-search] Embedding model loaded successfully');
+        log('[semantic-search] Embedding model loaded successfully:', model.id);
+        return model;
     } catch (error) {
         err('[semantic-search] Failed to load embedding model:', error);
         throw error;
@@ -105,18 +152,10 @@ async function generateEmbedding(text: string): Promise<number[]> {
 
         log('[semantic-search] Generating embedding for text:', text.substring(0, 100) + '...');
 
-        const response = await chrome.runtime.sendMessage({
-            target: 'offscreen',
-            type: 'GENERATE_EMBEDDING',
-            text
-        });
-
-        if (!response?.success || !response.embedding) {
-            throw new Error(response?.error || 'Failed to generate embedding');
-        }
+        const { embedding } = await call('offscreen', { type: 'GENERATE_EMBEDDING', text });
 
-        // log('[semantic-search] Generated embedding with dimension:', response.embedding.length);
-        return response.embedding;
+        // log('[semantic-search] Generated embedding with dimension:', embedding.length);
+        return embedding;
     } catch (error) {
         err('[semantic-search] Error generating embedding:', error);
         throw error;
@@ -132,18 +171,10 @@ async function generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
 
         log('[semantic-search] Generating embeddings for', texts.length, 'texts');
 
-        const response = await chrome.runtime.sendMessage({
-            target: 'offscreen',
-            type: 'BATCH_GENERATE_EMBEDDINGS',
-            texts
-        });
-
-        if (!response?.success || !response.embeddings) {
-            throw new Error(response?.error || 'Failed to generate batch embeddings');
-        }
+        const { embeddings } = await call('offscreen', { type: 'BATCH_GENERATE_EMBEDDINGS', texts });
 
-        log('[semantic-search] Generated', response.embeddings.length, 'embeddings');
-        return response.embeddings;
+        log('[semantic-search] Generated', embeddings.length, 'embeddings');
+        return embeddings;
     } catch (error) {
         err('[semantic-search] Error generating batch embeddings:', error);
         throw error;
@@ -159,16 +190,8 @@ async function cleanupExpiredCacheEntries(): Promise<void> {
 
         await ensureEmbeddingOffscreenDocument();
 
-        const response = await chrome.runtime.sendMessage({
-            target: 'offscreen',
-            type: 'CLEANUP_CACHE'
-        });
-
-        if (response?.success) {
-            log('[semantic-search] Cache cleanup completed');
-        } else {
-            throw new Error(response?.error || 'Failed to cleanup cache');
-        }
+        await call('offscreen', { type: 'CLEANUP_CACHE' });
+        log('[semantic-search] Cache cleanup completed');
     } catch (error) {
         err('[semantic-search] Error during cache cleanup:', error);
     }
@@ -202,8 +225,8 @@ function stopCacheCleanup(): void {
 
 function toggleSidepanel(options: chrome.sidePanel.OpenOptions) {
     chrome.sidePanel.open(options)
-    chrome.runtime.sendMessage({
-        type: 'close-sidepanel',
+    notify('sidepanel', {
+        type: 'CLOSE_SIDEPANEL',
         tabId: options.tabId
     })
     log("Runtime message sent: close-sidepanel");
@@ -226,9 +249,7 @@ chrome.commands.onCommand.addListener(async (command) => {
         try {
             chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
                 if (tabs[0]?.id) {
-                    chrome.tabs.sendMessage(tabs[0].id, {
-                        type: 'FOCUS_SEMANTIC_SEARCH'
-                    });
+                    notify('content', { type: 'FOCUS_SEMANTIC_SEARCH' }, { tabId: tabs[0].id });
                 }
             });
         } catch (error) {
@@ -248,168 +269,223 @@ console.log("Background script loaded");
 // Start cache cleanup when background script loads
 startCacheCleanup();
 
-// Handle embedding-related messages
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-    if (message.type === 'LOAD_EMBEDDING_MODEL') {
-        loadEmbeddingModel()
-            .then(() => {
-                sendResponse({ success: true });
-            })
-            .catch((error) => {
-                sendResponse({ success: false, error: error.message });
-            });
-        return true; // Keep message channel open for async response
-    }
+// Switch a running offscreen document to a newly chosen embedding model. A document
+// created later picks up the setting itself.
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    const change = changes[USER_CONFIG_STORAGE_KEY];
+    if (areaName !== 'local' || !change) return;
 
-    if (message.type === 'GENERATE_EMBEDDING') {
-        generateEmbedding(message.text)
-            .then((embedding) => {
-                sendResponse({ success: true, embedding });
-            })
-            .catch((error) => {
-                sendResponse({ success: false, error: error.message });
-            });
-        return true; // Keep message channel open for async response
-    }
+    const modelId: string | undefined = change.newValue?.advanced?.embeddingModel;
+    if (!modelId || modelId === change.oldValue?.advanced?.embeddingModel) return;
 
-    if (message.type === 'BATCH_GENERATE_EMBEDDINGS') {
-        generateBatchEmbeddings(message.texts)
-            .then((embeddings) => {
-                sendResponse({ success: true, embeddings });
-            })
-            .catch((error) => {
-                sendResponse({ success: false, error: error.message });
-            });
-        return true; // Keep message channel open for async response
-    }
+    (async () => {
+        if (!(await offscreenDocumentExists())) return;
 
-    if (message.type === 'CLEANUP_CACHE') {
-        (async () => {
-            try {
-                await ensureEmbeddingOffscreenDocument();
-                log('[background] Forwarding CLEANUP_CACHE to offscreen');
-
-                const response = await chrome.runtime.sendMessage({
-                    target: 'offscreen',
-                    type: 'CLEANUP_CACHE'
-                });
-
-                sendResponse(response);
-            } catch (error) {
-                err('[background] ❌ Error forwarding cleanup cache request:', error);
-                sendResponse({ success: false, error: error.message });
-            }
-        })();
-        return true;
-    }
+        const { model } = await call('offscreen', { type: 'SELECT_EMBEDDING_MODEL', modelId });
+        log('[semantic-search] Switched embedding model to', model.id);
+    })().catch(error => err('[semantic-search] Failed to switch embedding model:', error));
+});
 
-    // Forward cache operations to offscreen document
-    if (message.type === 'GET_CACHED_EMBEDDINGS') {
-        (async () => {
-            try {
-                await ensureEmbeddingOffscreenDocument();
-                log('[background] Forwarding GET_CACHED_EMBEDDINGS to offscreen');
-
-                const response = await chrome.runtime.sendMessage({
-                    target: 'offscreen',
-                    type: 'GET_CACHED_EMBEDDINGS',
-                    url: message.url,
-                    segments: message.segments
-                });
-                log('[background] Response from GET_CACHED_EMBEDDINGS (offscreen):', response);
-
-                sendResponse(response);
-            } catch (error) {
-                err('[background] ❌ Error forwarding cache request:', error);
-                sendResponse({ success: false, error: error.message, cachedEmbeddings: null });
-            }
-        })();
-        return true;
-    }
+// Index the active tab ahead of the first search when pre-indexing is enabled in
+// Advanced settings. The scheduler checks the setting, domain lists and budget itself.
+const preIndexScheduler = new PreIndexScheduler(ensureEmbeddingOffscreenDocument);
 
-    if (message.type === 'GET_CACHED_EMBEDDINGS_BY_URL') {
-        (async () => {
-            try {
-                await ensureEmbeddingOffscreenDocument();
-                log('[background] Forwarding GET_CACHED_EMBEDDINGS_BY_URL to offscreen');
-
-                const response = await chrome.runtime.sendMessage({
-                    target: 'offscreen',
-                    type: 'GET_CACHED_EMBEDDINGS_BY_URL',
-                    url: message.url
-                });
-                log('[background] Response from GET_CACHED_EMBEDDINGS_BY_URL (offscreen):', response);
-
-                sendResponse(response);
-            } catch (error) {
-                err('[background] ❌ Error forwarding cache lookup by URL request:', error);
-                sendResponse({ success: false, error: error.message, cachedEmbeddings: null });
-            }
-        })();
-        return true;
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+    if (changeInfo.status === 'complete' && tab.active && tab.url) {
+        preIndexScheduler.schedule(tabId, tab.url);
     }
+});
+
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+    chrome.tabs.get(tabId).then(tab => {
+        if (tab.status === 'complete' && tab.url) {
+            preIndexScheduler.schedule(tabId, tab.url);
+        }
+    }).catch(error => err('[semantic-search] Failed to get activated tab:', error));
+});
 
+// All speech, from the sidepanel and every tab, is played from here so that only one
+// thing is said at a time and the global pause and stop reach it
+const systemSpeechEngine = new ChromeTTSEngine();
 
-    if (message.type === 'CACHE_EMBEDDINGS') {
-        (async () => {
-            try {
-                await ensureEmbeddingOffscreenDocument();
-                log('[background] Forwarding CACHE_EMBEDDINGS to offscreen');
-
-                const response = await chrome.runtime.sendMessage({
-                    target: 'offscreen',
-                    type: 'CACHE_EMBEDDINGS',
-                    url: message.url,
-                    segments: message.segments,
-                    embeddings: message.embeddings
-                });
-
-                sendResponse(response);
-            } catch (error) {
-                err('[background] ❌ Error forwarding cache request:', error);
-                sendResponse({ success: false, error: error.message });
-            }
-        })();
-        return true;
-    }
+// Tabs whose content script follows the speech state; each asks for it with
+// GET_SPEECH_STATE when it loads and whenever it becomes visible again, which also
+// re-registers it after the service worker restarted
+const speechStateTabs = new Set<number>();
 
-    if (message.type === 'GET_CACHE_STATS') {
-        (async () => {
-            try {
-                await ensureEmbeddingOffscreenDocument();
-                log('[background] Forwarding GET_CACHE_STATS to offscreen');
-
-                const response = await chrome.runtime.sendMessage({
-                    target: 'offscreen',
-                    type: 'GET_CACHE_STATS'
-                });
-
-                sendResponse(response);
-            } catch (error) {
-                err('[background] ❌ Error forwarding cache stats request:', error);
-                sendResponse({ success: false, error: error.message });
-            }
-        })();
-        return true;
+chrome.tabs.onRemoved.addListener((tabId) => {
+    speechStateTabs.delete(tabId);
+});
+
+const speechCoordinator = new SpeechCoordinator({
+    getEngine: getConfiguredSpeechEngine,
+    fallbackEngine: systemSpeechEngine,
+    onEvent: (origin, event) => {
+        // Requests without a tab come from the sidepanel
+        if (origin.tabId != null) {
+            notify('content', { type: 'SPEECH_EVENT', ...event }, { tabId: origin.tabId });
+        } else {
+            notify('sidepanel', { type: 'SPEECH_EVENT', ...event });
+        }
+    },
+    onStateChange: (state) => {
+        notify('sidepanel', { type: 'SPEECH_STATE', state });
+        speechStateTabs.forEach(tabId => {
+            notify('content', { type: 'SPEECH_STATE', state }, { tabId });
+        });
     }
+});
 
-    if (message.type === 'CLEAR_ALL_CACHE') {
-        (async () => {
-            try {
-                await ensureEmbeddingOffscreenDocument();
-                log('[background] Forwarding CLEAR_ALL_CACHE to offscreen');
-
-                const response = await chrome.runtime.sendMessage({
-                    target: 'offscreen',
-                    type: 'CLEAR_ALL_CACHE'
-                });
-
-                sendResponse(response);
-            } catch (error) {
-                err('[background] ❌ Error forwarding clear cache request:', error);
-                sendResponse({ success: false, error: error.message });
-            }
-        })();
-        return true;
+const speechOrigin = (sender: chrome.runtime.MessageSender): SpeechOrigin => ({
+    tabId: sender.tab?.id,
+    tabTitle: sender.tab?.title
+});
+
+// Handle embedding-related messages. Cache and memory operations are forwarded to the
+// offscreen document, which owns the PGlite database, and so is speech synthesis.
+chrome.runtime.onMessage.addListener(createReceiver('background', {
+    LOAD_EMBEDDING_MODEL: async ({ modelId }) => ({ model: await loadEmbeddingModel(modelId) }),
+    BENCHMARK_EMBEDDING_MODELS: async ({ modelIds }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding BENCHMARK_EMBEDDING_MODELS to offscreen');
+        return call('offscreen', { type: 'BENCHMARK_EMBEDDING_MODELS', modelIds });
+    },
+    GENERATE_EMBEDDING: async ({ text }) => ({ embedding: await generateEmbedding(text) }),
+    BATCH_GENERATE_EMBEDDINGS: async ({ texts }) => ({ embeddings: await generateBatchEmbeddings(texts) }),
+    CLEANUP_CACHE: async () => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding CLEANUP_CACHE to offscreen');
+        return call('offscreen', { type: 'CLEANUP_CACHE' });
+    },
+    GET_CACHED_EMBEDDINGS: async ({ url, segments }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding GET_CACHED_EMBEDDINGS to offscreen');
+        return call('offscreen', { type: 'GET_CACHED_EMBEDDINGS', url, segments });
+    },
+    GET_CACHED_EMBEDDINGS_BY_URL: async ({ url }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding GET_CACHED_EMBEDDINGS_BY_URL to offscreen');
+        return call('offscreen', { type: 'GET_CACHED_EMBEDDINGS_BY_URL', url });
+    },
+    GET_INDEXED_PAGE: async ({ url }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding GET_INDEXED_PAGE to offscreen');
+        return call('offscreen', { type: 'GET_INDEXED_PAGE', url });
+    },
+    SEARCH_SIMILAR: async ({ query, url, limit, mode, kinds }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding SEARCH_SIMILAR to offscreen');
+        return call('offscreen', { type: 'SEARCH_SIMILAR', query, url, limit, mode, kinds });
+    },
+    CACHE_EMBEDDINGS: async ({ url, title, segments, embeddings }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding CACHE_EMBEDDINGS to offscreen');
+        return call('offscreen', { type: 'CACHE_EMBEDDINGS', url, title, segments, embeddings });
+    },
+    SYNC_PAGE_INDEX: async ({ url, title, segments, batchSize }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding SYNC_PAGE_INDEX to offscreen');
+        return call('offscreen', { type: 'SYNC_PAGE_INDEX', url, title, segments, batchSize });
+    },
+    FIND_UNEMBEDDED_SENTENCES: async ({ url, texts }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding FIND_UNEMBEDDED_SENTENCES to offscreen');
+        return call('offscreen', { type: 'FIND_UNEMBEDDED_SENTENCES', url, texts });
+    },
+    GET_CACHE_STATS: async () => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding GET_CACHE_STATS to offscreen');
+        return call('offscreen', { type: 'GET_CACHE_STATS' });
+    },
+    CLEAR_CACHED_PAGE: async ({ url }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding CLEAR_CACHED_PAGE to offscreen');
+        return call('offscreen', { type: 'CLEAR_CACHED_PAGE', url });
+    },
+    CLEAR_ALL_CACHE: async () => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding CLEAR_ALL_CACHE to offscreen');
+        return call('offscreen', { type: 'CLEAR_ALL_CACHE' });
+    },
+    ADD_MEMORY: async ({ kind, content, sourceUrl }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding ADD_MEMORY to offscreen');
+        return call('offscreen', { type: 'ADD_MEMORY', kind, content, sourceUrl });
+    },
+    SEARCH_MEMORIES: async ({ query, limit, minSimilarity }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding SEARCH_MEMORIES to offscreen');
+        return call('offscreen', { type: 'SEARCH_MEMORIES', query, limit, minSimilarity });
+    },
+    LIST_MEMORIES: async () => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding LIST_MEMORIES to offscreen');
+        return call('offscreen', { type: 'LIST_MEMORIES' });
+    },
+    DELETE_MEMORY: async ({ id }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding DELETE_MEMORY to offscreen');
+        return call('offscreen', { type: 'DELETE_MEMORY', id });
+    },
+    CLEAR_MEMORIES: async () => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding CLEAR_MEMORIES to offscreen');
+        return call('offscreen', { type: 'CLEAR_MEMORIES' });
+    },
+    SYNTHESIZE_SPEECH: async ({ text, voiceId }) => {
+        await ensureEmbeddingOffscreenDocument();
+        log('[background] Forwarding SYNTHESIZE_SPEECH to offscreen');
+        return call('offscreen', { type: 'SYNTHESIZE_SPEECH', text, voiceId: voiceId ?? await getConfiguredNeuralVoiceId() });
+    },
+    SPEAK: ({ id, text, settings, priority, source, boundaries }, sender) => {
+        speechCoordinator.speak({
+            id,
+            text,
+            settings,
+            priority,
+            source,
+            origin: speechOrigin(sender),
+            boundaries: boundaries ?? false,
+            offset: 0
+        });
+        return {};
+    },
+    PAUSE_SPEECH: () => {
+        speechCoordinator.pause();
+        return {};
+    },
+    RESUME_SPEECH: () => {
+        speechCoordinator.resume();
+        return {};
+    },
+    TOGGLE_SPEECH_PAUSE: () => {
+        speechCoordinator.togglePause();
+        return {};
+    },
+    SKIP_SPEECH: () => {
+        speechCoordinator.skip();
+        return {};
+    },
+    STOP_ALL_SPEECH: () => {
+        speechCoordinator.stopAll();
+        return {};
+    },
+    CANCEL_SPEECH_BY_SOURCE: ({ source }, sender) => {
+        speechCoordinator.cancel(speechOrigin(sender), source);
+        return {};
+    },
+    GET_SPEECH_STATE: (_, sender) => {
+        if (sender.tab?.id != null) {
+            speechStateTabs.add(sender.tab.id);
+        }
+        return { state: speechCoordinator.getState() };
+    },
+    SPEECH_PLAYBACK_EVENT: (event) => {
+        handleOffscreenPlaybackEvent(event);
+        return {};
+    },
+    PAGE_INDEX_PROGRESS: async ({ url, embedded, total }) => {
+        await preIndexScheduler.reportProgress(url, embedded, total);
+        return {};
     }
-});
\ No newline at end of file
+}));
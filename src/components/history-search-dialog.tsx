@@ -0,0 +1,143 @@
+import React from 'react';
+import { SearchIcon } from 'lucide-react';
+import { Button } from '~components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '~components/ui/dialog';
+import { Input } from '~components/ui/input';
+import { Spinner } from '~components/ui/spinner';
+import { err } from '~lib/log';
+import {
+  openHistoryResult,
+  searchHistory,
+  type HistorySearchMatch,
+  type HistorySearchResult
+} from '~lib/semantic-search/history-search';
+
+interface HistorySearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * "Search everything I've read": semantic search over every page indexed so far,
+ * grouped by page. Choosing a sentence opens its page and highlights it there.
+ */
+export const HistorySearchDialog: React.FC<HistorySearchDialogProps> = ({ open, onOpenChange }) => {
+  const [query, setQuery] = React.useState('');
+  const [results, setResults] = React.useState<HistorySearchResult[] | null>(null);
+  const [searching, setSearching] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const abortControllerRef = React.useRef<AbortController | null>(null);
+
+  // Closing the dialog drops a search that is still running
+  React.useEffect(() => {
+    if (!open) {
+      abortControllerRef.current?.abort();
+    }
+  }, [open]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setSearching(true);
+    setError(null);
+    try {
+      setResults(await searchHistory(trimmed, { signal: controller.signal }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      err('[semantic-search] History search failed:', error);
+      setError('Search failed. Please try again.');
+    } finally {
+      if (abortControllerRef.current === controller) {
+        setSearching(false);
+      }
+    }
+  };
+
+  const handleOpen = async (page: HistorySearchResult, match: HistorySearchMatch) => {
+    try {
+      const found = await openHistoryResult(page.url, match);
+      if (found) {
+        onOpenChange(false);
+      } else {
+        setError(`Opened ${page.title}, but that sentence is no longer on the page.`);
+      }
+    } catch (error) {
+      err('[semantic-search] Failed to open history result:', error);
+      setError(`Could not open ${page.title}.`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-full w-[95vw] h-[90vh] p-0 bg-gray-900 border-gray-700 overflow-hidden flex flex-col gap-0">
+        <div className="px-4 py-3 border-b border-gray-700">
+          <DialogTitle className="text-sm font-semibold text-gray-300">Search Everything I've Read</DialogTitle>
+          <DialogDescription className="text-xs text-gray-400 mt-1">
+            Finds sentences on any page you have visited, not only the open tabs.
+          </DialogDescription>
+          <form onSubmit={handleSearch} className="flex items-center gap-2 mt-3" role="search">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="What are you looking for?"
+              aria-label="Search pages you have read"
+              className="text-white"
+              autoFocus
+            />
+            <Button type="submit" size="sm" variant="ghost" disabled={!query.trim() || searching} aria-label="Search">
+              {searching ? <Spinner /> : <SearchIcon className="w-4 h-4" />}
+            </Button>
+          </form>
+        </div>
+
+        <div className="flex-1 overflow-y-auto" aria-live="polite" aria-busy={searching}>
+          {error && (
+            <p className="px-4 py-2 text-xs text-red-400" role="alert">{error}</p>
+          )}
+
+          {results && results.length === 0 && !searching && (
+            <p className="px-4 py-2 text-xs text-gray-400">No matches in the pages read so far.</p>
+          )}
+
+          {results && results.length > 0 && (
+            <ul aria-label="Matching pages">
+              {results.map(page => (
+                <li key={page.url} className="px-4 py-3 border-b border-gray-700/50">
+                  <div className="text-sm font-medium text-gray-100 truncate">{page.title}</div>
+                  <div className="text-xs text-gray-500 truncate">{hostnameOf(page.url)}</div>
+                  <ul className="mt-2 space-y-1" aria-label={`Matches on ${page.title}`}>
+                    {page.matches.map(match => (
+                      <li key={match.selector + match.text}>
+                        <button
+                          type="button"
+                          onClick={() => handleOpen(page, match)}
+                          className="w-full text-left text-xs text-gray-300 rounded px-2 py-1 hover:bg-gray-800 focus:bg-gray-800 focus:outline-none line-clamp-3"
+                        >
+                          {match.text}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,11 +2,18 @@ import React from 'react';
 import { SettingRow } from './setting-row';
 import { Switch } from '~components/ui/switch';
 import { Input } from '~components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~components/ui/select';
 import { useUserConfig, useAdvancedSettings } from '~contexts/UserConfigContext';
+import { EMBEDDING_MODELS, getEmbeddingModel } from '~lib/semantic-search/embedding-model';
+
+// "example.com, news.site.org" -> ['example.com', 'news.site.org']
+const parseDomainList = (value: string): string[] =>
+  value.split(/[\s,]+/).map(domain => domain.trim().toLowerCase()).filter(Boolean);
 
 export const AdvancedSettingsSection: React.FC = () => {
   const { updateConfig } = useUserConfig();
   const advanced = useAdvancedSettings();
+  const embeddingModel = getEmbeddingModel(advanced.embeddingModel);
 
   return (
     <div className="space-y-1 w-full max-w-full">
@@ -33,6 +40,97 @@ export const AdvancedSettingsSection: React.FC = () => {
         />
       </SettingRow>
 
+      <SettingRow
+        label="Plan Multi-step Requests"
+        description="Break requests into a checklist of steps before acting, and adjust the plan when a step fails"
+      >
+        <Switch
+          checked={advanced.planningMode}
+          onCheckedChange={(checked) => updateConfig({ advanced: { planningMode: checked } })}
+        />
+      </SettingRow>
+
+      <SettingRow
+        label="Search Embedding Model"
+        description={`${embeddingModel.description}. Pages are re-indexed with a new model as you visit them.`}
+      >
+        <Select
+          value={embeddingModel.id}
+          onValueChange={(value) => updateConfig({ advanced: { embeddingModel: value } })}
+        >
+          <SelectTrigger className="w-[180px] max-w-[180px] bg-gray-800 border-gray-600">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-gray-600">
+            {/* A test-only model stays listed while it is the one selected */}
+            {EMBEDDING_MODELS.filter(model => !model.testOnly || model.id === embeddingModel.id).map(model => (
+              <SelectItem key={model.id} value={model.id} className="text-white hover:bg-gray-700">
+                {model.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </SettingRow>
+
+      <SettingRow
+        label="Index Pages in Background"
+        description="Index the active tab once it has loaded, so the first search does not wait for it"
+      >
+        <Switch
+          checked={advanced.preIndexing}
+          onCheckedChange={(checked) => updateConfig({ advanced: { preIndexing: checked } })}
+        />
+      </SettingRow>
+
+      {advanced.preIndexing && (
+        <>
+          <SettingRow
+            label="Daily Indexing Budget"
+            description="Sentences background indexing may embed per day; larger pages are left for search"
+          >
+            <Input
+              type="number"
+              min={0}
+              step={100}
+              value={advanced.preIndexDailyBudget}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (!isNaN(value) && value >= 0) {
+                  updateConfig({ advanced: { preIndexDailyBudget: value } });
+                }
+              }}
+              className="w-24 bg-gray-800 border-gray-600 text-white"
+            />
+          </SettingRow>
+
+          <SettingRow
+            label="Only Index Domains"
+            description="Comma-separated, subdomains included; leave empty for every domain"
+          >
+            <Input
+              key={advanced.preIndexAllowedDomains.join(',')}
+              defaultValue={advanced.preIndexAllowedDomains.join(', ')}
+              placeholder="All domains"
+              onBlur={(e) => updateConfig({ advanced: { preIndexAllowedDomains: parseDomainList(e.target.value) } })}
+              className="w-[180px] bg-gray-800 border-gray-600 text-white"
+            />
+          </SettingRow>
+
+          <SettingRow
+            label="Never Index Domains"
+            description="Comma-separated, subdomains included; takes precedence over the list above"
+          >
+            <Input
+              key={advanced.preIndexBlockedDomains.join(',')}
+              defaultValue={advanced.preIndexBlockedDomains.join(', ')}
+              placeholder="e.g. mail.google.com"
+              onBlur={(e) => updateConfig({ advanced: { preIndexBlockedDomains: parseDomainList(e.target.value) } })}
+              className="w-[180px] bg-gray-800 border-gray-600 text-white"
+            />
+          </SettingRow>
+        </>
+      )}
+
       <SettingRow
         label="Enable Debug Logging"
         description="Enable verbose console logging for debugging"
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from '~components/ui/button';
+import { useUserConfig, useExperienceSettings } from '~contexts/UserConfigContext';
+import {
+  NAVIGATION_COMMANDS,
+  chordFromEvent,
+  describeCommand,
+  formatChord,
+  resolveKeymap,
+  type NavigationCommand
+} from '~lib/navigation/keymap';
+import { SettingRow } from './setting-row';
+
+/**
+ * Reading navigation shortcuts. Activating a shortcut records the next key chord pressed;
+ * Escape cancels and Backspace unbinds the command.
+ */
+export const KeyboardSettingsSection: React.FC = () => {
+  const { updateConfig } = useUserConfig();
+  const experience = useExperienceSettings();
+  const keymap = resolveKeymap(experience.keyBindings);
+  const [recording, setRecording] = React.useState<NavigationCommand | null>(null);
+
+  const bind = (command: NavigationCommand, chord: string) => {
+    const keyBindings = { ...experience.keyBindings, [command]: chord };
+    // A chord runs one command, so it is taken from any other
+    if (chord) {
+      for (const other of NAVIGATION_COMMANDS) {
+        if (other !== command && keymap[other] === chord) {
+          keyBindings[other] = '';
+        }
+      }
+    }
+    updateConfig({ experience: { keyBindings } });
+  };
+
+  const handleKeyDown = (command: NavigationCommand) => (e: React.KeyboardEvent) => {
+    if (recording !== command) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      bind(command, '');
+      setRecording(null);
+      return;
+    }
+
+    const chord = chordFromEvent(e.nativeEvent);
+    if (!chord) return;
+    bind(command, chord);
+    setRecording(null);
+  };
+
+  return (
+    <div className="space-y-1 w-full max-w-full">
+      <div className="px-4 py-2 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Reading Navigation Shortcuts</h3>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => updateConfig({ experience: { keyBindings: {} } })}
+          disabled={Object.keys(experience.keyBindings).length === 0}
+        >
+          Reset all
+        </Button>
+      </div>
+
+      {NAVIGATION_COMMANDS.map(command => (
+        <SettingRow key={command} label={describeCommand(command)} className="min-h-[44px] py-2">
+          <button
+            onClick={() => setRecording(recording === command ? null : command)}
+            onKeyDown={handleKeyDown(command)}
+            onBlur={() => setRecording(prev => prev === command ? null : prev)}
+            aria-label={`${describeCommand(command)}: ${keymap[command] ? formatChord(keymap[command]) : 'unbound'}. Activate to change.`}
+            className={`min-w-[140px] px-2 py-1 rounded border text-xs font-mono ${recording === command
+              ? 'border-blue-400 bg-blue-900/40 text-blue-100'
+              : 'border-gray-600 bg-gray-800 text-gray-200 hover:bg-gray-700'}`}
+          >
+            {recording === command ? 'Press keys…' : keymap[command] ? formatChord(keymap[command]) : 'Unbound'}
+          </button>
+        </SettingRow>
+      ))}
+    </div>
+  );
+};
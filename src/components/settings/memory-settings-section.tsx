@@ -0,0 +1,119 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '~components/ui/button';
+import { err } from '~lib/log';
+import { call } from '~lib/messaging';
+import type { AgentMemory } from '~lib/memory/store';
+
+/**
+ * Lists what the agent remembers about the user, with controls to forget single
+ * memories or all of them.
+ */
+export const MemorySettingsSection: React.FC = () => {
+  const [memories, setMemories] = React.useState<AgentMemory[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [showClearConfirm, setShowClearConfirm] = React.useState(false);
+
+  const loadMemories = React.useCallback(async () => {
+    try {
+      const { memories } = await call('background', { type: 'LIST_MEMORIES' });
+      setMemories(memories);
+      setError(null);
+    } catch (error) {
+      err('[memory] Failed to load memories:', error);
+      setError('Could not load memories');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadMemories();
+  }, [loadMemories]);
+
+  const handleDelete = async (id: number) => {
+    try {
+      await call('background', { type: 'DELETE_MEMORY', id });
+      setMemories(prev => prev.filter(memory => memory.id !== id));
+    } catch (error) {
+      err('[memory] Failed to delete memory:', error);
+      setError('Could not delete the memory');
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await call('background', { type: 'CLEAR_MEMORIES' });
+      setMemories([]);
+    } catch (error) {
+      err('[memory] Failed to clear memories:', error);
+      setError('Could not clear memories');
+    } finally {
+      setShowClearConfirm(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1 w-full max-w-full">
+      <div className="px-4 py-2 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Memory</h3>
+        {memories.length > 0 && (
+          showClearConfirm ? (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-300">Forget everything?</span>
+              <Button size="sm" variant="destructive" onClick={handleClear}>
+                Confirm
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowClearConfirm(false)}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => setShowClearConfirm(true)}>
+              Forget All
+            </Button>
+          )
+        )}
+      </div>
+
+      <p className="px-4 py-2 text-xs text-gray-400">
+        Facts and preferences you mention in conversations are remembered across pages and sessions.
+      </p>
+
+      {error && (
+        <p className="px-4 py-2 text-xs text-red-400" role="alert">{error}</p>
+      )}
+
+      {loading ? (
+        <p className="px-4 py-2 text-xs text-gray-400">Loading memories...</p>
+      ) : memories.length === 0 ? (
+        <p className="px-4 py-2 text-xs text-gray-400">Nothing remembered yet.</p>
+      ) : (
+        <ul aria-label="Remembered facts and preferences">
+          {memories.map(memory => (
+            <li
+              key={memory.id}
+              className="flex items-center justify-between py-3 px-4 border-b border-gray-700/50 hover:bg-gray-800/30 transition-colors"
+            >
+              <div className="flex-1 mr-4 min-w-0">
+                <div className="text-sm text-gray-100">{memory.content}</div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {memory.kind === 'preference' ? 'Preference' : 'Fact'} · {new Date(memory.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDelete(memory.id)}
+                aria-label={`Forget: ${memory.content}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 import React from 'react';
 import { TTSSettingsSection } from './tts-settings-section';
 import { ExperienceSettingsSection } from './experience-settings-section';
+import { KeyboardSettingsSection } from './keyboard-settings-section';
 import { AdvancedSettingsSection } from './advanced-settings-section';
+import { MemorySettingsSection } from './memory-settings-section';
 import { Button } from '~components/ui/button';
 import { useUserConfig } from '~contexts/UserConfigContext';
 
@@ -20,6 +22,8 @@ export const SettingsContainer: React.FC = () => {
         <div className="space-y-8 p-6 max-w-full">
           <TTSSettingsSection />
           <ExperienceSettingsSection />
+          <KeyboardSettingsSection />
+          <MemorySettingsSection />
           <AdvancedSettingsSection />
         </div>
       </div>
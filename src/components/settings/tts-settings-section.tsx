@@ -6,6 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~
 import { useUserConfig, useTTSSettings } from '~contexts/UserConfigContext';
 import { Button } from '~components/ui/button';
 import { Volume2 } from 'lucide-react';
+import { ttsCoordinator } from '~lib/tts-coordinator';
+import { NEURAL_VOICES, getNeuralVoice } from '~lib/tts/neural-voice';
 
 export const TTSSettingsSection: React.FC = () => {
   const { updateConfig } = useUserConfig();
@@ -28,20 +30,20 @@ export const TTSSettingsSection: React.FC = () => {
 
   const speedPresets = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 3, 4];
 
+  // Through the coordinator, so the chosen engine is the one tested
   const testSpeed = () => {
-    const utterance = new SpeechSynthesisUtterance('This is a test of the speech rate.');
-    utterance.rate = tts.speed;
-    utterance.pitch = tts.pitch;
-    utterance.volume = tts.volume;
-    
-    if (tts.voice) {
-      const voice = voices.find(v => v.voiceURI === tts.voice);
-      if (voice) {
-        utterance.voice = voice;
-      }
-    }
-
-    speechSynthesis.speak(utterance);
+    ttsCoordinator.requestTTS({
+      id: `tts-settings-test-${Date.now()}`,
+      text: 'This is a test of the speech rate.',
+      settings: {
+        voice: voices.find(v => v.voiceURI === tts.voice) || null,
+        rate: tts.speed,
+        pitch: tts.pitch,
+        volume: tts.volume
+      },
+      priority: 'high',
+      source: 'sidepanel'
+    });
   };
 
   return (
@@ -50,6 +52,30 @@ export const TTSSettingsSection: React.FC = () => {
         <h3 className="text-sm font-semibold text-gray-300">Playback / TTS</h3>
       </div>
 
+      <SettingRow
+        label="Engine"
+        description={tts.engine === 'neural'
+          ? 'Neural voice runs on this device; downloaded on first use'
+          : 'Voices provided by your system and browser'}
+      >
+        <Select
+          value={tts.engine}
+          onValueChange={(value) => updateConfig({ tts: { engine: value as typeof tts.engine } })}
+        >
+          <SelectTrigger className="w-[180px] max-w-[180px] bg-gray-800 border-gray-600">
+            <SelectValue>{tts.engine === 'neural' ? 'On-device neural' : 'System voices'}</SelectValue>
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-gray-600">
+            <SelectItem value="speech-synthesis" className="text-white hover:bg-gray-700">
+              System voices
+            </SelectItem>
+            <SelectItem value="neural" className="text-white hover:bg-gray-700">
+              On-device neural
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </SettingRow>
+
       <SettingRow
         label="Speed"
         description="Adjust the speech playback speed"
@@ -68,7 +94,9 @@ export const TTSSettingsSection: React.FC = () => {
 
       <SettingRow
         label="Pitch"
-        description="Adjust the pitch of the voice"
+        description={tts.engine === 'neural'
+          ? 'Not adjustable for neural voices'
+          : 'Adjust the pitch of the voice'}
       >
         <AccessibleSlider
           value={tts.pitch}
@@ -95,38 +123,65 @@ export const TTSSettingsSection: React.FC = () => {
       </SettingRow>
 
       <SettingRow
-        label="Voice"
-        description="Choose a voice for text-to-speech"
+        label="Neural voice"
+        description={`${getNeuralVoice(tts.neuralVoice).description}. Also records agent voice replies.`}
       >
         <Select
-          value={tts.voice || 'default'}
-          onValueChange={(value) => updateConfig({ tts: { voice: value === 'default' ? null : value } })}
+          value={getNeuralVoice(tts.neuralVoice).id}
+          onValueChange={(value) => updateConfig({ tts: { neuralVoice: value } })}
         >
           <SelectTrigger className="w-[180px] max-w-[180px] bg-gray-800 border-gray-600">
-            <SelectValue>
-              {tts.voice
-                ? voices.find(v => v.voiceURI === tts.voice)?.name || 'Custom'
-                : 'Default System Voice'
-              }
-            </SelectValue>
+            <SelectValue>{getNeuralVoice(tts.neuralVoice).label}</SelectValue>
           </SelectTrigger>
           <SelectContent className="bg-gray-800 border-gray-600">
-            <SelectItem value="default" className="text-white hover:bg-gray-700">
-              Default System Voice
-            </SelectItem>
-            {voices.map((voice) => (
+            {NEURAL_VOICES.map((voice) => (
               <SelectItem
-                key={voice.voiceURI}
-                value={voice.voiceURI}
+                key={voice.id}
+                value={voice.id}
                 className="text-white hover:bg-gray-700"
               >
-                {voice.name} ({voice.lang})
+                {voice.label}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
       </SettingRow>
 
+      {tts.engine !== 'neural' && (
+        <SettingRow
+          label="Voice"
+          description="Choose a voice for text-to-speech"
+        >
+          <Select
+            value={tts.voice || 'default'}
+            onValueChange={(value) => updateConfig({ tts: { voice: value === 'default' ? null : value } })}
+          >
+            <SelectTrigger className="w-[180px] max-w-[180px] bg-gray-800 border-gray-600">
+              <SelectValue>
+                {tts.voice
+                  ? voices.find(v => v.voiceURI === tts.voice)?.name || 'Custom'
+                  : 'Default System Voice'
+                }
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-600">
+              <SelectItem value="default" className="text-white hover:bg-gray-700">
+                Default System Voice
+              </SelectItem>
+              {voices.map((voice) => (
+                <SelectItem
+                  key={voice.voiceURI}
+                  value={voice.voiceURI}
+                  className="text-white hover:bg-gray-700"
+                >
+                  {voice.name} ({voice.lang})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+      )}
+
       <SettingRow
         label="Auto agent response read aloud"
         description="Automatically read AI responses aloud when they appear"
@@ -146,6 +201,16 @@ export const TTSSettingsSection: React.FC = () => {
           onCheckedChange={(checked) => updateConfig({ tts: { stopOnHandsUp: checked } })}
         />
       </SettingRow>
+
+      <SettingRow
+        label="Lower page audio while speaking"
+        description="Turn down videos and other audio on the page while text is read aloud"
+      >
+        <Switch
+          checked={tts.duckMedia}
+          onCheckedChange={(checked) => updateConfig({ tts: { duckMedia: checked } })}
+        />
+      </SettingRow>
     </div>
   );
 };
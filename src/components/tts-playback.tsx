@@ -3,6 +3,10 @@ import React from "react"
 
 type TtsPlaybackProps = {
     isPlaying: boolean
+    // Speech is paused, here or wherever it plays
+    isPaused?: boolean
+    // Where speech that did not come from this page is playing, e.g. another tab's title
+    nowSpeaking?: string
     onPlayPause: () => void
     onStop: () => void
     onHandsUp: () => void
@@ -11,6 +15,8 @@ type TtsPlaybackProps = {
 
 const TtsPlayback: React.FC<TtsPlaybackProps> = ({
     isPlaying,
+    isPaused = false,
+    nowSpeaking,
     onPlayPause,
     onStop,
     onHandsUp,
@@ -18,7 +24,7 @@ const TtsPlayback: React.FC<TtsPlaybackProps> = ({
     className,
     ...props
 }) => {
-    if (!isPlaying && !isListening && !window.speechSynthesis.paused) return null
+    if (!isPlaying && !isListening && !isPaused) return null
 
     return (
         <div className={className} {...props}>
@@ -33,6 +39,16 @@ const TtsPlayback: React.FC<TtsPlaybackProps> = ({
                         }`}
                 />
 
+                {nowSpeaking && (
+                    <span
+                        className="max-w-[4rem] truncate text-xs text-white/80"
+                        title={`Speaking: ${nowSpeaking}`}
+                        aria-label={`Speaking from ${nowSpeaking}`}
+                    >
+                        {nowSpeaking}
+                    </span>
+                )}
+
                 {/* Play/Pause button */}
                 <button
                     onClick={onPlayPause}
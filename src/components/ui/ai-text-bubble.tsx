@@ -88,8 +88,9 @@ export const AITextBubble: React.FC<AITextBubbleProps> = ({
             console.log('Auto-readout triggered for AI response');
             // Add a small delay to ensure any existing TTS is cancelled
             setTimeout(() => {
-                // Double-check that we're still not playing and TTS coordinator is not busy
-                if (!isPlaying && !ttsCoordinator.isCurrentlyPlaying()) {
+                // Double-check that we're still not playing and the sidepanel is not already speaking.
+                // Reading in a tab is interrupted: answers have the higher priority.
+                if (!isPlaying && !ttsCoordinator.isSpeakingHere()) {
                     handlePlayTTS();
                 }
             }, 100);
@@ -3,6 +3,7 @@ import { ScrollArea } from '~components/ui/scroll-area';
 import { VoiceMemoBubble } from '~components/ui/voice-memo-bubble';
 import { AITextBubble } from '~components/ui/ai-text-bubble';
 import FunctionCallBubble from '~components/ui/function-call-bubble';
+import { PlanChecklist } from '~components/ui/plan-checklist';
 import { cn } from '~lib/utils';
 import type { ChatInterfaceProps } from '~types/voice-memo';
 import { ChevronDown } from 'lucide-react';
@@ -16,6 +17,7 @@ export const ChatInterface: React.FC<ChatInterfacePropsExtended> = ({
     onSendMessage,
     onPlayMessage,
     onDeleteMessage,
+    onConfirmFunctionCall,
     isLoading = false,
     className,
     currentStreamingMessageId
@@ -93,6 +95,14 @@ export const ChatInterface: React.FC<ChatInterfacePropsExtended> = ({
                         ) : (
                             <>
                                 {messages.map((message, index) => {
+                                    if (message.plan) {
+                                        return (
+                                            <div key={message.id} className="flex justify-start my-2">
+                                                <PlanChecklist plan={message.plan} />
+                                            </div>
+                                        );
+                                    }
+
                                     // Render progress messages differently
                                     if (message.progressUpdate) {
                                         return (
@@ -154,9 +164,11 @@ export const ChatInterface: React.FC<ChatInterfacePropsExtended> = ({
                                                         functionName: message.functionCallResponse.functionCall.name,
                                                         parameters: message.functionCallResponse.functionCall.arguments,
                                                         confidence: 1.0,
-                                                        result: message.functionCallResponse.result
+                                                        result: message.functionCallResponse.result,
+                                                        confirmation: message.functionCallResponse.confirmation
                                                     }}
                                                     timestamp={message.createdAt}
+                                                    onConfirm={onConfirmFunctionCall}
                                                     className="mb-4"
                                                 />
                                             </div>
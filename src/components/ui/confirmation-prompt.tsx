@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '~components/ui/button';
+import { useTTSSettings } from '~contexts/UserConfigContext';
+import { confirmationQuestion } from '~lib/functions/confirmation';
+import { ttsCoordinator } from '~lib/tts-coordinator';
+import type { FunctionCallConfirmation } from '~types/voice-memo';
+
+interface ConfirmationPromptProps {
+    confirmation: FunctionCallConfirmation;
+    onConfirm?: (approved: boolean) => void;
+}
+
+/**
+ * Asks the user to approve a mutating tool call. The question is read aloud when it
+ * appears; it can be answered with the buttons, Enter / Escape, or by saying yes or no.
+ */
+export const ConfirmationPrompt: React.FC<ConfirmationPromptProps> = ({ confirmation, onConfirm }) => {
+    const ttsSettings = useTTSSettings();
+    const confirmButtonRef = useRef<HTMLButtonElement>(null);
+    const isPending = confirmation.status === 'pending';
+    const question = confirmationQuestion(confirmation.description);
+
+    useEffect(() => {
+        if (!isPending) return;
+
+        confirmButtonRef.current?.focus();
+        ttsCoordinator.cancelBySource('sidepanel');
+        ttsCoordinator.requestTTS({
+            id: `confirmation-${Date.now()}`,
+            text: `${question} Say yes or no, or press Enter to confirm and Escape to cancel.`,
+            settings: {
+                rate: ttsSettings.speed,
+                pitch: ttsSettings.pitch,
+                volume: ttsSettings.volume
+            },
+            priority: 'high',
+            source: 'sidepanel'
+        });
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                onConfirm?.(false);
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+        // Only announce once per request
+    }, [isPending, question]);
+
+    if (!isPending) {
+        return (
+            <p className="text-xs text-gray-600">
+                {confirmation.status === 'approved' ? 'Approved' : 'Declined'}: {confirmation.description}
+            </p>
+        );
+    }
+
+    return (
+        <div role="alertdialog" aria-label="Confirm action" className="bg-amber-50 rounded-lg p-3 border border-amber-300 space-y-2">
+            <div className="flex items-center space-x-2">
+                <ShieldAlert className="w-4 h-4 text-amber-600" />
+                <span className="font-medium text-sm text-amber-900">{question}</span>
+            </div>
+            <div className="flex space-x-2">
+                <Button ref={confirmButtonRef} size="sm" onClick={() => onConfirm?.(true)}>
+                    Yes, do it
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onConfirm?.(false)}>
+                    Cancel
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,22 @@
 import React, { useState } from 'react';
 import { ChevronDown, ChevronRight, Code2, Clock, Bot, CheckCircle, XCircle, Loader2 } from 'lucide-react';
 import { cn } from '~lib/utils';
+import type { FunctionCallConfirmation } from '~types/voice-memo';
+import { ConfirmationPrompt } from './confirmation-prompt';
+import { PageSummaryCard, isPageSummary } from './page-summary-card';
 
 interface ParsedFunctionWithResult {
     functionName: string;
     parameters: Record<string, any>;
     confidence: number;
     result: string | object | null;
+    confirmation?: FunctionCallConfirmation;
 }
 
 interface FunctionCallBubbleProps {
     functionCall: ParsedFunctionWithResult;
     timestamp: number;
+    onConfirm?: (approved: boolean) => void;
     className?: string;
 }
 
@@ -32,6 +37,8 @@ const getFunctionIcon = (functionName: string) => {
             return '🔬';
         case 'json_response':
             return '📋';
+        case 'summarizePage':
+            return '📝';
         default:
             return '⚙️';
     }
@@ -54,6 +61,8 @@ const getFunctionDisplayName = (functionName: string) => {
             return 'Analyze';
         case 'json_response':
             return 'JSON Response';
+        case 'summarizePage':
+            return 'Page Summary';
         default:
             return functionName.charAt(0).toUpperCase() + functionName.slice(1);
     }
@@ -62,17 +71,18 @@ const getFunctionDisplayName = (functionName: string) => {
 const FunctionCallBubble: React.FC<FunctionCallBubbleProps> = ({
     functionCall,
     timestamp,
+    onConfirm,
     className
 }) => {
     const [isExpanded, setIsExpanded] = useState(false);
     
-    const { functionName, parameters, confidence, result } = functionCall;
+    const { functionName, parameters, confidence, result, confirmation } = functionCall;
     const functionIcon = getFunctionIcon(functionName);
     const displayName = getFunctionDisplayName(functionName);
     
     // Determine status based on result
     const hasResult = result !== null && result !== undefined;
-    const isError = typeof result === 'string' && result.toLowerCase().includes('error');
+    const isError = (typeof result === 'string' && result.toLowerCase().includes('error')) || confirmation?.status === 'declined';
     const isSuccess = hasResult && !isError;
     
     // Format timestamp
@@ -225,6 +235,18 @@ const FunctionCallBubble: React.FC<FunctionCallBubbleProps> = ({
                     </div>
                 )}
 
+                {/* Confirmation requests stay visible so they can be answered without expanding */}
+                {confirmation && (
+                    <div className="px-4 pb-3">
+                        <ConfirmationPrompt confirmation={confirmation} onConfirm={onConfirm} />
+                    </div>
+                )}
+
+                {/* Page summaries stay visible so they can be read without expanding */}
+                {functionName === 'summarizePage' && isPageSummary(result) && (
+                    <PageSummaryCard summary={result} />
+                )}
+
                 {/* Collapsed summary */}
                 {!isExpanded && (
                     <div className="px-4 pb-4">
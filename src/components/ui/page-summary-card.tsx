@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { useTTSSettings } from '~contexts/UserConfigContext';
+import type { PageSummary } from '~lib/page-summarizer';
+import { ttsCoordinator } from '~lib/tts-coordinator';
+
+interface PageSummaryCardProps {
+    summary: PageSummary;
+}
+
+export const isPageSummary = (value: unknown): value is PageSummary =>
+    typeof value === 'object' && value !== null &&
+    typeof (value as PageSummary).summary === 'string' &&
+    Array.isArray((value as PageSummary).sections);
+
+/**
+ * Shows the page summary and each section summary, with a button to read any of them aloud.
+ */
+export const PageSummaryCard: React.FC<PageSummaryCardProps> = ({ summary }) => {
+    const [playingId, setPlayingId] = useState<string | null>(null);
+    const ttsSettings = useTTSSettings();
+
+    const handleRead = React.useCallback(async (id: string, text: string) => {
+        ttsCoordinator.cancelBySource('sidepanel');
+        if (playingId === id) {
+            setPlayingId(null);
+            return;
+        }
+
+        const voice = speechSynthesis.getVoices().find(v => v.voiceURI === ttsSettings.voice) || null;
+        await ttsCoordinator.requestTTS({
+            id: `page-summary-${id}-${Date.now()}`,
+            text,
+            settings: {
+                voice,
+                rate: ttsSettings.speed,
+                pitch: ttsSettings.pitch,
+                volume: ttsSettings.volume
+            },
+            priority: 'high',
+            source: 'sidepanel',
+            onStart: () => setPlayingId(id),
+            onEnd: () => setPlayingId(current => current === id ? null : current),
+            onError: () => setPlayingId(current => current === id ? null : current)
+        });
+    }, [playingId, ttsSettings.voice, ttsSettings.speed, ttsSettings.pitch, ttsSettings.volume]);
+
+    const renderReadButton = (id: string, text: string, label: string) => (
+        <button
+            onClick={() => handleRead(id, text)}
+            className="p-1 rounded hover:bg-blue-100 transition-colors duration-200"
+            aria-label={playingId === id ? `Stop reading ${label}` : `Read ${label} aloud`}
+        >
+            {playingId === id ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+        </button>
+    );
+
+    return (
+        <div className="px-4 pb-4 space-y-3 text-sm">
+            <div className="bg-white rounded-lg p-3 border border-blue-100">
+                <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-blue-800">{summary.title}</span>
+                    {renderReadButton('page', summary.summary, 'page summary')}
+                </div>
+                <p className="text-xs whitespace-pre-line">{summary.summary}</p>
+            </div>
+
+            {summary.sections.length > 1 && (
+                <ul className="space-y-2" aria-label="Section summaries">
+                    {summary.sections.map((section, index) => (
+                        <li key={`${section.selector}-${index}`} className="bg-white rounded-lg p-3 border border-blue-100">
+                            <div className="flex items-center justify-between mb-1">
+                                <span className="font-medium text-xs text-gray-800">{section.title}</span>
+                                {renderReadButton(`section-${index}`, section.summary, `${section.title} summary`)}
+                            </div>
+                            <p className="text-xs text-gray-700">{section.summary}</p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react';
+import type { AgentPlanProgress, PlanStepStatus } from '~types/voice-memo';
+
+interface PlanChecklistProps {
+    plan: AgentPlanProgress;
+}
+
+const statusLabels: Record<PlanStepStatus, string> = {
+    pending: 'Not started',
+    in_progress: 'In progress',
+    completed: 'Done',
+    failed: 'Failed'
+};
+
+const StatusIcon: React.FC<{ status: PlanStepStatus }> = ({ status }) => {
+    switch (status) {
+        case 'completed':
+            return <CheckCircle2 className="w-4 h-4 text-green-400 flex-shrink-0" aria-hidden="true" />;
+        case 'failed':
+            return <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" aria-hidden="true" />;
+        case 'in_progress':
+            return <Loader2 className="w-4 h-4 text-blue-300 animate-spin flex-shrink-0" aria-hidden="true" />;
+        default:
+            return <Circle className="w-4 h-4 text-gray-500 flex-shrink-0" aria-hidden="true" />;
+    }
+};
+
+/**
+ * The agent's plan for a multi-step request, with each step's status as it runs.
+ */
+export const PlanChecklist: React.FC<PlanChecklistProps> = ({ plan }) => {
+    const completed = plan.steps.filter(step => step.status === 'completed').length;
+
+    return (
+        <div className="bg-blue-900/30 border border-blue-700/50 rounded-lg px-3 py-2 text-sm text-blue-100 max-w-[90%]">
+            <div className="flex items-center justify-between mb-2 gap-2">
+                <span className="text-xs font-medium text-blue-300">
+                    Plan{plan.revision > 0 ? ` (revised ${plan.revision === 1 ? 'once' : `${plan.revision} times`})` : ''}
+                </span>
+                <span className="text-xs text-blue-400">{completed} of {plan.steps.length} done</span>
+            </div>
+            <ol className="space-y-1" aria-label={`Plan for: ${plan.task}`}>
+                {plan.steps.map((step, index) => (
+                    <li
+                        key={`${index}-${step.description}`}
+                        className="flex items-start gap-2"
+                        aria-current={step.status === 'in_progress' ? 'step' : undefined}
+                    >
+                        <StatusIcon status={step.status} />
+                        <span className={step.status === 'completed' ? 'text-xs text-blue-200/70 line-through' : 'text-xs'}>
+                            {index + 1}. {step.description}
+                            <span className="sr-only"> ({statusLabels[step.status]})</span>
+                        </span>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React, { useEffect } from "react";
+import { BookmarkIcon, PlayIcon, XIcon } from "lucide-react";
+import { ttsCoordinator, type TTSSettings } from "~lib/tts-coordinator";
+
+interface ResumeReadingPromptProps {
+  sectionTitle: string;
+  // 1-based position of the bookmarked element in its section, when it could be placed
+  paragraph?: number;
+  ttsSettings?: TTSSettings;
+  onResume: () => void;
+  onDismiss: () => void;
+  className?: string;
+}
+
+export const resumeReadingLabel = (sectionTitle: string, paragraph?: number): string =>
+  `Resume reading from '${sectionTitle}'${paragraph ? `, paragraph ${paragraph}` : ''}`;
+
+/**
+ * Offers, on screen and by voice, to continue reading where the last visit to the page stopped
+ */
+export const ResumeReadingPrompt: React.FC<ResumeReadingPromptProps> = ({
+  sectionTitle,
+  paragraph,
+  ttsSettings,
+  onResume,
+  onDismiss,
+  className = ""
+}) => {
+  const label = resumeReadingLabel(sectionTitle, paragraph);
+
+  useEffect(() => {
+    ttsCoordinator.requestTTS({
+      id: `resume-reading-${Date.now()}`,
+      text: `${label}? Press Control Command Option R to resume, or Escape to dismiss.`,
+      settings: ttsSettings ?? {},
+      priority: 'low',
+      source: 'content'
+    });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.metaKey && e.altKey && e.code === 'KeyR') {
+        e.preventDefault();
+        onResume();
+      } else if (e.key === 'Escape') {
+        onDismiss();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+    // Only announce once per offer
+  }, [label]);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-black/85 text-white text-sm rounded-full shadow-lg pl-3 pr-1 py-1 ${className}`}
+    >
+      <BookmarkIcon className="w-4 h-4 shrink-0 text-yellow-300" />
+      <span className="truncate max-w-xs" title={label}>{label}</span>
+      <button
+        onClick={onResume}
+        className="flex items-center gap-1 px-2 py-1 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+        title="Resume reading (Ctrl+Cmd+Option+R)"
+      >
+        <PlayIcon className="w-3.5 h-3.5" />
+        Resume
+      </button>
+      <button
+        onClick={onDismiss}
+        className="p-1 text-gray-300 hover:text-white transition-colors"
+        title="Dismiss (Escape)"
+        aria-label="Dismiss"
+      >
+        <XIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -6,6 +6,8 @@ interface SearchBarProps {
   onSearch: (query: string) => Promise<void>;
   onClear: () => void;
   isLoading?: boolean;
+  // Sentences embedded so far while the page is indexed in the background
+  indexingProgress?: { embedded: number; total: number } | null;
   resultCount?: number;
   currentResultIndex?: number;
   onNavigateResult?: (direction: 'prev' | 'next') => void;
@@ -17,6 +19,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   onClear,
   isLoading = false,
+  indexingProgress = null,
   resultCount = 0,
   currentResultIndex = 0,
   onNavigateResult,
@@ -122,6 +125,22 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         </form>
 
         {/* Status Bar */}
+        {/* Background indexing progress */}
+        {indexingProgress && !isLoading && (
+          <div className="px-3 py-2 border-t border-gray-700 bg-gray-900/50">
+            <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+              <span>Indexing page...</span>
+              <span>{indexingProgress.embedded} / {indexingProgress.total}</span>
+            </div>
+            <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all duration-300"
+                style={{ width: `${Math.round((indexingProgress.embedded / Math.max(indexingProgress.total, 1)) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {(isLoading || showResults || isFocused) && (
           <div className="px-3 py-2 border-t border-gray-700 bg-gray-900/50">
             {isLoading ? (
@@ -1,13 +1,22 @@
 import React, { useEffect, useRef } from "react";
-import { PlayIcon, VolumeXIcon } from "lucide-react";
+import { BookOpenIcon, PlayIcon, VolumeXIcon } from "lucide-react";
 import { log } from "~lib/log";
+import type { AnswerSpan } from "~lib/semantic-search/gemini-ranker";
+import { findTextRange } from "~lib/semantic-search/sentence-segmenter";
+import type { SentenceContext } from "~lib/semantic-search/sentence-context";
 
 interface SentenceHighlightProps {
   sentence: string;
   element: HTMLElement;
   selector: string;
+  // Highlights just these characters of the sentence on top of the element
+  answerSpan?: AnswerSpan;
+  // Shown in a card under the element, so the sentence can be understood on its own
+  context?: SentenceContext;
   isActive?: boolean;
   onPlay?: () => void;
+  // Read aloud from the heading of the sentence's section instead of the sentence
+  onPlayFromSection?: () => void;
   onStop?: () => void;
   isPlaying?: boolean;
   className?: string;
@@ -17,13 +26,18 @@ export const SentenceHighlight: React.FC<SentenceHighlightProps> = ({
   sentence,
   element,
   selector,
+  answerSpan,
+  context,
   isActive = false,
   onPlay,
+  onPlayFromSection,
   onStop,
   isPlaying = false,
   className = ""
 }) => {
   const highlightRef = useRef<HTMLDivElement>(null);
+  const [answerRects, setAnswerRects] = React.useState<DOMRect[]>([]);
+  const [elementRect, setElementRect] = React.useState<DOMRect | null>(null);
 
   // Safety check: if element is undefined, try to find it by selector
   const safeElement = React.useMemo(() => {
@@ -47,21 +61,21 @@ export const SentenceHighlight: React.FC<SentenceHighlightProps> = ({
     return null;
   }, [element, selector]);
 
+  // The answer's characters inside the element; null when the answer is not known or
+  // the element no longer shows the sentence
+  const answerRange = React.useMemo(() => {
+    if (!safeElement || !answerSpan) return null;
+    return findTextRange(safeElement, sentence, answerSpan.start, answerSpan.end);
+  }, [safeElement, sentence, answerSpan]);
+
   useEffect(() => {
     if (!isActive || !safeElement) return;
 
-    try {
-      // Scroll the element into view
-      safeElement.scrollIntoView({
-        behavior: "smooth",
-        block: "center",
-        inline: "nearest"
-      });
-
-      // Position the highlight overlay
+    // Position the highlight overlays; fixed positions go stale when the page scrolls
+    const updatePosition = () => {
       const rect = safeElement.getBoundingClientRect();
       const highlight = highlightRef.current;
-      
+
       if (highlight) {
         highlight.style.position = 'fixed';
         highlight.style.left = `${rect.left}px`;
@@ -72,14 +86,37 @@ export const SentenceHighlight: React.FC<SentenceHighlightProps> = ({
         highlight.style.zIndex = '1000';
       }
 
+      setElementRect(rect);
+      setAnswerRects(answerRange ? Array.from(answerRange.getClientRects()) : []);
+    };
+
+    try {
+      // Scroll the element into view
+      safeElement.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+        inline: "nearest"
+      });
+      updatePosition();
+
       log('Highlighted sentence:', sentence.substring(0, 100) + '...');
     } catch (error) {
       log('Error highlighting sentence:', error);
     }
-  }, [isActive, safeElement, sentence]);
+
+    window.addEventListener('scroll', updatePosition, { capture: true, passive: true });
+    window.addEventListener('resize', updatePosition);
+    return () => {
+      window.removeEventListener('scroll', updatePosition, { capture: true });
+      window.removeEventListener('resize', updatePosition);
+    };
+  }, [isActive, safeElement, sentence, answerRange]);
 
   if (!isActive) return null;
 
+  const hasContext = context !== undefined
+    && (context.headingPath.length > 0 || context.before.length > 0 || context.after.length > 0);
+
   // If we can't find the element, show a fallback message
   if (!safeElement) {
     return (
@@ -97,9 +134,18 @@ export const SentenceHighlight: React.FC<SentenceHighlightProps> = ({
         ref={highlightRef}
         className={`pointer-events-none ${className}`}
       >
-        <div className="w-full h-full bg-yellow-400/20 border-2 border-yellow-400 rounded animate-pulse" />
+        <div className={`w-full h-full border-2 border-yellow-400 rounded ${answerRects.length > 0 ? 'bg-yellow-400/5' : 'bg-yellow-400/20 animate-pulse'}`} />
       </div>
 
+      {/* Answer overlay, one box per line the answer wraps onto */}
+      {answerRects.map((rect, i) => (
+        <div
+          key={i}
+          className="fixed pointer-events-none z-[1001] bg-yellow-400/50 rounded-sm"
+          style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+        />
+      ))}
+
       {/* Play button overlay */}
       {onPlay && safeElement && (
         <div
@@ -122,6 +168,43 @@ export const SentenceHighlight: React.FC<SentenceHighlightProps> = ({
           </button>
         </div>
       )}
+
+      {/* Context card */}
+      {hasContext && elementRect && (
+        <div
+          className="fixed z-50 pointer-events-auto max-w-sm bg-black/85 text-white text-xs rounded-lg shadow-lg px-3 py-2 space-y-1"
+          style={{
+            left: `${elementRect.left}px`,
+            top: `${elementRect.bottom + 8}px`
+          }}
+        >
+          {context.headingPath.length > 0 && (
+            <div className="flex items-center justify-between gap-2 text-gray-300 font-medium">
+              <span className="truncate" title={context.headingPath.join(' › ')}>
+                {context.headingPath.join(' › ')}
+              </span>
+              {onPlayFromSection && context.section && (
+                <button
+                  onClick={onPlayFromSection}
+                  className="shrink-0 p-1 text-gray-300 hover:text-white transition-colors"
+                  title="Read from section heading"
+                >
+                  <BookOpenIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          )}
+          <p className="leading-snug">
+            {context.before.length > 0 && (
+              <span className="text-gray-400">{context.before.join(' ')} </span>
+            )}
+            <span className="text-yellow-300">{sentence}</span>
+            {context.after.length > 0 && (
+              <span className="text-gray-400"> {context.after.join(' ')}</span>
+            )}
+          </p>
+        </div>
+      )}
     </>
   );
 };
@@ -134,14 +217,18 @@ export const useSentenceHighlight = () => {
     sentence: string;
     element: HTMLElement;
     selector: string;
+    answerSpan?: AnswerSpan;
+    context?: SentenceContext;
   } | null>(null);
 
   const highlightSentence = React.useCallback((
     sentence: string,
     element: HTMLElement,
-    selector: string
+    selector: string,
+    answerSpan?: AnswerSpan,
+    context?: SentenceContext
   ) => {
-    setActiveHighlight({ sentence, element, selector });
+    setActiveHighlight({ sentence, element, selector, answerSpan, context });
   }, []);
 
   const clearHighlight = React.useCallback(() => {
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Volume2, Trash2, Clock, User, Bot } from 'lucide-react';
+import { Play, Pause, Volume2, Trash2, Clock, User, Bot, Download } from 'lucide-react';
 import type { VoiceMemoBubbleProps } from '~types/voice-memo';
 import { cn } from '~lib/utils';
 import FunctionCallBubble from './function-call-bubble';
@@ -306,6 +306,19 @@ export const VoiceMemoBubble: React.FC<VoiceMemoBubbleProps> = ({
                                 </div>
                             </div>
 
+                            {/* Export button */}
+                            {audioUrl && !hasError && (
+                                <a
+                                    href={audioUrl}
+                                    download={exportFileName(voiceMemo.type, voiceMemo.timestamp, voiceMemo.audioBlob.type)}
+                                    title="Download audio"
+                                    aria-label="Download audio"
+                                    className="flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity"
+                                >
+                                    <Download className="w-4 h-4" />
+                                </a>
+                            )}
+
                             {/* Delete button */}
                             {onDelete && (
                                 <button
@@ -366,3 +379,10 @@ export const VoiceMemoBubble: React.FC<VoiceMemoBubbleProps> = ({
         </div>
     );
 };
+
+// e.g. "erpa-reply-2025-01-31T14-05-09.wav"
+const exportFileName = (type: 'user' | 'ai', timestamp: number, mimeType: string): string => {
+    const extension = mimeType.includes('wav') ? 'wav' : mimeType.includes('ogg') ? 'ogg' : 'webm';
+    const time = new Date(timestamp).toISOString().slice(0, 19).replace(/:/g, '-');
+    return `erpa-${type === 'ai' ? 'reply' : 'memo'}-${time}.${extension}`;
+};
@@ -4,17 +4,46 @@ import { useCallback, useEffect, useRef, useState } from "react"
 
 import TtsPlayback from "~components/tts-playback"
 import { SectionHighlight } from "~components/ui/section-highlight"
+import { ResumeReadingPrompt } from "~components/ui/resume-reading-prompt"
 import { SearchBar } from "~components/ui/search-bar"
 import { SentenceHighlight, useSentenceHighlight } from "~components/ui/sentence-highlight"
 import { detectSections } from "~hooks/useDetectSections"
 import useSpeechRecognition from "~hooks/useSpeechRecognition"
+import useSpeechState from "~hooks/useSpeechState"
 import { findReadableNodesUntilNextSection } from "~lib/debugging/readable"
-import { ErpaReadableQueueManager } from "~lib/erpa-readable"
-import { createFromReadableNodes } from "~lib/erpa-readable/element-factory"
-import { SemanticSearchEngine } from "~lib/semantic-search/search-engine"
+import {
+  ErpaReadableQueueManager,
+  clearReadingPosition,
+  createReadingBookmark,
+  getReadingPosition,
+  reanchorBookmark,
+  saveReadingPosition
+} from "~lib/erpa-readable"
+import { createErpaReadableElement, createFromReadableNodes } from "~lib/erpa-readable/element-factory"
+import { SemanticSearchEngine, type SearchResult } from "~lib/semantic-search/search-engine"
+import { waitForPageToSettle, watchPageChanges } from "~lib/semantic-search/page-watcher"
+import { findEnclosingSection } from "~lib/semantic-search/sentence-context"
+import { resolveSentenceElement } from "~lib/semantic-search/sentence-segmenter"
+import { spokenSegmentText } from "~lib/semantic-search/structured-segments"
 import type { SectionInfo } from "~lib/erpa-readable/types"
 import { debug, err, log, warn } from "~lib/log"
+import {
+  clickElement,
+  describeElement,
+  findInteractiveElement,
+  isSensitiveField,
+  listInteractiveElements,
+  selectOption,
+  submitForm,
+  toggleCheckbox,
+  typeText
+} from "~lib/interaction"
+import { extractMainContent } from "~lib/main-content"
+import { DEFAULT_KEYMAP, commandForEvent, resolveKeymap } from "~lib/navigation/keymap"
+import { ReadingNavigator } from "~lib/navigation/navigator"
+import { call, createReceiver, notify, type SectionContent, type SemanticSearchMatch } from "~lib/messaging"
 import { ttsCoordinator } from "~lib/tts-coordinator"
+import { MediaDucker } from "~lib/tts/media-ducking"
 
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"]
@@ -65,15 +94,27 @@ const convertToSectionInfo = (
   })).filter(s => s.element !== null)
 }
 
+// Where reading stopped on the last visit, placed in the page as it is now
+interface ResumeOffer {
+  sectionIndex: number
+  sectionTitle: string
+  // Readable nodes to read, from the bookmarked one on
+  nodes: HTMLElement[]
+  // 1-based position of the bookmarked node in its section, when it could be placed
+  paragraph?: number
+}
+
 const PlasmoOverlay = () => {
   const [isVisible, setIsVisible] = useState(false)
   const [sections, setSections] = useState<Array<{ title: string; cssSelector: string }>>([])
 
   // Semantic search state
   const [searchQuery, setSearchQuery] = useState("")
-  const [searchResults, setSearchResults] = useState<any[]>([])
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([])
   const [currentResultIndex, setCurrentResultIndex] = useState(0)
   const [isSearching, setIsSearching] = useState(false)
+  // Progress of the background worker indexing this page ahead of a search
+  const [indexingProgress, setIndexingProgress] = useState<{ embedded: number; total: number } | null>(null)
   const [searchEngine] = useState(() => SemanticSearchEngine.getInstance())
   const { activeHighlight, highlightSentence, clearHighlight } = useSentenceHighlight()
 
@@ -81,69 +122,23 @@ const PlasmoOverlay = () => {
   const speechRecognition = useSpeechRecognition({
     onStart: () => {
       log('[Speech Recognition] Speech recognition started')
-      chrome.runtime.sendMessage({
-        type: "speech-recognition-started",
-        target: "sidepanel"
-      })
+      notify('sidepanel', { type: 'SPEECH_RECOGNITION_STARTED' })
     },
     onEnd: () => {
       log('[Speech Recognition] Speech recognition ended')
-      chrome.runtime.sendMessage({
-        type: "speech-recognition-ended",
-        target: "sidepanel"
-      })
+      notify('sidepanel', { type: 'SPEECH_RECOGNITION_ENDED' })
     },
     onResult: (transcript) => {
       log('[Speech Recognition] Final transcript:', transcript)
-      chrome.runtime.sendMessage({
-        type: "speech-recognition-result",
-        transcript: transcript,
-        target: "sidepanel"
-      })
+      notify('sidepanel', { type: 'SPEECH_RECOGNITION_RESULT', transcript: transcript })
     },
     onError: (error) => {
       console.error('[Speech Recognition] Error:', error)
-      chrome.runtime.sendMessage({
-        type: "speech-recognition-error",
-        error: error,
-        target: "sidepanel"
-      })
+      notify('sidepanel', { type: 'SPEECH_RECOGNITION_ERROR', error: error })
     },
     singleTurn: true
   })
 
-  // Listen for sidepanel mic toggle commands
-  useEffect(() => {
-    const handleMessage = (message: any) => {
-      log('[Content] Message received:', message)
-      if (message?.type === 'toggle-mic' && message.target === 'content') {
-        log('[toggle-mic] Content script received toggle-mic command, isListening:', message.isListening)
-        const wasListening = speechRecognition.isListening
-        speechRecognition.toggleListening()
-        log('[toggle-mic] Speech recognition toggled from', wasListening, 'to', speechRecognition.isListening)
-
-        // Send back the current state to the sidepanel
-        chrome.runtime.sendMessage({
-          type: "speech-recognition-state-update",
-          isListening: speechRecognition.isListening,
-          target: "sidepanel"
-        })
-      }
-
-      if (message?.type === 'FOCUS_SEMANTIC_SEARCH') {
-        // Focus will be handled by the SearchBar component's keyboard listener
-        log('[semantic-search] Received focus semantic search command')
-      }
-    }
-
-    log('[Content] Setting up message listener for sidepanel communication')
-    chrome.runtime.onMessage.addListener(handleMessage)
-    return () => {
-      log('[Content] Removing message listener')
-      chrome.runtime.onMessage.removeListener(handleMessage)
-    }
-  }, [speechRecognition])
-
   // Semantic search handlers
   const handleSearch = useCallback(async (query: string) => {
     if (!query.trim()) return
@@ -165,7 +160,7 @@ const PlasmoOverlay = () => {
 
       if (results.length > 0) {
         const firstResult = results[0]
-        highlightSentence(firstResult.sentence.text, firstResult.element, firstResult.selector)
+        highlightSentence(firstResult.sentence.text, firstResult.element, firstResult.selector, firstResult.answerSpan, firstResult.context)
         log('[semantic-search] Highlighted first result:', firstResult.sentence.text.substring(0, 100))
       }
 
@@ -196,26 +191,36 @@ const PlasmoOverlay = () => {
     setCurrentResultIndex(newIndex)
 
     const result = searchResults[newIndex]
-    highlightSentence(result.sentence.text, result.element, result.selector)
+    highlightSentence(result.sentence.text, result.element, result.selector, result.answerSpan, result.context)
     log('[semantic-search] Navigated to result', newIndex + 1, 'of', searchResults.length)
   }, [searchResults, currentResultIndex, highlightSentence])
 
-  const handlePlayResult = useCallback(() => {
+  // Read the current result aloud, from the sentence itself or, for more context, from
+  // the heading of the section it is in
+  const playSearchResult = useCallback((fromSection: boolean) => {
     if (searchResults.length === 0) return
 
     const result = searchResults[currentResultIndex]
     if (!result) return
 
     try {
-      // Create readable elements from the matched sentence
-      const nodes = findReadableNodesUntilNextSection(result.element, document)
-      if (nodes.length === 0) {
+      const section = result.context.section
+      const sectionElement = fromSection && section
+        ? document.querySelector(section.cssSelector) as HTMLElement | null
+        : null
+
+      // Create readable elements from the matched sentence or its section heading
+      const nodes = findReadableNodesUntilNextSection(sectionElement ?? result.element, document)
+      // A table row, image or definition is read as its segment, which says what it is
+      const readSegment = !sectionElement && result.sentence.kind !== 'sentence'
+      if (nodes.length === 0 && !readSegment) {
         log('[semantic-search] No readable nodes found for search result')
         return
       }
 
       // Find section index
       const sectionIndex = sections.findIndex(s => {
+        if (section && s.cssSelector === section.cssSelector) return true
         try {
           const el = document.querySelector(s.cssSelector)
           return el?.contains(result.element) || el === result.element
@@ -224,10 +229,19 @@ const PlasmoOverlay = () => {
         }
       })
 
-      const sectionTitle = sectionIndex !== -1 ? sections[sectionIndex].title : 'Search Result'
+      const sectionTitle = sectionIndex !== -1 ? sections[sectionIndex].title : section?.title ?? 'Search Result'
 
       // Create ErpaReadableElements
-      const elements = createFromReadableNodes(nodes, sectionIndex, sectionTitle)
+      const elements = readSegment
+        ? [createErpaReadableElement({
+          node: result.element,
+          text: spokenSegmentText(result.sentence),
+          type: result.sentence.kind === 'table' ? 'cell' : 'staticText',
+          sectionIndex,
+          sectionTitle,
+          order: 0
+        })]
+        : createFromReadableNodes(nodes, sectionIndex, sectionTitle)
 
       // Clear queue and enqueue new elements
       queueManagerRef.current?.clear()
@@ -238,12 +252,15 @@ const PlasmoOverlay = () => {
         queueManagerRef.current?.startWithAutoProgress()
       }, 100)
 
-      log('[semantic-search] Started TTS playback for search result')
+      log('[semantic-search] Started TTS playback for search result', sectionElement ? 'from its section heading' : '')
     } catch (error) {
       err('[semantic-search] Error playing search result:', error)
     }
   }, [searchResults, currentResultIndex, sections])
 
+  const handlePlayResult = useCallback(() => playSearchResult(false), [playSearchResult])
+  const handlePlayResultFromSection = useCallback(() => playSearchResult(true), [playSearchResult])
+
   // Queue manager instance
   const queueManagerRef = useRef<ErpaReadableQueueManager | null>(null)
   const [queueState, setQueueState] = useState({
@@ -252,10 +269,27 @@ const PlasmoOverlay = () => {
     currentElement: null as any
   })
 
+  // What the extension is saying anywhere, for the playback bar and media ducking
+  const speechState = useSpeechState()
+  const [mediaDucker] = useState(() => new MediaDucker())
+  const [duckMedia, setDuckMedia] = useState(true)
+
   // Focused section state - managed here instead of in SectionHighlight
   const [focusedSectionIndex, setFocusedSectionIndex] = useState(0)
   const [hasReadableContent, setHasReadableContent] = useState(false)
 
+  // Jumps between sentences, headings, links, table cells etc., bound to the user's keymap
+  const navigatorRef = useRef<ReadingNavigator | null>(null)
+  const keymapRef = useRef(DEFAULT_KEYMAP)
+
+  // Offered once per page load, as soon as the page's sections are known
+  const [resumeOffer, setResumeOffer] = useState<ResumeOffer | null>(null)
+  const resumeCheckedRef = useRef(false)
+
+  // The queue manager is created once, so its callbacks read the current sections here
+  const sectionsRef = useRef(sections)
+  sectionsRef.current = sections
+
   // Initialize queue manager
   useEffect(() => {
     if (!queueManagerRef.current) {
@@ -280,16 +314,33 @@ const PlasmoOverlay = () => {
           autoProgress: false,
           onQueueStart: () => {
             setQueueState(prev => ({ ...prev, isPlaying: true }))
+            setResumeOffer(null)
             debug('[Queue] Queue started')
           },
           onQueueEnd: () => {
             setQueueState(prev => ({ ...prev, isPlaying: false }))
             debug('[Queue] Queue ended')
+
+            // Read to the end of the last section: there is nothing left to resume. A
+            // queue that was stopped has an element that never completed.
+            const elements = queueManagerRef.current?.elements ?? []
+            const finished = elements.length > 0 && elements.every(element => element.isCompleted)
+            if (finished && elements[elements.length - 1].sectionIndex === sectionsRef.current.length - 1) {
+              clearReadingPosition().catch(error => {
+                warn('[Reading position] Failed to clear:', error)
+              })
+            }
           },
           onSectionChange: (index) => {
             setQueueState(prev => ({ ...prev, currentSectionIndex: index }))
             debug('[Queue] Section changed to:', index)
           },
+          onElementStart: (element) => {
+            navigatorRef.current?.setCursor(element.node)
+            saveReadingPosition(createReadingBookmark(element)).catch(error => {
+              warn('[Reading position] Failed to save:', error)
+            })
+          },
           onError: (error, element) => {
             err('[Queue] Error:', error, 'Element:', element?.id ?? 'unknown')
           }
@@ -297,9 +348,34 @@ const PlasmoOverlay = () => {
       })
     }
 
+    navigatorRef.current = new ReadingNavigator({
+      getTTSSettings: () => queueManagerRef.current?.getTTSSettings() ?? {}
+    })
+
     return () => {
       queueManagerRef.current?.stop()
+      navigatorRef.current?.dispose()
+      navigatorRef.current = null
+    }
+  }, [])
+
+  // Keep the navigation keymap in step with the user's bindings
+  useEffect(() => {
+    const loadKeymap = () => {
+      chrome.storage.local.get(['erpa_user_config'], (result) => {
+        keymapRef.current = resolveKeymap(result.erpa_user_config?.experience?.keyBindings)
+      })
+    }
+
+    const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes.erpa_user_config) {
+        loadKeymap()
+      }
     }
+
+    loadKeymap()
+    chrome.storage.onChanged.addListener(handleStorageChange)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange)
   }, [])
 
   const handleNavigateToSection = useCallback((selector: string) => {
@@ -379,196 +455,370 @@ const PlasmoOverlay = () => {
     };
   }, []);
 
+  // Pages are indexed per embedding model, so re-sync the page with the newly chosen one
+  useEffect(() => {
+    const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      const change = changes.erpa_user_config
+      if (areaName === 'local' && change && change.newValue?.advanced?.embeddingModel !== change.oldValue?.advanced?.embeddingModel) {
+        searchEngine.reset()
+      }
+    }
+
+    chrome.storage.onChanged.addListener(handleStorageChange)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange)
+  }, [searchEngine])
+
+  // Follow the media ducking setting
   useEffect(() => {
-    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    chrome.storage.local.get(['erpa_user_config'], (result) => {
+      setDuckMedia(result.erpa_user_config?.tts?.duckMedia ?? true)
+    })
 
-      if (message?.type === "SCROLL_TO_SECTION") {
-        debug('Scrolling to section message received', message)
-        const section = document.querySelector(message.selector) as HTMLElement | null
+    const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes.erpa_user_config) {
+        setDuckMedia(changes.erpa_user_config.newValue?.tts?.duckMedia ?? true)
+      }
+    }
+
+    chrome.storage.onChanged.addListener(handleStorageChange)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange)
+  }, [])
+
+  // Turn the page's audio and video down while anything is being said, from any tab or the sidepanel
+  useEffect(() => {
+    if (duckMedia && speechState.speaking && !speechState.paused) {
+      mediaDucker.duck()
+    } else {
+      mediaDucker.restore()
+    }
+  }, [mediaDucker, duckMedia, speechState.speaking, speechState.paused])
+
+  useEffect(() => () => mediaDucker.restore(), [mediaDucker])
+
+  // Keep the search index of an indexed page current as its content changes
+  useEffect(() => {
+    return watchPageChanges(() => {
+      searchEngine.refreshIndex().catch(error => {
+        err('[semantic-search] Failed to refresh the page index:', error)
+      })
+    })
+  }, [searchEngine])
+
+  // Requests from the sidepanel and background (see ~lib/messaging/protocol)
+  useEffect(() => {
+    const handleMessage = createReceiver('content', {
+      SCROLL_TO_SECTION: ({ selector }) => {
+        debug('Scrolling to section message received', selector)
+        const section = document.querySelector(selector) as HTMLElement | null
         if (!section) {
-          err('Section not found for selector:', message.selector)
-          sendResponse({ ok: false, error: `Section not found for selector: ${message.selector}` })
-          return false
+          err('Section not found for selector:', selector)
+          throw new Error(`Section not found for selector: ${selector}`)
         }
         section.scrollIntoView({ behavior: "smooth" })
-        sendResponse({ ok: true })
-        return true
-      }
+        return {}
+      },
 
-      if (message?.type === "SET_SECTIONS") {
+      SET_SECTIONS: (message) => {
         debug('[Erpa] Setting sections for highlight', message.sections)
         setSections(message.sections || [])
         // Reset auto-progression state when sections are updated
         setQueueState(prev => ({ ...prev, currentSectionIndex: 0 }))
-      }
-
-      if (message?.type === "DETECT_SECTIONS") {
-        try {
-          debug('[Erpa] Detecting sections from DOM')
-          const detectedSections = detectSections()
-          debug('[Erpa] Detected sections:', detectedSections)
-          sendResponse({ ok: true, sections: detectedSections })
-        } catch (e) {
-          err('[Erpa] Failed to detect sections:', e)
-          sendResponse({ ok: false, error: (e as Error)?.message || "Unknown error" })
-        }
-        return true
-      }
+        return {}
+      },
 
-      if (message?.type === "FIND_READABLE_TEXT_UNTIL_NEXT_SECTION") {
-        try {
-          // This handler is kept for compatibility but doesn't use currentCursor anymore
-          const nodes: HTMLElement[] = []
-          sendResponse({ ok: true, nodes: nodes })
-        } catch (e) {
-          sendResponse({ ok: false, error: (e as Error)?.message || "Unknown error" })
-        }
-      }
+      DETECT_SECTIONS: () => {
+        debug('[Erpa] Detecting sections from DOM')
+        const detectedSections = detectSections()
+        debug('[Erpa] Detected sections:', detectedSections)
+        return { sections: detectedSections }
+      },
 
-      if (message?.type === "READ_OUT") {
+      READ_OUT: (message) => {
         debug('[READ_OUT] Reading out:', message.targetType, message.target)
 
-        try {
-          let targetElement: HTMLElement | null = null
-
-          if (message.targetType === 'SECTION') {
-            // Find the section by name in the sections array
-            const targetSection = sections.find(s => s.title === message.target)
-            if (targetSection) {
-              targetElement = document.querySelector(targetSection.cssSelector) as HTMLElement
-              debug('[READ_OUT] Found target section element:', targetElement)
-            } else {
-              err('[READ_OUT] Section not found:', message.target)
-              sendResponse({ ok: false, error: `Section "${message.target}" not found` })
-              return true
-            }
-          } else if (message.targetType === 'NODE') {
-            // Use the target as a CSS selector
-            targetElement = document.querySelector(message.target) as HTMLElement
-            debug('[READ_OUT] Found target node element:', targetElement)
-          }
+        let targetElement: HTMLElement | null = null
 
-          if (!targetElement) {
-            err('[READ_OUT] Target element not found for:', message.target)
-            sendResponse({ ok: false, error: `Target element not found: ${message.target}` })
-            return true
+        if (message.targetType === 'SECTION') {
+          // Find the section by name in the sections array
+          const targetSection = sections.find(s => s.title === message.target)
+          if (!targetSection) {
+            err('[READ_OUT] Section not found:', message.target)
+            throw new Error(`Section "${message.target}" not found`)
           }
+          targetElement = document.querySelector(targetSection.cssSelector) as HTMLElement
+          debug('[READ_OUT] Found target section element:', targetElement)
+        } else if (message.targetType === 'NODE') {
+          // Use the target as a CSS selector
+          targetElement = document.querySelector(message.target) as HTMLElement
+          debug('[READ_OUT] Found target node element:', targetElement)
+        }
 
-          // Navigate and create readable elements
-          targetElement.scrollIntoView({ behavior: "smooth" })
+        if (!targetElement) {
+          err('[READ_OUT] Target element not found for:', message.target)
+          throw new Error(`Target element not found: ${message.target}`)
+        }
 
-          const nodes = findReadableNodesUntilNextSection(targetElement, document)
-          if (nodes.length === 0) {
-            sendResponse({ ok: false, error: 'No readable content found' })
-            return true
+        // Navigate and create readable elements
+        targetElement.scrollIntoView({ behavior: "smooth" })
+
+        const nodes = findReadableNodesUntilNextSection(targetElement, document)
+        if (nodes.length === 0) {
+          throw new Error('No readable content found')
+        }
+
+        // Find section index
+        const sectionIndex = sections.findIndex(s => {
+          try {
+            const el = document.querySelector(s.cssSelector)
+            return el?.contains(targetElement) || el === targetElement
+          } catch (e) {
+            return false
           }
+        })
 
-          // Find section index
-          const sectionIndex = sections.findIndex(s => {
-            try {
-              const el = document.querySelector(s.cssSelector)
-              return el?.contains(targetElement) || el === targetElement
-            } catch (e) {
-              return false
-            }
-          })
+        const sectionTitle = sectionIndex !== -1 ? sections[sectionIndex].title : 'Unknown Section'
 
-          const sectionTitle = sectionIndex !== -1 ? sections[sectionIndex].title : 'Unknown Section'
+        // Create ErpaReadableElements
+        const elements = createFromReadableNodes(nodes, sectionIndex, sectionTitle)
 
-          // Create ErpaReadableElements
-          const elements = createFromReadableNodes(nodes, sectionIndex, sectionTitle)
+        // Clear queue and enqueue new elements
+        queueManagerRef.current?.clear()
+        queueManagerRef.current?.enqueue(elements)
 
-          // Clear queue and enqueue new elements
-          queueManagerRef.current?.clear()
-          queueManagerRef.current?.enqueue(elements)
+        // Start playback with auto-progression (for READ_OUT)
+        setTimeout(() => {
+          queueManagerRef.current?.startWithAutoProgress()
+        }, 100)
 
-          // Start playback with auto-progression (for READ_OUT)
-          setTimeout(() => {
-            queueManagerRef.current?.startWithAutoProgress()
-          }, 100)
+        return {}
+      },
 
-          sendResponse({ ok: true })
-        } catch (error) {
-          err('[READ_OUT] Error reading out:', error)
-          sendResponse({ ok: false, error: (error as Error)?.message || "Unknown error" })
+      GET_CONTENT: ({ selector }) => {
+        debug('[GET_CONTENT] Getting content for selector:', selector)
+        const targetElement = document.querySelector(selector) as HTMLElement | null
+
+        if (!targetElement) {
+          throw new Error(`Element not found for selector: ${selector}`)
         }
-        return true
-      }
 
-      if (message?.type === "GET_CONTENT") {
-        try {
-          debug('[GET_CONTENT] Getting content for selector:', message.selector)
-          const targetElement = document.querySelector(message.selector) as HTMLElement | null
+        // Use findReadableNodesUntilNextSection to get readable content
+        const nodes = findReadableNodesUntilNextSection(targetElement, document)
+        debug('[GET_CONTENT] Found readable nodes:', nodes)
 
-          if (!targetElement) {
-            sendResponse({ ok: false, error: `Element not found for selector: ${message.selector}` })
-            return true
-          }
+        // Extract and concatenate HTML content from each node
+        const content = nodes.map(node => node.outerHTML).join('\n')
 
-          // Use findReadableNodesUntilNextSection to get readable content
-          const nodes = findReadableNodesUntilNextSection(targetElement, document)
-          debug('[GET_CONTENT] Found readable nodes:', nodes)
+        return { content }
+      },
 
-          // Extract and concatenate HTML content from each node
-          const content = nodes.map(node => node.outerHTML).join('\n')
+      GET_MAIN_CONTENT: () => {
+        const { text, headings, rootSelector } = extractMainContent(document)
+        debug('[GET_MAIN_CONTENT] Extracted main content from', rootSelector, { length: text.length, headings: headings.length })
 
-          sendResponse({ ok: true, content })
-        } catch (e) {
-          err('[GET_CONTENT] Error getting content:', e)
-          sendResponse({ ok: false, error: (e as Error)?.message || "Unknown error" })
+        if (!text) {
+          throw new Error('No readable main content found on this page')
         }
-        return true
-      }
+        return { text, headings }
+      },
 
-      if (message?.type === "SEMANTIC_SEARCH") {
-        // Handle async semantic search
-        (async () => {
+      GET_SECTION_CONTENTS: () => {
+        const sectionContents: SectionContent[] = []
+        for (const section of sections) {
+          let sectionElement: HTMLElement | null = null
           try {
-            debug('[semantic-search] Performing semantic search:', message.query)
+            sectionElement = document.querySelector(section.cssSelector) as HTMLElement | null
+          } catch (e) {
+            warn('[GET_SECTION_CONTENTS] Invalid section selector:', section.cssSelector)
+          }
+          if (!sectionElement) continue
+
+          const text = findReadableNodesUntilNextSection(sectionElement, document)
+            .map(node => node.innerText.trim())
+            .filter(Boolean)
+            .join('\n\n')
+          if (text) {
+            sectionContents.push({ title: section.title, selector: section.cssSelector, text })
+          }
+        }
 
-            const results = await searchEngine.search(message.query, {
-              maxCandidates: 10,
-              useGeminiRanking: true,
-              autoPlayFirst: message.autoPlayFirst || false
-            })
+        // Sections are not detected yet: summarize the main content as a single section
+        if (sectionContents.length === 0) {
+          const { text, rootSelector } = extractMainContent(document)
+          if (!text) {
+            throw new Error('No readable content found on this page')
+          }
+          sectionContents.push({ title: document.title, selector: rootSelector, text })
+        }
+
+        debug('[GET_SECTION_CONTENTS] Collected', sectionContents.length, 'sections')
+        return { title: document.title, url: window.location.href, sections: sectionContents }
+      },
 
-            if (results.length > 0) {
-              const firstResult = results[0]
-              highlightSentence(firstResult.sentence.text, firstResult.element, firstResult.selector)
+      SEMANTIC_SEARCH: async (message) => {
+        debug('[semantic-search] Performing semantic search:', message.query)
 
-              // Auto-play if requested
-              if (message.autoPlayFirst) {
-                setTimeout(() => {
-                  handlePlayResult()
-                }, 500)
+        const results = await searchEngine.search(message.query, {
+          maxCandidates: 10,
+          useGeminiRanking: true,
+          autoPlayFirst: message.autoPlayFirst || false,
+          kinds: message.kinds
+        })
+
+        if (results.length > 0) {
+          const firstResult = results[0]
+          highlightSentence(firstResult.sentence.text, firstResult.element, firstResult.selector, firstResult.answerSpan, firstResult.context)
+
+          // Auto-play if requested
+          if (message.autoPlayFirst) {
+            setTimeout(() => {
+              if (message.withContext) {
+                handlePlayResultFromSection()
+              } else {
+                handlePlayResult()
               }
-            }
+            }, 500)
+          }
+        }
 
-            sendResponse({
-              ok: true,
-              results: results.map(r => ({
-                text: r.sentence.text,
-                score: r.score,
-                confidence: r.confidence,
-                answer: r.answer
-              })),
-              bestMatch: results[0] ? {
-                text: results[0].sentence.text,
-                score: results[0].score,
-                confidence: results[0].confidence,
-                answer: results[0].answer
-              } : null,
-              totalResults: results.length
-            })
-          } catch (e) {
-            err('[semantic-search] Error performing search:', e)
-            sendResponse({ ok: false, error: (e as Error)?.message || "Unknown error" })
+        const toMatch = (r: SearchResult): SemanticSearchMatch => ({
+          kind: r.sentence.kind,
+          text: r.sentence.text,
+          score: r.score,
+          confidence: r.confidence,
+          answer: r.answer,
+          answerSpan: r.answerSpan,
+          context: {
+            before: r.context.before,
+            after: r.context.after,
+            sectionTitle: r.context.section?.title ?? null,
+            headingPath: r.context.headingPath
           }
-        })()
-        return true // Keep message channel open for async response
+        })
+
+        return {
+          results: results.map(toMatch),
+          bestMatch: results[0] ? toMatch(results[0]) : null,
+          totalResults: results.length
+        }
+      },
+
+      INDEX_PAGE: async () => {
+        // Cross-tab search asks background tabs to embed themselves without searching
+        const sentenceCount = await searchEngine.indexPage()
+        log('[semantic-search] Indexed page for cross-tab search:', sentenceCount, 'sentences')
+        return { sentenceCount }
+      },
+
+      GET_PAGE_SENTENCES: async () => {
+        await waitForPageToSettle()
+        const segments = searchEngine.getPageSentences()
+        debug('[semantic-search] Collected', segments.length, 'sentences for pre-indexing')
+        return { url: window.location.href, title: document.title, segments }
+      },
+
+      PRE_INDEX_PROGRESS: ({ url, embedded, total, done }) => {
+        if (url !== window.location.href) return {}
+        setIndexingProgress(done ? null : { embedded, total })
+        return {}
+      },
+
+      HIGHLIGHT_SENTENCE: ({ selector, text, kind }) => {
+        const element = resolveSentenceElement(selector, text, document, kind)
+
+        // SentenceHighlight scrolls to the element, or says it is gone from the page
+        setIsVisible(true)
+        highlightSentence(text, element, selector)
+        log('[semantic-search] Highlighted sentence from history search:', text.substring(0, 100))
+        return { found: element !== null }
+      },
+
+      LIST_INTERACTIVE_ELEMENTS: () => {
+        const elements = listInteractiveElements(document)
+        debug('[interaction] Found', elements.length, 'interactive elements')
+        return { elements }
+      },
+
+      DESCRIBE_ELEMENT: ({ selector }) => {
+        const element = document.querySelector(selector)
+        if (!element) {
+          throw new Error(`Element not found for selector: ${selector}`)
+        }
+        return { element: describeElement(element) }
+      },
+
+      CLICK_ELEMENT: ({ selector }) => {
+        log('[interaction] Clicking', selector)
+        clickElement(findInteractiveElement(selector, document))
+        return {}
+      },
+
+      TYPE_TEXT: ({ selector, text, clear }) => {
+        log('[interaction] Typing into', selector)
+        const element = findInteractiveElement(selector, document)
+        typeText(element, text, clear ?? true)
+        return { sensitive: isSensitiveField(element) }
+      },
+
+      SELECT_OPTION: ({ selector, option }) => {
+        log('[interaction] Selecting', option, 'in', selector)
+        return { selected: selectOption(findInteractiveElement(selector, document), option) }
+      },
+
+      TOGGLE_CHECKBOX: ({ selector, checked }) => {
+        log('[interaction] Toggling', selector, { checked })
+        return { checked: toggleCheckbox(findInteractiveElement(selector, document), checked) }
+      },
+
+      SUBMIT_FORM: ({ selector }) => {
+        log('[interaction] Submitting form of', selector)
+        submitForm(findInteractiveElement(selector, document))
+        return {}
+      },
+
+      STOP_READING: () => {
+        log('[tts] Stopping playback at the sidepanel\'s request')
+        queueManagerRef.current?.stop()
+        ttsCoordinator.cancelBySource('content')
+        return {}
+      },
+
+      TOGGLE_MIC: (message) => {
+        log('[toggle-mic] Content script received toggle-mic command, isListening:', message.isListening)
+        const wasListening = speechRecognition.isListening
+        speechRecognition.toggleListening()
+        log('[toggle-mic] Speech recognition toggled from', wasListening, 'to', speechRecognition.isListening)
+
+        // Send back the current state to the sidepanel
+        notify('sidepanel', {
+          type: 'SPEECH_RECOGNITION_STATE_UPDATE',
+          isListening: speechRecognition.isListening
+        })
+        return {}
+      },
+
+      FOCUS_SEMANTIC_SEARCH: () => {
+        // Focus will be handled by the SearchBar component's keyboard listener
+        log('[semantic-search] Received focus semantic search command')
+        return {}
+      },
+
+      SPEECH_EVENT: (event) => {
+        ttsCoordinator.handleEvent(event)
+        return {}
+      },
+
+      SPEECH_STATE: ({ state }) => {
+        // Nullable fields are inferred as optional without strictNullChecks
+        ttsCoordinator.handleState({ ...state, speaking: state.speaking ?? null })
+        return {}
       }
     })
-  }, [sections, searchEngine, highlightSentence, handlePlayResult])
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => {
+      chrome.runtime.onMessage.removeListener(handleMessage)
+    }
+  }, [sections, searchEngine, highlightSentence, handlePlayResult, handlePlayResultFromSection, speechRecognition])
 
   // Scroll-based content refresh detection
   // Change section when the next section reaches the top 20% of the viewport
@@ -629,6 +879,12 @@ const PlasmoOverlay = () => {
 
 
   const handlePlayPause = useCallback(() => {
+    // Speech from the sidepanel or another tab is paused where it plays
+    if (!queueState.isPlaying && speechState.speaking) {
+      ttsCoordinator.togglePause()
+      return
+    }
+
     if (!queueManagerRef.current) return
 
     if (queueState.isPlaying) {
@@ -638,7 +894,7 @@ const PlasmoOverlay = () => {
       queueManagerRef.current.start()
       debug('[TTS] TTS started/resumed')
     }
-  }, [queueState.isPlaying])
+  }, [queueState.isPlaying, speechState.speaking])
 
   const handleStop = useCallback(() => {
     if (!queueManagerRef.current) return
@@ -653,17 +909,105 @@ const PlasmoOverlay = () => {
     }
   }, [sections])
 
+  // Offer to continue from where the last visit stopped reading
+  useEffect(() => {
+    if (sections.length === 0 || resumeCheckedRef.current) return
+    resumeCheckedRef.current = true
+
+    getReadingPosition().then(bookmark => {
+      if (!bookmark) return
+
+      const node = reanchorBookmark(bookmark)
+      if (!node) {
+        debug('[Reading position] Bookmarked element is no longer on the page:', bookmark.fingerprint)
+        return
+      }
+
+      const section = findEnclosingSection(node, sections)
+      const sectionIndex = section ? sections.findIndex(s => s.cssSelector === section.cssSelector) : -1
+      const sectionElement = section ? document.querySelector(section.cssSelector) as HTMLElement | null : null
+      const sectionNodes = sectionElement ? findReadableNodesUntilNextSection(sectionElement, document) : []
+      const position = sectionNodes.findIndex(n => n === node || n.contains(node) || node.contains(n))
+
+      // Without its section, read on from the bookmarked node itself
+      const nodes = position !== -1 ? sectionNodes.slice(position) : findReadableNodesUntilNextSection(node, document)
+      if (nodes.length === 0) return
+
+      setResumeOffer({
+        sectionIndex,
+        sectionTitle: section?.title ?? bookmark.sectionTitle,
+        nodes,
+        paragraph: position !== -1 ? position + 1 : undefined
+      })
+    }).catch(error => {
+      warn('[Reading position] Failed to load:', error)
+    })
+  }, [sections])
+
+  const handleResumeReading = useCallback(() => {
+    if (!resumeOffer || !queueManagerRef.current) return
+    setResumeOffer(null)
+
+    const { sectionIndex, sectionTitle, nodes, paragraph } = resumeOffer
+    const elements = createFromReadableNodes(nodes, sectionIndex, sectionTitle, paragraph ? paragraph - 1 : 0)
+
+    // Keep the scroll listener from resetting the queue as the page scrolls to the section
+    if (sectionIndex !== -1) {
+      setFocusedSectionIndex(sectionIndex)
+      queueManagerRef.current.currentSectionIndex = sectionIndex
+    }
+    nodes[0].scrollIntoView({ behavior: "smooth", block: "center" })
+
+    queueManagerRef.current.clear()
+    queueManagerRef.current.enqueue(elements)
+    setTimeout(() => {
+      queueManagerRef.current?.startWithAutoProgress()
+    }, 100)
+
+    log('[Reading position] Resumed reading in', sectionTitle)
+  }, [resumeOffer])
+
+  const handleDismissResume = useCallback(() => {
+    setResumeOffer(null)
+    clearReadingPosition().catch(error => {
+      warn('[Reading position] Failed to clear:', error)
+    })
+  }, [])
+
   const handleToggleMic = useCallback(() => {
     return speechRecognition.toggleListening()
   }, [speechRecognition])
 
 
-  // Tab key listener for single-element navigation within sections
+  // Reading navigation keys (Tab for the next readable element in the section by default)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Tab') {
+      const command = commandForEvent(e, keymapRef.current)
+
+      // Chords without Ctrl or Cmd edit text in fields, so leave them to the field
+      const target = e.target as HTMLElement | null
+      const inField = target?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName ?? '')
+      const navigates = command && command !== 'nextElement' && !(inField && !e.ctrlKey && !e.metaKey)
+
+      if (navigates && command === 'previousElement') {
         e.preventDefault()
-        debug('[TTS] Tab key pressed - navigating to next readable element')
+        debug('[TTS] Navigating to previous readable element')
+        queueManagerRef.current?.previous()
+        return
+      }
+
+      if (navigates && navigatorRef.current) {
+        e.preventDefault()
+        debug('[Navigation] Running command:', command)
+        // The navigator announces its jump, which would cut the queue off mid-element
+        queueManagerRef.current?.stop()
+        navigatorRef.current.run(command)
+        return
+      }
+
+      if (command === 'nextElement') {
+        e.preventDefault()
+        debug('[TTS] Navigating to next readable element')
 
         if (!queueManagerRef.current) return
 
@@ -708,6 +1052,7 @@ const PlasmoOverlay = () => {
 
       // TTS control shortcuts: ctrl+cmd+option+spacebar for pause/resume, ctrl+cmd+option+enter for stop
       if (e.ctrlKey && e.metaKey && e.altKey) {
+        // Both act on whatever is being said, in this tab, another tab or the sidepanel
         if (e.key === 'Space' || e.key === ' ') {
           e.preventDefault()
           debug('[TTS] Ctrl + Command + Option + Spacebar pressed - toggling pause/resume')
@@ -719,8 +1064,8 @@ const PlasmoOverlay = () => {
 
         if (e.key === 'Enter') {
           e.preventDefault()
-          debug('[TTS] Ctrl + Command + Option + Enter pressed - stopping TTS')
-          ttsCoordinator.cancelCurrent()
+          debug('[TTS] Ctrl + Command + Option + Enter pressed - stopping all TTS')
+          ttsCoordinator.stopAll()
           // Also stop the queue manager to keep state in sync
           handleStop()
           setQueueState(
@@ -737,11 +1082,6 @@ const PlasmoOverlay = () => {
       if (e.ctrlKey && e.metaKey && e.key === 'Enter') {
         e.preventDefault()
         debug('[TTS] Ctrl + Command + Enter key pressed')
-        chrome.runtime.sendMessage({
-          type: "toggle-mic",
-          target: "sidepanel",
-          isListening: speechRecognition.isListening
-        })
         handleToggleMic()
       }
 
@@ -770,6 +1110,7 @@ const PlasmoOverlay = () => {
         onSearch={handleSearch}
         onClear={handleClearSearch}
         isLoading={isSearching}
+        indexingProgress={indexingProgress}
         resultCount={searchResults.length}
         currentResultIndex={currentResultIndex}
         onNavigateResult={handleNavigateResult}
@@ -777,14 +1118,29 @@ const PlasmoOverlay = () => {
         className="pointer-events-auto"
       />
 
+      {/* Resume where the last visit stopped */}
+      {resumeOffer && (
+        <ResumeReadingPrompt
+          sectionTitle={resumeOffer.sectionTitle}
+          paragraph={resumeOffer.paragraph}
+          ttsSettings={queueManagerRef.current?.getTTSSettings()}
+          onResume={handleResumeReading}
+          onDismiss={handleDismissResume}
+          className="pointer-events-auto"
+        />
+      )}
+
       {/* Sentence Highlight */}
       {activeHighlight && (
         <SentenceHighlight
           sentence={activeHighlight.sentence}
           element={activeHighlight.element}
           selector={activeHighlight.selector}
+          answerSpan={activeHighlight.answerSpan}
+          context={activeHighlight.context}
           isActive={true}
           onPlay={handlePlayResult}
+          onPlayFromSection={handlePlayResultFromSection}
           onStop={() => queueManagerRef.current?.stop()}
           isPlaying={queueState.isPlaying}
         />
@@ -793,7 +1149,11 @@ const PlasmoOverlay = () => {
       <div className="pointer-events-auto z-10 absolute bottom-2 left-1/2 transform -translate-x-1/2 w-48 h-12 flex justify-center items-end">
         <TtsPlayback
           isListening={speechRecognition.isListening}
-          isPlaying={queueState.isPlaying}
+          isPlaying={queueState.isPlaying || (!!speechState.speaking && !speechState.paused)}
+          isPaused={speechState.paused}
+          nowSpeaking={speechState.speaking && !ttsCoordinator.isSpeakingHere()
+            ? speechState.speaking.tabTitle ?? 'Sidepanel'
+            : undefined}
           onPlayPause={handlePlayPause}
           onStop={handleStop}
           onHandsUp={handleToggleMic}
@@ -811,21 +1171,21 @@ if (typeof window !== 'undefined') {
   // @ts-ignore - Global debugging utilities
   window.erpaCacheDebug = {
     async stats() {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_CACHE_STATS' });
-      if (response?.success) {
+      try {
+        const { stats } = await call('background', { type: 'GET_CACHE_STATS' });
         console.log('📊 Semantic Search Cache Stats:');
-        console.log('  Total URLs cached:', response.stats.totalUrls);
-        console.log('  Total sentences:', response.stats.totalSentences);
-        console.log('  Total embeddings:', response.stats.totalEmbeddings);
-        if (response.stats.oldestEntry) {
-          console.log('  Oldest entry:', new Date(response.stats.oldestEntry).toLocaleString());
+        console.log('  Total URLs cached:', stats.totalUrls);
+        console.log('  Total sentences:', stats.totalSentences);
+        console.log('  Total embeddings:', stats.totalEmbeddings);
+        if (stats.oldestEntry) {
+          console.log('  Oldest entry:', new Date(stats.oldestEntry).toLocaleString());
         }
-        if (response.stats.newestEntry) {
-          console.log('  Newest entry:', new Date(response.stats.newestEntry).toLocaleString());
+        if (stats.newestEntry) {
+          console.log('  Newest entry:', new Date(stats.newestEntry).toLocaleString());
         }
-        return response.stats;
-      } else {
-        console.error('❌ Failed to get cache stats:', response?.error);
+        return stats;
+      } catch (error) {
+        console.error('❌ Failed to get cache stats:', (error as Error).message);
         return null;
       }
     },
@@ -859,20 +1219,45 @@ if (typeof window !== 'undefined') {
       return data;
     },
     async clear() {
-      const response = await chrome.runtime.sendMessage({ type: 'CLEAR_ALL_CACHE' });
-      if (response?.success) {
+      try {
+        await call('background', { type: 'CLEAR_ALL_CACHE' });
         console.log('✅ Cache cleared successfully');
         return true;
-      } else {
-        console.error('❌ Failed to clear cache:', response?.error);
+      } catch (error) {
+        console.error('❌ Failed to clear cache:', (error as Error).message);
         return false;
       }
     },
+    async evaluate(k = 3) {
+      // Recall@k of semantic, lexical and hybrid retrieval on the built-in labelled fixture
+      const { evaluateRetrieval } = await import('~lib/semantic-search/evaluation');
+      const evaluations = await evaluateRetrieval({ k });
+      console.table(evaluations.map(({ mode, recall }) => ({ mode, [`recall@${k}`]: recall.toFixed(3) })));
+      return evaluations;
+    },
+    async benchmark(...modelIds: string[]) {
+      // Load latency, per-query latency, batch throughput and heap growth of each model
+      const { results } = await call('background', {
+        type: 'BENCHMARK_EMBEDDING_MODELS',
+        modelIds: modelIds.length > 0 ? modelIds : undefined
+      });
+      console.table(results.map(({ modelId, error, loadMs, queryLatencyMs, sentencesPerSecond, heapBytes }) => ({
+        model: modelId,
+        'load (ms)': loadMs?.toFixed(0),
+        'query (ms)': queryLatencyMs?.toFixed(1),
+        'sentences/s': sentencesPerSecond?.toFixed(1),
+        'heap (MB)': heapBytes != null ? (heapBytes / 1024 / 1024).toFixed(1) : 'n/a',
+        error
+      })));
+      return results;
+    },
     help() {
       console.log('🔍 Erpa Cache Debug Utilities:');
       console.log('  erpaCacheDebug.stats()    - Show cache statistics');
       console.log('  erpaCacheDebug.inspect()  - Directly inspect chrome.storage.local');
       console.log('  erpaCacheDebug.clear()    - Clear all cached embeddings');
+      console.log('  erpaCacheDebug.evaluate() - Measure recall@k of each search mode on labelled queries');
+      console.log('  erpaCacheDebug.benchmark(...ids) - Embed latency and memory of each embedding model');
       console.log('  erpaCacheDebug.help()     - Show this help message');
     }
   };
@@ -881,5 +1266,3 @@ if (typeof window !== 'undefined') {
   console.log('💡 Erpa semantic search cache debugging is available!');
   console.log('   Type "erpaCacheDebug.help()" for available commands');
 }
-
-// Handle requests from extension UI (e.g., sidepanel) to fetch the page's main content
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { detectSemanticSections, hasLayoutBox, isContentNode } from "./useDetectSections";
+
+const element = (html: string): Element => {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    return container.firstElementChild!;
+};
+
+const isVisible = () => true;
+
+describe('isContentNode', () => {
+    it('rejects page chrome by tag', () => {
+        for (const tag of ['nav', 'footer', 'header', 'aside', 'form', 'script', 'style']) {
+            expect(isContentNode(element(`<${tag}></${tag}>`), isVisible)).toBe(false);
+        }
+        expect(isContentNode(element('<p>Text</p>'), isVisible)).toBe(true);
+    });
+
+    it('rejects classes containing ad, banner, cookie, promo or nav', () => {
+        for (const className of ['ad', 'top-ad', 'advertisement', 'site_banner', 'cookieConsent', 'promotions', 'navbar']) {
+            expect(isContentNode(element(`<div class="${className}"></div>`), isVisible), className).toBe(false);
+        }
+    });
+
+    it('matches those words anywhere in the class attribute, even inside other words', () => {
+        for (const className of ['heading', 'read-more', 'shadow', 'thread', 'article unavailable']) {
+            expect(isContentNode(element(`<div class="${className}"></div>`), isVisible), className).toBe(false);
+        }
+        for (const className of ['content', 'article-body', 'post entry']) {
+            expect(isContentNode(element(`<div class="${className}"></div>`), isVisible), className).toBe(true);
+        }
+    });
+
+    it('uses the visibility check it is given', () => {
+        expect(isContentNode(element('<p>Text</p>'), () => false)).toBe(false);
+        expect(isContentNode(null, isVisible)).toBe(false);
+    });
+
+    it('treats elements without a layout box as hidden by default', () => {
+        // jsdom lays nothing out, so every offset size is 0
+        const p = document.body.appendChild(element('<p>Text</p>'));
+        expect(hasLayoutBox(p)).toBe(false);
+        expect(isContentNode(p)).toBe(false);
+        p.remove();
+    });
+});
+
+describe('detectSemanticSections', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('makes a section of each heading, titled and selected by it', () => {
+        document.body.innerHTML = `
+            <h1 id="intro">Introduction [edit]</h1>
+            <p>First paragraph.</p>
+            <div class="wrapper"><h2></h2></div>
+            <h2 class="heading">Details</h2>
+        `;
+
+        const sections = detectSemanticSections();
+
+        expect(sections.map(section => section.title)).toEqual(['Introduction', 'Section 2', 'Details']);
+        expect(sections[0].cssSelector).toBe('#intro');
+        expect(document.querySelector(sections[1].cssSelector)?.tagName).toBe('H2');
+        expect(document.querySelector(sections[2].cssSelector)?.textContent).toBe('Details');
+    });
+});
@@ -8,26 +8,32 @@ export interface Section {
     contentHTML?: string
 }
 
+// Whether an element is rendered, for skipping hidden parts of the page
+export type VisibilityCheck = (el: Element) => boolean;
+
+/**
+ * Rendered elements have a layout box. Without layout (e.g. in jsdom, where every
+ * offset size is 0) nothing could be told apart, so pass another check there.
+ */
+export const hasLayoutBox: VisibilityCheck = (el) => {
+    // Some elements may not have visual dimensions
+    if (!("offsetHeight" in el) || !("offsetWidth" in el)) return true;
+    return (el as HTMLElement).offsetHeight !== 0 && (el as HTMLElement).offsetWidth !== 0;
+};
+
 /**
  * Checks if a DOM node is likely part of the main content.
  */
-function isContentNode(node: Element | null): boolean {
+export function isContentNode(node: Element | null, isVisible: VisibilityCheck = hasLayoutBox): boolean {
     if (!node || node.nodeType !== Node.ELEMENT_NODE) return false;
 
     const tag = node.tagName.toLowerCase();
     if (['script', 'nav', 'footer', 'header', 'aside', 'form', 'style'].includes(tag)) return false;
     if (typeof node.className === "string" && node.className.match(/(ad|banner|cookie|promo|nav)/i)) return false;
-    // Some elements may not have visual dimensions
-    if (
-        "offsetHeight" in node &&
-        "offsetWidth" in node &&
-        (node as HTMLElement).offsetHeight === 0
-    ) return false;
-    if ("offsetWidth" in node && (node as HTMLElement).offsetWidth === 0) return false;
-    return true;
+    return isVisible(node);
 }
 
-function generateUniqueSelector(el: Element | null): string {
+export function generateUniqueSelector(el: Element | null): string {
     if (!el) return '';
     const path: string[] = [];
     let element: Element | null = el;
@@ -109,7 +115,7 @@ export function detectVisualClusters(): Array<{
     endY: number
     contentHTML: string
 }> {
-    const candidateBlocks = Array.from(document.body.querySelectorAll('p, div, article, section')).filter(isContentNode);
+    const candidateBlocks = Array.from(document.body.querySelectorAll('p, div, article, section')).filter(el => isContentNode(el));
     if (candidateBlocks.length === 0) return [];
     const rects = candidateBlocks.map(el => ({ el: el as HTMLElement, rect: el.getBoundingClientRect() }));
     rects.sort((a, b) => a.rect.top - b.rect.top);
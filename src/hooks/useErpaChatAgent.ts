@@ -1,9 +1,39 @@
-import { FunctionRegistry, SessionManager, StreamProcessor, buildFunctionSystemPrompt, executeFunctionCall, formatFunctionResult, parseFunctionCall } from "@ahnopologetic/use-prompt-api";
+import { FunctionRegistry, SessionManager, StreamProcessor, buildFunctionSystemPrompt, executeFunctionCallWithConfirmation, formatFunctionResult, formatPlan, parseFunctionCall, parsePlan, type ConfirmationRequest } from "@ahnopologetic/use-prompt-api";
 import { useEffect, useState } from "react";
-import { getContentFunction, navigateFunction, readOutFunction, semanticSearchFunction } from "~lib/functions/definitions";
-import { log } from "~lib/log";
+import { agentFunctions } from "~lib/functions/definitions";
+import { log, warn } from "~lib/log";
+import { extractMemories, formatMemories } from "~lib/memory/extractor";
+import { call, notify } from "~lib/messaging";
 import { playNotificationSound } from "~lib/notification-sound";
-import type { ChatMessage } from "~types/voice-memo";
+import { ttsCoordinator } from "~lib/tts-coordinator";
+import type { AgentPlanProgress, ChatMessage, FunctionCallConfirmation, PlanStepStatus } from "~types/voice-memo";
+
+// Longer plans are hard to follow by ear and rarely needed for a single page
+const MAX_PLAN_STEPS = 6;
+// Revised plans after failed steps before the remaining steps run as planned
+const MAX_REPLANS = 2;
+
+export interface AgentRunOptions {
+    signal?: AbortSignal;
+    // Plan the task as a checklist of steps before acting, and replan when a step fails
+    plan?: boolean;
+}
+
+/**
+ * Keeps the messages and progress of one plan step apart from the other steps'.
+ */
+interface IterationScope {
+    idPrefix: string;
+    // Progress is reported under this number instead of the loop iteration
+    progressStep?: number;
+}
+
+interface IterationOutcome {
+    // The model finished with the completion flag rather than running out of iterations
+    completed: boolean;
+    // Errors of function calls that failed, excluding calls the user declined
+    failures: string[];
+}
 
 class ErpaChatAgent {
     private session: SessionManager | null = null;
@@ -15,6 +45,7 @@ class ErpaChatAgent {
     private onProgressUpdate?: (iteration: number, action: string, status: string) => void;
     private sentMessageIds: Set<string> = new Set();
     private pendingJsonContent: string = '';
+    private pendingConfirmation: ((approved: boolean) => void) | null = null;
 
     constructor(config: {
         functions: any[];
@@ -74,6 +105,57 @@ class ErpaChatAgent {
         }
     }
 
+    /**
+     * Pause the run until the user answers. The request is shown in place of the
+     * function call bubble and answered through respondToConfirmation.
+     */
+    private requestConfirmation(messageId: string, progressStep: number, request: ConfirmationRequest, signal?: AbortSignal): Promise<boolean> {
+        // Stopping the run counts as declining, also when it stopped while the call was being described
+        if (signal?.aborted) {
+            return Promise.resolve(false);
+        }
+
+        this.onMessageUpdate?.({
+            id: messageId,
+            functionCallResponse: {
+                functionCall: request.functionCall,
+                result: null,
+                success: false,
+                confirmation: {
+                    status: 'pending',
+                    description: request.description,
+                    riskLevel: request.riskLevel
+                }
+            },
+            createdAt: Date.now()
+        });
+        this.onProgressUpdate?.(progressStep, "Waiting for confirmation", `Do you want me to ${request.description}?`);
+
+        return new Promise(resolve => {
+            const onAbort = () => this.respondToConfirmation(false);
+            // The listener goes with the answer, so a later abort cannot decline another confirmation
+            this.pendingConfirmation = approved => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(approved);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    hasPendingConfirmation(): boolean {
+        return this.pendingConfirmation !== null;
+    }
+
+    respondToConfirmation(approved: boolean): void {
+        const resolve = this.pendingConfirmation;
+        if (!resolve) {
+            return;
+        }
+        log('Confirmation answered', { approved });
+        this.pendingConfirmation = null;
+        resolve(approved);
+    }
+
     public async addToContext(context: string | PromptInput[]) {
         if (!this.session) {
             throw new Error('Session not initialized');
@@ -91,17 +173,235 @@ class ErpaChatAgent {
         this.session.append([{ role: 'system', content: `${this.systemPrompt}\n\n${buildFunctionSystemPrompt(this.registry)}` }]);
     }
 
-    async run(task: string): Promise<void> {
+    /**
+     * Memories related to the task, formatted for the prompt. Recall is best effort: the
+     * run goes ahead without memories when the embedding model or database is unavailable.
+     */
+    private async recallMemories(task: string, signal?: AbortSignal): Promise<string | null> {
+        try {
+            const { memories } = await call('background', { type: 'SEARCH_MEMORIES', query: task }, { signal });
+            if (memories.length === 0) {
+                return null;
+            }
+            log('Recalled memories', memories.map(memory => memory.content));
+            return formatMemories(memories);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            warn('Failed to recall memories:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Save facts and preferences the user stated in their message, in the background so
+     * the answer is not delayed.
+     */
+    private learnFromMessage(task: string): void {
+        (async () => {
+            const memories = await extractMemories(task);
+            if (memories.length === 0) {
+                return;
+            }
+            const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+            for (const memory of memories) {
+                await call('background', { type: 'ADD_MEMORY', ...memory, sourceUrl: tab?.url });
+            }
+        })().catch(error => warn('Failed to save memories:', error));
+    }
+
+    /**
+     * Stop everything a run may have started: speech in the sidepanel and on the page.
+     */
+    private handleAbort(): void {
+        log('Agent run stopped');
+        ttsCoordinator.cancelBySource('sidepanel');
+        notify('content', { type: 'STOP_READING' });
+
+        const messageId = `stopped-${Date.now()}`;
+        this.onMessageUpdate?.({
+            id: messageId,
+            voiceMemo: {
+                id: messageId,
+                type: 'ai',
+                audioBlob: new Blob(),
+                transcription: 'Stopped.',
+                timestamp: Date.now()
+            },
+            createdAt: Date.now()
+        });
+    }
+
+    /**
+     * Run the task until the model answers without calling a function or `maxIterations`
+     * is reached. Aborting `options.signal` cancels the response being streamed, any tool
+     * call in flight and speech output, then resolves instead of throwing. Memories
+     * related to the task are added to the first prompt, and anything the user said about
+     * themselves is remembered once the run completes.
+     *
+     * With `options.plan`, the task is first broken into steps shown as a checklist, see
+     * runWithPlan.
+     */
+    async run(task: string, options: AgentRunOptions = {}): Promise<void> {
+        if (!this.session) {
+            throw new Error('Session not initialized');
+        }
+        const { signal, plan = false } = options;
+        try {
+            const memories = await this.recallMemories(task, signal);
+            if (plan) {
+                await this.runWithPlan(task, memories, signal);
+            } else {
+                await this.runIterations(memories ? `${memories}\n\n${task}` : task, signal);
+            }
+        } catch (error) {
+            if (!signal?.aborted) {
+                throw error;
+            }
+        }
+        if (signal?.aborted) {
+            this.handleAbort();
+            return;
+        }
+
+        // Play notification sound when the run is over
+        try {
+            await playNotificationSound();
+            console.log('Notification sound triggered for completed AI response');
+        } catch (error) {
+            console.warn('Failed to play notification sound:', error);
+        }
+        this.learnFromMessage(task);
+    }
+
+    /**
+     * Ask the model for a numbered plan. Planning happens in the agent's own session so
+     * the plan stays in context while the steps run.
+     */
+    private async createPlan(task: string, memories: string | null, signal?: AbortSignal): Promise<string[]> {
+        const prompt = `${memories ? `${memories}\n\n` : ''}Before doing anything, plan this task: "${task}"
+
+Reply only with a numbered list of at most ${MAX_PLAN_STEPS} short steps, one line each. Each step should be a single action you can take with your functions, and the last step should be telling the user the answer. Do not call any functions yet.`;
+
+        const response = await this.session!.prompt(prompt, { signal });
+        log('Plan response', response);
+        return parsePlan(response).steps.slice(0, MAX_PLAN_STEPS);
+    }
+
+    /**
+     * Reflect on a failed step and plan the remaining work again.
+     */
+    private async replan(task: string, steps: AgentPlanProgress['steps'], failedIndex: number, failures: string[], signal?: AbortSignal): Promise<string[]> {
+        const progress = steps
+            .slice(0, failedIndex + 1)
+            .map((step, index) => `${index + 1}. ${step.description} (${step.status})`)
+            .join('\n');
+        const prompt = `Step ${failedIndex + 1} of your plan for "${task}" failed:
+${failures.map(failure => `- ${failure}`).join('\n')}
+
+Progress so far:
+${progress}
+
+Think briefly about why it failed, then reply with a numbered list of the remaining steps to finish the task (at most ${MAX_PLAN_STEPS}). Reply with an empty list if the task cannot be done. Do not call any functions yet.`;
+
+        const response = await this.session!.prompt(prompt, { signal });
+        log('Replan response', response);
+        return parsePlan(response).steps.slice(0, MAX_PLAN_STEPS);
+    }
+
+    /**
+     * Plan-and-execute: break the task into steps, shown as a checklist, and run each one
+     * through the streaming loop. When a step's function calls fail the agent reflects
+     * and replaces the remaining steps, up to MAX_REPLANS times.
+     */
+    private async runWithPlan(task: string, memories: string | null, signal?: AbortSignal): Promise<void> {
+        this.onProgressUpdate?.(1, "Planning", "Breaking the task into steps...");
+        const planned = await this.createPlan(task, memories, signal);
+
+        // Nothing to plan for single-step tasks
+        if (planned.length < 2) {
+            log('Plan has fewer than two steps, running the task directly');
+            await this.runIterations(memories ? `${memories}\n\n${task}` : task, signal);
+            return;
+        }
+
+        const planId = `plan-${Date.now()}`;
+        const plan: AgentPlanProgress = {
+            task,
+            steps: planned.map(description => ({ description, status: 'pending' })),
+            revision: 0
+        };
+        const emitPlan = () => {
+            this.onMessageUpdate?.({
+                id: planId,
+                plan: { ...plan, steps: plan.steps.map(step => ({ ...step })) },
+                createdAt: Date.now()
+            });
+        };
+        const setStatus = (index: number, status: PlanStepStatus) => {
+            plan.steps[index].status = status;
+            emitPlan();
+            this.onProgressUpdate?.(index + 1, `Step ${index + 1} of ${plan.steps.length}`, `${plan.steps[index].description} (${status.replace('_', ' ')})`);
+        };
+        emitPlan();
+
+        let replans = 0;
+        for (let index = 0; index < plan.steps.length; index++) {
+            if (signal?.aborted) {
+                return;
+            }
+            setStatus(index, 'in_progress');
+
+            const stepPrompt = `You are following this plan for the task "${task}":
+${formatPlan({ steps: plan.steps.map(step => step.description), dependencies: {} })}
+
+Now do step ${index + 1}: ${plan.steps[index].description}
+When this step is done, say briefly what you did or found and end with <|task_complete|>.`;
+            const outcome = await this.runIterations(stepPrompt, signal, { idPrefix: `${planId}-${index}-`, progressStep: index + 1 });
+            if (signal?.aborted) {
+                return;
+            }
+
+            if (outcome.failures.length === 0) {
+                setStatus(index, outcome.completed ? 'completed' : 'failed');
+                continue;
+            }
+
+            setStatus(index, 'failed');
+            if (replans >= MAX_REPLANS) {
+                continue;
+            }
+
+            replans++;
+            this.onProgressUpdate?.(index + 1, "Replanning", `Step ${index + 1} failed, adjusting the plan...`);
+            const remaining = await this.replan(task, plan.steps, index, outcome.failures, signal);
+            plan.steps = [
+                ...plan.steps.slice(0, index + 1),
+                ...remaining.map(description => ({ description, status: 'pending' as const }))
+            ];
+            plan.revision++;
+            emitPlan();
+        }
+
+        const completed = plan.steps.filter(step => step.status === 'completed').length;
+        this.onProgressUpdate?.(plan.steps.length, "Plan finished", `${completed} of ${plan.steps.length} steps completed`);
+    }
+
+    private async runIterations(prompt: string, signal?: AbortSignal, scope: IterationScope = { idPrefix: '' }): Promise<IterationOutcome> {
         if (!this.session) {
             throw new Error('Session not initialized');
         }
-        let currentPrompt = task;
+        const { idPrefix, progressStep } = scope;
+        const failures: string[] = [];
+        let currentPrompt = prompt;
         let iteration = 0;
 
         console.log(`STREAMING AGENT EXECUTION`);
-        console.log(`Task: ${task}\n`);
+        console.log(`Task: ${prompt}\n`);
 
         while (iteration < this.maxIterations) {
+            if (signal?.aborted) {
+                return { completed: false, failures };
+            }
             iteration++;
             console.log(`Iteration ${iteration}`);
 
@@ -110,28 +410,18 @@ class ErpaChatAgent {
             this.pendingJsonContent = '';
 
             // Send progress update
-            this.onProgressUpdate?.(iteration, "Processing", "Generating response...");
-
-            // Stream the response
-            const stream = this.session.promptStreaming(currentPrompt);
+            this.onProgressUpdate?.(progressStep ?? iteration, "Processing", "Generating response...");
 
+            // Stream and collect the response; aborting cancels the stream's reader
             let fullResponse = '';
-            let currentStreamContent = '';
-
-            // Stream and collect response
-            const reader = stream.getReader();
-            try {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    fullResponse += value;
-                    currentStreamContent += value;
-
-                    // Don't send messages during streaming - we'll handle the final response later
+            const processor = new StreamProcessor(this.session.promptStreaming(currentPrompt, { signal }), {
+                signal,
+                // Don't send messages during streaming - we'll handle the final response later
+                onChunk: (chunk) => {
+                    fullResponse += chunk;
                 }
-            } finally {
-                reader.releaseLock();
-            }
+            });
+            await processor.process();
 
             // Parse for function calls
             // First try to extract JSON from code blocks
@@ -155,7 +445,7 @@ class ErpaChatAgent {
 
             if (parsed.functionCall) {
                 // Send progress update
-                this.onProgressUpdate?.(iteration, "Executing function", `Calling ${parsed.functionCall.name}...`);
+                this.onProgressUpdate?.(progressStep ?? iteration, "Executing function", `Calling ${parsed.functionCall.name}...`);
 
                 // Display reasoning if present
                 if (parsed.reasoning) {
@@ -167,9 +457,25 @@ class ErpaChatAgent {
                 console.log(`Tool call:`);
                 console.log(JSON.stringify(parsed.functionCall, null, 2));
 
-                // Execute function
+                // Execute function, pausing for the user's answer on mutating calls
                 console.log(`\nExecuting tool...`);
-                const result = await executeFunctionCall(parsed.functionCall, this.registry);
+                let confirmation: FunctionCallConfirmation | undefined;
+                const result = await executeFunctionCallWithConfirmation(parsed.functionCall, this.registry, async (request) => {
+                    const approved = await this.requestConfirmation(`function-${idPrefix}${iteration}`, progressStep ?? iteration, request, signal);
+                    confirmation = {
+                        status: approved ? 'approved' : 'declined',
+                        description: request.description,
+                        riskLevel: request.riskLevel
+                    };
+                    return approved;
+                }, { signal });
+
+                if (signal?.aborted) {
+                    return { completed: false, failures };
+                }
+                if (!result.success && confirmation?.status !== 'declined') {
+                    failures.push(`${parsed.functionCall.name}: ${result.error ?? 'failed'}`);
+                }
 
                 // Display result as JSON
                 console.log(`Result:`);
@@ -177,18 +483,19 @@ class ErpaChatAgent {
 
                 // Send function call result to UI
                 console.log('Sending function call to UI:', {
-                    id: `function-${iteration}`,
+                    id: `function-${idPrefix}${iteration}`,
                     functionCall: parsed.functionCall,
                     result: result.result || result.error,
                     success: result.success
                 });
                 
                 const functionCallMessage = {
-                    id: `function-${iteration}`,
+                    id: `function-${idPrefix}${iteration}`,
                     functionCallResponse: {
                         functionCall: parsed.functionCall,
                         result: result.result || result.error,
-                        success: result.success
+                        success: result.success,
+                        confirmation
                     },
                     createdAt: Date.now()
                 };
@@ -229,15 +536,7 @@ class ErpaChatAgent {
                         createdAt: Date.now()
                     });
 
-                    // Play notification sound when AI response is completed
-                    try {
-                        await playNotificationSound();
-                        console.log('Notification sound triggered for completed AI response');
-                    } catch (error) {
-                        console.warn('Failed to play notification sound:', error);
-                    }
-
-                    break;
+                    return { completed: true, failures };
                 }
 
                 // Send intermediate response as a new message
@@ -259,17 +558,8 @@ class ErpaChatAgent {
             }
         }
 
-        if (iteration >= this.maxIterations) {
-            console.log('MAX ITERATIONS REACHED');
-            
-            // Play notification sound when max iterations reached (completion state)
-            try {
-                await playNotificationSound();
-                console.log('Notification sound triggered for max iterations reached');
-            } catch (error) {
-                console.warn('Failed to play notification sound:', error);
-            }
-        }
+        console.log('MAX ITERATIONS REACHED');
+        return { completed: false, failures };
     }
 
     async destroy() {
@@ -285,7 +575,7 @@ const useErpaChatAgent = (onMessageUpdate?: (message: ChatMessage) => void, onPr
 
     useEffect(() => {
         setAgent(new ErpaChatAgent({
-            functions: [navigateFunction, readOutFunction, getContentFunction, semanticSearchFunction],
+            functions: agentFunctions,
             systemPrompt: "You're a helpful AI browser agent who helps visually impaired users navigate and understand websites.",
             maxIterations: 2,
             onMessageUpdate,
@@ -1,6 +1,7 @@
 import { useCallback, useState } from 'react'
 import { type Section } from './useDetectSections'
 import { err, log } from '../lib/log'
+import { call } from '../lib/messaging'
 
 /**
  * Hook that provides fast section detection using useDetectSections
@@ -27,13 +28,9 @@ export const useFastSections = () => {
         log('Detecting sections from content script for tab:', tabId)
 
         // Send message to content script to run detectSections
-        const response = await chrome.tabs.sendMessage(tabId, { type: 'DETECT_SECTIONS' })
+        const response = await call('content', { type: 'DETECT_SECTIONS' }, { tabId })
 
-        if (!response?.ok) {
-            throw new Error(response?.error || 'Failed to detect sections from DOM')
-        }
-
-        const detectedSections = (response.sections || []) as Section[]
+        const detectedSections = response.sections || []
         log('Received detected sections from content script:', detectedSections)
 
         return detectedSections
@@ -65,10 +62,10 @@ export const useFastSections = () => {
             }
 
             log('Scrolling to section:', cssSelector)
-            await chrome.tabs.sendMessage(tabId, {
+            await call('content', {
                 type: 'SCROLL_TO_SECTION',
                 selector: cssSelector
-            })
+            }, { tabId })
         } catch (error) {
             err('Navigation error:', error)
             setError(error)
@@ -101,10 +98,10 @@ export const useFastSections = () => {
 
             // Send sections to content script for highlighting
             try {
-                await chrome.tabs.sendMessage(tabId, {
+                await call('content', {
                     type: 'SET_SECTIONS',
                     sections: tocItems
-                })
+                }, { tabId })
                 log('Sent sections to content script for highlighting')
             } catch (contentScriptError) {
                 // Content script might not be loaded yet, this is not critical
@@ -138,10 +135,10 @@ export const useFastSections = () => {
 
                 // Send sections to content script for highlighting
                 try {
-                    await chrome.tabs.sendMessage(tabId, {
+                    await call('content', {
                         type: 'SET_SECTIONS',
                         sections: context.toc
-                    })
+                    }, { tabId })
                     log('Sent loaded sections to content script for highlighting')
                 } catch (contentScriptError) {
                     // Content script might not be loaded yet, this is not critical
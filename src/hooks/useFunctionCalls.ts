@@ -1,7 +1,7 @@
 import { useCallback, useState } from "react";
 import type { TocItem, PromptAPIActions } from "~hooks/usePromptAPI";
 import { parseCommand, executeCommand } from "~lib/functions/parser";
-import { functionRegistry } from "~lib/functions/registry";
+import { getToolParameters, toolRegistry } from "~lib/functions/registry";
 import { log, err } from "~lib/log";
 import type { AIResponseOptions } from "~types/voice-memo";
 
@@ -52,7 +52,7 @@ export function useFunctionCalls(options: UseFunctionCallsOptions): UseFunctionC
                                 value: `You are a web browsing assistant. Decide whether the user input requires web browsing actions or can be answered with general knowledge.
 
                             Available web browsing functions:
-                            ${functionRegistry.map(func => `- ${func.name}: ${func.description}`).join('\n')}
+                            ${toolRegistry.map(tool => `- ${tool.name}: ${tool.description}`).join('\n')}
 
                             RULES:
                             - If the user wants to FIND, READ, GET, SUMMARIZE, or ANALYZE content from the current webpage → Use functions (respond with <blank>)
@@ -124,10 +124,10 @@ export function useFunctionCalls(options: UseFunctionCallsOptions): UseFunctionC
 CRITICAL: You CANNOT provide information about webpage content without using the getContent function first.
 
 Available functions:
-${functionRegistry.map(func => `
-- ${func.name}: ${func.description}
-  Parameters: ${func.parameters.map(p => `${p.name} (${p.type}${p.required ? ', required' : ''})`).join(', ')}
-  Examples: ${func.examples.join(', ')}
+${toolRegistry.map(tool => `
+- ${tool.name}: ${tool.description}
+  Parameters: ${getToolParameters(tool).map(p => `${p.name} (${p.type}${p.required ? ', required' : ''})`).join(', ')}
+  Examples: ${tool.examples.join(', ')}
 `).join('\n')}
 
 Your workflow:
@@ -1,5 +1,6 @@
 import { useCallback, useState, useRef, useEffect } from 'react';
 import { err, isVerbose, log, timeEnd, timeStart, warn } from '../lib/log';
+import { call } from '../lib/messaging';
 import { tabContextManager } from '../lib/tab-context';
 
 export type TocItem = { title: string; cssSelector: string }
@@ -148,11 +149,8 @@ export const usePromptAPI = (options: UsePromptAPIOptions = {}): PromptAPIState
         if (tabId == null) {
             throw new Error('No active tab')
         }
-        const response = await chrome.tabs.sendMessage(tabId, { type: 'GET_MAIN_CONTENT' })
-        if (!response?.ok) {
-            throw new Error(response?.error || 'Failed to retrieve main content')
-        }
-        return { text: response.text as string, headings: (response.headings || []) as { text: string; selector: string }[] }
+        const response = await call('content', { type: 'GET_MAIN_CONTENT' }, { tabId })
+        return { text: response.text, headings: response.headings || [] }
     }, [getActiveTabId])
 
     const extractWithChunked = useCallback(async (session: LanguageModelSession, mainText: string, headings: { text: string; selector: string }[]): Promise<TocItem[]> => {
@@ -358,10 +356,10 @@ export const usePromptAPI = (options: UsePromptAPIOptions = {}): PromptAPIState
 
             // Send sections to content script for highlighting
             try {
-                await chrome.tabs.sendMessage(tabId, {
+                await call('content', {
                     type: 'SET_SECTIONS',
                     sections: toc
-                })
+                }, { tabId })
                 log('Sent sections to content script for highlighting')
             } catch (contentScriptError) {
                 // Content script might not be loaded yet, this is not critical
@@ -414,10 +412,10 @@ export const usePromptAPI = (options: UsePromptAPIOptions = {}): PromptAPIState
             }
 
             log('Scrolling to section', cssSelector)
-            await chrome.tabs.sendMessage(tabId, {
+            await call('content', {
                 type: 'SCROLL_TO_SECTION',
                 selector: cssSelector
-            })
+            }, { tabId })
         } catch (error) {
             err('Navigation error', error)
             setError(error)
@@ -440,10 +438,10 @@ export const usePromptAPI = (options: UsePromptAPIOptions = {}): PromptAPIState
 
                 // Send sections to content script for highlighting
                 try {
-                    await chrome.tabs.sendMessage(tabId, {
+                    await call('content', {
                         type: 'SET_SECTIONS',
                         sections: context.toc
-                    })
+                    }, { tabId })
                     log('Sent loaded sections to content script for highlighting')
                 } catch (contentScriptError) {
                     // Content script might not be loaded yet, this is not critical
@@ -1,4 +1,5 @@
 import { log, err, debug } from "~lib/log"
+import { notify } from "~lib/messaging"
 import { useCallback, useRef, useState } from "react"
 
 interface UseSpeechRecognitionOptions {
@@ -86,10 +87,9 @@ const useSpeechRecognition = (options: UseSpeechRecognitionOptions = {}) => {
 
                     // Send to sidepanel if no custom handler provided
                     if (!onResult) {
-                        chrome.runtime.sendMessage({
-                            type: "speech-recognition-result",
-                            transcript: finalTranscript,
-                            target: "sidepanel"
+                        notify('sidepanel', {
+                            type: 'SPEECH_RECOGNITION_RESULT',
+                            transcript: finalTranscript
                         })
                     }
 
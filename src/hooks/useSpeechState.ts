@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import { ttsCoordinator } from '~lib/tts-coordinator'
+import type { SpeechState } from '~lib/tts/speech-coordinator'
+
+/**
+ * What the extension is saying right now, in any tab or the sidepanel, kept up to date
+ * from the background's speech coordinator
+ */
+export const useSpeechState = (): SpeechState => {
+    const [state, setState] = useState<SpeechState>(() => ttsCoordinator.getState())
+
+    useEffect(() => {
+        setState(ttsCoordinator.getState())
+        return ttsCoordinator.subscribe(setState)
+    }, [])
+
+    return state
+}
+
+export default useSpeechState
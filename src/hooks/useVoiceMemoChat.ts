@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import type { VoiceMemo, ChatMessage, ChatSession, AIResponseOptions, AIResponseResult } from '~types/voice-memo';
 import { voiceMemoStorage } from '~lib/voice-memo-storage';
 import { log, err } from '~lib/log';
+import { synthesizeSpeech } from '~lib/tts/engine';
 
 interface UseVoiceMemoChatOptions {
     tabId?: number;
@@ -230,19 +231,17 @@ export const useVoiceMemoChat = (options: UseVoiceMemoChatOptions = {}): UseVoic
         }
     }, [tabId, url]);
 
-    // Generate AI response (text to speech simulation)
+    // Generate AI response, spoken by the neural voice chosen in TTS settings
     const generateAIResponse = useCallback(async (textResponse: string): Promise<AIResponseResult> => {
         try {
-            // For now, we'll create a simple audio blob from text
-            // In a real implementation, you'd use a TTS service
-            const audioBlob = await textToSpeechBlob(textResponse);
-            console.log('audioBlob', audioBlob.size);
+            const { blob: audioBlob, duration } = await synthesizeSpeech(textResponse);
+            log('Synthesized AI response audio', { size: audioBlob.size, duration });
 
             return {
                 text: textResponse,
                 audioBlob,
                 audioUrl: URL.createObjectURL(audioBlob),
-                duration: 3.0 // Estimated duration
+                duration
             };
         } catch (error) {
             err('Failed to generate AI response', error);
@@ -319,14 +318,16 @@ export const useVoiceMemoChat = (options: UseVoiceMemoChatOptions = {}): UseVoic
 
             const aiResponse = await generateAIResponse(options.textResponse);
 
+            // Synthesis can fail (e.g. the voice cannot be downloaded offline); the answer
+            // is then kept as text
             if (aiResponse.error) {
-                throw new Error(aiResponse.error);
+                err('AI response has no audio', aiResponse.error);
             }
 
             const voiceMemo: VoiceMemo = {
                 id: voiceMemoStorage.generateVoiceMemoId(),
                 type: 'ai',
-                audioBlob: aiResponse.audioBlob!,
+                audioBlob: aiResponse.audioBlob ?? new Blob(),
                 audioUrl: aiResponse.audioUrl,
                 transcription: aiResponse.text,
                 timestamp: Date.now(),
@@ -423,132 +424,3 @@ export const useVoiceMemoChat = (options: UseVoiceMemoChatOptions = {}): UseVoic
         generateAIResponse
     };
 };
-
-// Helper function to create audio blob from text (placeholder implementation)
-// Use SpeechSynthesis to generate an audio Blob from text
-async function textToSpeechBlob(text: string): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-        try {
-            // Wait for voices to be loaded
-            const speakText = () => {
-                // Create SpeechSynthesisUtterance
-                const utterance = new SpeechSynthesisUtterance(text);
-
-                // Configure voice settings
-                utterance.rate = 0.9; // Slightly slower for clarity
-                utterance.pitch = 1.0; // Normal pitch
-                utterance.volume = 1.0; // Full volume
-
-                // Select the best available voice
-                const voices = speechSynthesis.getVoices();
-                const englishVoice = voices.find(voice =>
-                    voice.lang.startsWith('en') && voice.default
-                ) || voices.find(voice => voice.lang.startsWith('en'));
-
-                if (englishVoice) {
-                    utterance.voice = englishVoice;
-                    console.log('Using voice:', englishVoice.name, englishVoice.lang);
-                }
-
-                // Calculate estimated duration for the audio blob
-                const wordCount = text.split(/\s+/).length;
-                const estimatedDuration = Math.max(wordCount / 2.5, 1.0); // ~150 words per minute
-
-                // Create a simple audio representation
-                // Since we can't directly capture SpeechSynthesis output,
-                // we'll create an audio blob that represents the TTS duration
-                const audioContext = new AudioContext();
-                const sampleRate = audioContext.sampleRate;
-                const length = sampleRate * estimatedDuration;
-
-                const buffer = audioContext.createBuffer(1, length, sampleRate);
-                const data = buffer.getChannelData(0);
-
-                // Generate a subtle tone pattern that represents the speech
-                for (let i = 0; i < length; i++) {
-                    const t = i / sampleRate;
-                    // Create a very subtle tone that varies with the text
-                    const baseFreq = 200 + (text.charCodeAt(Math.floor(i / (length / text.length))) % 100);
-                    data[i] = Math.sin(2 * Math.PI * baseFreq * t) * 0.05 * Math.exp(-t * 0.3);
-                }
-
-                // Convert to WAV blob
-                const wavBuffer = encodeWAV(buffer);
-                const blob = new Blob([wavBuffer], { type: 'audio/wav' });
-
-                // Clean up
-                audioContext.close();
-
-                console.log('Generated TTS audio blob:', {
-                    size: blob.size,
-                    duration: estimatedDuration,
-                    textLength: text.length
-                });
-
-                resolve(blob);
-            };
-
-            // Ensure voices are loaded
-            if (speechSynthesis.getVoices().length === 0) {
-                speechSynthesis.addEventListener('voiceschanged', speakText, { once: true });
-                // Fallback timeout
-                setTimeout(() => {
-                    speechSynthesis.removeEventListener('voiceschanged', speakText);
-                    speakText();
-                }, 1000);
-            } else {
-                speakText();
-            }
-
-        } catch (error) {
-            reject(new Error(`TTS setup failed: ${error}`));
-        }
-    });
-}
-
-// Helper function to encode audio buffer as WAV
-function encodeWAV(buffer: AudioBuffer): ArrayBuffer {
-    const length = buffer.length;
-    const sampleRate = buffer.sampleRate;
-    const channels = buffer.numberOfChannels;
-    const bitsPerSample = 16;
-    const bytesPerSample = bitsPerSample / 8;
-    const blockAlign = channels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = length * blockAlign;
-    const bufferSize = 44 + dataSize;
-
-    const arrayBuffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(arrayBuffer);
-
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-        for (let i = 0; i < string.length; i++) {
-            view.setUint8(offset + i, string.charCodeAt(i));
-        }
-    };
-
-    writeString(0, 'RIFF');
-    view.setUint32(4, bufferSize - 8, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, channels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitsPerSample, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataSize, true);
-
-    // Convert float samples to 16-bit PCM
-    let offset = 44;
-    for (let i = 0; i < length; i++) {
-        const sample = Math.max(-1, Math.min(1, buffer.getChannelData(0)[i]));
-        view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-        offset += 2;
-    }
-
-    return arrayBuffer;
-}
@@ -0,0 +1,134 @@
+// @vitest-environment node
+import { PGlite } from '@electric-sql/pglite'
+import { vector } from '@electric-sql/pglite/dist/vector'
+import { afterEach, describe, expect, it } from 'vitest'
+import { initSchema } from './db'
+import { LEGACY_EMBEDDING_MODEL } from './semantic-search/embedding-model'
+
+const embedding = (seed: number) => JSON.stringify(Array.from({ length: 384 }, (_, i) => (i === seed ? 1 : 0)))
+
+const primaryKey = async (db: PGlite, table: string) => {
+    const result = await db.query<{ column: string }>(
+        `select a.attname as column
+         from pg_index i join pg_attribute a on a.attrelid = i.indrelid and a.attnum = any(i.indkey)
+         where i.indrelid = $1::regclass and i.indisprimary
+         order by array_position(i.indkey, a.attnum)`,
+        [table]
+    )
+    return result.rows.map(row => row.column)
+}
+
+describe('initSchema', () => {
+    let db: PGlite
+
+    afterEach(async () => {
+        await db.close()
+    })
+
+    it('creates the tables keyed by page and model, and can run again', async () => {
+        db = new PGlite({ extensions: { vector } })
+        await initSchema(db)
+        await initSchema(db)
+
+        expect(await primaryKey(db, 'pages')).toEqual(['url', 'model_id', 'model_version'])
+        expect(await primaryKey(db, 'sentences')).toEqual(['url', 'model_id', 'model_version', 'idx'])
+    }, 60_000)
+
+    it('re-keys pages that were keyed by url alone under the legacy model', async () => {
+        db = new PGlite({ extensions: { vector } })
+        await db.exec(`
+        create extension vector;
+        create table pages (
+          url text primary key,
+          page_hash text not null,
+          sentence_count integer not null default 0,
+          created_at timestamp default now(),
+          title text,
+          model_id text,
+          dimensions integer
+        );
+        create table sentences (
+          url text not null references pages(url) on delete cascade,
+          idx integer not null,
+          segment_index integer not null,
+          text text not null,
+          selector text not null,
+          start_offset integer not null default 0,
+          end_offset integer not null default 0,
+          embedding vector(384) not null,
+          primary key (url, idx)
+        );
+        alter table sentences add column text_hash text generated always as (md5(text)) stored;
+        create index sentences_text_hash_idx on sentences (url, text_hash);
+        create table agent_memories (
+          id serial primary key,
+          kind text not null,
+          content text not null,
+          embedding vector(384) not null,
+          source_url text,
+          created_at timestamp default now(),
+          model_id text
+        );
+        insert into pages (url, page_hash, sentence_count) values ('https://example.com', 'hash', 1);
+        `)
+        await db.query(
+            `insert into sentences (url, idx, segment_index, text, selector, embedding) values ('https://example.com', 0, 0, 'Hello.', 'p', $1::vector)`,
+            [embedding(0)]
+        )
+        await db.query(`insert into agent_memories (kind, content, embedding) values ('fact', 'Likes tea', $1::vector)`, [embedding(1)])
+
+        await initSchema(db)
+
+        const { id, version, dimensions } = LEGACY_EMBEDDING_MODEL
+        expect((await db.query('select url, model_id, model_version, dimensions from pages')).rows).toEqual([
+            { url: 'https://example.com', model_id: id, model_version: version, dimensions }
+        ])
+        expect((await db.query('select url, model_id, model_version, text from sentences')).rows).toEqual([
+            { url: 'https://example.com', model_id: id, model_version: version, text: 'Hello.' }
+        ])
+        expect((await db.query('select model_id, model_version from agent_memories')).rows).toEqual([
+            { model_id: id, model_version: version }
+        ])
+        expect(await primaryKey(db, 'pages')).toEqual(['url', 'model_id', 'model_version'])
+
+        // Another model can now index the same page beside it
+        await db.query(
+            `insert into pages (url, model_id, model_version, dimensions, page_hash) values ('https://example.com', 'hash-stub', '1', 384, 'other')`
+        )
+        expect((await db.query('select count(*)::int as count from pages')).rows[0]).toEqual({ count: 2 })
+    }, 60_000)
+
+    it('moves pages out of the old cached_pages blobs and drops the table', async () => {
+        db = new PGlite({ extensions: { vector } })
+        await db.exec(`
+        create table cached_pages (
+          url text primary key,
+          page_data jsonb not null,
+          created_at timestamp default now()
+        );
+        `)
+        await db.query(`insert into cached_pages (url, page_data) values ($1, $2::jsonb)`, [
+            'https://example.com/old',
+            JSON.stringify({
+                pageHash: 'old-hash',
+                sentences: [
+                    { text: 'First sentence.', selector: 'p:nth-of-type(1)', index: 3, startOffset: 0, endOffset: 15 },
+                    { text: 'Second sentence.', selector: 'p:nth-of-type(2)' }
+                ],
+                // The second sentence was never embedded
+                embeddings: [JSON.parse(embedding(2))]
+            })
+        ])
+
+        await initSchema(db)
+
+        const { id, version } = LEGACY_EMBEDDING_MODEL
+        expect((await db.query('select url, model_id, model_version, page_hash, sentence_count from pages')).rows).toEqual([
+            { url: 'https://example.com/old', model_id: id, model_version: version, page_hash: 'old-hash', sentence_count: 2 }
+        ])
+        expect((await db.query('select idx, segment_index, text, selector, end_offset, kind from sentences')).rows).toEqual([
+            { idx: 0, segment_index: 3, text: 'First sentence.', selector: 'p:nth-of-type(1)', end_offset: 15, kind: 'sentence' }
+        ])
+        expect((await db.query(`select to_regclass('cached_pages') is null as dropped`)).rows[0]).toEqual({ dropped: true })
+    }, 60_000)
+})
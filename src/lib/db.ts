@@ -1,5 +1,6 @@
 import { PGlite } from '@electric-sql/pglite'
 import { vector } from '@electric-sql/pglite/dist/vector'
+import { LEGACY_EMBEDDING_MODEL } from '~lib/semantic-search/embedding-model'
 
 let dbInstance
 // Implement a singleton pattern to make sure we only create one database instance.
@@ -19,16 +20,175 @@ export async function getDB() {
 
 // Initialize the database schema.
 export const initSchema = async (db) => {
-    return await db.exec(`
+    await db.exec(`
     create extension if not exists vector;
-    
-    -- Cache table for storing page-level embeddings and data
-    create table if not exists cached_pages (
-      url text primary key,
-      page_data jsonb not null,
+
+    -- One row per indexed page and embedding model. Embeddings from different models
+    -- live in different spaces, so each model keeps its own index of a page and
+    -- searches only compare those of the current model.
+    create table if not exists pages (
+      url text not null,
+      model_id text not null,
+      model_version text not null,
+      page_hash text not null,
+      sentence_count integer not null default 0,
+      created_at timestamp default now(),
+      primary key (url, model_id, model_version)
+    );
+
+    -- Shown when searching across every page read so far
+    alter table pages add column if not exists title text;
+
+    -- Added to databases from before pages were keyed by model; see keyPagesByModel
+    alter table pages add column if not exists model_id text;
+    alter table pages add column if not exists model_version text;
+    alter table pages add column if not exists dimensions integer;
+
+    -- Sentences of each page with their embeddings (384 dimensions). idx is the position
+    -- in the page's search index, segment_index the segmenter's own index.
+    create table if not exists sentences (
+      url text not null,
+      model_id text not null,
+      model_version text not null,
+      idx integer not null,
+      segment_index integer not null,
+      text text not null,
+      selector text not null,
+      start_offset integer not null default 0,
+      end_offset integer not null default 0,
+      embedding vector(384) not null,
+      primary key (url, model_id, model_version, idx),
+      foreign key (url, model_id, model_version) references pages on delete cascade
+    );
+
+    alter table sentences add column if not exists model_id text;
+    alter table sentences add column if not exists model_version text;
+
+    create index if not exists sentences_embedding_idx on sentences using hnsw (embedding vector_cosine_ops);
+
+    -- Lexical index for BM25 beside the embeddings. The 'simple' configuration keeps
+    -- names, numbers and codes ("SKU 4471", "3.2") as written, without stemming.
+    alter table sentences add column if not exists lexemes tsvector
+      generated always as (to_tsvector('simple', text)) stored;
+    create index if not exists sentences_lexemes_idx on sentences using gin (lexemes);
+
+    -- Lets a re-index keep the embeddings of sentences whose text did not change
+    alter table sentences add column if not exists text_hash text
+      generated always as (md5(text)) stored;
+    create index if not exists sentences_text_hash_idx on sentences (url, model_id, model_version, text_hash);
+
+    -- What the segment was made from: running text, or a table row, image or definition
+    -- list entry written out as text (see SegmentKind)
+    alter table sentences add column if not exists kind text not null default 'sentence';
+
+    -- Facts and preferences the agent learned about the user, kept across sessions.
+    -- Embeddings come from the same model as page search (384 dimensions).
+    create table if not exists agent_memories (
+      id serial primary key,
+      kind text not null,
+      content text not null,
+      embedding vector(384) not null,
+      source_url text,
       created_at timestamp default now()
     );
+
+    alter table agent_memories add column if not exists model_id text;
+    alter table agent_memories add column if not exists model_version text;
+
+    -- Filtered HNSW scans (one page's sentences) keep scanning until enough rows match
+    set hnsw.iterative_scan = relaxed_order;
   `)
+
+    await migrateCachedPages(db)
+    await keyPagesByModel(db)
+
+    await db.query(
+        `update agent_memories set model_id = coalesce(model_id, $1), model_version = $2 where model_version is null`,
+        [LEGACY_EMBEDDING_MODEL.id, LEGACY_EMBEDDING_MODEL.version]
+    )
+}
+
+/**
+ * Re-key pages and sentences, which used to be keyed by url alone, by (url, model_id,
+ * model_version). Everything stored before the model was recorded came from the
+ * English-only MiniLM model.
+ */
+const keyPagesByModel = async (db) => {
+    const key = await db.query(
+        `select count(*)::int as columns
+         from pg_index i join pg_attribute a on a.attrelid = i.indrelid and a.attnum = any(i.indkey)
+         where i.indrelid = 'pages'::regclass and i.indisprimary`
+    )
+    if (key.rows[0].columns > 1) {
+        return
+    }
+
+    await db.transaction(async (tx) => {
+        await tx.query(
+            `update pages set model_id = coalesce(model_id, $1), model_version = $2, dimensions = coalesce(dimensions, $3)`,
+            [LEGACY_EMBEDDING_MODEL.id, LEGACY_EMBEDDING_MODEL.version, LEGACY_EMBEDDING_MODEL.dimensions]
+        )
+        await tx.exec(`
+        update sentences s set model_id = p.model_id, model_version = p.model_version
+        from pages p where p.url = s.url;
+
+        alter table sentences drop constraint sentences_url_fkey;
+        alter table sentences drop constraint sentences_pkey;
+        alter table pages drop constraint pages_pkey;
+
+        alter table pages alter column model_id set not null, alter column model_version set not null;
+        alter table pages add primary key (url, model_id, model_version);
+        alter table sentences alter column model_id set not null, alter column model_version set not null;
+        alter table sentences add primary key (url, model_id, model_version, idx);
+        alter table sentences add foreign key (url, model_id, model_version) references pages on delete cascade;
+
+        drop index sentences_text_hash_idx;
+        create index sentences_text_hash_idx on sentences (url, model_id, model_version, text_hash);
+      `)
+    })
+}
+
+/**
+ * Move embeddings from the old cached_pages table, which stored each page as one jsonb
+ * blob, into pages and sentences, then drop it.
+ */
+const migrateCachedPages = async (db) => {
+    const legacy = await db.query(`SELECT to_regclass('cached_pages') IS NOT NULL AS exists`)
+    if (!legacy.rows[0].exists) {
+        return
+    }
+
+    const { id, version, dimensions } = LEGACY_EMBEDDING_MODEL
+    await db.transaction(async (tx) => {
+        await tx.query(
+            `insert into pages (url, model_id, model_version, dimensions, page_hash, sentence_count, created_at)
+             select url, $1, $2, $3, coalesce(page_data->>'pageHash', ''), jsonb_array_length(page_data->'sentences'), created_at
+             from cached_pages
+             on conflict do nothing`,
+            [id, version, dimensions]
+        )
+
+        await tx.query(
+            `insert into sentences (url, model_id, model_version, idx, segment_index, text, selector, start_offset, end_offset, embedding)
+             select
+               c.url,
+               $1,
+               $2,
+               (s.ord - 1)::int,
+               coalesce((s.value->>'index')::int, (s.ord - 1)::int),
+               s.value->>'text',
+               s.value->>'selector',
+               coalesce((s.value->>'startOffset')::int, 0),
+               coalesce((s.value->>'endOffset')::int, 0),
+               ((c.page_data->'embeddings')->((s.ord - 1)::int))::text::vector
+             from cached_pages c, jsonb_array_elements(c.page_data->'sentences') with ordinality as s(value, ord)
+             where (c.page_data->'embeddings')->((s.ord - 1)::int) is not null
+             on conflict do nothing`,
+            [id, version]
+        )
+
+        await tx.exec('drop table cached_pages')
+    })
 }
 
 // Helper method to count the rows in a table.
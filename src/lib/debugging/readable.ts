@@ -7,7 +7,7 @@ type ReadableType = Granularity | 'staticText';
 function isElement(n: Node): n is Element { return n.nodeType === Node.ELEMENT_NODE; }
 function isText(n: Node): n is Text { return n.nodeType === Node.TEXT_NODE; }
 
-function isHiddenInAX(el: Element): boolean {
+export function isHiddenInAX(el: Element): boolean {
     if (el.closest('[hidden],[inert],[aria-hidden="true"]')) return true;
     const cs = getComputedStyle(el);
     if (cs.display === 'none' || cs.visibility === 'hidden') return true;
@@ -17,14 +17,14 @@ function isHiddenInAX(el: Element): boolean {
     return false;
 }
 
-function isFocusable(el: Element): boolean {
+export function isFocusable(el: Element): boolean {
     const focusable = (el as HTMLElement).tabIndex >= 0;
     const n = el.nodeName.toLowerCase();
     const native = ['a', 'button', 'input', 'select', 'textarea', 'summary'].includes(n);
     return focusable || native;
 }
 
-function roleOf(el: Element): string | undefined {
+export function roleOf(el: Element): string | undefined {
     const r = el.getAttribute('role') || '';
     if (r) return r.split(/\s+/)[0];
     // Implicit roles (very partial):
@@ -49,7 +49,7 @@ function headingLevel(el: Element): number | undefined {
     return m ? parseInt(m[1], 10) : undefined;
 }
 
-function accessibleName(el: Element): string {
+export function accessibleName(el: Element): string {
     // Extremely simplified name computation:
     const aria = el.getAttribute('aria-label');
     if (aria) return aria.trim();
@@ -133,7 +133,7 @@ function createSectionRange(heading: Element, root: Element): Range {
     return rng;
 }
 
-function* readableChunks(root: Element): Generator<ReadableChunk> {
+export function* readableChunks(root: Element): Generator<ReadableChunk> {
     // First pass: collect all headings and their section ranges
     const headings: Element[] = [];
     const headingWalker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
@@ -258,7 +258,7 @@ function* readableChunks(root: Element): Generator<ReadableChunk> {
     }
 }
 
-interface ReadableChunk {
+export interface ReadableChunk {
     type: ReadableType;
     role?: string;
     level?: number;
@@ -5,3 +5,5 @@
 export * from './types';
 export * from './element-factory';
 export * from './queue-manager';
+export * from './reading-position';
+export * from './word-highlighter';
@@ -5,7 +5,8 @@
 import type { ErpaReadableElement, ErpaReadableQueue, ErpaReadableConfig, QueueState } from './types';
 import { validateErpaReadableElement } from './element-factory';
 import { highlightNode } from '../utils';
-import { ttsCoordinator } from '../tts-coordinator';
+import { ttsCoordinator, type TTSSettings } from '../tts-coordinator';
+import { WordHighlighter } from './word-highlighter';
 
 export class ErpaReadableQueueManager implements ErpaReadableQueue {
   public elements: ErpaReadableElement[] = [];
@@ -16,6 +17,7 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
   private config: ErpaReadableConfig;
   private currentUtterance?: SpeechSynthesisUtterance;
   private isAutoProgressing: boolean = false;
+  private wordHighlighter?: WordHighlighter;
   public currentSectionIndex: number = 0;
 
   constructor(config: ErpaReadableConfig = {}) {
@@ -25,6 +27,7 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
       volume: 1.0,
       autoProgress: true,
       loopMode: false,
+      wordHighlighting: true,
       ...config
     };
   }
@@ -113,6 +116,18 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
     });
   }
 
+  /**
+   * Get the TTS settings elements are read with
+   */
+  getTTSSettings(): TTSSettings {
+    return {
+      voice: this.config.voice || null,
+      rate: this.config.rate,
+      pitch: this.config.pitch,
+      volume: this.config.volume
+    };
+  }
+
   /**
    * Start playing from the current position
    */
@@ -147,7 +162,7 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
     }
 
     this.isPlaying = false;
-    window.speechSynthesis.pause();
+    ttsCoordinator.pause();
   }
 
   /**
@@ -371,6 +386,7 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
     // Mark current element as active
     this.currentElement.isActive = true;
     this.currentElement.onStart?.();
+    this.config.onElementStart?.(this.currentElement);
 
     // Highlight the element
     this.highlightCurrentElement();
@@ -408,6 +424,13 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
 
     const requestId = `queue-element-${this.currentElement.id}-${Date.now()}`;
 
+    // Follow the spoken word inside the element, unless what is spoken is not its text
+    const wordHighlighter = this.config.wordHighlighting
+      ? new WordHighlighter(this.currentElement.node, this.currentElement.text)
+      : undefined;
+    this.wordHighlighter = wordHighlighter?.canHighlight() ? wordHighlighter : undefined;
+    const highlighter = this.wordHighlighter;
+
     // Request TTS through coordinator
     await ttsCoordinator.requestTTS({
       id: requestId,
@@ -423,10 +446,19 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
       onStart: () => {
         console.log(`TTS started for element: ${this.currentElement!.id}`);
       },
+      onBoundary: highlighter
+        ? (charIndex, charLength) => highlighter.highlightWord(charIndex, charLength)
+        : undefined,
       onEnd: () => {
         console.log(`TTS ended for element: ${this.currentElement!.id}`);
         this.handleElementComplete();
       },
+      // Stopped from elsewhere (e.g. the stop shortcut in another tab): stop reading here too
+      onCancel: () => {
+        console.log(`TTS cancelled for element: ${this.currentElement?.id ?? 'unknown'}`);
+        this.stop();
+        this.config.onQueueEnd?.();
+      },
       onError: (event) => {
         console.error(`TTS error for element ${this.currentElement?.id ?? 'unknown'}:`, event);
         this.config.onError?.(event as any, this.currentElement!);
@@ -506,6 +538,9 @@ export class ErpaReadableQueueManager implements ErpaReadableQueue {
    * Clean up the current element
    */
   private cleanupCurrentElement(): void {
+    this.wordHighlighter?.clear();
+    this.wordHighlighter = undefined;
+
     if (!this.currentElement) {
       return;
     }
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { reanchorBookmark, textFingerprint, textSimilarity, type ReadingBookmark } from './reading-position';
+
+const bookmarkFor = (text: string, selector: string, url = 'https://example.com/article'): ReadingBookmark => ({
+  url,
+  sectionIndex: 0,
+  sectionTitle: 'Introduction',
+  elementId: 'erpa-element-0',
+  selector,
+  fingerprint: textFingerprint(text),
+  timestamp: Date.now()
+});
+
+describe('textSimilarity', () => {
+  it('is 1 for the same text and 0 for texts without shared bigrams', () => {
+    expect(textSimilarity('lighthouse keepers', 'lighthouse keepers')).toBe(1);
+    expect(textSimilarity('abc', 'xyz')).toBe(0);
+  });
+
+  it('is 0 when either text is too short to have a bigram', () => {
+    expect(textSimilarity('a', 'ab')).toBe(0);
+    expect(textSimilarity('', 'ab')).toBe(0);
+  });
+
+  it('stays high for small edits and is symmetric', () => {
+    const original = 'the keepers kept meticulous records of every ship that passed';
+    const edited = 'the keepers kept careful records of every ship that passed';
+
+    expect(textSimilarity(original, edited)).toBeGreaterThan(0.8);
+    expect(textSimilarity(original, edited)).toBeCloseTo(textSimilarity(edited, original));
+    expect(textSimilarity(original, 'automation arrived in the 1980s')).toBeLessThan(0.3);
+  });
+
+  it('counts repeated bigrams only as often as both texts have them', () => {
+    // "aa" bigrams: 3 and 1, so 1 shared of 3 + 1
+    expect(textSimilarity('aaaa', 'aa')).toBeCloseTo(0.5);
+  });
+});
+
+describe('reanchorBookmark', () => {
+  const text = 'For more than a century the lighthouse keepers of the north coast kept the lamps lit.';
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('uses the bookmarked selector while it still shows the text', () => {
+    document.body.innerHTML = `<p id="first">${text}</p><p>${text}</p>`;
+
+    expect(reanchorBookmark(bookmarkFor(text, '#first'))?.id).toBe('first');
+  });
+
+  it('finds the element by its text when content moved it', () => {
+    document.body.innerHTML = `<p>A new introduction was added.</p><p>Another new paragraph.</p><p id="moved">${text}</p>`;
+
+    expect(reanchorBookmark(bookmarkFor(text, 'body > p:nth-of-type(1)'))?.id).toBe('moved');
+  });
+
+  it('finds the element when its text was edited slightly', () => {
+    document.body.innerHTML = `<p id="edited">${text.replace('century', 'hundred years')}</p>`;
+
+    expect(reanchorBookmark(bookmarkFor(text, '#gone'))?.id).toBe('edited');
+  });
+
+  it('survives a selector that no longer parses and gives null when the text is gone', () => {
+    document.body.innerHTML = '<p>Entirely different content about automation.</p>';
+
+    expect(reanchorBookmark(bookmarkFor(text, 'p:nth-of-type('))).toBeNull();
+  });
+});
+
+describe('bookmark storage', () => {
+  let store: Record<string, unknown>;
+
+  beforeEach(() => {
+    store = {};
+    const local = {
+      get: vi.fn(async (keys?: string | string[]) => {
+        if (keys === undefined) return { ...store };
+        return Object.fromEntries([keys].flat().filter(key => key in store).map(key => [key, store[key]]));
+      }),
+      set: vi.fn(async (items: Record<string, unknown>) => {
+        Object.assign(store, items);
+      }),
+      remove: vi.fn(async (keys: string | string[]) => {
+        [keys].flat().forEach(key => delete store[key]);
+      })
+    };
+    vi.stubGlobal('chrome', { storage: { local } });
+    // Pruning runs once per module load
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores each page under its own key, without the fragment', async () => {
+    const { getReadingPosition, saveReadingPosition } = await import('./reading-position');
+    const first = bookmarkFor('First page', '#a', 'https://example.com/one');
+    const second = bookmarkFor('Second page', '#b', 'https://example.com/two');
+
+    await Promise.all([saveReadingPosition(first), saveReadingPosition(second)]);
+
+    expect(Object.keys(store).sort()).toEqual([
+      'erpa_reading_position:https://example.com/one',
+      'erpa_reading_position:https://example.com/two'
+    ]);
+    expect(await getReadingPosition('https://example.com/one#section-2')).toEqual(first);
+    expect(await getReadingPosition('https://example.com/three')).toBeNull();
+  });
+
+  it('clears only the page it is asked to', async () => {
+    const { clearReadingPosition, getReadingPosition, saveReadingPosition } = await import('./reading-position');
+    await saveReadingPosition(bookmarkFor('First page', '#a', 'https://example.com/one'));
+    await saveReadingPosition(bookmarkFor('Second page', '#b', 'https://example.com/two'));
+
+    await clearReadingPosition('https://example.com/one');
+
+    expect(await getReadingPosition('https://example.com/one')).toBeNull();
+    expect(await getReadingPosition('https://example.com/two')).not.toBeNull();
+  });
+
+  it('moves bookmarks out of the old single map', async () => {
+    const legacy = bookmarkFor('Old page', '#old', 'https://example.com/old');
+    store['erpa_reading_positions'] = { [legacy.url]: legacy };
+    const { getReadingPosition } = await import('./reading-position');
+
+    expect(await getReadingPosition('https://example.com/old')).toEqual(legacy);
+    expect(store).not.toHaveProperty('erpa_reading_positions');
+  });
+
+  it('drops the oldest bookmarks beyond 200 pages', async () => {
+    for (let i = 0; i < 205; i++) {
+      store[`erpa_reading_position:https://example.com/${i}`] = { ...bookmarkFor('Page', '#p', `https://example.com/${i}`), timestamp: i };
+    }
+    const { getReadingPosition } = await import('./reading-position');
+
+    expect(await getReadingPosition('https://example.com/4')).toBeNull();
+    expect(await getReadingPosition('https://example.com/5')).not.toBeNull();
+    expect(Object.keys(store)).toHaveLength(200);
+  });
+});
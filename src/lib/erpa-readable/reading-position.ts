@@ -0,0 +1,179 @@
+/**
+ * Per-URL reading bookmarks, so reading can resume where it left off on a later visit
+ */
+
+import { generateUniqueSelector } from '~hooks/useDetectSections';
+import { warn } from '~lib/log';
+import type { ErpaReadableElement } from './types';
+
+// Each page's bookmark is stored under this prefix and its URL, so saving one page's
+// position never rewrites, or races with, another's
+const STORAGE_KEY_PREFIX = 'erpa_reading_position:';
+// Where every bookmark used to be stored in a single map
+const LEGACY_STORAGE_KEY = 'erpa_reading_positions';
+// Oldest bookmarks are dropped beyond this many pages
+const MAX_BOOKMARKS = 200;
+// Characters of an element's text kept to recognise it again
+const FINGERPRINT_LENGTH = 200;
+// Bigram similarity an element's text needs to count as the bookmarked one
+const MIN_SIMILARITY = 0.6;
+// Elements searched when the bookmarked selector no longer finds the element
+const CANDIDATE_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th, dt, dd, figcaption';
+
+export interface ReadingBookmark {
+  url: string;
+  sectionIndex: number;
+  sectionTitle: string;
+  elementId: string;
+  selector: string;
+  // Start of the element's normalized text, see textFingerprint()
+  fingerprint: string;
+  timestamp: number;
+}
+
+/**
+ * Bookmarks are kept per page, so the fragment is left out of the URL
+ */
+export const bookmarkKey = (url: string): string => url.split('#')[0];
+
+/**
+ * Lower-cased, whitespace-collapsed start of a text, stable across re-renders of the page
+ */
+export function textFingerprint(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase().slice(0, FINGERPRINT_LENGTH);
+}
+
+/**
+ * The bookmark for an element that is being read
+ */
+export function createReadingBookmark(element: ErpaReadableElement, url: string = window.location.href): ReadingBookmark {
+  return {
+    url: bookmarkKey(url),
+    sectionIndex: element.sectionIndex,
+    sectionTitle: element.sectionTitle,
+    elementId: element.id,
+    selector: generateUniqueSelector(element.node),
+    fingerprint: textFingerprint(element.text),
+    timestamp: Date.now()
+  };
+}
+
+const storageKey = (url: string): string => STORAGE_KEY_PREFIX + bookmarkKey(url);
+
+/**
+ * Move bookmarks out of the legacy map and drop the oldest beyond MAX_BOOKMARKS
+ */
+async function pruneBookmarks(): Promise<void> {
+  const all = await chrome.storage.local.get();
+
+  const legacy: Record<string, ReadingBookmark> = all[LEGACY_STORAGE_KEY] || {};
+  const migrated: Record<string, ReadingBookmark> = {};
+  Object.values(legacy).forEach(bookmark => {
+    if (!all[storageKey(bookmark.url)]) {
+      migrated[storageKey(bookmark.url)] = bookmark;
+    }
+  });
+  if (Object.keys(migrated).length > 0) {
+    await chrome.storage.local.set(migrated);
+  }
+  if (all[LEGACY_STORAGE_KEY]) {
+    await chrome.storage.local.remove(LEGACY_STORAGE_KEY);
+  }
+
+  const bookmarks: Array<[string, ReadingBookmark]> = [
+    ...Object.entries(all).filter(([key]) => key.startsWith(STORAGE_KEY_PREFIX)),
+    ...Object.entries(migrated)
+  ];
+  if (bookmarks.length > MAX_BOOKMARKS) {
+    const oldest = bookmarks
+      .sort(([, a], [, b]) => a.timestamp - b.timestamp)
+      .slice(0, bookmarks.length - MAX_BOOKMARKS)
+      .map(([key]) => key);
+    await chrome.storage.local.remove(oldest);
+  }
+}
+
+// Bookmarks are pruned once per page load rather than on every save; every read and
+// write waits for it, so none sees a bookmark that is still in the legacy map
+let pruning: Promise<void> | null = null;
+const pruneOnce = (): Promise<void> =>
+  (pruning ??= pruneBookmarks().catch(error => warn('[Reading position] Failed to prune bookmarks:', error)));
+
+export async function saveReadingPosition(bookmark: ReadingBookmark): Promise<void> {
+  await pruneOnce();
+  await chrome.storage.local.set({ [storageKey(bookmark.url)]: bookmark });
+}
+
+export async function getReadingPosition(url: string = window.location.href): Promise<ReadingBookmark | null> {
+  await pruneOnce();
+  const key = storageKey(url);
+  const result = await chrome.storage.local.get(key);
+  return result[key] || null;
+}
+
+export async function clearReadingPosition(url: string = window.location.href): Promise<void> {
+  await pruneOnce();
+  await chrome.storage.local.remove(storageKey(url));
+}
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Dice coefficient of two texts' character bigrams: 1 for the same text, near 0 for unrelated ones
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let shared = 0;
+  aBigrams.forEach((count, bigram) => {
+    shared += Math.min(count, bBigrams.get(bigram) || 0);
+  });
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+/**
+ * Find the bookmarked element in the page as it is now: at its selector if the text there
+ * still matches, otherwise the element whose text is most like the bookmarked text, since
+ * the page may have gained or lost content since the visit
+ */
+export function reanchorBookmark(bookmark: ReadingBookmark, root: Document = document): HTMLElement | null {
+  let atSelector: HTMLElement | null = null;
+  try {
+    atSelector = root.querySelector(bookmark.selector) as HTMLElement | null;
+  } catch {
+    // The selector was generated for an older version of the page
+  }
+  if (atSelector && textSimilarity(textFingerprint(atSelector.textContent || ''), bookmark.fingerprint) >= MIN_SIMILARITY) {
+    return atSelector;
+  }
+
+  let best: HTMLElement | null = null;
+  let bestSimilarity = MIN_SIMILARITY;
+  for (const candidate of Array.from(root.body.querySelectorAll<HTMLElement>(CANDIDATE_SELECTOR))) {
+    const fingerprint = textFingerprint(candidate.textContent || '');
+    // Texts of very different lengths cannot reach the threshold
+    const shorter = Math.min(fingerprint.length, bookmark.fingerprint.length);
+    const longer = Math.max(fingerprint.length, bookmark.fingerprint.length);
+    if ((2 * shorter) / (shorter + longer) < MIN_SIMILARITY) {
+      continue;
+    }
+
+    const similarity = textSimilarity(fingerprint, bookmark.fingerprint);
+    if (similarity > bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
@@ -75,6 +75,7 @@ export interface ErpaReadableConfig {
     border?: string;
     animation?: string;
   };
+  wordHighlighting?: boolean;    // Highlight each word as it is spoken (default true)
   
   // Queue settings
   autoProgress?: boolean;        // Auto-move to next section when current is complete
@@ -84,6 +85,7 @@ export interface ErpaReadableConfig {
   onQueueStart?: () => void;
   onQueueEnd?: () => void;
   onSectionChange?: (sectionIndex: number) => void;
+  onElementStart?: (element: ErpaReadableElement) => void;
   onError?: (error: Error, element: ErpaReadableElement) => void;
 }
 
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TTSRequest } from '../tts-coordinator';
+import { createErpaReadableElement } from './element-factory';
+import { ErpaReadableQueueManager } from './queue-manager';
+import { WordHighlighter } from './word-highlighter';
+
+const requests: TTSRequest[] = [];
+
+vi.mock('../tts-coordinator', () => ({
+  ttsCoordinator: {
+    requestTTS: vi.fn(async (request: TTSRequest) => {
+      requests.push(request);
+    }),
+    cancelBySource: vi.fn()
+  }
+}));
+
+// jsdom has no CSS Custom Highlight API, so record the ranges set instead
+class FakeHighlight {
+  ranges: Range[];
+  constructor(...ranges: Range[]) {
+    this.ranges = ranges;
+  }
+}
+const highlights = new Map<string, FakeHighlight>();
+
+const highlightedText = (): string | undefined =>
+  highlights.get('erpa-spoken-word')?.ranges.map(range => range.toString()).join('');
+
+const render = (html: string): HTMLElement => {
+  document.body.innerHTML = html;
+  return document.body.firstElementChild as HTMLElement;
+};
+
+beforeEach(() => {
+  vi.stubGlobal('CSS', { highlights });
+  vi.stubGlobal('Highlight', FakeHighlight);
+});
+
+afterEach(() => {
+  highlights.clear();
+  requests.length = 0;
+  vi.unstubAllGlobals();
+  document.body.innerHTML = '';
+});
+
+describe('WordHighlighter', () => {
+  it('highlights the word at a boundary offset, across inline elements', () => {
+    const text = 'Shipping is free on orders over $50.';
+    const highlighter = new WordHighlighter(render(`<p>Shipping is <strong>free</strong> on orders over $50.</p>`), text);
+
+    highlighter.highlightWord(text.indexOf('free'), 4);
+    expect(highlightedText()).toBe('free');
+
+    // Without a length, up to the next whitespace
+    highlighter.highlightWord(text.indexOf('orders'));
+    expect(highlightedText()).toBe('orders');
+
+    highlighter.highlightWord(text.indexOf('is free'), 'is free'.length);
+    expect(highlightedText()).toBe('is free');
+  });
+
+  it('maps offsets of text that starts inside the element', () => {
+    const node = render('<p>Note: <em>Returns</em> are accepted within 30 days.</p>');
+    const highlighter = new WordHighlighter(node, 'Returns are accepted within 30 days.');
+
+    highlighter.highlightWord(12, 8);
+
+    expect(highlightedText()).toBe('accepted');
+  });
+
+  it('cannot highlight text that is not the element\'s own', () => {
+    const highlighter = new WordHighlighter(render('<img alt="A lighthouse">'), 'Image. A lighthouse');
+
+    expect(highlighter.canHighlight()).toBe(false);
+    highlighter.highlightWord(0, 5);
+    expect(highlights.size).toBe(0);
+  });
+
+  it('removes the highlight when cleared', () => {
+    const highlighter = new WordHighlighter(render('<p>Gift cards never expire.</p>'), 'Gift cards never expire.');
+    highlighter.highlightWord(5, 5);
+
+    highlighter.clear();
+
+    expect(highlights.size).toBe(0);
+  });
+});
+
+describe('word highlighting while the queue reads', () => {
+  const TEXT = 'Gift cards never expire.';
+
+  const startReading = async (config = {}) => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const node = render(`<p>${TEXT}</p>`);
+    const queue = new ErpaReadableQueueManager({ autoProgress: false, ...config });
+    queue.enqueue([createErpaReadableElement({ node, text: TEXT, type: 'paragraph', sectionIndex: 0, sectionTitle: 'Gifts', order: 0 })]);
+    await queue.start();
+
+    const [request] = requests;
+    request.onBoundary!(TEXT.indexOf('never'), 5);
+    expect(highlightedText()).toBe('never');
+    return { queue, request };
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('clears the word when the element has been read', async () => {
+    const { request } = await startReading();
+
+    request.onEnd!();
+
+    expect(highlights.size).toBe(0);
+  });
+
+  it('clears the word when speech fails', async () => {
+    const onError = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { request } = await startReading({ onError });
+
+    request.onError!(new Error('synthesis-failed'));
+
+    expect(highlights.size).toBe(0);
+    expect(onError).toHaveBeenCalled();
+  });
+
+  it('clears the word when reading is stopped', async () => {
+    const { queue } = await startReading();
+
+    queue.stop();
+
+    expect(highlights.size).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Highlights the word being spoken inside an ErpaReadableElement's node
+ */
+
+// Registered with the CSS Custom Highlight API, and styled in the page's stylesheet
+const HIGHLIGHT_NAME = 'erpa-spoken-word';
+const STYLE_ID = 'erpa-word-highlight-styles';
+const WORD_BACKGROUND = 'rgba(250, 204, 21, 0.55)';
+
+// TypeScript's DOM types do not include the CSS Custom Highlight API yet
+interface CustomHighlightApi {
+  highlights: Map<string, unknown>;
+  Highlight: new (...ranges: Range[]) => unknown;
+}
+
+const getCustomHighlightApi = (): CustomHighlightApi | null => {
+  const highlights = (CSS as unknown as { highlights?: Map<string, unknown> }).highlights;
+  const Highlight = (globalThis as unknown as { Highlight?: CustomHighlightApi['Highlight'] }).Highlight;
+  return highlights && Highlight ? { highlights, Highlight } : null;
+};
+
+function injectWordHighlightStyles(): void {
+  if (document.getElementById(STYLE_ID)) return;
+
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = `
+    ::highlight(${HIGHLIGHT_NAME}) {
+      background-color: ${WORD_BACKGROUND};
+      color: inherit;
+    }
+  `;
+  document.head.appendChild(style);
+}
+
+export class WordHighlighter {
+  // Every text node under the element, with where its text starts in `content`
+  private textNodes: Array<{ node: Text; start: number }> = [];
+  // Offset of the spoken text within the element's text content, or -1 when the spoken
+  // text is not the element's own (e.g. a described image), so no word can be shown
+  private offset: number;
+  private overlays: HTMLElement[] = [];
+
+  constructor(private node: HTMLElement, private text: string) {
+    let content = '';
+    const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+    for (let current = walker.nextNode() as Text | null; current; current = walker.nextNode() as Text | null) {
+      this.textNodes.push({ node: current, start: content.length });
+      content += current.data;
+    }
+    this.offset = text ? content.indexOf(text) : -1;
+  }
+
+  /**
+   * Whether spoken character offsets can be mapped onto the element's text
+   */
+  canHighlight(): boolean {
+    return this.offset !== -1;
+  }
+
+  /**
+   * Highlight the word at a character offset into the spoken text. Speech engines may
+   * leave the length out, in which case the word runs to the next whitespace.
+   */
+  highlightWord(charIndex: number, charLength?: number): void {
+    if (!this.canHighlight()) return;
+
+    const length = charLength || (this.text.slice(charIndex).match(/^\S+/)?.[0].length ?? 0);
+    if (length === 0) return;
+
+    const range = this.rangeFor(this.offset + charIndex, this.offset + charIndex + length);
+    if (!range) return;
+
+    const api = getCustomHighlightApi();
+    if (api) {
+      injectWordHighlightStyles();
+      api.highlights.set(HIGHLIGHT_NAME, new api.Highlight(range));
+    } else {
+      this.showOverlays(range);
+    }
+  }
+
+  /**
+   * Remove the word highlight
+   */
+  clear(): void {
+    getCustomHighlightApi()?.highlights.delete(HIGHLIGHT_NAME);
+    this.removeOverlays();
+  }
+
+  private rangeFor(start: number, end: number): Range | null {
+    const startNode = this.nodeAt(start, false);
+    const endNode = this.nodeAt(end, true);
+    if (!startNode || !endNode || !startNode.node.isConnected || !endNode.node.isConnected) {
+      return null;
+    }
+
+    const range = document.createRange();
+    range.setStart(startNode.node, start - startNode.start);
+    range.setEnd(endNode.node, end - endNode.start);
+    return range;
+  }
+
+  // The text node holding a character offset; an end offset may sit just past its node's text
+  private nodeAt(offset: number, isEnd: boolean): { node: Text; start: number } | null {
+    return this.textNodes.find(({ node, start }) =>
+      offset >= start && (isEnd ? offset <= start + node.data.length : offset < start + node.data.length)
+    ) ?? null;
+  }
+
+  /**
+   * Absolutely positioned boxes over the word, for browsers without custom highlights
+   */
+  private showOverlays(range: Range): void {
+    this.removeOverlays();
+
+    for (const rect of Array.from(range.getClientRects())) {
+      const overlay = document.createElement('div');
+      overlay.style.cssText = `
+        position: absolute;
+        left: ${rect.left + window.scrollX}px;
+        top: ${rect.top + window.scrollY}px;
+        width: ${rect.width}px;
+        height: ${rect.height}px;
+        background: ${WORD_BACKGROUND};
+        border-radius: 2px;
+        pointer-events: none;
+        z-index: 2147483646;
+      `;
+      document.body.appendChild(overlay);
+      this.overlays.push(overlay);
+    }
+  }
+
+  private removeOverlays(): void {
+    this.overlays.forEach(overlay => overlay.remove());
+    this.overlays = [];
+  }
+}
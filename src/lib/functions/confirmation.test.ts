@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { confirmationQuestion, parseConfirmationAnswer } from "./confirmation"
+
+describe('parseConfirmationAnswer', () => {
+    it('accepts the ways of saying yes', () => {
+        for (const answer of ['yes', 'Yes.', 'yeah', 'yep!', 'sure', 'ok', 'Okay', 'confirm', 'go ahead', 'do it', 'please do', 'approve', '  "Yes, please"  ']) {
+            expect(parseConfirmationAnswer(answer), answer).toBe(true)
+        }
+    })
+
+    it('accepts the ways of saying no', () => {
+        for (const answer of ['no', 'No.', 'nope', 'cancel', 'stop', "don't", 'dont', 'do not', 'abort', 'never mind', 'nevermind', 'decline', 'No, thanks!']) {
+            expect(parseConfirmationAnswer(answer), answer).toBe(false)
+        }
+    })
+
+    it('reads a no before a yes in the same answer', () => {
+        expect(parseConfirmationAnswer("don't do it")).toBe(false)
+        expect(parseConfirmationAnswer('no, do it later')).toBe(false)
+    })
+
+    it('only matches whole words at the start of the answer', () => {
+        expect(parseConfirmationAnswer('yesterday')).toBeNull()
+        expect(parseConfirmationAnswer('nobody asked')).toBeNull()
+        expect(parseConfirmationAnswer('I think yes')).toBeNull()
+    })
+
+    it('returns null for anything else', () => {
+        for (const answer of ['', '   ', '?!', 'maybe', 'what does that do']) {
+            expect(parseConfirmationAnswer(answer), answer).toBeNull()
+        }
+    })
+})
+
+describe('confirmationQuestion', () => {
+    it('asks about the described action', () => {
+        expect(confirmationQuestion('submit the form')).toBe('Do you want me to submit the form?')
+    })
+})
@@ -0,0 +1,15 @@
+const YES = /^(yes|yeah|yep|sure|ok(ay)?|confirm|go ahead|do it|please do|approve)\b/i
+const NO = /^(no|nope|cancel|stop|don'?t|do not|abort|never ?mind|decline)\b/i
+
+export const confirmationQuestion = (description: string) => `Do you want me to ${description}?`
+
+/**
+ * Interpret a spoken or typed answer to a confirmation request. Returns null when the
+ * answer is neither a clear yes nor a clear no.
+ */
+export const parseConfirmationAnswer = (answer: string): boolean | null => {
+    const normalized = answer.trim().replace(/^[\s"'.,!?]+|[\s"'.,!?]+$/g, '')
+    if (NO.test(normalized)) return false
+    if (YES.test(normalized)) return true
+    return null
+}
@@ -1,88 +1,256 @@
 import { log, err } from "~lib/log"
+import { call } from "~lib/messaging"
+import type { SegmentKind } from "~lib/semantic-search/sentence-segmenter"
+import { searchTabs, type TabSearchTarget } from "~lib/semantic-search/tab-search"
+import { tabContextManager } from "~lib/tab-context"
 
-const handleNavigation = async (location: string) => {
-    const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
-    const tab = tabs?.[0]
-    log('[AI] Tab ID', { tabId: tab?.id })
-    await chrome.tabs.sendMessage(tab?.id ?? 0, { type: 'SCROLL_TO_SECTION', selector: location })
+// Keeps compareTabs output within what the on-device model can take in one turn
+const COMPARE_EXCERPT_LENGTH = 1500
+
+const handleNavigation = async (location: string, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Navigating to', location, { tabId, signal })
+    await call('content', { type: 'SCROLL_TO_SECTION', selector: location }, { tabId, signal })
     return true
 }
 
 
-const handleReadOut = async (targetType: string | 'SECTION' | 'NODE', target: string) => {
-    const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
-    const tab = tabs?.[0]
-    await chrome.tabs.sendMessage(tab?.id ?? 0, { type: 'READ_OUT', targetType: targetType, target: target })
-    return true
+const handleReadOut = async (targetType: 'SECTION' | 'NODE', target: string, tabId?: number, signal?: AbortSignal) => {
+    await call('content', { type: 'READ_OUT', targetType: targetType, target: target }, { tabId, signal })
+    return `Successfully started reading out ${targetType.toLowerCase()}: ${target}`
 }
 
-const handleGetContent = async (selector: string) => {
-    const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
-    const tab = tabs?.[0]
-    log('[AI] Getting content for selector', { selector, tabId: tab?.id })
-
-    return new Promise((resolve, reject) => {
-        chrome.tabs.sendMessage(tab?.id ?? 0, { type: 'GET_CONTENT', selector }, (response) => {
-            if (chrome.runtime.lastError) {
-                log('[AI] Error getting content', chrome.runtime.lastError)
-                reject(new Error(chrome.runtime.lastError.message))
-            } else if (response?.ok) {
-                log('[AI] Content retrieved successfully', { contentLength: response.content?.length })
-                resolve(response.content)
-            } else {
-                log('[AI] Failed to get content', response?.error)
-                reject(new Error(response?.error || 'Failed to get content'))
-            }
-        })
-    })
+const handleSemanticSearch = async (
+    query: string,
+    autoPlayFirst = false,
+    withContext = false,
+    kinds?: SegmentKind[],
+    tabId?: number,
+    signal?: AbortSignal
+) => {
+    log('[AI] Performing semantic search', query, { autoPlayFirst, withContext, kinds, tabId })
+
+    const response = await call('content', {
+        type: 'SEMANTIC_SEARCH',
+        query,
+        autoPlayFirst,
+        withContext,
+        kinds
+    }, { tabId, signal })
+
+    return {
+        query,
+        results: response.results,
+        bestMatch: response.bestMatch,
+        totalResults: response.totalResults
+    }
+}
+
+const handleGetContent = async (selector: string, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Getting content for selector', { selector, tabId })
+
+    const { content } = await call('content', { type: 'GET_CONTENT', selector }, { tabId, signal })
+    log('[AI] Content retrieved successfully', { contentLength: content.length })
+    return content
 }
 
-const handleSummarizePage = async () => {
-    log('[AI] Starting simple page summarization...')
+const handleSummarizePage = async (tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Starting page summarization...', { tabId, signal })
 
     try {
-        // Get current tab URL
-        const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
-        const tab = tabs?.[0]
+        const page = await call('content', { type: 'GET_SECTION_CONTENTS' }, { tabId, signal })
 
-        if (!tab?.url) {
-            throw new Error('No active tab or URL found')
-        }
+        // Import the summarizer dynamically so the Prompt API client only loads when needed
+        const { summarizePage } = await import('~lib/page-summarizer')
+        const summary = await summarizePage(page, { signal })
 
-        log('[AI] Summarizing page:', tab.url)
+        log('[AI] Page summarization completed successfully', { sections: summary.sections.length, engine: summary.engine })
+        return summary
 
-        // Import SessionManager dynamically to avoid issues
-        const { SessionManager } = await import('@ahnopologetic/use-prompt-api')
+    } catch (error) {
+        err('[AI] Error during page summarization:', error)
+        throw new Error(`Failed to summarize page: ${(error as Error).message}`)
+    }
+}
 
-        // Create a session for summarization
-        const session = new SessionManager()
-        await session.create({
-            systemPrompt: 'You are a helpful assistant that can summarize web pages. Provide clear, concise summaries based on the URL and your knowledge.',
-            enablePersistence: false
-        })
+// Tabs in the current window that the content script can run in
+const getSearchableTabs = async (tabIds?: number[]): Promise<TabSearchTarget[]> => {
+    const tabs = await chrome.tabs.query({ currentWindow: true })
+    return tabs
+        .filter(tab => tab.id != null && tab.url?.startsWith('http'))
+        .filter(tab => !tabIds || tabIds.includes(tab.id!))
+        .map(tab => ({ tabId: tab.id!, url: tab.url!, title: tab.title || 'Untitled' }))
+}
 
-        // Simple prompt with just the URL
-        const prompt = `Summarize this page in 1-2 paragraphs: ${tab.url}`
+const handleListTabs = async () => {
+    log('[AI] Listing tabs')
 
-        log('[AI] Sending to prompt API...')
-        const summary = await session.prompt(prompt)
+    const tabs = await chrome.tabs.query({ currentWindow: true })
+    return await Promise.all(tabs
+        .filter(tab => tab.id != null)
+        .map(async (tab) => {
+            const context = tab.url && await tabContextManager.isContextValid(tab.id!, tab.url)
+                ? await tabContextManager.getContext(tab.id!)
+                : null
+            return {
+                tabId: tab.id!,
+                title: tab.title || 'Untitled',
+                url: tab.url || '',
+                active: tab.active,
+                sections: context?.toc.map(item => item.title) ?? []
+            }
+        }))
+}
+
+const handleSwitchTab = async (tabId: number) => {
+    log('[AI] Switching to tab', tabId)
+
+    const tab = await chrome.tabs.update(tabId, { active: true })
+    if (!tab) {
+        throw new Error(`Tab ${tabId} not found`)
+    }
+    await chrome.windows.update(tab.windowId, { focused: true })
+    return { tabId, title: tab.title || 'Untitled', url: tab.url || '' }
+}
 
-        // Clean up session
-        session.destroy()
+const handleSearchAcrossTabs = async (query: string, maxResultsPerTab?: number, indexMissing?: boolean, signal?: AbortSignal) => {
+    log('[AI] Searching across tabs', query, { maxResultsPerTab, indexMissing })
+
+    const tabs = await getSearchableTabs()
+    const { results, skipped } = await searchTabs(query, tabs, { maxResultsPerTab, indexMissing, signal })
+    return { query, results, skipped }
+}
 
-        log('[AI] Page summarization completed successfully')
+const handleCompareTabs = async (tabIds: number[], aspect?: string, signal?: AbortSignal) => {
+    log('[AI] Comparing tabs', tabIds, { aspect })
+
+    const tabs = await getSearchableTabs(tabIds)
+    const missing = tabIds.filter(tabId => !tabs.some(tab => tab.tabId === tabId))
+    if (missing.length > 0) {
+        throw new Error(`Cannot read tabs ${missing.join(', ')}: not found or not a web page`)
+    }
+
+    const passages = aspect
+        ? (await searchTabs(aspect, tabs, { maxResultsPerTab: 3, signal })).results
+        : []
+
+    const pages = await Promise.all(tabs.map(async (tab) => {
+        const context = await tabContextManager.isContextValid(tab.tabId, tab.url)
+            ? await tabContextManager.getContext(tab.tabId)
+            : null
+
+        let excerpt = ''
+        let headings: string[] = context?.toc.map(item => item.title) ?? []
+        try {
+            const mainContent = await call('content', { type: 'GET_MAIN_CONTENT' }, { tabId: tab.tabId, signal })
+            excerpt = mainContent.text.slice(0, COMPARE_EXCERPT_LENGTH)
+            if (headings.length === 0) {
+                headings = mainContent.headings.map(heading => heading.text)
+            }
+        } catch (error) {
+            err('[AI] Failed to read main content of tab', tab.tabId, error)
+        }
 
-        // Return simple summary object
         return {
-            title: tab.title || 'Unknown Page',
+            tabId: tab.tabId,
+            title: tab.title,
             url: tab.url,
-            summary: summary
+            headings,
+            excerpt,
+            relevantPassages: passages.find(result => result.tabId === tab.tabId)?.matches.map(match => match.text) ?? []
         }
+    }))
 
+    return { aspect: aspect ?? null, pages }
+}
+
+const describeTarget = async (selector: string, tabId?: number) => {
+    try {
+        const { element } = await call('content', { type: 'DESCRIBE_ELEMENT', selector }, { tabId })
+        return {
+            label: element.name ? `the "${element.name}" ${element.role}` : `the ${element.role}`,
+            sensitive: element.sensitive
+        }
     } catch (error) {
-        err('[AI] Error during page summarization:', error)
-        throw new Error(`Failed to summarize page: ${(error as Error).message}`)
+        return { label: selector, sensitive: false }
     }
 }
 
-export { handleNavigation, handleReadOut, handleGetContent, handleSummarizePage }
\ No newline at end of file
+const describeElementLabel = async (selector: string, tabId?: number) =>
+    (await describeTarget(selector, tabId)).label
+
+// Confirmation wording for interaction tools, e.g. 'press the "Subscribe" button'
+const describeClick = async (selector: string, tabId?: number) =>
+    `press ${await describeElementLabel(selector, tabId)}`
+
+const describeFieldAction = async (action: string, selector: string, tabId?: number) =>
+    `${action} ${await describeElementLabel(selector, tabId)}`
+
+// The confirmation is spoken aloud, so a password is only counted
+const describeTyping = async (text: string, selector: string, tabId?: number) => {
+    const { label, sensitive } = await describeTarget(selector, tabId)
+    return sensitive ? `type ${text.length} characters into ${label}` : `type "${text}" into ${label}`
+}
+
+const handleListInteractiveElements = async (tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Listing interactive elements', { tabId, signal })
+
+    const { elements } = await call('content', { type: 'LIST_INTERACTIVE_ELEMENTS' }, { tabId, signal })
+    return elements
+}
+
+const handleClick = async (selector: string, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Clicking', selector, { tabId, signal })
+
+    await call('content', { type: 'CLICK_ELEMENT', selector }, { tabId, signal })
+    return `Clicked ${selector}`
+}
+
+const handleTypeText = async (selector: string, text: string, clear?: boolean, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Typing text into', selector, { tabId, signal })
+
+    const { sensitive } = await call('content', { type: 'TYPE_TEXT', selector, text, clear }, { tabId, signal })
+    // Passwords are kept out of the model's transcript
+    return sensitive ? `Typed ${text.length} characters into ${selector}` : `Typed "${text}" into ${selector}`
+}
+
+const handleSelectOption = async (selector: string, option: string, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Selecting option', option, 'in', selector, { tabId, signal })
+
+    const { selected } = await call('content', { type: 'SELECT_OPTION', selector, option }, { tabId, signal })
+    return `Selected "${selected}"`
+}
+
+const handleToggleCheckbox = async (selector: string, checked?: boolean, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Toggling checkbox', selector, { checked, tabId })
+
+    const response = await call('content', { type: 'TOGGLE_CHECKBOX', selector, checked }, { tabId, signal })
+    return `${selector} is now ${response.checked ? 'checked' : 'unchecked'}`
+}
+
+const handleSubmitForm = async (selector: string, tabId?: number, signal?: AbortSignal) => {
+    log('[AI] Submitting form', selector, { tabId, signal })
+
+    await call('content', { type: 'SUBMIT_FORM', selector }, { tabId, signal })
+    return 'Form submitted'
+}
+
+export {
+    handleNavigation,
+    handleReadOut,
+    handleSemanticSearch,
+    handleGetContent,
+    handleSummarizePage,
+    handleListTabs,
+    handleSwitchTab,
+    handleSearchAcrossTabs,
+    handleCompareTabs,
+    handleListInteractiveElements,
+    handleClick,
+    handleTypeText,
+    handleSelectOption,
+    handleToggleCheckbox,
+    handleSubmitForm,
+    describeClick,
+    describeFieldAction,
+    describeTyping
+}
\ No newline at end of file
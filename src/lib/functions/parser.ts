@@ -1,5 +1,5 @@
 import { log } from "~lib/log";
-import { functionHandlers, functionRegistry } from "./registry";
+import { getTool, getToolParameters, toolRegistry, validateToolArguments } from "./registry";
 import type { TocItem } from "~hooks/usePromptAPI";
 
 interface ParsedFunction {
@@ -54,10 +54,10 @@ When navigating, use the exact CSS selectors provided above.`;
             role: 'system', content: `You are a function parser for a web browsing agent. You MUST map user requests to available functions.
 
       Available functions:
-      ${functionRegistry.map(func => `
-        ${func.name}: ${func.description}
-        Parameters: ${func.parameters.map(p => `${p.name} (${p.type}${p.required ? ', required' : ''}) // ${p.description}`).join(', ')}
-        Examples: ${func.examples.join(', ')}
+      ${toolRegistry.map(tool => `
+        ${tool.name}: ${tool.description}
+        Parameters: ${getToolParameters(tool).map(p => `${p.name} (${p.type}${p.required ? ', required' : ''}) // ${p.description}`).join(', ')}
+        Examples: ${tool.examples.join(', ')}
       `).join('\n')}
 
       CRITICAL RULES:
@@ -123,7 +123,7 @@ When navigating, use the exact CSS selectors provided above.`;
             // Validate the parsed response
             if (parsed.functionName && 
                 parsed.functionName !== 'task_complete' && 
-                !functionRegistry.find(f => f.name === parsed.functionName)) {
+                !getTool(parsed.functionName)) {
                 throw new Error(`Invalid function name: ${parsed.functionName}`);
             }
 
@@ -152,22 +152,22 @@ export async function executeCommand(parsed: ParsedFunction): Promise<ParsedFunc
             };
         }
 
-        const funcDef = functionRegistry.find(f => f.name === parsed.functionName);
-        if (!funcDef) {
+        const tool = getTool(parsed.functionName);
+        if (!tool) {
             throw new Error(`Function ${parsed.functionName} not found`);
         }
 
-        // Get the handler from our map instead of window scope
-        const handler = functionHandlers[funcDef.name];
-        if (!handler) {
-            throw new Error(`Handler for ${funcDef.name} not found`);
+        // The one-shot parser has no confirmation step, so it never runs mutating tools
+        if (tool.riskLevel === 'mutating') {
+            throw new Error(`${tool.name} changes the page and needs the user's confirmation. Ask through the chat agent instead.`);
         }
 
-        // Execute the function with parsed parameters
-        const result = await handler(...Object.values(parsed.parameters));
+        // Reject malformed model output before it reaches the handler
+        const args = validateToolArguments(tool, parsed.parameters);
+        const result = await tool.handler(args, {});
 
         if (result === true) {
-            if (funcDef.name === "handleNavigation") {
+            if (tool.name === "navigate") {
                 return {
                     functionName: parsed.functionName,
                     parameters: parsed.parameters,
@@ -187,7 +187,7 @@ export async function executeCommand(parsed: ParsedFunction): Promise<ParsedFunc
             functionName: parsed.functionName,
             parameters: parsed.parameters,
             confidence: parsed.confidence,
-            result: result
+            result: result as string | object | null
         }
 
     } catch (error) {
@@ -1,85 +1,357 @@
-// src/utils/functions/registry.ts
+// src/lib/functions/registry.ts
+//
+// Single source of truth for the tools exposed to the model. Both the one-shot
+// parser (parser.ts) and the streaming agent (definitions.ts) are generated from
+// `toolRegistry`, so a tool only needs to be described once.
 
-import { handleNavigation, handleReadOut, handleGetContent } from "./handlers";
+import type { FunctionCallContext, RiskLevel } from "@ahnopologetic/use-prompt-api";
+import { z } from "zod";
+import {
+    handleClick,
+    handleCompareTabs,
+    describeClick,
+    describeFieldAction,
+    describeTyping,
+    handleGetContent,
+    handleListInteractiveElements,
+    handleListTabs,
+    handleNavigation,
+    handleReadOut,
+    handleSearchAcrossTabs,
+    handleSelectOption,
+    handleSemanticSearch,
+    handleSubmitForm,
+    handleSummarizePage,
+    handleSwitchTab,
+    handleToggleCheckbox,
+    handleTypeText
+} from "./handlers";
 
-interface FunctionParameter {
+export interface ToolDefinition<TSchema extends z.ZodObject = z.ZodObject> {
     name: string;
-    type: 'string' | 'boolean' | 'number';
     description: string;
-    required: boolean;
+    schema: TSchema;
+    examples: string[];  // Example natural language commands
+    // Mutating tools are confirmed by the user before the agent runs them
+    riskLevel: RiskLevel;
+    // Spoken in the confirmation request, e.g. 'type "jane@example.com" into Email'
+    describeCall?: (args: z.infer<TSchema>) => Promise<string> | string;
+    // `context.signal` aborts when the user stops the agent
+    handler: (args: z.infer<TSchema>, context: FunctionCallContext) => Promise<unknown>;
 }
 
-interface FunctionDefinition {
+export interface ToolParameter {
     name: string;
+    type: string;
     description: string;
-    parameters: FunctionParameter[];
-    examples: string[];  // Example natural language commands
-    handler: string;     // Name of the actual function to call
+    required: boolean;
+}
+
+// Keeps the schema type attached to the handler when declaring a tool
+export const defineTool = <TSchema extends z.ZodObject>(tool: ToolDefinition<TSchema>): ToolDefinition<TSchema> => tool
+
+// Page tools act on the active tab unless the model passes a tab id from listTabs
+const tabIdParameter = z.number().int().optional().describe("ID of the tab to act on, as returned by listTabs. Defaults to the active tab.")
+const selectorParameter = z.string().min(1).describe("CSS selector of the element, as returned by listInteractiveElements")
+
+const navigateTool = defineTool({
+    name: "navigate",
+    description: "Navigate to a specific location on the page",
+    schema: z.object({
+        location: z.string().min(1).describe("Location to navigate to. Look for the section name in the context and use the css selector. Should be a valid css selector. e.g., '#campus', '.div:nth-of-type(2) > div', etc."),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "i want to go to Campus section",
+        "Go Allston section"
+    ],
+    riskLevel: 'navigation',
+    handler: ({ location, tabId }, { signal }) => handleNavigation(location, tabId, signal)
+})
+
+const readOutTool = defineTool({
+    name: "readOut",
+    description: "Read out a specific section or node",
+    schema: z.object({
+        targetType: z.enum(['SECTION', 'NODE']).describe("Type of target to read out. Should be 'SECTION' or 'NODE'"),
+        target: z.string().min(1).describe("Target to read out. For section, it should be the section name. Search for the exact section name in the context. For node, it should be the node id or selector."),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "read out the Campus section => readOut('SECTION', 'Campus')",
+        "read out the Allston section => readOut('SECTION', 'Allston')"
+    ],
+    riskLevel: 'navigation',
+    handler: ({ targetType, target, tabId }, { signal }) => handleReadOut(targetType, target, tabId, signal)
+})
+
+const getContentTool = defineTool({
+    name: "getContent",
+    description: "Retrieve text content from a specific section or element",
+    schema: z.object({
+        selector: z.string().min(1).describe("CSS selector of the target section or element to retrieve content from"),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "get content from Campus section",
+        "read the introduction",
+        "get content from #about-section"
+    ],
+    riskLevel: 'read-only',
+    handler: ({ selector, tabId }, { signal }) => handleGetContent(selector, tabId, signal)
+})
+
+const semanticSearchTool = defineTool({
+    name: "semanticSearch",
+    description: "Perform semantic search on the current page",
+    schema: z.object({
+        query: z.string().min(1).describe("The search query to find relevant content on the page"),
+        autoPlayFirst: z.boolean().optional().describe("Whether to automatically play the first result with TTS"),
+        withContext: z.boolean().optional().describe("Play from the heading of the first result's section instead of the sentence, when the user wants more context"),
+        kinds: z.array(z.enum(['sentence', 'table', 'image', 'definition'])).optional()
+            .describe("Only search these kinds of content: running text, table rows, image and chart descriptions, or definition list entries"),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "where does the page talk about tuition?",
+        "find the part about admissions and read it",
+        "find how much it costs and read me the whole section",
+        "what does the pricing table say about the pro plan?"
+    ],
+    riskLevel: 'navigation',
+    handler: ({ query, autoPlayFirst, withContext, kinds, tabId }, { signal }) =>
+        handleSemanticSearch(query, autoPlayFirst, withContext, kinds, tabId, signal)
+})
+
+const summarizePageTool = defineTool({
+    name: "summarizePage",
+    description: "Summarize the page from its content. Each section is summarized within the model's token limits, then the section summaries are combined into a page summary. Returns both the page summary and the per-section summaries.",
+    schema: z.object({
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "summarize this page",
+        "what is this page about?"
+    ],
+    riskLevel: 'read-only',
+    handler: ({ tabId }, { signal }) => handleSummarizePage(tabId, signal)
+})
+
+const listTabsTool = defineTool({
+    name: "listTabs",
+    description: "List the open tabs in the current window with their ids, titles, URLs and known sections. Use the ids with the other tools to act on a tab other than the active one.",
+    schema: z.object({}),
+    examples: [
+        "what tabs do I have open?",
+        "which tab is the recipe in?"
+    ],
+    riskLevel: 'read-only',
+    handler: () => handleListTabs()
+})
+
+const switchTabTool = defineTool({
+    name: "switchTab",
+    description: "Bring a tab to the front so the user can continue reading it",
+    schema: z.object({
+        tabId: z.number().int().describe("ID of the tab to switch to, as returned by listTabs")
+    }),
+    examples: [
+        "switch to the Wikipedia tab",
+        "go back to my email"
+    ],
+    riskLevel: 'navigation',
+    handler: ({ tabId }) => handleSwitchTab(tabId)
+})
+
+const searchAcrossTabsTool = defineTool({
+    name: "searchAcrossTabs",
+    description: "Semantic search over every open tab in the current window. Returns the best matching passages grouped by tab, best tab first.",
+    schema: z.object({
+        query: z.string().min(1).describe("The search query to find relevant content in the open tabs"),
+        maxResultsPerTab: z.number().int().min(1).max(10).optional().describe("Maximum number of passages to return per tab. Defaults to 3."),
+        indexMissing: z.boolean().optional().describe("Index tabs that have not been searched before. Slow: each page has to be embedded first.")
+    }),
+    examples: [
+        "which of my tabs mentions the return policy?",
+        "find where my open tabs talk about pricing"
+    ],
+    riskLevel: 'read-only',
+    handler: ({ query, maxResultsPerTab, indexMissing }, { signal }) => handleSearchAcrossTabs(query, maxResultsPerTab, indexMissing, signal)
+})
+
+const compareTabsTool = defineTool({
+    name: "compareTabs",
+    description: "Collect the title, headings and an excerpt of several tabs side by side so they can be compared. With an aspect, also returns the passages of each tab most relevant to it.",
+    schema: z.object({
+        tabIds: z.array(z.number().int()).min(2).describe("IDs of the tabs to compare, as returned by listTabs"),
+        aspect: z.string().min(1).optional().describe("What to compare the tabs on, e.g. 'price' or 'battery life'")
+    }),
+    examples: [
+        "compare these two laptops",
+        "how do the shipping costs differ between these stores?"
+    ],
+    riskLevel: 'read-only',
+    handler: ({ tabIds, aspect }, { signal }) => handleCompareTabs(tabIds, aspect, signal)
+})
+
+const listInteractiveElementsTool = defineTool({
+    name: "listInteractiveElements",
+    description: "List the buttons, links and form fields on the page with their role, label, current value and CSS selector. Call this before click, typeText, selectOption, toggleCheckbox or submitForm.",
+    schema: z.object({
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "what can I fill in on this page?",
+        "which buttons are there?"
+    ],
+    riskLevel: 'read-only',
+    handler: ({ tabId }, { signal }) => handleListInteractiveElements(tabId, signal)
+})
+
+const clickTool = defineTool({
+    name: "click",
+    description: "Click a button, link or other control. The user is asked to confirm first.",
+    schema: z.object({
+        selector: selectorParameter,
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "press the subscribe button",
+        "open the second tab"
+    ],
+    riskLevel: 'mutating',
+    describeCall: ({ selector, tabId }) => describeClick(selector, tabId),
+    handler: ({ selector, tabId }, { signal }) => handleClick(selector, tabId, signal)
+})
+
+const typeTextTool = defineTool({
+    name: "typeText",
+    description: "Type text into a text field",
+    schema: z.object({
+        selector: selectorParameter,
+        text: z.string().describe("Text to type"),
+        clear: z.boolean().optional().describe("Replace the field's current value instead of appending. Defaults to true."),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "fill in my email jane@example.com",
+        "search for running shoes"
+    ],
+    riskLevel: 'mutating',
+    describeCall: ({ selector, text, tabId }) => describeTyping(text, selector, tabId),
+    handler: ({ selector, text, clear, tabId }, { signal }) => handleTypeText(selector, text, clear, tabId, signal)
+})
+
+const selectOptionTool = defineTool({
+    name: "selectOption",
+    description: "Choose an option in a dropdown by its label or value",
+    schema: z.object({
+        selector: selectorParameter,
+        option: z.string().min(1).describe("Label or value of the option to select"),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "choose Canada as the country",
+        "set the size to medium"
+    ],
+    riskLevel: 'mutating',
+    describeCall: ({ selector, option, tabId }) => describeFieldAction(`choose "${option}" in`, selector, tabId),
+    handler: ({ selector, option, tabId }, { signal }) => handleSelectOption(selector, option, tabId, signal)
+})
+
+const toggleCheckboxTool = defineTool({
+    name: "toggleCheckbox",
+    description: "Check or uncheck a checkbox, radio button or switch",
+    schema: z.object({
+        selector: selectorParameter,
+        checked: z.boolean().optional().describe("Desired state. Flips the current state when omitted."),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "accept the terms",
+        "turn off the newsletter option"
+    ],
+    riskLevel: 'mutating',
+    describeCall: ({ selector, checked, tabId }) => describeFieldAction(checked === undefined ? 'toggle' : checked ? 'check' : 'uncheck', selector, tabId),
+    handler: ({ selector, checked, tabId }, { signal }) => handleToggleCheckbox(selector, checked, tabId, signal)
+})
+
+const submitFormTool = defineTool({
+    name: "submitForm",
+    description: "Submit the form that contains the given element. The user is asked to confirm first.",
+    schema: z.object({
+        selector: z.string().min(1).describe("CSS selector of the form or of any field inside it"),
+        tabId: tabIdParameter
+    }),
+    examples: [
+        "send the form",
+        "submit my registration"
+    ],
+    riskLevel: 'mutating',
+    describeCall: () => 'submit the form',
+    handler: ({ selector, tabId }, { signal }) => handleSubmitForm(selector, tabId, signal)
+})
+
+export const toolRegistry: ToolDefinition[] = [
+    navigateTool,
+    readOutTool,
+    getContentTool,
+    semanticSearchTool,
+    summarizePageTool,
+    listTabsTool,
+    switchTabTool,
+    searchAcrossTabsTool,
+    compareTabsTool,
+    listInteractiveElementsTool,
+    clickTool,
+    typeTextTool,
+    selectOptionTool,
+    toggleCheckboxTool,
+    submitFormTool
+] as ToolDefinition[];
+
+export function getTool(name: string): ToolDefinition | undefined {
+    return toolRegistry.find(tool => tool.name === name);
 }
 
-export const functionRegistry: FunctionDefinition[] = [
-    {
-        name: "navigate",
-        description: "Navigate to a specific location on the page",
-        parameters: [
-            {
-                name: "location",
-                type: "string",
-                description: "Location to navigate to. Should be a valid css selector. e.g., '#campus', '.div:nth-of-type(2) > div', etc.",
-                required: true
-            }
-        ],
-        examples: [
-            "i want to go to Campus section",
-            "Go Allston section"
-        ],
-        handler: "handleNavigation"
-    },
-    {
-        name: "readOut",
-        description: "Read out a specific section or node",
-        parameters: [
-            {
-                name: "targetType",
-                type: "string",
-                description: "Type of target to read out. Should be 'SECTION' or 'NODE'",
-                required: true
-            },
-            {
-                name: "target",
-                type: "string",
-                description: "Target to read out. For section, it should be the section name. For node, it should be the node id or selector.",
-                required: true
-            }
-        ],
-        examples: [
-            "read out the Campus section => readOut('SECTION', 'Campus')",
-            "read out the Allston section => readOut('SECTION', 'Allston')"
-        ],
-        handler: "handleReadOut"
-    },
-    {
-        name: "getContent",
-        description: "Retrieve text content from a specific section or element",
-        parameters: [
-            {
-                name: "selector",
-                type: "string",
-                description: "CSS selector of the target section or element to retrieve content from",
-                required: true
-            }
-        ],
-        examples: [
-            "get content from Campus section",
-            "read the introduction",
-            "get content from #about-section"
-        ],
-        handler: "handleGetContent"
+export function getToolJSONSchema(tool: ToolDefinition) {
+    const { $schema, ...jsonSchema } = z.toJSONSchema(tool.schema);
+    return jsonSchema;
+}
+
+export function getToolParameters(tool: ToolDefinition): ToolParameter[] {
+    const jsonSchema = getToolJSONSchema(tool);
+    const required = new Set(jsonSchema.required ?? []);
+
+    return Object.entries(jsonSchema.properties ?? {}).map(([name, property]) => {
+        const prop = typeof property === 'object' ? property : {};
+        return {
+            name,
+            type: prop.enum ? prop.enum.map(value => JSON.stringify(value)).join(' | ') : String(prop.type ?? 'any'),
+            description: prop.description ?? '',
+            required: required.has(name)
+        };
+    });
+}
+
+/**
+ * Validates raw model arguments against the tool's schema. Throws an error that
+ * names every offending parameter so the model (and the user) can see what went wrong.
+ */
+export function validateToolArguments<TSchema extends z.ZodObject>(tool: ToolDefinition<TSchema>, args: unknown): z.infer<TSchema> {
+    const result = tool.schema.safeParse(args ?? {});
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'arguments'}: ${issue.message}`);
+        throw new Error(`Invalid arguments for ${tool.name}: ${issues.join('; ')}`);
     }
-];
+    return result.data;
+}
 
-export const functionHandlers: Record<string, Function> = {
-    "navigate": handleNavigation,
-    "readOut": handleReadOut,
-    "getContent": handleGetContent
-}
\ No newline at end of file
+export async function runTool(name: string, args: unknown, context: FunctionCallContext = {}): Promise<unknown> {
+    const tool = getTool(name);
+    if (!tool) {
+        throw new Error(`Function ${name} not found`);
+    }
+    const validArgs = validateToolArguments(tool, args);
+    return await tool.handler(validArgs, context);
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { describeElement, isSensitiveField } from "./interaction";
+
+const render = (html: string): HTMLElement => {
+    document.body.innerHTML = html;
+    return document.body.querySelector('input, textarea') as HTMLElement;
+};
+
+describe('password fields', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('are recognised by type or by an autocomplete hint', () => {
+        expect(isSensitiveField(render('<input type="password">'))).toBe(true);
+        expect(isSensitiveField(render('<input type="text" autocomplete="current-password">'))).toBe(true);
+        expect(isSensitiveField(render('<input type="text" autocomplete="new-password">'))).toBe(true);
+        expect(isSensitiveField(render('<input type="email" autocomplete="email">'))).toBe(false);
+        expect(isSensitiveField(render('<textarea></textarea>'))).toBe(false);
+    });
+
+    it('never expose their value when described', () => {
+        const shown = render('<input id="pw" type="text" autocomplete="current-password" value="hunter2">');
+        const described = describeElement(shown);
+
+        expect(described.sensitive).toBe(true);
+        expect(described.value).toBeUndefined();
+        // Unlabelled fields are otherwise named after their value
+        expect(described.name).not.toContain('hunter2');
+    });
+
+    it('leave other text fields readable', () => {
+        const described = describeElement(render('<input id="email" type="email" value="jane@example.com">'));
+
+        expect(described.sensitive).toBe(false);
+        expect(described.value).toBe('jane@example.com');
+    });
+});
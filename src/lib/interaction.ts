@@ -0,0 +1,233 @@
+import { generateUniqueSelector } from "~hooks/useDetectSections";
+import { accessibleName, isFocusable, isHiddenInAX, roleOf } from "~lib/debugging/readable";
+
+export interface InteractiveElement {
+    selector: string;
+    role: string;
+    name: string;
+    value?: string;
+    checked?: boolean;
+    options?: string[];
+    disabled: boolean;
+    // Activating the element submits a form
+    submits: boolean;
+    // The element's label suggests an action that is hard to undo (delete, pay, send...)
+    destructive: boolean;
+    // A password field: what is typed into it is never read back or repeated
+    sensitive: boolean;
+}
+
+const INTERACTIVE_SELECTOR = 'a[href], button, input, select, textarea, summary, [role="button"], [role="link"], [role="checkbox"], [role="radio"], [role="switch"], [role="tab"], [role="menuitem"], [role="option"], [role="combobox"], [role="textbox"], [contenteditable="true"], [tabindex]';
+const DESTRUCTIVE_LABEL = /\b(delete|remove|discard|erase|clear all|unsubscribe|cancel (my )?(order|subscription|account)|pay|purchase|buy|checkout|place order|send|publish|post|sign out|log ?out)\b/i;
+const TEXT_INPUT_TYPES = new Set(['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'datetime-local', 'month', 'time', 'week']);
+// Keep the list small enough for the model's context
+const MAX_LISTED_ELEMENTS = 100;
+
+const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * `roleOf` only knows a few implicit roles; form controls need their input type mapped too.
+ */
+function interactiveRole(el: Element): string {
+    const tag = el.tagName.toLowerCase();
+    if (el.hasAttribute('role')) return roleOf(el) ?? tag;
+
+    if (tag === 'input') {
+        const type = (el as HTMLInputElement).type;
+        if (type === 'checkbox' || type === 'radio') return type;
+        if (type === 'submit' || type === 'button' || type === 'reset' || type === 'image') return 'button';
+        if (type === 'range') return 'slider';
+        return 'textbox';
+    }
+    if (tag === 'select') return 'combobox';
+    if (tag === 'textarea' || (el as HTMLElement).isContentEditable) return 'textbox';
+    if (tag === 'summary') return 'button';
+    return roleOf(el) ?? tag;
+}
+
+/**
+ * `accessibleName` falls back to text content, which form fields do not have, so check
+ * their labels, placeholder and title first.
+ */
+function elementName(el: Element): string {
+    const name = accessibleName(el);
+    if (name) return name.slice(0, 120);
+
+    const labels = (el as HTMLInputElement).labels;
+    const labelText = labels ? Array.from(labels).map(label => normalize(label.textContent)).join(' ') : '';
+    const fallback = labelText
+        || el.getAttribute('placeholder')
+        || el.getAttribute('title')
+        || el.getAttribute('alt')
+        || (isSensitiveField(el) ? '' : (el as HTMLInputElement).value)
+        || el.getAttribute('name')
+        || '';
+    return normalize(fallback).slice(0, 120);
+}
+
+function submitsForm(el: Element): boolean {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'button') {
+        const button = el as HTMLButtonElement;
+        return button.type === 'submit' && button.form !== null;
+    }
+    if (tag === 'input') {
+        const input = el as HTMLInputElement;
+        return (input.type === 'submit' || input.type === 'image') && input.form !== null;
+    }
+    return false;
+}
+
+/**
+ * Password fields, by type or by an autocomplete hint such as "current-password"
+ * (e.g. a text field a page toggles to show the password)
+ */
+export function isSensitiveField(el: Element): boolean {
+    if (el instanceof HTMLInputElement && el.type === 'password') return true;
+    return /password/i.test(el.getAttribute('autocomplete') ?? '');
+}
+
+export function describeElement(el: Element): InteractiveElement {
+    const role = interactiveRole(el);
+    const name = elementName(el);
+    const description: InteractiveElement = {
+        selector: el.id ? `#${CSS.escape(el.id)}` : generateUniqueSelector(el),
+        role,
+        name,
+        disabled: (el as HTMLInputElement).disabled === true || el.getAttribute('aria-disabled') === 'true',
+        submits: submitsForm(el),
+        destructive: DESTRUCTIVE_LABEL.test(name),
+        sensitive: isSensitiveField(el)
+    };
+
+    if (el instanceof HTMLInputElement) {
+        if (el.type === 'checkbox' || el.type === 'radio') {
+            description.checked = el.checked;
+        } else if (!description.sensitive && TEXT_INPUT_TYPES.has(el.type)) {
+            description.value = el.value;
+        }
+    } else if (el instanceof HTMLTextAreaElement && !description.sensitive) {
+        description.value = el.value;
+    } else if (el instanceof HTMLSelectElement) {
+        description.value = el.selectedOptions[0]?.label ?? '';
+        description.options = Array.from(el.options).map(option => option.label);
+    } else if (el.hasAttribute('aria-checked')) {
+        description.checked = el.getAttribute('aria-checked') === 'true';
+    }
+
+    return description;
+}
+
+/**
+ * Visible controls the user can act on, in document order.
+ */
+export function listInteractiveElements(doc: Document = document): InteractiveElement[] {
+    return Array.from(doc.body.querySelectorAll(INTERACTIVE_SELECTOR))
+        .filter(el => isFocusable(el) || el.hasAttribute('role') || (el as HTMLElement).isContentEditable)
+        .filter(el => !isHiddenInAX(el) && (el as HTMLElement).getClientRects().length > 0)
+        .filter(el => !(el instanceof HTMLInputElement && el.type === 'hidden'))
+        .slice(0, MAX_LISTED_ELEMENTS)
+        .map(describeElement);
+}
+
+export function findInteractiveElement(selector: string, doc: Document = document): HTMLElement {
+    const el = doc.querySelector(selector) as HTMLElement | null;
+    if (!el) {
+        throw new Error(`Element not found for selector: ${selector}`);
+    }
+    if ((el as HTMLInputElement).disabled || el.getAttribute('aria-disabled') === 'true') {
+        throw new Error(`Element is disabled: ${selector}`);
+    }
+    return el;
+}
+
+/**
+ * Assign through the prototype's value setter so frameworks that track the last value
+ * (React) notice the change, then fire the events a user's typing would.
+ */
+function setNativeValue(el: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string) {
+    const prototype = Object.getPrototypeOf(el);
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+    if (setter) {
+        setter.call(el, value);
+    } else {
+        el.value = value;
+    }
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+export function clickElement(el: HTMLElement) {
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.focus();
+    el.click();
+}
+
+export function typeText(el: HTMLElement, text: string, clear = true) {
+    el.focus();
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+        setNativeValue(el, clear ? text : el.value + text);
+        return;
+    }
+    if (el.isContentEditable) {
+        if (clear) el.textContent = '';
+        el.textContent = (el.textContent ?? '') + text;
+        el.dispatchEvent(new InputEvent('input', { bubbles: true, data: text, inputType: 'insertText' }));
+        return;
+    }
+    throw new Error('Element does not accept text input');
+}
+
+/**
+ * Select an option by its label or value, case-insensitively. Returns the selected label.
+ */
+export function selectOption(el: HTMLElement, option: string): string {
+    if (!(el instanceof HTMLSelectElement)) {
+        throw new Error('Element is not a dropdown');
+    }
+
+    const wanted = normalize(option).toLowerCase();
+    const match = Array.from(el.options).find(o => normalize(o.label).toLowerCase() === wanted || o.value.toLowerCase() === wanted)
+        ?? Array.from(el.options).find(o => normalize(o.label).toLowerCase().includes(wanted));
+    if (!match) {
+        throw new Error(`Option "${option}" not found. Available options: ${Array.from(el.options).map(o => o.label).join(', ')}`);
+    }
+
+    el.focus();
+    setNativeValue(el, match.value);
+    return match.label;
+}
+
+/**
+ * Set a checkbox, radio or switch to `checked`, or flip it when omitted. Returns the new state.
+ */
+export function toggleCheckbox(el: HTMLElement, checked?: boolean): boolean {
+    const isNative = el instanceof HTMLInputElement && (el.type === 'checkbox' || el.type === 'radio');
+    if (!isNative && !el.hasAttribute('aria-checked')) {
+        throw new Error('Element is not a checkbox');
+    }
+
+    const current = isNative ? (el as HTMLInputElement).checked : el.getAttribute('aria-checked') === 'true';
+    const target = checked ?? !current;
+    if (current !== target) {
+        // Clicking keeps the page's own listeners in charge of the state change
+        el.click();
+    }
+    return isNative ? (el as HTMLInputElement).checked : el.getAttribute('aria-checked') === 'true';
+}
+
+export function findForm(el: HTMLElement): HTMLFormElement | null {
+    return el instanceof HTMLFormElement ? el : el.closest('form') ?? (el as HTMLInputElement).form ?? null;
+}
+
+/**
+ * Submit the form `el` belongs to (or `el` itself when it is a form), running the
+ * form's validation and submit handlers like a real submission.
+ */
+export function submitForm(el: HTMLElement) {
+    const form = findForm(el);
+    if (!form) {
+        throw new Error('Element is not inside a form');
+    }
+    form.requestSubmit();
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractMainContent } from "./main-content";
+
+// jsdom has no layout, so every element would count as hidden by size
+const isVisible = () => true;
+
+const loadFixture = (name: string): Document => {
+    const html = readFileSync(path.join(__dirname, '__fixtures__/main-content', `${name}.html`), 'utf8');
+    return new DOMParser().parseFromString(html, 'text/html');
+};
+
+describe('extractMainContent', () => {
+    it('extracts an article without its navigation, ads, comments or cookie banner', () => {
+        const content = extractMainContent(loadFixture('article'), { isVisible });
+
+        expect(content.rootSelector).toContain('article');
+        expect(content.text.split('\n\n')).toEqual([
+            'Lighthouse keepers of the north coast',
+            expect.stringContaining('For more than a century'),
+            expect.stringContaining('The keepers kept meticulous records'),
+            'The arrival of automation',
+            expect.stringContaining('Automation arrived in the 1980s'),
+            expect.stringContaining('Several of the cottages')
+        ]);
+        for (const boilerplate of ['Travel', 'cookies', 'Share on social', 'Advertisement', 'Most read', 'my grandfather', 'Copyright']) {
+            expect(content.text).not.toContain(boilerplate);
+        }
+    });
+
+    it('returns heading selectors, by id where the heading has one', () => {
+        const doc = loadFixture('article');
+        const { headings } = extractMainContent(doc, { isVisible });
+
+        expect(headings).toEqual([
+            { text: 'Lighthouse keepers of the north coast', selector: '#title' },
+            { text: 'The arrival of automation', selector: '#automation' }
+        ]);
+        expect(doc.querySelector(headings[1].selector)?.textContent).toBe('The arrival of automation');
+    });
+
+    it('finds the one real paragraph on a page that is mostly boilerplate', () => {
+        const content = extractMainContent(loadFixture('boilerplate'), { isVisible });
+
+        expect(content.text).toContain('Our flagship store on Harbour Street is closed');
+        for (const boilerplate of ['Free shipping', "Men's clothing", 'Summer jackets', 'Gift cards', 'newsletter', 'Copyright']) {
+            expect(content.text).not.toContain(boilerplate);
+        }
+        expect(content.headings).toEqual([]);
+    });
+
+    it('keeps code blocks and lists of a docs page and drops its sidebar', () => {
+        const content = extractMainContent(loadFixture('docs'), { isVisible });
+        const blocks = content.text.split('\n\n');
+
+        expect(content.rootSelector).toContain('main');
+        expect(blocks[0]).toBe('Configuration');
+        expect(blocks).toContain('[build] output = "dist"');
+        expect(blocks).toContain('Plugins can be local paths or package names from the registry.');
+        expect(content.text).not.toContain('Installation and first steps');
+        expect(content.text).not.toContain('MIT license');
+        expect(content.headings.map(heading => heading.text)).toEqual(['Configuration', 'Output directory', 'Plugins']);
+    });
+
+    it('skips elements the visibility check rejects', () => {
+        const doc = loadFixture('article');
+        const hidden = doc.querySelectorAll('article p')[1];
+
+        const content = extractMainContent(doc, { isVisible: el => el !== hidden });
+
+        expect(content.text).toContain('For more than a century');
+        expect(content.text).not.toContain('The keepers kept meticulous records');
+    });
+});
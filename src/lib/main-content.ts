@@ -0,0 +1,226 @@
+import { generateUniqueSelector, hasLayoutBox, isContentNode, type VisibilityCheck } from "~hooks/useDetectSections";
+
+export interface MainContentHeading {
+    text: string;
+    selector: string;
+}
+
+export interface MainContent {
+    text: string;
+    headings: MainContentHeading[];
+    // Selector of the element chosen as the content root
+    rootSelector: string;
+}
+
+export interface MainContentOptions {
+    // Skips hidden elements; by layout size unless given (pass one where there is no layout)
+    isVisible?: VisibilityCheck;
+}
+
+const PARAGRAPH_TAGS = 'p, pre, td, blockquote, li, dd';
+const BLOCK_TAGS = new Set(['p', 'pre', 'blockquote', 'li', 'dd', 'dt', 'figcaption', 'td', 'th', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const HEADING_TAGS = 'h1, h2, h3, h4, h5, h6';
+const INLINE_TAGS = new Set(['a', 'abbr', 'b', 'br', 'cite', 'code', 'em', 'i', 'img', 'kbd', 'label', 'mark', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'wbr']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'button', 'select', 'textarea', 'input']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alertdialog', 'menu', 'menubar']);
+
+const POSITIVE_HINTS = /article|body|content|entry|main|page|post|story|text/i;
+const NEGATIVE_HINTS = /breadcrumb|comment|related|share|sharing|sidebar|social|sponsor|subscribe|newsletter|widget|popup|modal|masthead|menu/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const hintsOf = (el: Element) => `${typeof el.className === 'string' ? el.className : ''} ${el.id}`;
+
+/**
+ * Elements that never hold main content: everything `isContentNode` rejects, plus
+ * landmark roles and hidden subtrees that Readability-style extractors strip.
+ */
+function isBoilerplate(el: Element, isVisible: VisibilityCheck): boolean {
+    if (!isContentNode(el, isVisible)) return true;
+    if (SKIPPED_TAGS.has(el.tagName.toLowerCase())) return true;
+    if (el.getAttribute('aria-hidden') === 'true' || el.hasAttribute('hidden')) return true;
+
+    const role = el.getAttribute('role');
+    if (role && BOILERPLATE_ROLES.has(role)) return true;
+
+    const hints = hintsOf(el);
+    return NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints);
+}
+
+function hasBoilerplateAncestor(el: Element, root: Element, isVisible: VisibilityCheck): boolean {
+    let current: Element | null = el;
+    while (current && current !== root) {
+        if (isBoilerplate(current, isVisible)) return true;
+        current = current.parentElement;
+    }
+    return false;
+}
+
+const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Share of an element's text that sits inside links. Navigation blocks are mostly links.
+ */
+function linkDensity(el: Element): number {
+    const textLength = normalize(el.textContent).length;
+    if (textLength === 0) return 0;
+
+    const linkLength = Array.from(el.querySelectorAll('a'))
+        .reduce((total, a) => total + normalize(a.textContent).length, 0);
+    return linkLength / textLength;
+}
+
+function initialScore(el: Element): number {
+    let score = 0;
+    switch (el.tagName.toLowerCase()) {
+        case 'article':
+        case 'main':
+            score += 10;
+            break;
+        case 'div':
+        case 'section':
+            score += 5;
+            break;
+        case 'pre':
+        case 'td':
+        case 'blockquote':
+            score += 3;
+            break;
+        case 'ol':
+        case 'ul':
+        case 'dl':
+        case 'form':
+            score -= 3;
+            break;
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6':
+        case 'th':
+            score -= 5;
+            break;
+    }
+
+    if (el.getAttribute('role') === 'main') score += 10;
+
+    const hints = hintsOf(el);
+    if (POSITIVE_HINTS.test(hints)) score += 25;
+    if (NEGATIVE_HINTS.test(hints)) score -= 25;
+    return score;
+}
+
+/**
+ * Score paragraph containers the way Readability does: every paragraph adds points
+ * (for length and commas) to its parent and half as many to its grandparent, and
+ * link-heavy candidates are penalised. Returns the best scoring element.
+ */
+function findContentRoot(doc: Document, isVisible: VisibilityCheck): Element {
+    const body = doc.body;
+    const scores = new Map<Element, number>();
+
+    const addScore = (el: Element | null, points: number) => {
+        if (!el || el === doc.documentElement) return;
+        if (!scores.has(el)) scores.set(el, initialScore(el));
+        scores.set(el, scores.get(el)! + points);
+    };
+
+    for (const paragraph of Array.from(body.querySelectorAll(PARAGRAPH_TAGS))) {
+        if (hasBoilerplateAncestor(paragraph, body, isVisible)) continue;
+
+        const text = normalize(paragraph.textContent);
+        if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+        const points = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+        addScore(paragraph.parentElement, points);
+        addScore(paragraph.parentElement?.parentElement ?? null, points / 2);
+    }
+
+    let best: Element | null = null;
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity(el));
+        if (adjusted > bestScore) {
+            best = el;
+            bestScore = adjusted;
+        }
+    }
+
+    // Prefer an explicit <article>/<main> landmark that wraps the winning block
+    const landmark = best?.closest('article, main, [role="main"]');
+    if (landmark && landmark !== body && !isBoilerplate(landmark, isVisible)) {
+        return landmark;
+    }
+
+    return best ?? doc.querySelector('article, main, [role="main"]') ?? body;
+}
+
+/**
+ * Collect block-level text under `root`, one paragraph per block, skipping boilerplate
+ * subtrees and link-heavy lists.
+ */
+function collectBlocks(root: Element, isVisible: VisibilityCheck): string[] {
+    const blocks: string[] = [];
+
+    const visit = (el: Element) => {
+        if (el !== root && isBoilerplate(el, isVisible)) return;
+
+        const tag = el.tagName.toLowerCase();
+        if ((tag === 'ul' || tag === 'ol') && linkDensity(el) > 0.5) return;
+
+        if (BLOCK_TAGS.has(tag)) {
+            const text = normalize((el as HTMLElement).innerText ?? el.textContent);
+            if (text) blocks.push(text);
+            return;
+        }
+
+        const hasBlockChildren = Array.from(el.children).some(child => {
+            const childTag = child.tagName.toLowerCase();
+            return !INLINE_TAGS.has(childTag) && !SKIPPED_TAGS.has(childTag);
+        });
+        if (!hasBlockChildren) {
+            const text = normalize(el.textContent);
+            if (text) blocks.push(text);
+            return;
+        }
+
+        // Keep loose text that sits directly between child elements (e.g. <div>text<br>more</div>)
+        for (const node of Array.from(el.childNodes)) {
+            if (node.nodeType === Node.TEXT_NODE) {
+                const text = normalize(node.textContent);
+                if (text.length >= MIN_PARAGRAPH_LENGTH) blocks.push(text);
+            } else if (node.nodeType === Node.ELEMENT_NODE) {
+                visit(node as Element);
+            }
+        }
+    };
+
+    visit(root);
+    return blocks;
+}
+
+function collectHeadings(root: Element, isVisible: VisibilityCheck): MainContentHeading[] {
+    return Array.from(root.querySelectorAll(HEADING_TAGS))
+        .filter(heading => !hasBoilerplateAncestor(heading, root, isVisible))
+        .map(heading => ({
+            text: normalize(heading.textContent).replace('[edit]', '').trim(),
+            selector: heading.id ? `#${CSS.escape(heading.id)}` : generateUniqueSelector(heading)
+        }))
+        .filter(heading => heading.text.length > 0);
+}
+
+/**
+ * Extract the readable main content of a page: the highest scoring content root,
+ * its text as blank-line separated paragraphs, and selectors for its headings.
+ */
+export function extractMainContent(doc: Document = document, { isVisible = hasLayoutBox }: MainContentOptions = {}): MainContent {
+    const root = findContentRoot(doc, isVisible);
+    const blocks = collectBlocks(root, isVisible);
+
+    return {
+        text: blocks.join('\n\n'),
+        headings: collectHeadings(root, isVisible),
+        rootSelector: root === doc.body ? 'body' : generateUniqueSelector(root)
+    };
+}
@@ -0,0 +1,56 @@
+import { SessionManager, promptWithStructure } from "@ahnopologetic/use-prompt-api";
+import { z } from "zod";
+import { log } from "~lib/log";
+import type { MemoryKind } from "./store";
+
+export interface ExtractedMemory {
+  kind: MemoryKind;
+  content: string;
+}
+
+const SYSTEM_PROMPT = 'You pick out lasting facts and preferences a user states about themselves, so an assistant for visually impaired users can remember them in later conversations. Ignore one-off requests about the current page.';
+
+const extractionSchema = z.object({
+  memories: z.array(z.object({
+    kind: z.enum(['fact', 'preference']).describe("'preference' for how the user wants to be helped, 'fact' for anything else about them"),
+    content: z.string().describe("One short sentence in the third person, e.g. 'The user uses a screen reader'")
+  })).max(5)
+});
+
+// Only messages that talk about the user are worth a model call
+const SELF_REFERENCE = /\b(i|i'm|im|i've|i'd|me|my|mine|myself|remember|always|never|prefer)\b/i;
+
+/**
+ * Facts and preferences worth remembering from one user message, e.g. "I'm interested
+ * in pricing" or "read slower". Returns nothing when the message is not about the user.
+ */
+export async function extractMemories(message: string, options: { signal?: AbortSignal } = {}): Promise<ExtractedMemory[]> {
+  if (!SELF_REFERENCE.test(message)) {
+    return [];
+  }
+
+  const session = new SessionManager(undefined, { enablePersistence: false });
+  try {
+    await session.create({ systemPrompt: SYSTEM_PROMPT, temperature: 0.2 });
+    const { memories } = await promptWithStructure(
+      session,
+      `List what is worth remembering about the user from this message. Return an empty list if nothing is.\n\nMessage: ${message}`,
+      { schema: extractionSchema, maxRetries: 1, signal: options.signal }
+    );
+
+    const extracted = memories
+      .map(memory => ({ kind: memory.kind, content: memory.content.trim() }))
+      .filter(memory => memory.content.length > 0);
+    log('[memory] Extracted', extracted.length, 'memories from message');
+    return extracted;
+  } finally {
+    session.destroy();
+  }
+}
+
+/**
+ * Format recalled memories for the agent's prompt.
+ */
+export function formatMemories(memories: { content: string }[]): string {
+  return `What you remember about the user from earlier conversations:\n${memories.map(memory => `- ${memory.content}`).join('\n')}`;
+}
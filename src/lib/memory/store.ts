@@ -0,0 +1,148 @@
+import { log } from "~lib/log";
+import type { PGlite } from '@electric-sql/pglite';
+import type { EmbeddingModelInfo } from "~lib/semantic-search/embedding-model";
+
+export type MemoryKind = 'fact' | 'preference';
+
+export interface AgentMemory {
+  id: number;
+  kind: MemoryKind;
+  content: string;
+  sourceUrl: string | null;
+  createdAt: number;
+}
+
+export interface MemoryMatch extends AgentMemory {
+  similarity: number;
+}
+
+export interface NewMemory {
+  kind: MemoryKind;
+  content: string;
+  sourceUrl?: string;
+}
+
+interface MemoryRow {
+  id: number;
+  kind: MemoryKind;
+  content: string;
+  source_url: string | null;
+  created_at: string | Date;
+  similarity?: number;
+}
+
+// A new memory this close to an existing one restates it, so it replaces the old wording
+const DUPLICATE_SIMILARITY = 0.9;
+
+const toVector = (embedding: number[]) => JSON.stringify(embedding);
+
+const fromRow = (row: MemoryRow): AgentMemory => ({
+  id: row.id,
+  kind: row.kind,
+  content: row.content,
+  sourceUrl: row.source_url,
+  createdAt: new Date(row.created_at).getTime()
+});
+
+/**
+ * Long-lived memories about the user, stored next to the page embeddings in PGlite.
+ * Similarity uses pgvector's cosine distance, so callers pass normalized embeddings from
+ * the store's model; memories embedded by another model (or model version) are skipped
+ * until reembed() refreshes them.
+ */
+export class MemoryStore {
+  private db: PGlite;
+  private model: EmbeddingModelInfo;
+
+  constructor(db: PGlite, model: EmbeddingModelInfo) {
+    if (!db) {
+      throw new Error('Database instance is required for MemoryStore');
+    }
+    this.db = db;
+    this.model = model;
+  }
+
+  /**
+   * Re-embed memories stored by another model, e.g. after switching embedding models.
+   * @returns the number of memories re-embedded
+   */
+  async reembed(embed: (texts: string[]) => Promise<number[][]>): Promise<number> {
+    const stale = await this.db.query<{ id: number; content: string }>(
+      `SELECT id, content FROM agent_memories
+       WHERE model_id IS DISTINCT FROM $1 OR model_version IS DISTINCT FROM $2
+       ORDER BY id`,
+      [this.model.id, this.model.version]
+    );
+    if (stale.rows.length === 0) return 0;
+
+    const embeddings = await embed(stale.rows.map(row => row.content));
+    await this.db.query(
+      `UPDATE agent_memories SET embedding = m.embedding::vector, model_id = $3, model_version = $4
+       FROM unnest($1::int[], $2::text[]) AS m(id, embedding)
+       WHERE agent_memories.id = m.id`,
+      [stale.rows.map(row => row.id), embeddings.map(toVector), this.model.id, this.model.version]
+    );
+
+    log('[memory] Re-embedded', stale.rows.length, 'memories with', this.model.id);
+    return stale.rows.length;
+  }
+
+  /**
+   * Save a memory, or update the existing one it duplicates (e.g. "read slower" after
+   * "please read more slowly").
+   */
+  async add(memory: NewMemory, embedding: number[]): Promise<AgentMemory> {
+    const [closest] = await this.search(embedding, 1, DUPLICATE_SIMILARITY);
+
+    const result = closest
+      ? await this.db.query<MemoryRow>(
+        `UPDATE agent_memories
+         SET kind = $2, content = $3, embedding = $4::vector, source_url = $5, model_id = $6, model_version = $7, created_at = now()
+         WHERE id = $1
+         RETURNING id, kind, content, source_url, created_at`,
+        [closest.id, memory.kind, memory.content, toVector(embedding), memory.sourceUrl ?? null, this.model.id, this.model.version]
+      )
+      : await this.db.query<MemoryRow>(
+        `INSERT INTO agent_memories (kind, content, embedding, source_url, model_id, model_version)
+         VALUES ($1, $2, $3::vector, $4, $5, $6)
+         RETURNING id, kind, content, source_url, created_at`,
+        [memory.kind, memory.content, toVector(embedding), memory.sourceUrl ?? null, this.model.id, this.model.version]
+      );
+
+    log('[memory]', closest ? 'Updated' : 'Saved', memory.kind, 'memory:', memory.content);
+    return fromRow(result.rows[0]);
+  }
+
+  /**
+   * Memories most similar to `embedding`, best first.
+   */
+  async search(embedding: number[], limit: number, minSimilarity = 0): Promise<MemoryMatch[]> {
+    const result = await this.db.query<MemoryRow>(
+      `SELECT id, kind, content, source_url, created_at, 1 - (embedding <=> $1::vector) AS similarity
+       FROM agent_memories
+       WHERE model_id = $4 AND model_version = $5 AND 1 - (embedding <=> $1::vector) >= $2
+       ORDER BY embedding <=> $1::vector
+       LIMIT $3`,
+      [toVector(embedding), minSimilarity, limit, this.model.id, this.model.version]
+    );
+
+    return result.rows.map(row => ({ ...fromRow(row), similarity: Number(row.similarity) }));
+  }
+
+  async list(): Promise<AgentMemory[]> {
+    const result = await this.db.query<MemoryRow>(
+      'SELECT id, kind, content, source_url, created_at FROM agent_memories ORDER BY created_at DESC'
+    );
+    return result.rows.map(fromRow);
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.db.query('DELETE FROM agent_memories WHERE id = $1', [id]);
+    log('[memory] Deleted memory', id);
+  }
+
+  async clear(): Promise<void> {
+    await this.db.query('DELETE FROM agent_memories');
+    log('[memory] Cleared all memories');
+  }
+}
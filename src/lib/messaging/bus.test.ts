@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { call, createReceiver, notify, type MessageHandlers } from "./bus"
+import { MESSAGE_BUS_VERSION } from "./protocol"
+
+const sender = { id: "extension" } as chrome.runtime.MessageSender
+
+// Delivers a message to the receiver and resolves with its response, or with "unhandled"
+// when the receiver ignores it
+const deliver = (receiver: ReturnType<typeof createReceiver>, message: object) =>
+  new Promise(resolve => {
+    const handled = receiver(message, sender, resolve)
+    if (!handled) setTimeout(() => resolve("unhandled"), 0)
+  })
+
+const offscreen = (handlers: Partial<MessageHandlers<"offscreen">>) =>
+  createReceiver("offscreen", handlers as MessageHandlers<"offscreen">)
+
+describe("createReceiver", () => {
+  const message = (payload: object) => ({ target: "offscreen", v: MESSAGE_BUS_VERSION, ...payload })
+
+  it("runs the handler with the validated payload and the sender", async () => {
+    const handler = vi.fn(async () => ({ result: [] }))
+    const receiver = offscreen({ DEBUG_QUERY_DB: handler })
+
+    const response = await deliver(receiver, message({ type: "DEBUG_QUERY_DB", sql: "SELECT 1" }))
+
+    expect(response).toEqual({ ok: true, result: [] })
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ sql: "SELECT 1" }), sender)
+  })
+
+  it("answers with the handler's result", async () => {
+    const receiver = offscreen({ GENERATE_EMBEDDING: () => ({ embedding: [0.5, 0.25] }) })
+
+    const response = await deliver(receiver, message({ type: "GENERATE_EMBEDDING", text: "hello" }))
+
+    expect(response).toEqual({ ok: true, embedding: [0.5, 0.25] })
+  })
+
+  it("leaves messages for other targets to their receivers", async () => {
+    const handler = vi.fn()
+    const receiver = offscreen({ CLEAR_ALL_CACHE: handler })
+
+    expect(await deliver(receiver, { ...message({ type: "CLEAR_ALL_CACHE" }), target: "background" })).toBe("unhandled")
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("rejects payloads that do not match the schema, naming the field", async () => {
+    const handler = vi.fn()
+    const receiver = offscreen({ GENERATE_EMBEDDING: handler })
+
+    const response = await deliver(receiver, message({ type: "GENERATE_EMBEDDING", text: "" }))
+
+    expect(response).toEqual({ ok: false, error: expect.stringMatching(/^Invalid GENERATE_EMBEDDING payload: text: /) })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("rejects messages of another bus version and unknown types", async () => {
+    const receiver = offscreen({ CLEAR_ALL_CACHE: vi.fn() })
+
+    expect(await deliver(receiver, { ...message({ type: "CLEAR_ALL_CACHE" }), v: MESSAGE_BUS_VERSION - 1 })).toEqual({
+      ok: false,
+      error: `Message bus version mismatch for CLEAR_ALL_CACHE: expected ${MESSAGE_BUS_VERSION}, got ${MESSAGE_BUS_VERSION - 1}`
+    })
+    expect(await deliver(receiver, message({ type: "NOT_A_MESSAGE" }))).toEqual({ ok: false, error: "Unknown offscreen message: NOT_A_MESSAGE" })
+    // Known to the protocol, but this receiver has no handler for it
+    expect(await deliver(receiver, message({ type: "GET_CACHE_STATS" }))).toEqual({ ok: false, error: "Unknown offscreen message: GET_CACHE_STATS" })
+  })
+
+  it("answers a failing handler with its error", async () => {
+    const receiver = offscreen({
+      CLEAR_ALL_CACHE: async () => {
+        throw new Error("Database is closed")
+      }
+    })
+
+    expect(await deliver(receiver, message({ type: "CLEAR_ALL_CACHE" }))).toEqual({ ok: false, error: "Database is closed" })
+  })
+})
+
+describe("call", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  const respondWith = (response: unknown) => {
+    const sendMessage = vi.fn(async () => response)
+    vi.stubGlobal("chrome", { runtime: { sendMessage } })
+    return sendMessage
+  }
+
+  it("sends a versioned envelope and resolves with the payload of the response", async () => {
+    const sendMessage = respondWith({ ok: true, embedding: [1] })
+
+    const response = await call("offscreen", { type: "GENERATE_EMBEDDING", text: "hello" })
+
+    expect(response).toEqual({ embedding: [1] })
+    expect(sendMessage).toHaveBeenCalledWith({ type: "GENERATE_EMBEDDING", text: "hello", v: MESSAGE_BUS_VERSION, target: "offscreen" })
+  })
+
+  it("delivers content script messages to the given tab, or to the active one", async () => {
+    const sendMessage = vi.fn(async (_tabId: number, _message: object) => ({ ok: true }))
+    const query = vi.fn(async () => [{ id: 7 }])
+    vi.stubGlobal("chrome", { tabs: { sendMessage, query } })
+
+    await call("content", { type: "SCROLL_TO_SECTION", selector: "#intro" }, { tabId: 3 })
+    await call("content", { type: "SCROLL_TO_SECTION", selector: "#intro" })
+
+    expect(sendMessage.mock.calls.map(([tabId]) => tabId)).toEqual([3, 7])
+    expect(query).toHaveBeenCalledTimes(1)
+  })
+
+  it("rejects with the receiver's error, or when nobody answers", async () => {
+    respondWith({ ok: false, error: "Invalid payload" })
+    await expect(call("offscreen", { type: "CLEAR_ALL_CACHE" })).rejects.toThrow("Invalid payload")
+
+    respondWith(undefined)
+    await expect(call("offscreen", { type: "CLEAR_ALL_CACHE" })).rejects.toThrow("No receiver handled offscreen:CLEAR_ALL_CACHE")
+  })
+
+  it("times out after the message's own timeout, the default, or the one given", async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal("chrome", { runtime: { sendMessage: () => new Promise(() => {}) } })
+
+    const slow = expect(call("offscreen", { type: "GENERATE_EMBEDDING", text: "hello" })).rejects.toThrow(
+      "offscreen:GENERATE_EMBEDDING timed out after 300000 ms"
+    )
+    const regular = expect(call("offscreen", { type: "CLEAR_ALL_CACHE" })).rejects.toThrow(
+      "offscreen:CLEAR_ALL_CACHE timed out after 30000 ms"
+    )
+    const given = expect(call("offscreen", { type: "GET_CACHE_STATS" }, { timeoutMs: 50 })).rejects.toThrow(
+      "offscreen:GET_CACHE_STATS timed out after 50 ms"
+    )
+
+    await vi.advanceTimersByTimeAsync(50)
+    await given
+    await vi.advanceTimersByTimeAsync(30 * 1000)
+    await regular
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000)
+    await slow
+  })
+
+  it("rejects when aborted, without sending once already aborted", async () => {
+    const sendMessage = vi.fn(() => new Promise(() => {}))
+    vi.stubGlobal("chrome", { runtime: { sendMessage } })
+    const controller = new AbortController()
+
+    const pending = call("offscreen", { type: "CLEAR_ALL_CACHE" }, { signal: controller.signal })
+    controller.abort()
+
+    await expect(pending).rejects.toThrow("offscreen:CLEAR_ALL_CACHE was aborted")
+    await expect(call("offscreen", { type: "CLEAR_ALL_CACHE" }, { signal: controller.signal })).rejects.toThrow()
+    expect(sendMessage).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("notify", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it("logs and swallows delivery failures when no receiver is open", async () => {
+    const logged = vi.spyOn(console, "debug").mockImplementation(() => {})
+    const sendMessage = vi.fn(async () => {
+      throw new Error("Receiving end does not exist")
+    })
+    vi.stubGlobal("chrome", { runtime: { sendMessage } })
+
+    expect(() => notify("sidepanel", { type: "SPEECH_RECOGNITION_RESULT", transcript: "hi" })).not.toThrow()
+    await vi.waitFor(() =>
+      expect(logged).toHaveBeenCalledWith(expect.any(String), "[messaging] sidepanel:SPEECH_RECOGNITION_RESULT was not delivered", expect.any(Error))
+    )
+    expect(sendMessage).toHaveBeenCalledTimes(1)
+  })
+})
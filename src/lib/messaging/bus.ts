@@ -0,0 +1,163 @@
+import type { z } from "zod"
+import { debug, err } from "~lib/log"
+import {
+  MESSAGE_BUS_VERSION,
+  messageTimeouts,
+  requestSchemas,
+  type MessageTarget,
+  type MessageType,
+  type RequestPayload,
+  type ResponseEnvelope,
+  type ResponsePayload
+} from "./protocol"
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+export interface CallOptions {
+  // Tab to deliver to when targeting the content script (defaults to the active tab)
+  tabId?: number
+  timeoutMs?: number
+  // Stops waiting for the response; the receiver is not told and may still finish
+  signal?: AbortSignal
+}
+
+export type MessageHandlers<T extends MessageTarget> = {
+  [K in MessageType<T>]: (
+    payload: RequestPayload<T, K>,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<ResponsePayload<T, K>> | ResponsePayload<T, K>
+}
+
+type OutgoingMessage<T extends MessageTarget, K extends MessageType<T>> = { type: K } & RequestPayload<T, K>
+
+const toEnvelope = <T extends MessageTarget>(target: T, message: { type: string }) => ({
+  ...message,
+  v: MESSAGE_BUS_VERSION,
+  target
+})
+
+const getActiveTabId = async (): Promise<number> => {
+  const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
+  const tabId = tabs?.[0]?.id
+  if (tabId == null) {
+    throw new Error('No active tab')
+  }
+  return tabId
+}
+
+const send = async (target: MessageTarget, envelope: object, tabId?: number): Promise<unknown> => {
+  if (target === 'content') {
+    return chrome.tabs.sendMessage(tabId ?? await getActiveTabId(), envelope)
+  }
+  return chrome.runtime.sendMessage(envelope)
+}
+
+/**
+ * Send a request and wait for its typed response. Rejects when the receiver reports
+ * `{ ok: false }`, when nobody answers, when the request exceeds its timeout, or when
+ * `options.signal` aborts.
+ */
+export async function call<T extends MessageTarget, K extends MessageType<T>>(
+  target: T,
+  message: OutgoingMessage<T, K>,
+  options: CallOptions = {}
+): Promise<ResponsePayload<T, K>> {
+  const timeoutMs = options.timeoutMs ?? messageTimeouts[message.type] ?? DEFAULT_TIMEOUT_MS
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const { signal } = options
+  let onAbort: (() => void) | undefined
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`${target}:${message.type} timed out after ${timeoutMs} ms`))
+    }, timeoutMs)
+  })
+
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new Error(`${target}:${message.type} was aborted`))
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+  try {
+    signal?.throwIfAborted()
+    const response = await Promise.race([
+      send(target, toEnvelope(target, message), options.tabId),
+      timeout,
+      aborted
+    ]) as ResponseEnvelope<ResponsePayload<T, K>> | undefined
+
+    if (!response) {
+      throw new Error(`No receiver handled ${target}:${message.type}`)
+    }
+    if (response.ok === false) {
+      throw new Error(response.error || `${target}:${message.type} failed`)
+    }
+
+    const { ok: _ok, ...payload } = response
+    return payload as unknown as ResponsePayload<T, K>
+  } finally {
+    clearTimeout(timer)
+    if (onAbort) signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Fire-and-forget variant of `call` for events (e.g. speech recognition updates) where
+ * the receiver may not be open. Delivery failures are logged and swallowed.
+ */
+export function notify<T extends MessageTarget, K extends MessageType<T>>(
+  target: T,
+  message: OutgoingMessage<T, K>,
+  options: Pick<CallOptions, 'tabId'> = {}
+): void {
+  send(target, toEnvelope(target, message), options.tabId).catch((error) => {
+    debug(`[messaging] ${target}:${message.type} was not delivered`, error)
+  })
+}
+
+const formatIssues = (issues: { path: PropertyKey[]; message: string }[]) =>
+  issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'payload'}: ${issue.message}`).join('; ')
+
+/**
+ * Build a `chrome.runtime.onMessage` listener for one target. Messages addressed to
+ * other targets are ignored; payloads are validated against the protocol schema before
+ * the handler runs, and every outcome is answered with a `{ ok, error }` envelope.
+ */
+export function createReceiver<T extends MessageTarget>(target: T, handlers: MessageHandlers<T>) {
+  const schemas = requestSchemas[target] as Record<string, z.ZodType>
+
+  return (message: any, sender: chrome.runtime.MessageSender, sendResponse: (response: ResponseEnvelope<unknown>) => void): boolean => {
+    if (message?.target !== target) return false
+
+    const type = message.type as string
+    if (message.v !== MESSAGE_BUS_VERSION) {
+      sendResponse({ ok: false, error: `Message bus version mismatch for ${type}: expected ${MESSAGE_BUS_VERSION}, got ${message.v}` })
+      return false
+    }
+
+    const schema = schemas[type]
+    const handler = (handlers as Record<string, (payload: unknown, sender: chrome.runtime.MessageSender) => unknown>)[type]
+    if (!schema || !handler) {
+      sendResponse({ ok: false, error: `Unknown ${target} message: ${type}` })
+      return false
+    }
+
+    const parsed = schema.safeParse(message)
+    if (!parsed.success) {
+      sendResponse({ ok: false, error: `Invalid ${type} payload: ${formatIssues(parsed.error.issues)}` })
+      return false
+    }
+
+    (async () => {
+      try {
+        const result = await handler(parsed.data, sender)
+        sendResponse({ ok: true, ...(result as object) })
+      } catch (error) {
+        err(`[messaging] ${target}:${type} handler failed:`, error)
+        sendResponse({ ok: false, error: (error as Error)?.message || "Unknown error" })
+      }
+    })()
+    return true // Keep message channel open for async response
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Typed message bus between the sidepanel, background worker, offscreen document and content script
+ */
+
+export * from './protocol';
+export * from './bus';
@@ -0,0 +1,458 @@
+/**
+ * Message protocol shared by the sidepanel, background worker, offscreen document
+ * and content script.
+ *
+ * Every request is described once here: a zod schema for its payload (validated by
+ * the receiver) and a response type (returned by `call`). Adding a message type means
+ * adding an entry to both maps; a receiver that forgets to handle it fails to compile.
+ */
+
+import { z } from "zod"
+import type { Section } from "~hooks/useDetectSections"
+import type { InteractiveElement } from "~lib/interaction"
+import type { AgentMemory, MemoryMatch } from "~lib/memory/store"
+import type { EmbeddingBenchmark } from "~lib/semantic-search/benchmark"
+import type { CachedEmbeddings, IndexedPage, PageSyncResult, SerializableSentenceSegment, SimilarSentence } from "~lib/semantic-search/cache"
+import type { EmbeddingModelInfo } from "~lib/semantic-search/embedding-model"
+import type { SegmentKind } from "~lib/semantic-search/sentence-segmenter"
+import type { NeuralVoiceInfo } from "~lib/tts/neural-voice"
+import type { SpeechState } from "~lib/tts/speech-coordinator"
+
+// Bump when a payload changes shape so stale content scripts (left behind after an
+// extension update) are rejected instead of misreading each other's messages.
+export const MESSAGE_BUS_VERSION = 2
+
+const segmentKindSchema = z.enum(['sentence', 'table', 'image', 'definition'])
+
+const serializableSegmentSchema = z.object({
+  kind: segmentKindSchema,
+  text: z.string(),
+  selector: z.string(),
+  startOffset: z.number(),
+  endOffset: z.number(),
+  index: z.number()
+})
+
+const embeddingsSchema = z.array(z.array(z.number()))
+
+const embeddingRequests = {
+  // Without a modelId the background loads the model chosen in Advanced settings
+  LOAD_EMBEDDING_MODEL: z.object({ modelId: z.string().optional() }),
+  // Load, time and unload each model (every registered model without modelIds)
+  BENCHMARK_EMBEDDING_MODELS: z.object({ modelIds: z.array(z.string()).optional() }),
+  GENERATE_EMBEDDING: z.object({ text: z.string().min(1) }),
+  BATCH_GENERATE_EMBEDDINGS: z.object({ texts: z.array(z.string()) }),
+  CLEANUP_CACHE: z.object({}),
+  GET_CACHED_EMBEDDINGS: z.object({ url: z.string(), segments: z.array(serializableSegmentSchema) }),
+  GET_CACHED_EMBEDDINGS_BY_URL: z.object({ url: z.string() }),
+  GET_INDEXED_PAGE: z.object({ url: z.string() }),
+  // Returns the best matching sentences of one page, or of all pages without a url.
+  // 'hybrid' (the default) fuses embedding similarity with BM25 keyword ranking.
+  SEARCH_SIMILAR: z.object({
+    query: z.string().min(1),
+    url: z.string().optional(),
+    limit: z.number().int().positive().optional(),
+    mode: z.enum(['semantic', 'lexical', 'hybrid']).optional(),
+    // Only these kinds of segments (e.g. just table rows); every kind without it
+    kinds: z.array(segmentKindSchema).optional()
+  }),
+  CACHE_EMBEDDINGS: z.object({
+    url: z.string(),
+    title: z.string().optional(),
+    segments: z.array(serializableSegmentSchema),
+    embeddings: embeddingsSchema
+  }),
+  // Re-index a page from its current sentences, embedding only new or changed ones.
+  // With a batchSize they are embedded that many at a time, pausing between batches so
+  // searches get a turn, and each batch is reported to the background with PAGE_INDEX_PROGRESS.
+  SYNC_PAGE_INDEX: z.object({
+    url: z.string(),
+    title: z.string().optional(),
+    segments: z.array(serializableSegmentSchema),
+    batchSize: z.number().int().positive().optional()
+  }),
+  // Positions of the texts a SYNC_PAGE_INDEX of the page would have to embed
+  FIND_UNEMBEDDED_SENTENCES: z.object({ url: z.string(), texts: z.array(z.string()) }),
+  GET_CACHE_STATS: z.object({}),
+  CLEAR_CACHED_PAGE: z.object({ url: z.string() }),
+  CLEAR_ALL_CACHE: z.object({})
+}
+
+// Agent memories live in the offscreen document's database; the background forwards them
+const memoryRequests = {
+  ADD_MEMORY: z.object({
+    kind: z.enum(['fact', 'preference']),
+    content: z.string().min(1),
+    sourceUrl: z.string().optional()
+  }),
+  SEARCH_MEMORIES: z.object({
+    query: z.string().min(1),
+    limit: z.number().int().positive().optional(),
+    minSimilarity: z.number().optional()
+  }),
+  LIST_MEMORIES: z.object({}),
+  DELETE_MEMORY: z.object({ id: z.number().int() }),
+  CLEAR_MEMORIES: z.object({})
+}
+
+// Neural voices run in the offscreen document too; the background forwards synthesis
+const speechRequests = {
+  // Without a voiceId the background uses the neural voice chosen in TTS settings
+  SYNTHESIZE_SPEECH: z.object({ text: z.string().min(1), voiceId: z.string().optional() })
+}
+
+const speechSettingsSchema = z.object({
+  voiceName: z.string().optional(),
+  rate: z.number().optional(),
+  pitch: z.number().optional(),
+  volume: z.number().optional()
+})
+
+const speechSourceSchema = z.enum(['sidepanel', 'content', 'other'])
+
+// All speech is played by the background's coordinator; the sidepanel and tabs ask it to
+const speechCoordinationRequests = {
+  // Queued behind or interrupting what is being said, by priority. Progress comes back as SPEECH_EVENT.
+  SPEAK: z.object({
+    id: z.string().min(1),
+    text: z.string().min(1),
+    settings: speechSettingsSchema,
+    priority: z.enum(['high', 'normal', 'low']),
+    source: speechSourceSchema,
+    // Send a boundary SPEECH_EVENT for each word
+    boundaries: z.boolean().optional()
+  }),
+  // Pause, resume and stop act on whatever is being said, whichever context asked for it
+  PAUSE_SPEECH: z.object({}),
+  RESUME_SPEECH: z.object({}),
+  TOGGLE_SPEECH_PAUSE: z.object({}),
+  // Stop the current request; the queue carries on
+  SKIP_SPEECH: z.object({}),
+  STOP_ALL_SPEECH: z.object({}),
+  // Drop the sender's own requests from one source
+  CANCEL_SPEECH_BY_SOURCE: z.object({ source: speechSourceSchema }),
+  GET_SPEECH_STATE: z.object({}),
+  // Progress of a neural voice playing in the offscreen document
+  SPEECH_PLAYBACK_EVENT: z.object({
+    id: z.string(),
+    event: z.enum(['start', 'end', 'error']),
+    durationMs: z.number().optional(),
+    error: z.string().optional()
+  })
+}
+
+const speechStateSchema = z.object({
+  speaking: z.object({
+    id: z.string(),
+    source: speechSourceSchema,
+    priority: z.enum(['high', 'normal', 'low']),
+    tabId: z.number().optional(),
+    tabTitle: z.string().optional(),
+    text: z.string()
+  }).nullable(),
+  paused: z.boolean(),
+  queued: z.number().int()
+})
+
+// Sent by the background's speech coordinator to the sidepanel and tabs
+const speechUpdates = {
+  // Progress of one of the receiver's own SPEAK requests
+  SPEECH_EVENT: z.object({
+    id: z.string(),
+    event: z.enum(['start', 'boundary', 'end', 'error', 'cancel']),
+    charIndex: z.number().optional(),
+    charLength: z.number().optional(),
+    error: z.string().optional()
+  }),
+  // What is being said now, from any context
+  SPEECH_STATE: z.object({ state: speechStateSchema })
+}
+
+export const requestSchemas = {
+  content: {
+    SCROLL_TO_SECTION: z.object({ selector: z.string().min(1) }),
+    SET_SECTIONS: z.object({
+      sections: z.array(z.object({ title: z.string(), cssSelector: z.string() }))
+    }),
+    DETECT_SECTIONS: z.object({}),
+    READ_OUT: z.object({
+      targetType: z.enum(['SECTION', 'NODE']),
+      target: z.string().min(1)
+    }),
+    GET_CONTENT: z.object({ selector: z.string().min(1) }),
+    GET_MAIN_CONTENT: z.object({}),
+    GET_SECTION_CONTENTS: z.object({}),
+    SEMANTIC_SEARCH: z.object({
+      query: z.string().min(1),
+      autoPlayFirst: z.boolean().optional(),
+      // Start playback at the heading of the first result's section
+      withContext: z.boolean().optional(),
+      kinds: z.array(segmentKindSchema).optional()
+    }),
+    INDEX_PAGE: z.object({}),
+    // The page's meaningful sentences, once it has stopped changing after load
+    GET_PAGE_SENTENCES: z.object({}),
+    // Pre-indexing of the tab by the background worker moved on; done once it is synced
+    PRE_INDEX_PROGRESS: z.object({
+      url: z.string(),
+      embedded: z.number().int(),
+      total: z.number().int(),
+      done: z.boolean()
+    }),
+    // Scroll to and highlight a sentence found by searching across pages
+    HIGHLIGHT_SENTENCE: z.object({ selector: z.string().min(1), text: z.string(), kind: segmentKindSchema.optional() }),
+    LIST_INTERACTIVE_ELEMENTS: z.object({}),
+    DESCRIBE_ELEMENT: z.object({ selector: z.string().min(1) }),
+    CLICK_ELEMENT: z.object({ selector: z.string().min(1) }),
+    TYPE_TEXT: z.object({
+      selector: z.string().min(1),
+      text: z.string(),
+      clear: z.boolean().optional()
+    }),
+    SELECT_OPTION: z.object({ selector: z.string().min(1), option: z.string().min(1) }),
+    TOGGLE_CHECKBOX: z.object({ selector: z.string().min(1), checked: z.boolean().optional() }),
+    SUBMIT_FORM: z.object({ selector: z.string().min(1) }),
+    STOP_READING: z.object({}),
+    TOGGLE_MIC: z.object({ isListening: z.boolean().optional() }),
+    FOCUS_SEMANTIC_SEARCH: z.object({}),
+    ...speechUpdates
+  },
+  background: {
+    ...embeddingRequests,
+    ...memoryRequests,
+    ...speechRequests,
+    ...speechCoordinationRequests,
+    // Sentences of a batched SYNC_PAGE_INDEX embedded so far, from the offscreen document
+    PAGE_INDEX_PROGRESS: z.object({
+      url: z.string(),
+      embedded: z.number().int(),
+      total: z.number().int()
+    })
+  },
+  offscreen: {
+    ...embeddingRequests,
+    ...memoryRequests,
+    ...speechRequests,
+    // Play a neural voice for the background's speech coordinator, reporting back with SPEECH_PLAYBACK_EVENT
+    PLAY_SPEECH: z.object({
+      id: z.string(),
+      text: z.string().min(1),
+      voiceId: z.string(),
+      settings: speechSettingsSchema
+    }),
+    CONTROL_SPEECH_PLAYBACK: z.object({ id: z.string(), action: z.enum(['pause', 'resume', 'cancel']) }),
+    // Switch the model used for embeddings and searches, without loading it yet
+    SELECT_EMBEDDING_MODEL: z.object({ modelId: z.string() }),
+    DEBUG_GET_DB_STATS: z.object({}),
+    DEBUG_QUERY_DB: z.object({ sql: z.string().min(1), params: z.array(z.unknown()).optional() }),
+    DEBUG_GET_CACHED_PAGES: z.object({})
+  },
+  sidepanel: {
+    CLOSE_SIDEPANEL: z.object({ tabId: z.number().optional() }),
+    SPEECH_RECOGNITION_STARTED: z.object({}),
+    SPEECH_RECOGNITION_ENDED: z.object({}),
+    SPEECH_RECOGNITION_RESULT: z.object({ transcript: z.string() }),
+    SPEECH_RECOGNITION_ERROR: z.object({ error: z.string() }),
+    SPEECH_RECOGNITION_STATE_UPDATE: z.object({ isListening: z.boolean() }),
+    ...speechUpdates
+  }
+}
+
+export interface SemanticSearchMatch {
+  kind: SegmentKind
+  text: string
+  score: number
+  confidence?: number
+  answer?: string
+  // Character offsets of the answer within text
+  answerSpan?: { start: number; end: number }
+  // Neighbouring sentences and where on the page the sentence is
+  context?: {
+    before: string[]
+    after: string[]
+    sectionTitle: string | null
+    headingPath: string[]
+  }
+}
+
+// Readable text of one section, as collected for summarization
+export interface SectionContent {
+  title: string
+  selector: string
+  text: string
+}
+
+export interface CacheStats {
+  totalUrls: number
+  totalSentences: number
+  totalEmbeddings: number
+  oldestEntry: number | null
+  newestEntry: number | null
+}
+
+export interface CachedPageSummary {
+  url: string
+  created_at: string
+  sentences_count: number
+  embeddings_count: number
+  timestamp: number
+  pageHash: string
+  modelId: string
+  modelVersion: string
+  dimensions: number
+}
+
+type Empty = Record<string, never>
+
+interface EmbeddingResponses {
+  LOAD_EMBEDDING_MODEL: { model: EmbeddingModelInfo }
+  BENCHMARK_EMBEDDING_MODELS: { results: EmbeddingBenchmark[] }
+  GENERATE_EMBEDDING: { embedding: number[] }
+  BATCH_GENERATE_EMBEDDINGS: { embeddings: number[][] }
+  CLEANUP_CACHE: Empty
+  GET_CACHED_EMBEDDINGS: { cachedEmbeddings: CachedEmbeddings | null }
+  GET_CACHED_EMBEDDINGS_BY_URL: { cachedEmbeddings: CachedEmbeddings | null }
+  GET_INDEXED_PAGE: { page: IndexedPage | null }
+  SEARCH_SIMILAR: { matches: SimilarSentence[] }
+  CACHE_EMBEDDINGS: Empty
+  SYNC_PAGE_INDEX: PageSyncResult
+  FIND_UNEMBEDDED_SENTENCES: { positions: number[] }
+  GET_CACHE_STATS: { stats: CacheStats }
+  CLEAR_CACHED_PAGE: Empty
+  CLEAR_ALL_CACHE: Empty
+}
+
+interface MemoryResponses {
+  ADD_MEMORY: { memory: AgentMemory }
+  SEARCH_MEMORIES: { memories: MemoryMatch[] }
+  LIST_MEMORIES: { memories: AgentMemory[] }
+  DELETE_MEMORY: Empty
+  CLEAR_MEMORIES: Empty
+}
+
+interface SpeechResponses {
+  SYNTHESIZE_SPEECH: {
+    // Base64 of a WAV file
+    audio: string
+    mimeType: string
+    sampleRate: number
+    // In seconds
+    duration: number
+    voice: NeuralVoiceInfo
+  }
+}
+
+interface SpeechCoordinationResponses {
+  SPEAK: Empty
+  PAUSE_SPEECH: Empty
+  RESUME_SPEECH: Empty
+  TOGGLE_SPEECH_PAUSE: Empty
+  SKIP_SPEECH: Empty
+  STOP_ALL_SPEECH: Empty
+  CANCEL_SPEECH_BY_SOURCE: Empty
+  GET_SPEECH_STATE: { state: SpeechState }
+  SPEECH_PLAYBACK_EVENT: Empty
+}
+
+interface SpeechUpdateResponses {
+  SPEECH_EVENT: Empty
+  SPEECH_STATE: Empty
+}
+
+export interface ResponseMap {
+  content: {
+    SCROLL_TO_SECTION: Empty
+    SET_SECTIONS: Empty
+    DETECT_SECTIONS: { sections: Section[] }
+    READ_OUT: Empty
+    GET_CONTENT: { content: string }
+    GET_MAIN_CONTENT: { text: string; headings: { text: string; selector: string }[] }
+    GET_SECTION_CONTENTS: { title: string; url: string; sections: SectionContent[] }
+    SEMANTIC_SEARCH: {
+      results: SemanticSearchMatch[]
+      bestMatch: SemanticSearchMatch | null
+      totalResults: number
+    }
+    INDEX_PAGE: { sentenceCount: number }
+    GET_PAGE_SENTENCES: { url: string; title: string; segments: SerializableSentenceSegment[] }
+    PRE_INDEX_PROGRESS: Empty
+    HIGHLIGHT_SENTENCE: { found: boolean }
+    LIST_INTERACTIVE_ELEMENTS: { elements: InteractiveElement[] }
+    DESCRIBE_ELEMENT: { element: InteractiveElement }
+    CLICK_ELEMENT: Empty
+    // Whether the field was a password field, so the text must not be repeated
+    TYPE_TEXT: { sensitive: boolean }
+    SELECT_OPTION: { selected: string }
+    TOGGLE_CHECKBOX: { checked: boolean }
+    SUBMIT_FORM: Empty
+    STOP_READING: Empty
+    TOGGLE_MIC: Empty
+    FOCUS_SEMANTIC_SEARCH: Empty
+  } & SpeechUpdateResponses
+  background: EmbeddingResponses & MemoryResponses & SpeechResponses & SpeechCoordinationResponses & {
+    PAGE_INDEX_PROGRESS: Empty
+  }
+  offscreen: EmbeddingResponses & MemoryResponses & SpeechResponses & {
+    PLAY_SPEECH: Empty
+    CONTROL_SPEECH_PLAYBACK: Empty
+    SELECT_EMBEDDING_MODEL: { model: EmbeddingModelInfo }
+    DEBUG_GET_DB_STATS: {
+      stats: {
+        cachedPages: { count: number; table: string }
+        setupComplete: boolean
+        modelLoaded: boolean
+        model: EmbeddingModelInfo
+      }
+    }
+    DEBUG_QUERY_DB: { result: unknown }
+    DEBUG_GET_CACHED_PAGES: { pages: CachedPageSummary[] }
+  }
+  sidepanel: {
+    CLOSE_SIDEPANEL: Empty
+    SPEECH_RECOGNITION_STARTED: Empty
+    SPEECH_RECOGNITION_ENDED: Empty
+    SPEECH_RECOGNITION_RESULT: Empty
+    SPEECH_RECOGNITION_ERROR: Empty
+    SPEECH_RECOGNITION_STATE_UPDATE: Empty
+  } & SpeechUpdateResponses
+}
+
+// Requests that load or run a model can take minutes on first use
+export const messageTimeouts: Partial<Record<string, number>> = {
+  LOAD_EMBEDDING_MODEL: 5 * 60 * 1000,
+  // Downloads every model that is not in the browser cache yet
+  BENCHMARK_EMBEDDING_MODELS: 20 * 60 * 1000,
+  GENERATE_EMBEDDING: 5 * 60 * 1000,
+  BATCH_GENERATE_EMBEDDINGS: 5 * 60 * 1000,
+  SEMANTIC_SEARCH: 5 * 60 * 1000,
+  SEARCH_SIMILAR: 5 * 60 * 1000,
+  SYNC_PAGE_INDEX: 5 * 60 * 1000,
+  INDEX_PAGE: 5 * 60 * 1000,
+  // Waits for the page to settle first
+  GET_PAGE_SENTENCES: 60 * 1000,
+  ADD_MEMORY: 5 * 60 * 1000,
+  SEARCH_MEMORIES: 5 * 60 * 1000,
+  // Downloads the voice on first use
+  SYNTHESIZE_SPEECH: 5 * 60 * 1000
+}
+
+export type MessageTarget = keyof typeof requestSchemas
+
+export type MessageType<T extends MessageTarget> = keyof (typeof requestSchemas)[T] & string
+
+type InferPayload<S> = S extends z.ZodType
+  ? z.infer<S> extends Record<string, never> ? Record<never, never> : z.infer<S>
+  : never
+
+// zod infers `z.object({})` as Record<string, never>, which would forbid the `type` key
+export type RequestPayload<T extends MessageTarget, K extends MessageType<T>> = InferPayload<(typeof requestSchemas)[T][K]>
+
+export type ResponsePayload<T extends MessageTarget, K extends MessageType<T>> =
+  K extends keyof ResponseMap[T] ? ResponseMap[T][K] : never
+
+// Discriminated union of every request a target accepts
+export type RequestMessage<T extends MessageTarget> = {
+  [K in MessageType<T>]: { type: K } & RequestPayload<T, K>
+}[MessageType<T>]
+
+export type ResponseEnvelope<R> = ({ ok: true } & R) | { ok: false; error: string }
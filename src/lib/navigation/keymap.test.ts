@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_KEYMAP,
+  NAVIGATION_COMMANDS,
+  chordFromEvent,
+  commandForEvent,
+  describeCommand,
+  formatChord,
+  normalizeChord,
+  resolveKeymap
+} from './keymap';
+
+const press = (init: KeyboardEventInit) => new KeyboardEvent('keydown', init);
+
+describe('normalizeChord', () => {
+  it('orders modifiers Ctrl, Meta, Alt, Shift and resolves their aliases', () => {
+    expect(normalizeChord('cmd+ctrl+h')).toBe('Ctrl+Meta+H');
+    expect(normalizeChord('Shift+Option+Command+Control+1')).toBe('Ctrl+Meta+Alt+Shift+1');
+    expect(normalizeChord(' alt + shift + ArrowLeft ')).toBe('Alt+Shift+ArrowLeft');
+  });
+
+  it('uppercases single-character keys and keeps named keys as written', () => {
+    expect(normalizeChord('ctrl+meta+s')).toBe('Ctrl+Meta+S');
+    expect(normalizeChord('Tab')).toBe('Tab');
+  });
+
+  it('collapses repeated modifiers and leaves an empty chord empty', () => {
+    expect(normalizeChord('ctrl+control+k')).toBe('Ctrl+K');
+    expect(normalizeChord('')).toBe('');
+  });
+
+  it('leaves every default chord unchanged', () => {
+    for (const chord of Object.values(DEFAULT_KEYMAP)) {
+      expect(normalizeChord(chord), chord).toBe(chord);
+    }
+  });
+});
+
+describe('chordFromEvent', () => {
+  it('names letters and digits by their physical key', () => {
+    // Option+H types "˙" on a Mac and Shift+1 types "!"
+    expect(chordFromEvent(press({ key: '˙', code: 'KeyH', ctrlKey: true, metaKey: true, altKey: true }))).toBe('Ctrl+Meta+Alt+H');
+    expect(chordFromEvent(press({ key: '!', code: 'Digit1', shiftKey: true }))).toBe('Shift+1');
+    // A non-QWERTY layout: the key labelled "ф" sits where A is
+    expect(chordFromEvent(press({ key: 'ф', code: 'KeyA', ctrlKey: true }))).toBe('Ctrl+A');
+  });
+
+  it('keeps named keys and names the space bar', () => {
+    expect(chordFromEvent(press({ key: 'ArrowLeft', code: 'ArrowLeft', altKey: true, shiftKey: true }))).toBe('Alt+Shift+ArrowLeft');
+    expect(chordFromEvent(press({ key: ' ', code: 'Space' }))).toBe('Space');
+    expect(chordFromEvent(press({ key: '/', code: 'Slash', ctrlKey: true }))).toBe('Ctrl+/');
+  });
+
+  it('ignores a lone modifier', () => {
+    for (const key of ['Control', 'Meta', 'Alt', 'Shift']) {
+      expect(chordFromEvent(press({ key, code: `${key}Left` }))).toBeNull();
+    }
+  });
+});
+
+describe('resolveKeymap', () => {
+  it('is the default keymap without overrides', () => {
+    expect(resolveKeymap()).toEqual(DEFAULT_KEYMAP);
+  });
+
+  it('applies the user\'s bindings normalized, and unbinds commands bound to nothing', () => {
+    const keymap = resolveKeymap({ nextHeading: 'cmd+ctrl+j', nextLink: '' });
+
+    expect(keymap.nextHeading).toBe('Ctrl+Meta+J');
+    expect(keymap.nextLink).toBe('');
+    expect(keymap.previousHeading).toBe(DEFAULT_KEYMAP.previousHeading);
+  });
+
+  it('ignores entries that are not navigation commands', () => {
+    const keymap = resolveKeymap({ notACommand: 'Ctrl+X' } as any);
+
+    expect(keymap).toEqual(DEFAULT_KEYMAP);
+  });
+});
+
+describe('commandForEvent', () => {
+  it('finds the command a key press is bound to', () => {
+    const keymap = resolveKeymap({ nextHeading: 'ctrl+j' });
+
+    expect(commandForEvent(press({ key: 'j', code: 'KeyJ', ctrlKey: true }), keymap)).toBe('nextHeading');
+    expect(commandForEvent(press({ key: 'Tab', code: 'Tab', shiftKey: true }), keymap)).toBe('previousElement');
+    expect(commandForEvent(press({ key: 'h', code: 'KeyH', ctrlKey: true, metaKey: true }), keymap)).toBeNull();
+  });
+
+  it('never matches an unbound command', () => {
+    const keymap = resolveKeymap({ nextElement: '' });
+
+    expect(commandForEvent(press({ key: 'Control', code: 'ControlLeft', ctrlKey: true }), keymap)).toBeNull();
+  });
+});
+
+describe('describeCommand and formatChord', () => {
+  it('describes every command', () => {
+    expect(describeCommand('nextHeading2')).toBe('Next heading level 2');
+    expect(describeCommand('previousFormControl')).toBe('Previous form control');
+    expect(describeCommand('cellUp')).toBe('Table cell above');
+    for (const command of NAVIGATION_COMMANDS) {
+      expect(describeCommand(command), command).not.toBe(command);
+    }
+  });
+
+  it('shows chords with macOS key names', () => {
+    expect(formatChord('Ctrl+Meta+Alt+H')).toBe('Ctrl+Cmd+Option+H');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Reading navigation commands and the key chords bound to them
+ */
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+type Direction = 'next' | 'previous';
+type JumpTarget = 'Sentence' | 'Paragraph' | 'Heading' | 'Landmark' | 'Link' | 'FormControl' | 'List' | 'ListItem' | 'Table';
+
+export type NavigationCommand =
+  // The reading queue's elements, within the focused section
+  | 'nextElement'
+  | 'previousElement'
+  | `${Direction}${JumpTarget}`
+  | `${Direction}Heading${HeadingLevel}`
+  // Table cells, by row and column
+  | 'cellLeft'
+  | 'cellRight'
+  | 'cellUp'
+  | 'cellDown';
+
+// Key chords are modifiers in the order Ctrl, Meta, Alt, Shift followed by the key, joined by
+// "+": "Ctrl+Meta+Alt+H". Letters and digits are named by their physical key, so the chord
+// does not change with the keyboard layout or with Alt producing another character.
+export type KeyChord = string;
+
+export type Keymap = Record<NavigationCommand, KeyChord>;
+
+/**
+ * Ctrl+Cmd with a key jumps forward and Ctrl+Cmd+Option with it jumps back, next to the
+ * existing Ctrl+Cmd shortcuts; the letters follow common screen reader quick keys
+ */
+export const DEFAULT_KEYMAP: Keymap = {
+  nextElement: 'Tab',
+  previousElement: 'Shift+Tab',
+  nextSentence: 'Ctrl+Meta+S',
+  previousSentence: 'Ctrl+Meta+Alt+S',
+  nextParagraph: 'Ctrl+Meta+P',
+  previousParagraph: 'Ctrl+Meta+Alt+P',
+  nextHeading: 'Ctrl+Meta+H',
+  previousHeading: 'Ctrl+Meta+Alt+H',
+  nextHeading1: 'Ctrl+Meta+1',
+  previousHeading1: 'Ctrl+Meta+Alt+1',
+  nextHeading2: 'Ctrl+Meta+2',
+  previousHeading2: 'Ctrl+Meta+Alt+2',
+  nextHeading3: 'Ctrl+Meta+3',
+  previousHeading3: 'Ctrl+Meta+Alt+3',
+  nextHeading4: 'Ctrl+Meta+4',
+  previousHeading4: 'Ctrl+Meta+Alt+4',
+  nextHeading5: 'Ctrl+Meta+5',
+  previousHeading5: 'Ctrl+Meta+Alt+5',
+  nextHeading6: 'Ctrl+Meta+6',
+  previousHeading6: 'Ctrl+Meta+Alt+6',
+  nextLandmark: 'Ctrl+Meta+M',
+  previousLandmark: 'Ctrl+Meta+Alt+M',
+  nextLink: 'Ctrl+Meta+K',
+  previousLink: 'Ctrl+Meta+Alt+K',
+  nextFormControl: 'Ctrl+Meta+C',
+  previousFormControl: 'Ctrl+Meta+Alt+C',
+  nextList: 'Ctrl+Meta+L',
+  previousList: 'Ctrl+Meta+Alt+L',
+  nextListItem: 'Ctrl+Meta+I',
+  previousListItem: 'Ctrl+Meta+Alt+I',
+  nextTable: 'Ctrl+Meta+T',
+  previousTable: 'Ctrl+Meta+Alt+T',
+  cellLeft: 'Alt+Shift+ArrowLeft',
+  cellRight: 'Alt+Shift+ArrowRight',
+  cellUp: 'Alt+Shift+ArrowUp',
+  cellDown: 'Alt+Shift+ArrowDown',
+};
+
+export const NAVIGATION_COMMANDS = Object.keys(DEFAULT_KEYMAP) as NavigationCommand[];
+
+const COMMAND_LABELS: Record<JumpTarget, string> = {
+  Sentence: 'sentence',
+  Paragraph: 'paragraph',
+  Heading: 'heading',
+  Landmark: 'landmark',
+  Link: 'link',
+  FormControl: 'form control',
+  List: 'list',
+  ListItem: 'list item',
+  Table: 'table',
+};
+
+/**
+ * "nextHeading2" -> "Next heading level 2", for settings and announcements
+ */
+export function describeCommand(command: NavigationCommand): string {
+  switch (command) {
+    case 'nextElement':
+      return 'Next element in section';
+    case 'previousElement':
+      return 'Previous element in section';
+    case 'cellLeft':
+      return 'Table cell to the left';
+    case 'cellRight':
+      return 'Table cell to the right';
+    case 'cellUp':
+      return 'Table cell above';
+    case 'cellDown':
+      return 'Table cell below';
+  }
+
+  const match = command.match(/^(next|previous)([A-Za-z]+?)([1-6])?$/);
+  if (!match) return command;
+  const [, direction, target, level] = match;
+  const label = COMMAND_LABELS[target as JumpTarget] ?? target;
+  return `${direction === 'next' ? 'Next' : 'Previous'} ${label}${level ? ` level ${level}` : ''}`;
+}
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+};
+const MODIFIER_ORDER = ['Ctrl', 'Meta', 'Alt', 'Shift'];
+
+/**
+ * Put a chord written by hand ("cmd+ctrl+h") into the form chordFromEvent() produces
+ */
+export function normalizeChord(chord: KeyChord): KeyChord {
+  const parts = chord.split('+').map(part => part.trim()).filter(Boolean);
+  const modifiers = new Set<string>();
+  let key = '';
+
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (modifier) {
+      modifiers.add(modifier);
+    } else {
+      key = part.length === 1 ? part.toUpperCase() : part;
+    }
+  }
+
+  return [...MODIFIER_ORDER.filter(modifier => modifiers.has(modifier)), key].filter(Boolean).join('+');
+}
+
+/**
+ * The chord a key press makes, or null for a lone modifier
+ */
+export function chordFromEvent(event: KeyboardEvent): KeyChord | null {
+  if (['Control', 'Meta', 'Alt', 'Shift'].includes(event.key)) return null;
+
+  let key = event.key;
+  if (event.code.startsWith('Key')) {
+    key = event.code.slice(3);
+  } else if (event.code.startsWith('Digit')) {
+    key = event.code.slice(5);
+  } else if (key === ' ') {
+    key = 'Space';
+  } else if (key.length === 1) {
+    key = key.toUpperCase();
+  }
+
+  return [
+    event.ctrlKey && 'Ctrl',
+    event.metaKey && 'Meta',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    key
+  ].filter(Boolean).join('+');
+}
+
+/**
+ * The default keymap with the user's bindings applied; an empty chord unbinds a command
+ */
+export function resolveKeymap(overrides: Partial<Keymap> = {}): Keymap {
+  const keymap = { ...DEFAULT_KEYMAP };
+  for (const command of NAVIGATION_COMMANDS) {
+    const chord = overrides[command];
+    if (chord !== undefined) {
+      keymap[command] = normalizeChord(chord);
+    }
+  }
+  return keymap;
+}
+
+/**
+ * The command a key press is bound to, if any
+ */
+export function commandForEvent(event: KeyboardEvent, keymap: Keymap): NavigationCommand | null {
+  const chord = chordFromEvent(event);
+  if (!chord) return null;
+  return NAVIGATION_COMMANDS.find(command => keymap[command] === chord) ?? null;
+}
+
+/**
+ * A chord as macOS users know the keys: "Ctrl+Meta+Alt+H" -> "Ctrl+Cmd+Option+H"
+ */
+export function formatChord(chord: KeyChord): string {
+  return chord.replace('Meta', 'Cmd').replace('Alt', 'Option');
+}
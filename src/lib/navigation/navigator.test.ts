@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildTableGrid } from './navigator';
+
+const table = (html: string): HTMLTableElement => {
+  const container = document.createElement('div');
+  container.innerHTML = `<table>${html}</table>`;
+  return container.querySelector('table')!;
+};
+
+const texts = (grid: HTMLTableCellElement[][]) => grid.map(row => row.map(cell => cell?.textContent ?? null));
+
+describe('buildTableGrid', () => {
+  it('places cells by row and column', () => {
+    const grid = buildTableGrid(table('<tr><th>Name</th><th>Price</th></tr><tr><td>Tent</td><td>$200</td></tr>'));
+
+    expect(texts(grid)).toEqual([['Name', 'Price'], ['Tent', '$200']]);
+  });
+
+  it('lets spanning cells cover every slot they span', () => {
+    const grid = buildTableGrid(table(`
+      <tr><th rowspan="2">Item</th><th colspan="2">Price</th></tr>
+      <tr><th>Member</th><th>Guest</th></tr>
+      <tr><td>Tent</td><td>$180</td><td>$200</td></tr>
+    `));
+
+    expect(texts(grid)).toEqual([
+      ['Item', 'Price', 'Price'],
+      ['Item', 'Member', 'Guest'],
+      ['Tent', '$180', '$200']
+    ]);
+    expect(grid[0][1]).toBe(grid[0][2]);
+  });
+
+  it('shifts later cells of a row past cells spanning down into it', () => {
+    const grid = buildTableGrid(table(`
+      <tr><td>A</td><td rowspan="3">B</td><td>C</td></tr>
+      <tr><td>D</td><td>E</td></tr>
+      <tr><td>F</td><td>G</td></tr>
+    `));
+
+    expect(texts(grid)).toEqual([['A', 'B', 'C'], ['D', 'B', 'E'], ['F', 'B', 'G']]);
+  });
+
+  it('is empty for a table without rows', () => {
+    expect(buildTableGrid(table(''))).toEqual([]);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Screen reader style navigation over the page's readable chunks: jumps to the next or
+ * previous sentence, paragraph, heading, landmark, link, form control, list, list item or
+ * table, and between table cells by row and column. Every jump moves a reading cursor,
+ * highlights the target and announces what it is.
+ */
+
+import { describeElement } from '~lib/interaction';
+import { readableChunks, type ReadableChunk } from '~lib/debugging/readable';
+import { WordHighlighter } from '~lib/erpa-readable/word-highlighter';
+import { ttsCoordinator, type TTSSettings } from '~lib/tts-coordinator';
+import { highlightNode } from '~lib/utils';
+import type { HeadingLevel, NavigationCommand } from './keymap';
+
+type ItemKind = 'paragraph' | 'heading' | 'landmark' | 'link' | 'formControl' | 'list' | 'listItem' | 'table' | 'cell';
+
+interface NavigationItem {
+  kind: ItemKind;
+  element: HTMLElement;
+  role?: string;
+  level?: number;
+}
+
+type Direction = 'next' | 'previous';
+
+const FORM_CONTROL_ROLES = new Set(['button', 'checkbox', 'radio', 'switch', 'textbox', 'searchbox', 'combobox', 'listbox', 'slider', 'spinbutton']);
+const FORM_CONTROL_TAGS = new Set(['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA']);
+// Items that hold text a sentence can be read from
+const TEXT_KINDS = new Set<ItemKind>(['paragraph', 'heading', 'listItem', 'cell']);
+const LIST_SELECTOR = 'ul, ol, [role="list"]';
+
+const LANDMARK_NAMES: Record<string, string> = {
+  main: 'Main',
+  navigation: 'Navigation',
+  complementary: 'Complementary',
+  banner: 'Banner',
+  contentinfo: 'Content information',
+  region: 'Region',
+  search: 'Search'
+};
+
+const ITEM_NAMES: Record<ItemKind, string> = {
+  paragraph: 'paragraph',
+  heading: 'heading',
+  landmark: 'landmark',
+  link: 'link',
+  formControl: 'form control',
+  list: 'list',
+  listItem: 'list item',
+  table: 'table',
+  cell: 'table cell'
+};
+
+const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+// Only an explicit label names a landmark; its text is the whole region
+const ariaLabel = (element: Element): string =>
+  clean(element.getAttribute('aria-label'))
+  || clean((element.getAttribute('aria-labelledby') || '')
+    .split(/\s+/)
+    .map(id => document.getElementById(id)?.textContent)
+    .join(' '));
+
+const isFormControl = (element: Element, role?: string): boolean =>
+  (role !== undefined && FORM_CONTROL_ROLES.has(role)) || FORM_CONTROL_TAGS.has(element.tagName);
+
+const isBefore = (a: Node, b: Node): boolean =>
+  Boolean(a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING);
+
+/**
+ * Row and column of every cell of an HTML table, with spanning cells covering each slot
+ */
+export function buildTableGrid(table: HTMLTableElement): HTMLTableCellElement[][] {
+  const grid: HTMLTableCellElement[][] = [];
+  Array.from(table.rows).forEach((row, r) => {
+    grid[r] = grid[r] || [];
+    let column = 0;
+    for (const cell of Array.from(row.cells)) {
+      while (grid[r][column]) column++;
+      for (let dr = 0; dr < Math.max(1, cell.rowSpan); dr++) {
+        grid[r + dr] = grid[r + dr] || [];
+        for (let dc = 0; dc < cell.colSpan; dc++) {
+          grid[r + dr][column + dc] = cell;
+        }
+      }
+      column += cell.colSpan;
+    }
+  });
+  return grid;
+}
+
+export interface ReadingNavigatorOptions {
+  // Settings announcements are spoken with
+  getTTSSettings?: () => TTSSettings;
+}
+
+export class ReadingNavigator {
+  private items: NavigationItem[] | null = null;
+  private observer: MutationObserver;
+  // The element the last jump landed on, and the sentence within it
+  private cursor: HTMLElement | null = null;
+  private sentenceIndex = -1;
+  private highlightCleanup?: () => void;
+  private sentenceHighlighter?: WordHighlighter;
+
+  constructor(private options: ReadingNavigatorOptions = {}) {
+    // Rebuilt on the next jump, since building walks the whole page
+    this.observer = new MutationObserver(() => {
+      this.items = null;
+    });
+    this.observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+  }
+
+  /**
+   * Move the cursor without announcing, e.g. to the element being read aloud
+   */
+  setCursor(element: HTMLElement): void {
+    this.cursor = element;
+    this.sentenceIndex = -1;
+  }
+
+  /**
+   * Run a jump command. Returns false for commands the navigator does not handle.
+   */
+  run(command: NavigationCommand): boolean {
+    switch (command) {
+      case 'cellLeft':
+        this.moveCell(0, -1);
+        return true;
+      case 'cellRight':
+        this.moveCell(0, 1);
+        return true;
+      case 'cellUp':
+        this.moveCell(-1, 0);
+        return true;
+      case 'cellDown':
+        this.moveCell(1, 0);
+        return true;
+      case 'nextSentence':
+        this.moveSentence('next');
+        return true;
+      case 'previousSentence':
+        this.moveSentence('previous');
+        return true;
+    }
+
+    const match = command.match(/^(next|previous)(Paragraph|Heading|Landmark|Link|FormControl|List|ListItem|Table)([1-6])?$/);
+    if (!match) return false;
+
+    const direction = match[1] as Direction;
+    const kind = (match[2][0].toLowerCase() + match[2].slice(1)) as ItemKind;
+    const level = match[3] ? Number(match[3]) as HeadingLevel : undefined;
+    this.jump(direction, kind, level);
+    return true;
+  }
+
+  /**
+   * Remove the highlight and stop observing the page
+   */
+  dispose(): void {
+    this.clearHighlight();
+    this.observer.disconnect();
+  }
+
+  private getItems(): NavigationItem[] {
+    if (this.items) return this.items;
+
+    const items: NavigationItem[] = [];
+    const lists = new Set<Element>();
+    const tables = new Set<Element>();
+    const chunks = [...readableChunks(document.body)]
+      .filter(chunk => chunk.node.isConnected)
+      // Headings come first out of readableChunks
+      .sort((a, b) => a.node === b.node ? 0 : isBefore(a.node, b.node) ? -1 : 1);
+
+    chunks.forEach((chunk, i) => {
+      const element = (chunk.node instanceof HTMLElement ? chunk.node : chunk.node.parentElement);
+      if (!element || element.closest('plasmo-csui')) return;
+
+      switch (chunk.type) {
+        case 'heading':
+          items.push({ kind: 'heading', element, level: chunk.level });
+          break;
+        case 'landmark':
+          items.push({ kind: 'landmark', element, role: chunk.role });
+          break;
+        case 'control':
+          if (chunk.role === 'link') {
+            items.push({ kind: 'link', element });
+          } else if (isFormControl(element, chunk.role)) {
+            items.push({ kind: 'formControl', element, role: chunk.role });
+          }
+          break;
+        case 'listitem': {
+          const list = element.closest(LIST_SELECTOR);
+          if (list && !lists.has(list)) {
+            lists.add(list);
+            items.push({ kind: 'list', element: list as HTMLElement });
+          }
+          items.push({ kind: 'listItem', element });
+          break;
+        }
+        case 'cell': {
+          const table = element.closest('table');
+          if (table && !tables.has(table)) {
+            tables.add(table);
+            items.push({ kind: 'table', element: table });
+          }
+          items.push({ kind: 'cell', element });
+          break;
+        }
+        case 'paragraph':
+          if (clean(element.textContent) && !this.wrapsNextChunk(element, chunks[i + 1])) {
+            items.push({ kind: 'paragraph', element });
+          }
+          break;
+      }
+    });
+
+    this.items = items;
+    return items;
+  }
+
+  // Block wrappers around paragraphs are chunks too; only the innermost block is a paragraph
+  private wrapsNextChunk(element: HTMLElement, next: ReadableChunk | undefined): boolean {
+    return Boolean(next && next.type !== 'control' && next.node !== element && element.contains(next.node));
+  }
+
+  private jump(direction: Direction, kind: ItemKind, level?: number): void {
+    const candidates = this.getItems().filter(item =>
+      item.kind === kind && (level === undefined || item.level === level)
+    );
+    const target = direction === 'next' ? this.findNext(candidates) : this.findPrevious(candidates);
+
+    if (!target) {
+      const name = kind === 'heading' && level ? `heading level ${level}` : ITEM_NAMES[kind];
+      this.announce(`No ${direction} ${name}`);
+      return;
+    }
+
+    this.moveTo(target.element);
+    this.announce(this.describe(target));
+  }
+
+  private findNext(items: NavigationItem[]): NavigationItem | null {
+    const cursor = this.cursor?.isConnected ? this.cursor : null;
+    if (!cursor) {
+      // Start from what is on screen
+      return items.find(item => item.element.getBoundingClientRect().bottom > 0) ?? null;
+    }
+    // Descendants of the cursor count as following it, ancestors do not
+    return items.find(item => isBefore(cursor, item.element)) ?? null;
+  }
+
+  private findPrevious(items: NavigationItem[]): NavigationItem | null {
+    const cursor = this.cursor?.isConnected ? this.cursor : null;
+    for (let i = items.length - 1; i >= 0; i--) {
+      const element = items[i].element;
+      if (cursor
+        ? isBefore(element, cursor) && !element.contains(cursor)
+        : element.getBoundingClientRect().bottom <= 0) {
+        return items[i];
+      }
+    }
+    return null;
+  }
+
+  private describe(item: NavigationItem): string {
+    const text = clean(item.element.textContent);
+
+    switch (item.kind) {
+      case 'heading':
+        return `Heading level ${item.level}. ${text}`;
+      case 'landmark': {
+        const label = ariaLabel(item.element);
+        return `${LANDMARK_NAMES[item.role ?? ''] ?? 'Region'} landmark${label ? `, ${label}` : ''}`;
+      }
+      case 'link':
+        return `Link. ${describeElement(item.element).name}`;
+      case 'formControl': {
+        const control = describeElement(item.element);
+        const state = control.checked !== undefined ? (control.checked ? ', checked' : ', not checked') : '';
+        const value = control.value ? `, ${control.value}` : '';
+        return `${control.role}${state}. ${control.name}${value}`;
+      }
+      case 'list': {
+        const count = Array.from(item.element.children).filter(child => child.matches('li, [role="listitem"]')).length;
+        return `List, ${count} ${count === 1 ? 'item' : 'items'}`;
+      }
+      case 'listItem': {
+        const list = item.element.closest(LIST_SELECTOR);
+        const siblings = list ? Array.from(list.children).filter(child => child.matches('li, [role="listitem"]')) : [];
+        const position = siblings.indexOf(item.element) + 1;
+        return position > 0 ? `List item ${position} of ${siblings.length}. ${text}` : `List item. ${text}`;
+      }
+      case 'table': {
+        const table = item.element as HTMLTableElement;
+        const grid = buildTableGrid(table);
+        const columns = Math.max(0, ...grid.map(row => row.length));
+        const caption = clean(table.caption?.textContent) || ariaLabel(table);
+        return `Table, ${grid.length} rows, ${columns} columns${caption ? `. ${caption}` : ''}`;
+      }
+      case 'cell':
+        return this.describeCell(item.element as HTMLTableCellElement);
+      case 'paragraph':
+        return `Paragraph. ${text}`;
+    }
+  }
+
+  private describeCell(cell: HTMLTableCellElement): string {
+    const table = cell.closest('table');
+    const grid = table ? buildTableGrid(table) : [];
+    const row = grid.findIndex(cells => cells.includes(cell));
+    const column = row === -1 ? -1 : grid[row].indexOf(cell);
+    const text = clean(cell.textContent) || 'blank';
+    if (row === -1) return `Cell. ${text}`;
+
+    // The column's header, when the cell is not in the header row itself
+    const header = grid[0]?.[column];
+    const headerText = header && header !== cell && header.tagName === 'TH' ? clean(header.textContent) : '';
+    return `Row ${row + 1}, column ${column + 1}. ${headerText ? `${headerText}: ` : ''}${text}`;
+  }
+
+  private moveCell(rowDelta: number, columnDelta: number): void {
+    const cell = this.cursor?.isConnected ? this.cursor.closest('td, th') as HTMLTableCellElement | null : null;
+    const table = cell?.closest('table');
+    if (!cell || !table) {
+      this.announce('Not in a table');
+      return;
+    }
+
+    const grid = buildTableGrid(table);
+    let row = grid.findIndex(cells => cells.includes(cell));
+    if (row === -1) {
+      this.announce('Not in a table');
+      return;
+    }
+    let column = grid[row].indexOf(cell);
+
+    // Step past the slots the current cell spans
+    let target: HTMLTableCellElement | undefined = cell;
+    while (target === cell) {
+      row += rowDelta;
+      column += columnDelta;
+      target = grid[row]?.[column];
+    }
+
+    if (!target) {
+      this.announce(rowDelta !== 0 ? (rowDelta > 0 ? 'Last row' : 'First row') : (columnDelta > 0 ? 'Last column' : 'First column'));
+      return;
+    }
+
+    this.moveTo(target);
+    this.announce(this.describeCell(target));
+  }
+
+  private sentencesOf(element: HTMLElement): Array<{ index: number; text: string }> {
+    const content = element.textContent || '';
+    const locale = document.documentElement.lang || undefined;
+    const sentences: Array<{ index: number; text: string }> = [];
+
+    for (const { segment, index } of new Intl.Segmenter(locale, { granularity: 'sentence' }).segment(content)) {
+      const text = segment.trim();
+      if (text) {
+        sentences.push({ index: index + segment.indexOf(text), text });
+      }
+    }
+    return sentences;
+  }
+
+  private moveSentence(direction: Direction): void {
+    let block = this.cursor?.isConnected ? this.cursor : null;
+    let sentences = block ? this.sentencesOf(block) : [];
+    let index = direction === 'next' ? this.sentenceIndex + 1 : this.sentenceIndex - 1;
+
+    // After a jump to a block, its first sentence is read next and the last one before it
+    if (block && this.sentenceIndex === -1 && direction === 'previous') {
+      index = -1;
+    }
+
+    if (!block || index < 0 || index >= sentences.length) {
+      const blocks = this.getItems().filter(item => TEXT_KINDS.has(item.kind));
+      const next = direction === 'next' ? this.findNext(blocks) : this.findPrevious(blocks);
+      if (!next) {
+        this.announce(`No ${direction} sentence`);
+        return;
+      }
+      block = next.element;
+      sentences = this.sentencesOf(block);
+      index = direction === 'next' ? 0 : sentences.length - 1;
+    }
+
+    const sentence = sentences[index];
+    if (!sentence) return;
+
+    this.moveTo(block);
+    this.sentenceIndex = index;
+    this.sentenceHighlighter = new WordHighlighter(block, block.textContent || '');
+    this.sentenceHighlighter.highlightWord(sentence.index, sentence.text.length);
+    this.announce(sentence.text);
+  }
+
+  private moveTo(element: HTMLElement): void {
+    this.clearHighlight();
+    this.cursor = element;
+    this.sentenceIndex = -1;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    this.highlightCleanup = highlightNode(element);
+    if (FORM_CONTROL_TAGS.has(element.tagName) || element.tagName === 'A') {
+      element.focus({ preventScroll: true });
+    }
+  }
+
+  private clearHighlight(): void {
+    this.highlightCleanup?.();
+    this.highlightCleanup = undefined;
+    this.sentenceHighlighter?.clear();
+    this.sentenceHighlighter = undefined;
+  }
+
+  private announce(text: string): void {
+    ttsCoordinator.cancelBySource('content');
+    ttsCoordinator.requestTTS({
+      id: `navigation-${Date.now()}`,
+      text,
+      settings: this.options.getTTSSettings?.() ?? {},
+      priority: 'normal',
+      source: 'content'
+    });
+  }
+}
@@ -0,0 +1,228 @@
+import { SessionManager } from "@ahnopologetic/use-prompt-api";
+import { log, warn } from "~lib/log";
+import type { SectionContent } from "~lib/messaging";
+
+export interface SectionSummary {
+    title: string;
+    selector: string;
+    summary: string;
+}
+
+export interface PageSummary {
+    title: string;
+    url: string;
+    summary: string;
+    sections: SectionSummary[];
+    // Which on-device model produced the summary
+    engine: 'summarizer' | 'prompt';
+}
+
+export interface PageContent {
+    title: string;
+    url: string;
+    sections: SectionContent[];
+}
+
+const SYSTEM_PROMPT = 'You summarize web page content for visually impaired users. Write short plain sentences without markdown, and only use facts from the text you are given.';
+
+// Tokens left free for the model's answer when sizing a prompt
+const RESPONSE_RESERVE_TOKENS = 512;
+// Start a fresh session below this quota instead of failing halfway through a page
+const MIN_SESSION_QUOTA = 2048;
+// The Summarizer API has no token counting in our typings, so inputs are sized by characters
+const CHARS_PER_TOKEN = 4;
+const SUMMARIZER_INPUT_BUDGET = 3000;
+// Reduce rounds before giving up on shrinking partial summaries any further
+const MAX_REDUCE_DEPTH = 3;
+
+/**
+ * Common surface over the Summarizer API and the Prompt API so the map-reduce below
+ * does not care which one is available.
+ */
+interface SummaryWriter {
+    engine: PageSummary['engine'];
+    // Largest input, in tokens, a single summarize call can take right now
+    inputBudget(): Promise<number>;
+    countTokens(text: string): Promise<number>;
+    summarize(text: string, instruction: string, signal?: AbortSignal): Promise<string>;
+    destroy(): void;
+}
+
+class SummarizerApiWriter implements SummaryWriter {
+    engine = 'summarizer' as const;
+
+    private constructor(private summarizer: SummarizerInstance) { }
+
+    // Only used when the model is already downloaded: downloading needs a user gesture
+    static async create(): Promise<SummarizerApiWriter | null> {
+        if (typeof Summarizer === 'undefined') return null;
+        if (await Summarizer.availability() !== 'available') return null;
+
+        const summarizer = await Summarizer.create({
+            type: 'tldr',
+            format: 'plain-text',
+            length: 'medium',
+            sharedContext: SYSTEM_PROMPT
+        });
+        return new SummarizerApiWriter(summarizer);
+    }
+
+    async inputBudget() {
+        return SUMMARIZER_INPUT_BUDGET;
+    }
+
+    async countTokens(text: string) {
+        return Math.ceil(text.length / CHARS_PER_TOKEN);
+    }
+
+    async summarize(text: string, instruction: string, signal?: AbortSignal) {
+        return (await this.summarizer.summarize(text, { context: instruction, signal })).trim();
+    }
+
+    destroy() {
+        (this.summarizer as SummarizerInstance & { destroy?: () => void }).destroy?.();
+    }
+}
+
+class PromptApiWriter implements SummaryWriter {
+    engine = 'prompt' as const;
+    private session: SessionManager | null = null;
+
+    // Every prompt stays in the session's context, so replace it once the quota runs low
+    private async getSession(): Promise<SessionManager> {
+        if (this.session?.getQuotaTracker().hasAvailableQuota(MIN_SESSION_QUOTA)) {
+            return this.session;
+        }
+
+        this.session?.destroy();
+        const session = new SessionManager(undefined, { enablePersistence: false });
+        await session.create({ systemPrompt: SYSTEM_PROMPT, temperature: 0.3 });
+        this.session = session;
+        return session;
+    }
+
+    async inputBudget() {
+        const session = await this.getSession();
+        return session.getQuotaTracker().getQuotaInfo().tokensRemaining - RESPONSE_RESERVE_TOKENS;
+    }
+
+    async countTokens(text: string) {
+        const session = await this.getSession();
+        return await session.countTokens(text);
+    }
+
+    async summarize(text: string, instruction: string, signal?: AbortSignal) {
+        const session = await this.getSession();
+        return (await session.prompt(`${instruction}\n\n${text}`, { signal })).trim();
+    }
+
+    destroy() {
+        this.session?.destroy();
+        this.session = null;
+    }
+}
+
+async function createSummaryWriter(): Promise<SummaryWriter> {
+    try {
+        const summarizer = await SummarizerApiWriter.create();
+        if (summarizer) return summarizer;
+    } catch (error) {
+        warn('[summarize] Summarizer API unavailable, falling back to the Prompt API:', error);
+    }
+    return new PromptApiWriter();
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, on paragraph boundaries where possible.
+ */
+function chunkText(text: string, maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const paragraph of text.split(/\n{2,}/)) {
+        if (current && current.length + paragraph.length + 2 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        if (paragraph.length > maxChars) {
+            for (let start = 0; start < paragraph.length; start += maxChars) {
+                chunks.push(paragraph.slice(start, start + maxChars));
+            }
+            continue;
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) chunks.push(current);
+
+    return chunks;
+}
+
+/**
+ * Summarize text of any length: text that fits the writer's budget is summarized
+ * directly, longer text is summarized in chunks (map) whose summaries are then
+ * summarized together (reduce).
+ */
+async function summarizeText(writer: SummaryWriter, text: string, instruction: string, signal?: AbortSignal, depth = 0): Promise<string> {
+    const budget = (await writer.inputBudget()) - (await writer.countTokens(instruction));
+    const tokens = await writer.countTokens(text);
+    if (tokens <= budget) {
+        return await writer.summarize(text, instruction, signal);
+    }
+
+    if (depth >= MAX_REDUCE_DEPTH) {
+        warn('[summarize] Partial summaries still exceed the budget, truncating');
+        const maxChars = Math.floor(text.length * budget / tokens);
+        return await writer.summarize(text.slice(0, maxChars), instruction, signal);
+    }
+
+    // Token counts are not linear in characters, so leave some headroom
+    const maxChars = Math.max(Math.floor(text.length * budget / tokens * 0.9), 1);
+    const chunks = chunkText(text, maxChars);
+    log('[summarize] Text exceeds budget by', tokens - budget, 'tokens, splitting into', chunks.length, 'chunks');
+
+    const partials: string[] = [];
+    for (const chunk of chunks) {
+        partials.push(await writer.summarize(chunk, instruction, signal));
+    }
+    return await summarizeText(writer, partials.join('\n\n'), instruction, signal, depth + 1);
+}
+
+/**
+ * Map-reduce summary of a page: each section is summarized on its own within the
+ * model's quota, then the section summaries are combined into a page summary.
+ */
+export async function summarizePage(page: PageContent, options: { signal?: AbortSignal } = {}): Promise<PageSummary> {
+    const { signal } = options;
+    const writer = await createSummaryWriter();
+    log('[summarize] Summarizing', page.sections.length, 'sections of', page.url, 'with the', writer.engine, 'API');
+
+    try {
+        const sections: SectionSummary[] = [];
+        for (const section of page.sections) {
+            const summary = await summarizeText(
+                writer,
+                section.text,
+                `Summarize the "${section.title}" section of the page "${page.title}" in 2-3 sentences.`,
+                signal
+            );
+            sections.push({ title: section.title, selector: section.selector, summary });
+        }
+
+        if (sections.length === 0) {
+            throw new Error('Page has no readable sections');
+        }
+
+        const summary = sections.length === 1
+            ? sections[0].summary
+            : await summarizeText(
+                writer,
+                sections.map(section => `${section.title}: ${section.summary}`).join('\n\n'),
+                `These are summaries of each section of the page "${page.title}". Summarize the whole page in 1-2 paragraphs.`,
+                signal
+            );
+
+        return { title: page.title, url: page.url, summary, sections, engine: writer.engine };
+    } finally {
+        writer.destroy();
+    }
+}
@@ -0,0 +1,83 @@
+import { log, err } from "~lib/log";
+import { createEmbeddingProvider } from "./embedding-provider";
+import type { EmbeddingModelInfo } from "./embedding-model";
+
+export interface EmbeddingBenchmark {
+  modelId: string;
+  label: string;
+  // Set when the model failed to load or embed; the measurements are then missing
+  error?: string;
+  // Download (when not in the browser cache) plus initialization
+  loadMs?: number;
+  // Mean time to embed one sentence on its own, as a query is
+  queryLatencyMs?: number;
+  // Time to embed every sample sentence in one call, as page indexing does
+  batchMs?: number;
+  sentencesPerSecond?: number;
+  // Growth of the JS heap while the model was loaded; null where the browser does not
+  // report it. WebAssembly memory of the ONNX runtime is only partly included.
+  heapBytes?: number | null;
+}
+
+const usedHeapBytes = (): number | null =>
+  (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize ?? null;
+
+/**
+ * Load each model in turn, embed the sample sentences one at a time and as a batch, and
+ * unload it again. Runs in the offscreen document, separately from the active model, so
+ * search keeps working during a benchmark.
+ */
+export async function benchmarkEmbeddingModels(
+  models: EmbeddingModelInfo[],
+  sentences: string[]
+): Promise<EmbeddingBenchmark[]> {
+  const results: EmbeddingBenchmark[] = [];
+
+  for (const model of models) {
+    const provider = createEmbeddingProvider(model);
+    const heapBefore = usedHeapBytes();
+
+    try {
+      let start = performance.now();
+      await provider.load();
+      const loadMs = performance.now() - start;
+
+      // The first call also compiles the WebAssembly kernels; keep it out of the timings
+      await provider.embed([sentences[0]]);
+
+      start = performance.now();
+      for (const sentence of sentences) {
+        await provider.embed([sentence]);
+      }
+      const queryLatencyMs = (performance.now() - start) / sentences.length;
+
+      start = performance.now();
+      await provider.embed(sentences);
+      const batchMs = performance.now() - start;
+
+      const heapAfter = usedHeapBytes();
+      const result: EmbeddingBenchmark = {
+        modelId: model.id,
+        label: model.label,
+        loadMs,
+        queryLatencyMs,
+        batchMs,
+        sentencesPerSecond: sentences.length / (batchMs / 1000),
+        heapBytes: heapBefore !== null && heapAfter !== null ? heapAfter - heapBefore : null
+      };
+      log('[semantic-search] Benchmarked', model.id, result);
+      results.push(result);
+    } catch (error) {
+      err('[semantic-search] Benchmark failed for', model.id, error);
+      results.push({
+        modelId: model.id,
+        label: model.label,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      await provider.dispose();
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,135 @@
+// @vitest-environment node
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/dist/vector';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initSchema } from '~lib/db';
+import { EmbeddingCache, type SerializableSentenceSegment } from './cache';
+import { EMBEDDING_MODELS } from './embedding-model';
+import { createEmbeddingProvider } from './embedding-provider';
+
+const URL = 'https://example.com/article';
+
+const hashStub = createEmbeddingProvider(EMBEDDING_MODELS.find(model => model.source.kind === 'hash')!);
+
+const segments = (texts: string[]): SerializableSentenceSegment[] =>
+  texts.map((text, index) => ({
+    kind: 'sentence',
+    text,
+    selector: `p:nth-of-type(${index + 1})`,
+    startOffset: 0,
+    endOffset: text.length,
+    index
+  }));
+
+describe('EmbeddingCache.syncPage', () => {
+  let db: PGlite;
+  let cache: EmbeddingCache;
+  // Records which texts each sync had to embed
+  const embed = vi.fn((texts: string[]) => hashStub.embed(texts));
+
+  const stored = async () => {
+    const result = await db.query<{ idx: number; text: string; selector: string; embedding: string }>(
+      'SELECT idx, text, selector, embedding::text AS embedding FROM sentences WHERE url = $1 ORDER BY idx',
+      [URL]
+    );
+    return result.rows;
+  };
+
+  const embeddingOf = async (text: string) => (await stored()).find(row => row.text === text)?.embedding;
+
+  beforeEach(async () => {
+    embed.mockClear();
+    db = new PGlite({ extensions: { vector } });
+    await initSchema(db);
+    cache = new EmbeddingCache(db, hashStub.model);
+    await cache.syncPage(URL, segments([
+      'The lighthouse was built in 1871.',
+      'Its keepers kept meticulous records.',
+      'The lamp was electrified in 1932.'
+    ]), embed);
+    embed.mockClear();
+  }, 60_000);
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('embeds nothing when the page has not changed', async () => {
+    const result = await cache.syncPage(URL, segments([
+      'The lighthouse was built in 1871.',
+      'Its keepers kept meticulous records.',
+      'The lamp was electrified in 1932.'
+    ]), embed);
+
+    expect(result).toEqual({ sentenceCount: 3, embedded: 0, removed: 0 });
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it('reuses the embedding of unchanged text that moved, with its new position and selector', async () => {
+    const before = await embeddingOf('Its keepers kept meticulous records.');
+
+    const result = await cache.syncPage(URL, segments([
+      'A new introduction was added.',
+      'The lighthouse was built in 1871.',
+      'Its keepers kept meticulous records.',
+      'The lamp was electrified in 1932.'
+    ]), embed);
+
+    expect(result).toEqual({ sentenceCount: 4, embedded: 1, removed: 0 });
+    expect(embed).toHaveBeenCalledWith(['A new introduction was added.']);
+    const moved = (await stored()).find(row => row.text === 'Its keepers kept meticulous records.');
+    expect(moved).toMatchObject({ idx: 2, selector: 'p:nth-of-type(3)', embedding: before });
+  });
+
+  it('re-embeds edited text', async () => {
+    const result = await cache.syncPage(URL, segments([
+      'The lighthouse was built in 1871.',
+      'Its keepers kept careful records of every ship.',
+      'The lamp was electrified in 1932.'
+    ]), embed);
+
+    expect(result).toEqual({ sentenceCount: 3, embedded: 1, removed: 1 });
+    expect(embed).toHaveBeenCalledWith(['Its keepers kept careful records of every ship.']);
+    const [edited] = await hashStub.embed(['Its keepers kept careful records of every ship.']);
+    expect(JSON.parse(await embeddingOf('Its keepers kept careful records of every ship.'))).toEqual(
+      edited.map(value => expect.closeTo(value, 5))
+    );
+    expect((await stored()).map(row => row.text)).not.toContain('Its keepers kept meticulous records.');
+  });
+
+  it('deletes removed sentences', async () => {
+    const result = await cache.syncPage(URL, segments([
+      'The lighthouse was built in 1871.',
+      'The lamp was electrified in 1932.'
+    ]), embed);
+
+    expect(result).toEqual({ sentenceCount: 2, embedded: 0, removed: 1 });
+    expect(embed).not.toHaveBeenCalled();
+    expect((await stored()).map(row => [row.idx, row.text])).toEqual([
+      [0, 'The lighthouse was built in 1871.'],
+      [1, 'The lamp was electrified in 1932.']
+    ]);
+    expect((await cache.getIndexedPage(URL))?.sentenceCount).toBe(2);
+  });
+
+  it('embeds exactly the positions findUnembeddedSentences reports', async () => {
+    const texts = [
+      'Its keepers kept meticulous records.',
+      'A storm damaged the tower in 1904.',
+      'The lighthouse was built in 1871.',
+      'It was decommissioned in 1990.'
+    ];
+
+    const positions = await cache.findUnembeddedSentences(URL, texts);
+    await cache.syncPage(URL, segments(texts), embed);
+
+    expect(positions).toEqual([1, 3]);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed).toHaveBeenCalledWith(positions.map(position => texts[position]));
+    expect(await cache.findUnembeddedSentences(URL, texts)).toEqual([]);
+  });
+
+  it('keeps other pages out of the lookup', async () => {
+    expect(await cache.findUnembeddedSentences('https://example.com/other', ['The lighthouse was built in 1871.'])).toEqual([0]);
+  });
+});
@@ -1,9 +1,12 @@
 import { log, err } from "~lib/log";
-import type { SentenceSegment } from "./sentence-segmenter";
+import type { SegmentKind, SentenceSegment } from "./sentence-segmenter";
+import { reciprocalRankFusion } from "./fusion";
+import type { EmbeddingModelInfo } from "./embedding-model";
 import type { PGlite } from '@electric-sql/pglite';
 
 // Serializable version of SentenceSegment (without DOM elements)
 export interface SerializableSentenceSegment {
+  kind: SegmentKind;
   text: string;
   selector: string;
   startOffset: number;
@@ -11,6 +14,43 @@ export interface SerializableSentenceSegment {
   index: number;
 }
 
+// semantic: embedding similarity, lexical: BM25 keyword ranking, hybrid: both fused
+export type SearchMode = 'semantic' | 'lexical' | 'hybrid';
+
+export interface SentenceSearchOptions {
+  limit: number;
+  url?: string;
+  mode?: SearchMode;
+  // Only segments of these kinds; every kind when left out
+  kinds?: SegmentKind[];
+}
+
+export interface SimilarSentence {
+  url: string;
+  title: string | null;
+  sentence: SerializableSentenceSegment;
+  similarity: number;
+}
+
+export interface IndexedPage {
+  url: string;
+  title: string | null;
+  pageHash: string;
+  sentenceCount: number;
+  timestamp: number;
+  // Model that embedded the page's sentences
+  modelId: string;
+  modelVersion: string;
+  dimensions: number;
+}
+
+export interface PageSyncResult {
+  sentenceCount: number;
+  // Sentences that were new or changed and needed an embedding
+  embedded: number;
+  removed: number;
+}
+
 export interface CachedEmbeddings {
   url: string;
   timestamp: number;
@@ -19,17 +59,93 @@ export interface CachedEmbeddings {
   pageHash: string;
 }
 
+interface SentenceRow {
+  url: string;
+  idx: number;
+  segment_index: number;
+  kind: SegmentKind;
+  text: string;
+  selector: string;
+  start_offset: number;
+  end_offset: number;
+  embedding?: string;
+  distance?: number;
+  title?: string | null;
+}
+
+interface PageRow {
+  url: string;
+  title: string | null;
+  page_hash: string;
+  sentence_count: number;
+  created_at: string | Date;
+  model_id: string;
+  model_version: string;
+  dimensions: number;
+}
+
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Each ranking contributes this many times the requested results to the fusion
+const HYBRID_DEPTH = 3;
+
+const toSimilarSentence = (row: SentenceRow): SimilarSentence => ({
+  url: row.url,
+  title: row.title ?? null,
+  sentence: toSegment(row),
+  similarity: 1 - Number(row.distance)
+});
+
+const toSegment = (row: SentenceRow): SerializableSentenceSegment => ({
+  kind: row.kind,
+  text: row.text,
+  selector: row.selector,
+  startOffset: row.start_offset,
+  endOffset: row.end_offset,
+  index: row.segment_index
+});
+
+const toIndexedPage = (row: PageRow): IndexedPage => ({
+  url: row.url,
+  title: row.title,
+  pageHash: row.page_hash,
+  sentenceCount: row.sentence_count,
+  timestamp: new Date(row.created_at).getTime(),
+  modelId: row.model_id,
+  modelVersion: row.model_version,
+  dimensions: row.dimensions
+});
+
+const PAGE_COLUMNS = 'url, title, page_hash, sentence_count, created_at, model_id, model_version, dimensions';
+
 /**
- * Service for caching sentence embeddings using PGlite database
+ * Service for caching sentence embeddings using PGlite database. Each sentence is a row
+ * with a pgvector embedding, so similarity search runs in the database and only the top
+ * matches leave it. Pages are keyed by (url, model id, model version): each model keeps
+ * its own index of a page, and a cache only reads and writes its model's, so embeddings
+ * from different models are never compared and switching back to a model reuses its index.
  */
 export class EmbeddingCache {
   private db: PGlite;
+  private model: EmbeddingModelInfo;
 
-  constructor(db: PGlite) {
+  constructor(db: PGlite, model: EmbeddingModelInfo) {
     if (!db) {
       throw new Error('Database instance is required for EmbeddingCache');
     }
     this.db = db;
+    this.model = model;
+  }
+
+  /**
+   * Serialize an embedding for a vector parameter, rejecting ones of another model's size
+   */
+  private toVector(embedding: number[]): string {
+    if (embedding.length !== this.model.dimensions) {
+      throw new Error(`Expected a ${this.model.dimensions}-dimensional embedding from ${this.model.id}, got ${embedding.length}`);
+    }
+    return JSON.stringify(embedding);
   }
 
   /**
@@ -55,31 +171,151 @@ export class EmbeddingCache {
   }
 
   /**
-   * Check if cached embeddings are still valid
-   * Only validates page content hash (no time-based expiration)
+   * Page metadata without its sentences, or null when the page is not indexed with this
+   * cache's model
+   */
+  async getIndexedPage(url: string): Promise<IndexedPage | null> {
+    const result = await this.db.query<PageRow>(
+      `SELECT ${PAGE_COLUMNS} FROM pages WHERE url = $1 AND model_id = $2 AND model_version = $3`,
+      [url, this.model.id, this.model.version]
+    );
+    return result.rows.length > 0 ? toIndexedPage(result.rows[0]) : null;
+  }
+
+  /**
+   * Top-k sentences most similar to the query embedding, from one page or, without a
+   * URL, from every indexed page, optionally only of some kinds.
+   */
+  async searchSimilar(embedding: number[], limit: number, url?: string, kinds?: SegmentKind[]): Promise<SimilarSentence[]> {
+    // The HNSW scan may return rows slightly out of order, so sort the top-k again
+    const result = await this.db.query<SentenceRow>(
+      `WITH matches AS MATERIALIZED (
+         SELECT url, model_id, model_version, idx, segment_index, kind, text, selector, start_offset, end_offset,
+                embedding <=> $1::vector AS distance
+         FROM sentences
+         WHERE ($2::text IS NULL OR url = $2) AND model_id = $4 AND model_version = $5
+           AND ($6::text[] IS NULL OR kind = ANY($6::text[]))
+         ORDER BY embedding <=> $1::vector
+         LIMIT $3
+       )
+       SELECT matches.*, pages.title FROM matches JOIN pages USING (url, model_id, model_version) ORDER BY distance`,
+      [this.toVector(embedding), url ?? null, limit, this.model.id, this.model.version, kinds ?? null]
+    );
+
+    return result.rows.map(toSimilarSentence);
+  }
+
+  /**
+   * Top-k sentences by BM25 over the query's words, from one page or, without a URL,
+   * from every indexed page. Document frequencies come from the same scope. Similarity
+   * to the query embedding is reported alongside but does not affect the order.
    */
-  private isCacheValid(cached: CachedEmbeddings, currentHash: string): boolean {
-    return cached.pageHash === currentHash;
+  async searchLexical(
+    query: string,
+    embedding: number[],
+    limit: number,
+    url?: string,
+    kinds?: SegmentKind[]
+  ): Promise<SimilarSentence[]> {
+    // Any query word may match: the tsquery ORs the query's lexemes together
+    const result = await this.db.query<SentenceRow>(
+      `WITH query AS (
+         SELECT to_tsvector('simple', $1) AS vector
+       ),
+       query_terms AS (
+         SELECT DISTINCT term.lexeme FROM query, unnest(query.vector) term
+       ),
+       docs AS (
+         SELECT url, idx, lexemes FROM sentences
+         WHERE ($2::text IS NULL OR url = $2) AND model_id = $7 AND model_version = $8
+           AND ($9::text[] IS NULL OR kind = ANY($9::text[]))
+       ),
+       corpus AS (
+         SELECT count(*)::float8 AS n, greatest(avg(length(lexemes)), 1)::float8 AS avgdl FROM docs
+       ),
+       hits AS (
+         SELECT docs.url, docs.idx, length(docs.lexemes)::float8 AS len, term.lexeme,
+                coalesce(array_length(term.positions, 1), 1)::float8 AS tf
+         FROM docs, query, unnest(docs.lexemes) term
+         WHERE docs.lexemes @@ replace(strip(query.vector)::text, ''' ''', ''' | ''')::tsquery
+           AND term.lexeme IN (SELECT lexeme FROM query_terms)
+       ),
+       df AS (
+         SELECT lexeme, count(*)::float8 AS df FROM hits GROUP BY lexeme
+       ),
+       ranked AS (
+         SELECT hits.url, hits.idx,
+                sum(ln(1 + (corpus.n - df.df + 0.5) / (df.df + 0.5))
+                    * hits.tf * ($4::float8 + 1)
+                    / (hits.tf + $4::float8 * (1 - $5::float8 + $5::float8 * hits.len / corpus.avgdl))) AS score
+         FROM hits JOIN df USING (lexeme), corpus
+         GROUP BY hits.url, hits.idx
+         ORDER BY score DESC
+         LIMIT $3
+       )
+       SELECT s.url, s.idx, s.segment_index, s.kind, s.text, s.selector, s.start_offset, s.end_offset,
+              s.embedding <=> $6::vector AS distance, p.title
+       FROM ranked
+       JOIN sentences s ON s.url = ranked.url AND s.idx = ranked.idx AND s.model_id = $7 AND s.model_version = $8
+       JOIN pages p ON p.url = s.url AND p.model_id = s.model_id AND p.model_version = s.model_version
+       ORDER BY ranked.score DESC`,
+      [query, url ?? null, limit, BM25_K1, BM25_B, this.toVector(embedding), this.model.id, this.model.version, kinds ?? null]
+    );
+
+    return result.rows.map(toSimilarSentence);
   }
 
   /**
-   * Get cached embeddings for a URL (without hash validation)
+   * Best matching sentences for a query in the given mode. Hybrid search fuses the
+   * semantic and lexical rankings with reciprocal rank fusion, so exact names and
+   * numbers the embedding model blurs still reach the top.
+   */
+  async searchSentences(query: string, embedding: number[], options: SentenceSearchOptions): Promise<SimilarSentence[]> {
+    const { limit, url, mode = 'hybrid', kinds } = options;
+
+    if (mode === 'semantic') {
+      return this.searchSimilar(embedding, limit, url, kinds);
+    }
+    if (mode === 'lexical') {
+      return this.searchLexical(query, embedding, limit, url, kinds);
+    }
+
+    const depth = limit * HYBRID_DEPTH;
+    const semantic = await this.searchSimilar(embedding, depth, url, kinds);
+    const lexical = await this.searchLexical(query, embedding, depth, url, kinds);
+
+    return reciprocalRankFusion([semantic, lexical], match => `${match.url}#${match.sentence.index}`)
+      .slice(0, limit)
+      .map(({ item }) => item);
+  }
+
+  /**
+   * Get cached embeddings for a URL (without hash validation; syncPage keeps them
+   * current). Loads every embedding of the page; prefer searchSimilar for queries.
    */
   async getCachedEmbeddingsByUrl(url: string): Promise<CachedEmbeddings | null> {
     try {
       log('[semantic-search] 🔍 Checking cache for URL:', url);
 
-      const result = await this.db.query<{ page_data: CachedEmbeddings }>(
-        'SELECT page_data FROM cached_pages WHERE url = $1',
-        [url]
-      );
-
-      if (result.rows.length === 0) {
+      const page = await this.getIndexedPage(url);
+      if (!page) {
         log('[semantic-search] ❌ No cached embeddings found for URL:', url);
         return null;
       }
 
-      const cached: CachedEmbeddings = result.rows[0].page_data;
+      const result = await this.db.query<SentenceRow>(
+        `SELECT url, idx, segment_index, kind, text, selector, start_offset, end_offset, embedding::text AS embedding
+         FROM sentences WHERE url = $1 AND model_id = $2 AND model_version = $3 ORDER BY idx`,
+        [url, this.model.id, this.model.version]
+      );
+
+      const cached: CachedEmbeddings = {
+        url,
+        timestamp: page.timestamp,
+        sentences: result.rows.map(toSegment),
+        embeddings: result.rows.map(row => JSON.parse(row.embedding!) as number[]),
+        pageHash: page.pageHash
+      };
       log('[semantic-search] ✅ Found cached entry:', {
         sentenceCount: cached.sentences.length,
         embeddingCount: cached.embeddings.length,
@@ -98,12 +334,11 @@ export class EmbeddingCache {
    */
   validateCachedEmbeddings(
     cached: CachedEmbeddings,
-    currentSentences: SentenceSegment[]
+    currentSentences: SentenceSegment[] | SerializableSentenceSegment[]
   ): boolean {
-    // Skip validation entirely - if cache exists for URL, use it
-    // This provides maximum performance and cache utilization
-    log('[semantic-search] ✅ Cache valid: skipping validation (URL-based cache)');
-    return true;
+    const valid = cached.pageHash === this.generatePageHash(currentSentences);
+    log('[semantic-search]', valid ? '✅ Cache valid' : '⚠️ Cache stale', 'for URL:', cached.url);
+    return valid;
   }
 
 
@@ -113,7 +348,7 @@ export class EmbeddingCache {
    */
   async getCachedEmbeddings(
     url: string,
-    sentences: SentenceSegment[]
+    sentences: SerializableSentenceSegment[]
   ): Promise<CachedEmbeddings | null> {
     const cached = await this.getCachedEmbeddingsByUrl(url);
     
@@ -132,52 +367,55 @@ export class EmbeddingCache {
   }
 
   /**
-   * Convert SentenceSegment to serializable format (remove DOM elements)
-   */
-  private toSerializable(sentence: SentenceSegment): SerializableSentenceSegment {
-    return {
-      text: sentence.text,
-      selector: sentence.selector,
-      startOffset: sentence.startOffset,
-      endOffset: sentence.endOffset,
-      index: sentence.index
-    };
-  }
-
-  /**
-   * Cache embeddings for the current page
+   * Cache embeddings for the current page, replacing any earlier index of it
    */
   async cacheEmbeddings(
     url: string,
-    sentences: SentenceSegment[],
-    embeddings: number[][]
+    sentences: SerializableSentenceSegment[],
+    embeddings: number[][],
+    title?: string
   ): Promise<void> {
+    if (sentences.length !== embeddings.length) {
+      throw new Error(`Got ${embeddings.length} embeddings for ${sentences.length} sentences`);
+    }
+
     try {
       log('[semantic-search] 💾 Caching embeddings for URL:', url);
 
       const pageHash = this.generatePageHash(sentences);
 
-      // Convert sentences to serializable format (remove DOM elements)
-      const serializableSentences = sentences.map(s => this.toSerializable(s));
-
-      const pageData: CachedEmbeddings = {
-        url,
-        timestamp: Date.now(),
-        sentences: serializableSentences,
-        embeddings,
-        pageHash
-      };
-
-      log('[semantic-search] 💾 Serialized', sentences.length, 'sentences (removed DOM elements)');
-
-      // Insert or update cache entry
-      await this.db.query(
-        `INSERT INTO cached_pages (url, page_data) 
-         VALUES ($1, $2) 
-         ON CONFLICT (url) 
-         DO UPDATE SET page_data = $2, created_at = now()`,
-        [url, JSON.stringify(pageData)]
-      );
+      await this.db.transaction(async (tx) => {
+        await tx.query(
+          'DELETE FROM pages WHERE url = $1 AND model_id = $2 AND model_version = $3',
+          [url, this.model.id, this.model.version]
+        );
+        await tx.query(
+          `INSERT INTO pages (url, model_id, model_version, dimensions, title, page_hash, sentence_count)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [url, this.model.id, this.model.version, this.model.dimensions, title || null, pageHash, sentences.length]
+        );
+
+        // One statement for the whole page: each column travels as an array
+        await tx.query(
+          `INSERT INTO sentences (url, model_id, model_version, idx, segment_index, text, selector, start_offset, end_offset, embedding, kind)
+           SELECT $1, $9, $10, s.idx, s.segment_index, s.text, s.selector, s.start_offset, s.end_offset, s.embedding::vector, s.kind
+           FROM unnest($2::int[], $3::int[], $4::text[], $5::text[], $6::int[], $7::int[], $8::text[], $11::text[])
+             AS s(idx, segment_index, text, selector, start_offset, end_offset, embedding, kind)`,
+          [
+            url,
+            sentences.map((_, idx) => idx),
+            sentences.map(s => s.index),
+            sentences.map(s => s.text),
+            sentences.map(s => s.selector),
+            sentences.map(s => s.startOffset),
+            sentences.map(s => s.endOffset),
+            embeddings.map(embedding => this.toVector(embedding)),
+            this.model.id,
+            this.model.version,
+            sentences.map(s => s.kind)
+          ]
+        );
+      });
 
       log('[semantic-search] ✅ Successfully cached', embeddings.length, 'embeddings for', sentences.length, 'sentences (hash:', pageHash + ')');
     } catch (error) {
@@ -187,11 +425,116 @@ export class EmbeddingCache {
   }
 
   /**
-   * Clear cached embeddings for a specific URL
+   * Positions of the texts that have no embedding in this page's index yet, i.e. the
+   * ones syncPage() would have to embed
+   */
+  async findUnembeddedSentences(url: string, texts: string[]): Promise<number[]> {
+    const missing = await this.db.query<{ position: number }>(
+      `SELECT (i - 1)::int AS position
+       FROM unnest($2::text[]) WITH ORDINALITY AS incoming(text, i)
+       WHERE NOT EXISTS (
+         SELECT 1 FROM sentences
+         WHERE url = $1 AND model_id = $3 AND model_version = $4 AND text_hash = md5(incoming.text)
+       )`,
+      [url, texts, this.model.id, this.model.version]
+    );
+    return missing.rows.map(row => row.position);
+  }
+
+  /**
+   * Bring a page's index in line with its current sentences. Sentences are matched by a
+   * hash of their text, so only new or changed ones are embedded, unchanged ones keep
+   * their embedding (with a fresh selector and position), and removed ones are deleted.
+   * Returns early when the page hash shows nothing changed. Only this cache's model's
+   * index of the page is touched.
+   */
+  async syncPage(
+    url: string,
+    sentences: SerializableSentenceSegment[],
+    embed: (texts: string[]) => Promise<number[][]>,
+    title?: string
+  ): Promise<PageSyncResult> {
+    const pageHash = this.generatePageHash(sentences);
+    const page = await this.getIndexedPage(url);
+    if (page && page.pageHash === pageHash) {
+      return { sentenceCount: page.sentenceCount, embedded: 0, removed: 0 };
+    }
+
+    const positions = await this.findUnembeddedSentences(url, sentences.map(s => s.text));
+
+    log('[semantic-search] 🔄 Syncing', url, '-', positions.length, 'of', sentences.length, 'sentences need embeddings');
+    const embeddings = positions.length > 0 ? await embed(positions.map(position => sentences[position].text)) : [];
+    if (embeddings.length !== positions.length) {
+      throw new Error(`Got ${embeddings.length} embeddings for ${positions.length} sentences`);
+    }
+
+    // null means "reuse the embedding stored for the same text"
+    const fresh: Array<string | null> = sentences.map(() => null);
+    positions.forEach((position, i) => {
+      fresh[position] = this.toVector(embeddings[i]);
+    });
+
+    await this.db.transaction(async (tx) => {
+      await tx.query(
+        `INSERT INTO pages (url, model_id, model_version, dimensions, title, page_hash, sentence_count)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (url, model_id, model_version) DO UPDATE SET title = coalesce(excluded.title, pages.title),
+           page_hash = excluded.page_hash, sentence_count = excluded.sentence_count, created_at = now()`,
+        [url, this.model.id, this.model.version, this.model.dimensions, title || null, pageHash, sentences.length]
+      );
+
+      // Reads of sentences in this statement still see the rows it overwrites
+      await tx.query(
+        `INSERT INTO sentences (url, model_id, model_version, idx, segment_index, text, selector, start_offset, end_offset, embedding, kind)
+         SELECT $1, $9, $10, s.idx, s.segment_index, s.text, s.selector, s.start_offset, s.end_offset,
+                coalesce(s.embedding::vector, (
+                  SELECT old.embedding FROM sentences old
+                  WHERE old.url = $1 AND old.model_id = $9 AND old.model_version = $10 AND old.text_hash = md5(s.text)
+                  LIMIT 1
+                )), s.kind
+         FROM unnest($2::int[], $3::int[], $4::text[], $5::text[], $6::int[], $7::int[], $8::text[], $11::text[])
+           AS s(idx, segment_index, text, selector, start_offset, end_offset, embedding, kind)
+         ON CONFLICT (url, model_id, model_version, idx) DO UPDATE SET segment_index = excluded.segment_index, text = excluded.text,
+           selector = excluded.selector, start_offset = excluded.start_offset,
+           end_offset = excluded.end_offset, embedding = excluded.embedding, kind = excluded.kind`,
+        [
+          url,
+          sentences.map((_, idx) => idx),
+          sentences.map(s => s.index),
+          sentences.map(s => s.text),
+          sentences.map(s => s.selector),
+          sentences.map(s => s.startOffset),
+          sentences.map(s => s.endOffset),
+          fresh,
+          this.model.id,
+          this.model.version,
+          sentences.map(s => s.kind)
+        ]
+      );
+
+      await tx.query(
+        'DELETE FROM sentences WHERE url = $1 AND model_id = $2 AND model_version = $3 AND idx >= $4',
+        [url, this.model.id, this.model.version, sentences.length]
+      );
+    });
+
+    const reused = sentences.length - positions.length;
+    const result = {
+      sentenceCount: sentences.length,
+      embedded: positions.length,
+      removed: Math.max(0, (page?.sentenceCount ?? 0) - reused)
+    };
+    log('[semantic-search] ✅ Synced', url, result);
+    return result;
+  }
+
+  /**
+   * Clear cached embeddings for a specific URL, of every model
    */
   async clearCachedEmbeddings(url: string): Promise<void> {
     try {
-      await this.db.query('DELETE FROM cached_pages WHERE url = $1', [url]);
+      // Sentences are removed by the foreign key cascade
+      await this.db.query('DELETE FROM pages WHERE url = $1', [url]);
       log('[semantic-search] Cleared cached embeddings for URL:', url);
     } catch (error) {
       err('[semantic-search] Error clearing cached embeddings:', error);
@@ -203,13 +546,23 @@ export class EmbeddingCache {
    */
   async clearAllCachedEmbeddings(): Promise<void> {
     try {
-      await this.db.query('DELETE FROM cached_pages');
+      await this.db.query('DELETE FROM pages');
       log('[semantic-search] Cleared all cached embeddings');
     } catch (error) {
       err('[semantic-search] Error clearing all cached embeddings:', error);
     }
   }
 
+  /**
+   * Indexed pages of every model, newest first
+   */
+  async listIndexedPages(): Promise<IndexedPage[]> {
+    const result = await this.db.query<PageRow>(
+      `SELECT ${PAGE_COLUMNS} FROM pages ORDER BY created_at DESC`
+    );
+    return result.rows.map(toIndexedPage);
+  }
+
   /**
    * Get cache statistics
    */
@@ -221,32 +574,20 @@ export class EmbeddingCache {
     newestEntry: number | null;
   }> {
     try {
-      const result = await this.db.query<{ page_data: CachedEmbeddings }>('SELECT page_data FROM cached_pages');
-
-      let totalSentences = 0;
-      let totalEmbeddings = 0;
-      let oldestEntry: number | null = null;
-      let newestEntry: number | null = null;
-
-      for (const row of result.rows) {
-        const entry: CachedEmbeddings = row.page_data;
-        totalSentences += entry.sentences.length;
-        totalEmbeddings += entry.embeddings.length;
-
-        if (oldestEntry === null || entry.timestamp < oldestEntry) {
-          oldestEntry = entry.timestamp;
-        }
-        if (newestEntry === null || entry.timestamp > newestEntry) {
-          newestEntry = entry.timestamp;
-        }
-      }
+      const result = await this.db.query<{ total_urls: number; total_sentences: number; oldest: string | null; newest: string | null }>(
+        `SELECT count(DISTINCT url)::int AS total_urls, coalesce(sum(sentence_count), 0)::int AS total_sentences,
+                min(created_at) AS oldest, max(created_at) AS newest
+         FROM pages`
+      );
+      const stats = result.rows[0];
 
       return {
-        totalUrls: result.rows.length,
-        totalSentences,
-        totalEmbeddings,
-        oldestEntry,
-        newestEntry
+        totalUrls: stats.total_urls,
+        totalSentences: stats.total_sentences,
+        // Every sentence row carries its embedding
+        totalEmbeddings: stats.total_sentences,
+        oldestEntry: stats.oldest ? new Date(stats.oldest).getTime() : null,
+        newestEntry: stats.newest ? new Date(stats.newest).getTime() : null
       };
     } catch (error) {
       err('Error getting cache stats:', error);
@@ -0,0 +1,56 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { describe, expect, it } from 'vitest';
+import { EmbeddingCache } from './cache';
+import {
+  DEFAULT_EMBEDDING_MODEL_ID,
+  EMBEDDING_DIMENSIONS,
+  EMBEDDING_MODELS,
+  LEGACY_EMBEDDING_MODEL,
+  getEmbeddingModel
+} from './embedding-model';
+
+describe('EMBEDDING_MODELS', () => {
+  it('only registers models that fit the 384-dimensional vector columns', () => {
+    for (const model of EMBEDDING_MODELS) {
+      expect(model.dimensions, model.id).toBe(EMBEDDING_DIMENSIONS);
+    }
+  });
+
+  it('registers each model once', () => {
+    const ids = EMBEDDING_MODELS.map(model => model.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('keeps the default and legacy models selectable in settings', () => {
+    expect(getEmbeddingModel(DEFAULT_EMBEDDING_MODEL_ID).testOnly).toBeFalsy();
+    expect(LEGACY_EMBEDDING_MODEL.testOnly).toBeFalsy();
+  });
+
+  it('marks the hash stub as test-only', () => {
+    expect(EMBEDDING_MODELS.filter(model => model.source.kind === 'hash').every(model => model.testOnly)).toBe(true);
+  });
+});
+
+describe('getEmbeddingModel', () => {
+  it('finds registered models by id', () => {
+    expect(getEmbeddingModel('Xenova/bge-small-en-v1.5').label).toBe('BGE small (English)');
+    expect(getEmbeddingModel('hash-stub').source.kind).toBe('hash');
+  });
+
+  it('falls back to the default model for unknown or missing ids', () => {
+    for (const id of ['Xenova/removed-model', '', null, undefined]) {
+      expect(getEmbeddingModel(id).id).toBe(DEFAULT_EMBEDDING_MODEL_ID);
+    }
+  });
+});
+
+describe('EmbeddingCache dimension check', () => {
+  // The embedding is checked before anything reaches the database
+  const cache = new EmbeddingCache({} as PGlite, getEmbeddingModel('hash-stub'));
+
+  it('rejects query embeddings of another size than the model\'s', async () => {
+    await expect(cache.searchSimilar(new Array(EMBEDDING_DIMENSIONS - 1).fill(0), 5)).rejects.toThrow(
+      `Expected a ${EMBEDDING_DIMENSIONS}-dimensional embedding from hash-stub, got ${EMBEDDING_DIMENSIONS - 1}`
+    );
+  });
+});
@@ -0,0 +1,73 @@
+// How a model's embeddings are computed in the offscreen document
+export type EmbeddingModelSource =
+  | { kind: 'transformers'; pooling: 'mean' | 'cls'; quantized: boolean }
+  | { kind: 'hash' };
+
+export interface EmbeddingModelInfo {
+  // transformers.js model id (or a made-up one for non-transformers models), recorded
+  // with every cached embedding
+  id: string;
+  // Changes whenever the same id starts producing different vectors (e.g. quantization),
+  // so embeddings from before the change are not compared with new ones
+  version: string;
+  label: string;
+  description: string;
+  dimensions: number;
+  source: EmbeddingModelSource;
+  // For tests and benchmarks only; not offered in settings
+  testOnly?: boolean;
+}
+
+// The sentences and agent_memories tables store 384-dimensional vectors, so every
+// registered model has to produce that many
+export const EMBEDDING_DIMENSIONS = 384;
+
+export const EMBEDDING_MODELS: EmbeddingModelInfo[] = [
+  {
+    id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    version: 'quantized',
+    label: 'Multilingual MiniLM L12',
+    description: 'Korean, Japanese, Spanish and 50+ other languages in one space, ~120 MB',
+    dimensions: EMBEDDING_DIMENSIONS,
+    source: { kind: 'transformers', pooling: 'mean', quantized: true }
+  },
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    version: 'quantized',
+    label: 'MiniLM L6 (English)',
+    description: 'Smallest and fastest, English only, ~23 MB',
+    dimensions: EMBEDDING_DIMENSIONS,
+    source: { kind: 'transformers', pooling: 'mean', quantized: true }
+  },
+  {
+    id: 'Xenova/bge-small-en-v1.5',
+    version: 'quantized',
+    label: 'BGE small (English)',
+    description: 'More accurate English retrieval than MiniLM, ~34 MB',
+    dimensions: EMBEDDING_DIMENSIONS,
+    source: { kind: 'transformers', pooling: 'cls', quantized: true }
+  },
+  {
+    id: 'hash-stub',
+    version: '1',
+    label: 'Hash stub (testing)',
+    description: 'Deterministic word hashing, no download; matches shared words only',
+    dimensions: EMBEDDING_DIMENSIONS,
+    source: { kind: 'hash' },
+    testOnly: true
+  }
+];
+
+export const DEFAULT_EMBEDDING_MODEL_ID = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2';
+
+// Embeddings from before pages recorded their model all came from this English-only model
+export const LEGACY_EMBEDDING_MODEL = EMBEDDING_MODELS.find(model => model.id === 'Xenova/all-MiniLM-L6-v2')!;
+
+/**
+ * The registered model with this id, or the default model for unknown ids (e.g. a model
+ * that was removed after being selected)
+ */
+export function getEmbeddingModel(id: string | null | undefined): EmbeddingModelInfo {
+  return EMBEDDING_MODELS.find(model => model.id === id)
+    ?? EMBEDDING_MODELS.find(model => model.id === DEFAULT_EMBEDDING_MODEL_ID)!;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { EMBEDDING_DIMENSIONS, getEmbeddingModel } from './embedding-model';
+import { createEmbeddingProvider } from './embedding-provider';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('hash stub provider', () => {
+  const provider = createEmbeddingProvider(getEmbeddingModel('hash-stub'));
+
+  it('is ready without loading anything', () => {
+    expect(provider.isLoaded()).toBe(true);
+  });
+
+  it('embeds every text into a normalized vector of the model\'s size, in order', async () => {
+    const embeddings = await provider.embed(['The rain cover fits every model.', 'Returns within 30 days', '']);
+
+    expect(embeddings).toHaveLength(3);
+    for (const embedding of embeddings) {
+      expect(embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(Math.hypot(...embedding)).toBeCloseTo(1);
+    }
+  });
+
+  it('is deterministic and only matches shared words', async () => {
+    const [first, again, shared, unrelated] = await provider.embed([
+      'rain cover for the backpack',
+      'rain cover for the backpack',
+      'a rain cover',
+      'gift cards never expire'
+    ]);
+
+    expect(again).toEqual(first);
+    expect(cosine(first, shared)).toBeGreaterThan(0.3);
+    expect(Math.abs(cosine(first, unrelated))).toBeLessThan(0.3);
+  });
+});
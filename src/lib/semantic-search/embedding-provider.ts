@@ -0,0 +1,149 @@
+import { log, err } from "~lib/log";
+import { tokenize } from "./fusion";
+import type { EmbeddingModelInfo } from "./embedding-model";
+
+/**
+ * Computes embeddings for one registered model. Providers run in the offscreen document
+ * and load their model lazily, on the first embed() or an explicit load().
+ */
+export interface EmbeddingProvider {
+  readonly model: EmbeddingModelInfo;
+  load(): Promise<void>;
+  isLoaded(): boolean;
+  // Normalized embeddings, one per text, in order
+  embed(texts: string[]): Promise<number[][]>;
+  // Release the model's memory; the provider can load again afterwards
+  dispose(): Promise<void>;
+}
+
+// Texts embedded concurrently, to bound the memory one large page can take
+const BATCH_SIZE = 10;
+
+/**
+ * A sentence-transformers model run by transformers.js (ONNX in WebAssembly), downloaded
+ * from the Hugging Face CDN on first load.
+ */
+class TransformersEmbeddingProvider implements EmbeddingProvider {
+  private pipeline: any = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    readonly model: EmbeddingModelInfo,
+    private options: { pooling: 'mean' | 'cls'; quantized: boolean }
+  ) {}
+
+  isLoaded(): boolean {
+    return this.pipeline !== null;
+  }
+
+  load(): Promise<void> {
+    if (this.pipeline) return Promise.resolve();
+
+    this.loading ??= (async () => {
+      try {
+        log('[semantic-search] Loading embedding model in offscreen document:', this.model.id);
+
+        // Dynamic import to avoid bundling issues
+        const { pipeline, env } = await import('@xenova/transformers');
+
+        // Configure environment
+        env.allowLocalModels = false; // Use CDN
+        env.allowRemoteModels = true;
+
+        this.pipeline = await pipeline('feature-extraction', this.model.id, {
+          quantized: this.options.quantized,
+          progress_callback: (progress: any) => {
+            if (progress.status === 'downloading') {
+              log('[semantic-search] Model download progress:', Math.round(progress.progress * 100) + '%');
+            }
+          }
+        });
+        log('[semantic-search] Embedding model loaded successfully:', this.model.id);
+      } catch (error) {
+        err('[semantic-search] Failed to load embedding model:', this.model.id, error);
+        throw error;
+      } finally {
+        this.loading = null;
+      }
+    })();
+    return this.loading;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    await this.load();
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      const results = await Promise.all(batch.map(async text => {
+        const result = await this.pipeline(text, { pooling: this.options.pooling, normalize: true });
+        return Array.from(result.data as Float32Array);
+      }));
+      embeddings.push(...results);
+    }
+    return embeddings;
+  }
+
+  async dispose(): Promise<void> {
+    const pipeline = this.pipeline;
+    this.pipeline = null;
+    await pipeline?.dispose();
+  }
+}
+
+/**
+ * Feature hashing of a text's words into a fixed-size vector. Deterministic and instant,
+ * with no download, so tests and benchmarks can run offline; it only matches sentences
+ * that share words, without any sense of meaning.
+ */
+class HashEmbeddingProvider implements EmbeddingProvider {
+  constructor(readonly model: EmbeddingModelInfo) {}
+
+  isLoaded(): boolean {
+    return true;
+  }
+
+  async load(): Promise<void> {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  async dispose(): Promise<void> {}
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.model.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const hash = fnv1a(token);
+      // The top bit picks the sign, so unrelated words cancel out instead of piling up
+      vector[hash % this.model.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.hypot(...vector);
+    if (norm === 0) {
+      // Cosine distance is undefined for the zero vector
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map(value => value / norm);
+  }
+}
+
+// 32-bit FNV-1a, as an unsigned integer
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export function createEmbeddingProvider(model: EmbeddingModelInfo): EmbeddingProvider {
+  switch (model.source.kind) {
+    case 'transformers':
+      return new TransformersEmbeddingProvider(model, model.source);
+    case 'hash':
+      return new HashEmbeddingProvider(model);
+  }
+}
@@ -1,16 +1,5 @@
 import { log, err } from "~lib/log";
-
-export interface EmbeddingResponse {
-  success: boolean;
-  embedding?: number[];
-  error?: string;
-}
-
-export interface BatchEmbeddingResponse {
-  success: boolean;
-  embeddings?: number[][];
-  error?: string;
-}
+import { call } from "~lib/messaging";
 
 /**
  * Service for communicating with background worker to generate embeddings
@@ -48,16 +37,10 @@ export class EmbeddingService {
     try {
       log('[semantic-search] Loading embedding model in background worker...');
       
-      const response = await chrome.runtime.sendMessage({
-        type: 'LOAD_EMBEDDING_MODEL'
-      });
+      await call('background', { type: 'LOAD_EMBEDDING_MODEL' });
 
-      if (response?.success) {
-        this.isModelLoaded = true;
-        log('[semantic-search] Embedding model loaded successfully');
-      } else {
-        throw new Error(response?.error || 'Failed to load embedding model');
-      }
+      this.isModelLoaded = true;
+      log('[semantic-search] Embedding model loaded successfully');
     } catch (error) {
       err('[semantic-search] Failed to load embedding model:', error);
       throw error;
@@ -73,17 +56,13 @@ export class EmbeddingService {
     try {
       log('[semantic-search] Generating embedding for text:', text.substring(0, 100) + '...');
       
-      const response = await chrome.runtime.sendMessage({
+      const { embedding } = await call('background', {
         type: 'GENERATE_EMBEDDING',
         text: text.trim()
-      }) as EmbeddingResponse;
-
-      if (response.success && response.embedding) {
-        log('[semantic-search] Embedding generated successfully, dimension:', response.embedding.length);
-        return response.embedding;
-      } else {
-        throw new Error(response.error || 'Failed to generate embedding');
-      }
+      });
+
+      log('[semantic-search] Embedding generated successfully, dimension:', embedding.length);
+      return embedding;
     } catch (error) {
       err('[semantic-search] Error generating embedding:', error);
       throw error;
@@ -99,17 +78,13 @@ export class EmbeddingService {
     try {
       log('[semantic-search] Generating batch embeddings for', texts.length, 'texts');
       
-      const response = await chrome.runtime.sendMessage({
+      const { embeddings } = await call('background', {
         type: 'BATCH_GENERATE_EMBEDDINGS',
         texts: texts.map(t => t.trim())
-      }) as BatchEmbeddingResponse;
-
-      if (response.success && response.embeddings) {
-        log('[semantic-search] Batch embeddings generated successfully');
-        return response.embeddings;
-      } else {
-        throw new Error(response.error || 'Failed to generate batch embeddings');
-      }
+      });
+
+      log('[semantic-search] Batch embeddings generated successfully');
+      return embeddings;
     } catch (error) {
       err('[semantic-search] Error generating batch embeddings:', error);
       throw error;
@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/dist/vector';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initSchema } from '~lib/db';
+import { EmbeddingCache } from './cache';
+import { EMBEDDING_MODELS } from './embedding-model';
+import { createEmbeddingProvider } from './embedding-provider';
+import { RETRIEVAL_FIXTURE, fixtureSegments, measureRecall, type LabelledQuery, type RetrievalEvaluation } from './evaluation';
+import { tokenize } from './fusion';
+
+const URL = 'erpa-evaluation://retrieval-fixture';
+// Recall@3 the hash stub reaches on the fixture in every mode; the paraphrase queries
+// share no words with their answers, so it cannot find those
+const RECALL_FLOOR = 0.75;
+
+const hashStub = createEmbeddingProvider(EMBEDDING_MODELS.find(model => model.source.kind === 'hash')!);
+
+describe('retrieval on the fixture with the hash stub', () => {
+  let evaluations: Record<string, RetrievalEvaluation>;
+
+  beforeAll(async () => {
+    const db = new PGlite({ extensions: { vector } });
+    await initSchema(db);
+    const cache = new EmbeddingCache(db, hashStub.model);
+    await cache.cacheEmbeddings(URL, fixtureSegments(RETRIEVAL_FIXTURE), await hashStub.embed(RETRIEVAL_FIXTURE.sentences));
+
+    const results = await measureRecall(async (query, mode, k) => {
+      const [embedding] = await hashStub.embed([query]);
+      const matches = await cache.searchSentences(query, embedding, { limit: k, url: URL, mode });
+      return matches.map(match => match.sentence.index);
+    }, { k: 3 });
+    evaluations = Object.fromEntries(results.map(evaluation => [evaluation.mode, evaluation]));
+    await db.close();
+  }, 60_000);
+
+  it('finds exact names, numbers and codes lexically', () => {
+    const { perQuery } = evaluations.lexical;
+    for (const query of ['SKU 4471', 'What does section 3.2 cover?', 'E-113', 'Trailblazer 2 capacity']) {
+      expect(perQuery.find(result => result.query === query)?.recall, query).toBe(1);
+    }
+  });
+
+  it('keeps recall@3 above its floor in every mode', () => {
+    for (const mode of ['semantic', 'lexical', 'hybrid']) {
+      expect(evaluations[mode].recall, mode).toBeGreaterThanOrEqual(RECALL_FLOOR);
+    }
+  });
+
+});
+
+// Queries only one of the rankings answers: codes, which the stand-in embeddings below
+// leave out, and paraphrases that share no word with their answer
+const ONE_SIDED_QUERIES: LabelledQuery[] = [
+  { query: 'E-113', relevant: [10] },
+  { query: 'cleaning tips', relevant: [9] },
+  { query: 'Any student deals?', relevant: [15] }
+];
+
+// Stands in for a model that knows a few paraphrases but nothing of codes and numbers
+const PARAPHRASES: Record<string, string> = { cleaning: 'wash', tips: 'hand', student: 'students', deals: 'off' };
+const paraphraseEmbed = (texts: string[]) =>
+  hashStub.embed(texts.map(text =>
+    tokenize(text)
+      .filter(token => !/\d/.test(token))
+      .map(token => PARAPHRASES[token] ?? token)
+      .join(' ')
+  ));
+
+describe('retrieval on queries only one ranking answers', () => {
+  let evaluations: Record<string, RetrievalEvaluation>;
+
+  beforeAll(async () => {
+    const db = new PGlite({ extensions: { vector } });
+    await initSchema(db);
+    const cache = new EmbeddingCache(db, hashStub.model);
+    await cache.cacheEmbeddings(URL, fixtureSegments(RETRIEVAL_FIXTURE), await paraphraseEmbed(RETRIEVAL_FIXTURE.sentences));
+
+    const results = await measureRecall(async (query, mode, k) => {
+      const [embedding] = await paraphraseEmbed([query]);
+      const matches = await cache.searchSentences(query, embedding, { limit: k, url: URL, mode });
+      return matches.map(match => match.sentence.index);
+    }, { k: 3, fixture: { sentences: RETRIEVAL_FIXTURE.sentences, queries: ONE_SIDED_QUERIES } });
+    evaluations = Object.fromEntries(results.map(evaluation => [evaluation.mode, evaluation]));
+    await db.close();
+  }, 60_000);
+
+  it('answers each query with exactly one of the rankings alone', () => {
+    for (const { query } of ONE_SIDED_QUERIES) {
+      const found = ['semantic', 'lexical'].filter(
+        mode => evaluations[mode].perQuery.find(result => result.query === query)?.recall === 1
+      );
+      expect(found, query).toHaveLength(1);
+    }
+  });
+
+  it('does strictly better fused than either ranking alone', () => {
+    expect(evaluations.hybrid.recall).toBeGreaterThan(evaluations.semantic.recall);
+    expect(evaluations.hybrid.recall).toBeGreaterThan(evaluations.lexical.recall);
+    expect(evaluations.hybrid.perQuery.map(result => result.recall)).toEqual(ONE_SIDED_QUERIES.map(() => 1));
+  });
+});
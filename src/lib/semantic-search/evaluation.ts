@@ -0,0 +1,148 @@
+import { log } from "~lib/log";
+import { call } from "~lib/messaging";
+import type { SearchMode, SerializableSentenceSegment } from "./cache";
+import { EmbeddingService } from "./embedding-service";
+
+export interface LabelledQuery {
+  query: string;
+  // Indexes into the fixture's sentences that answer the query
+  relevant: number[];
+}
+
+export interface RetrievalFixture {
+  sentences: string[];
+  queries: LabelledQuery[];
+}
+
+export interface RetrievalEvaluation {
+  mode: SearchMode;
+  k: number;
+  // Mean over queries of the share of relevant sentences found in the top k
+  recall: number;
+  perQuery: Array<{ query: string; recall: number; retrieved: number[] }>;
+}
+
+export interface EvaluationOptions {
+  k?: number;
+  modes?: SearchMode[];
+  fixture?: RetrievalFixture;
+}
+
+// Indexed under a URL no tab can have, and removed again after the run
+const EVALUATION_URL = 'erpa-evaluation://retrieval-fixture';
+
+/**
+ * A product help page in miniature. Queries mix paraphrases, which need embeddings, with
+ * exact names, numbers and codes, which embeddings tend to blur.
+ */
+export const RETRIEVAL_FIXTURE: RetrievalFixture = {
+  sentences: [
+    'The Trailblazer 2 backpack holds 28 liters and weighs 1.1 kilograms.',
+    'Order SKU 4471 for the rain cover that fits every Trailblazer model.',
+    'Section 3.2 explains how to adjust the shoulder straps for your torso length.',
+    'Returns are accepted within 30 days if the tags are still attached.',
+    'Refunds go back to the original payment method within five business days.',
+    'Standard shipping is free on orders over $50 in the continental US.',
+    'Express delivery arrives in two business days and costs $14.99.',
+    'The warranty covers manufacturing defects for the lifetime of the product.',
+    'Zippers and buckles damaged by normal wear are replaced free of charge.',
+    'Machine washing can damage the waterproof coating, so wash by hand in cold water.',
+    'Error code E-113 means the charging port on the solar panel is obstructed.',
+    'The solar panel accessory charges a phone in about three hours of direct sunlight.',
+    'Contact support by chat from 9 am to 6 pm Pacific Time, Monday through Friday.',
+    'Gift cards never expire and can be combined with other promotions.',
+    'The hip belt pockets fit most phones up to 6.7 inches.',
+    'Students receive 15 percent off with a verified school email address.'
+  ],
+  queries: [
+    { query: 'SKU 4471', relevant: [1] },
+    { query: 'What does section 3.2 cover?', relevant: [2] },
+    { query: 'E-113', relevant: [10] },
+    { query: 'How long do I have to send something back?', relevant: [3] },
+    { query: 'When will I get my money back?', relevant: [4] },
+    { query: 'Is delivery free?', relevant: [5, 6] },
+    { query: 'How should I clean the bag?', relevant: [9] },
+    { query: 'What if a zipper breaks?', relevant: [7, 8] },
+    { query: 'Trailblazer 2 capacity', relevant: [0] },
+    { query: 'Is there a discount for students?', relevant: [15] },
+    { query: 'support hours', relevant: [12] },
+    { query: 'Will my 6.7 inch phone fit in the pocket?', relevant: [14] }
+  ]
+};
+
+/**
+ * Ranks the fixture's sentences for a query in one mode, returning the indexes of the
+ * top k, best first
+ */
+export type RetrievalSearch = (query: string, mode: SearchMode, k: number) => Promise<number[]>;
+
+/**
+ * The fixture's sentences as segments to index, each selected by its index
+ */
+export function fixtureSegments(fixture: RetrievalFixture): SerializableSentenceSegment[] {
+  return fixture.sentences.map((text, index) => ({
+    kind: 'sentence',
+    text,
+    selector: `#fixture-sentence-${index}`,
+    startOffset: 0,
+    endOffset: text.length,
+    index
+  }));
+}
+
+/**
+ * Recall@k of each mode on the fixture's labelled queries, with the fixture already
+ * indexed where `search` looks
+ */
+export async function measureRecall(
+  search: RetrievalSearch,
+  { k = 3, modes = ['semantic', 'lexical', 'hybrid'], fixture = RETRIEVAL_FIXTURE }: EvaluationOptions = {}
+): Promise<RetrievalEvaluation[]> {
+  const evaluations: RetrievalEvaluation[] = [];
+  for (const mode of modes) {
+    const perQuery: RetrievalEvaluation['perQuery'] = [];
+    for (const { query, relevant } of fixture.queries) {
+      const retrieved = await search(query, mode, k);
+      const found = relevant.filter(index => retrieved.includes(index)).length;
+      perQuery.push({ query, recall: found / relevant.length, retrieved });
+    }
+
+    const recall = perQuery.reduce((sum, result) => sum + result.recall, 0) / perQuery.length;
+    log('[semantic-search] recall@' + k, mode, recall.toFixed(3));
+    evaluations.push({ mode, k, recall, perQuery });
+  }
+  return evaluations;
+}
+
+/**
+ * Measure recall@k of each retrieval mode on labelled queries. Indexes the fixture's
+ * sentences through the same path as real pages, so it exercises the embedding model,
+ * the pgvector and BM25 indexes, and the fusion.
+ */
+export async function evaluateRetrieval(options: EvaluationOptions = {}): Promise<RetrievalEvaluation[]> {
+  const { fixture = RETRIEVAL_FIXTURE } = options;
+
+  const embeddings = await EmbeddingService.getInstance().generateBatchEmbeddings(fixture.sentences);
+  await call('background', {
+    type: 'CACHE_EMBEDDINGS',
+    url: EVALUATION_URL,
+    title: 'Retrieval evaluation fixture',
+    segments: fixtureSegments(fixture),
+    embeddings
+  });
+
+  try {
+    return await measureRecall(async (query, mode, k) => {
+      const { matches } = await call('background', {
+        type: 'SEARCH_SIMILAR',
+        query,
+        url: EVALUATION_URL,
+        limit: k,
+        mode
+      });
+      return matches.map(match => match.sentence.index);
+    }, options);
+  } finally {
+    await call('background', { type: 'CLEAR_CACHED_PAGE', url: EVALUATION_URL });
+  }
+}
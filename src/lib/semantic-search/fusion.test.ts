@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { RRF_K, reciprocalRankFusion, tokenize } from './fusion';
+
+const fuse = (rankings: string[][], k?: number) =>
+  reciprocalRankFusion(rankings, item => item, k);
+
+describe('reciprocalRankFusion', () => {
+  it('scores each item 1 / (k + rank) summed over the rankings', () => {
+    const fused = fuse([['a', 'b'], ['b', 'c']]);
+
+    expect(fused.map(({ item }) => item)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+    expect(fused[1].score).toBeCloseTo(1 / (RRF_K + 1));
+    expect(fused[2].score).toBeCloseTo(1 / (RRF_K + 2));
+  });
+
+  it('ranks agreement between rankings above one ranking\'s first place', () => {
+    const fused = fuse([['solo', 'shared'], ['other', 'shared']]);
+
+    expect(fused[0].item).toBe('shared');
+  });
+
+  it('merges items by key and keeps the first one seen', () => {
+    const semantic = [{ id: '1', from: 'semantic' }];
+    const lexical = [{ id: '2', from: 'lexical' }, { id: '1', from: 'lexical' }];
+
+    const fused = reciprocalRankFusion([semantic, lexical], item => item.id);
+
+    expect(fused).toHaveLength(2);
+    expect(fused[0].item).toEqual({ id: '1', from: 'semantic' });
+  });
+
+  it('lets a smaller k favour the top ranks', () => {
+    const rankings = [['a', 'x', 'b'], ['c', 'y', 'b']];
+
+    expect(fuse(rankings)[0].item).toBe('b');
+    expect(fuse(rankings, 0)[0].item).toBe('a');
+  });
+
+  it('returns nothing for no rankings', () => {
+    expect(fuse([])).toEqual([]);
+    expect(fuse([[], []])).toEqual([]);
+  });
+});
+
+describe('tokenize', () => {
+  it('lowercases words and keeps dotted or hyphenated codes whole', () => {
+    expect(tokenize('Section 3.2 covers error E-113, not SKU 4471.')).toEqual([
+      'section', '3.2', 'covers', 'error', 'e-113', 'not', 'sku', '4471'
+    ]);
+  });
+
+  it('keeps letters of any script', () => {
+    expect(tokenize('Café 한국어 テスト')).toEqual(['café', '한국어', 'テスト']);
+  });
+});
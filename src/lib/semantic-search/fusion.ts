@@ -0,0 +1,35 @@
+// Damps the weight of top ranks so agreement between rankings beats one list's first place.
+// 60 is the constant from the original reciprocal rank fusion paper.
+export const RRF_K = 60;
+
+/**
+ * Merge several best-first rankings of the same items with reciprocal rank fusion: each
+ * item scores the sum of 1 / (k + rank) over the rankings it appears in. Only ranks are
+ * used, so scores on different scales (cosine similarity, BM25) combine without tuning.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  keyOf: (item: T) => string,
+  k = RRF_K
+): Array<{ item: T; score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const key = keyOf(item);
+      const entry = fused.get(key) ?? { item, score: 0 };
+      entry.score += 1 / (k + rank + 1);
+      fused.set(key, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Lowercased words, numbers and dotted or hyphenated codes ("3.2", "a-113") of a text,
+ * close to what the database's 'simple' text search configuration indexes.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.\-][\p{L}\p{N}]+)*/gu) ?? [];
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { locateAnswerSpan } from "./gemini-ranker";
+
+const quoted = (text: string, quote: string) => {
+    const span = locateAnswerSpan(text, quote);
+    return span && text.replace(/\s+/g, ' ').trim().slice(span.start, span.end);
+};
+
+describe('locateAnswerSpan', () => {
+    it('finds the quote in the sentence', () => {
+        expect(locateAnswerSpan('Returns are accepted within 30 days.', 'within 30 days')).toEqual({ start: 21, end: 35 });
+    });
+
+    it('forgives case, quotation marks and a final period', () => {
+        expect(quoted('Returns are accepted within 30 days.', '"Within 30 days."')).toBe('within 30 days');
+        expect(quoted('返品は30日以内です。', '「30日以内」')).toBeUndefined();
+        expect(quoted('返品は30日以内です。', '30日以内。')).toBe('30日以内');
+    });
+
+    it('counts offsets in the whitespace-collapsed sentence', () => {
+        const text = '  Returns are\n    accepted   within 30 days.';
+
+        expect(locateAnswerSpan(text, 'accepted within')).toEqual({ start: 12, end: 27 });
+        expect(quoted(text, 'accepted within')).toBe('accepted within');
+        expect(quoted('Returns are accepted within 30 days.', 'accepted\n  within')).toBe('accepted within');
+    });
+
+    it('gives no span for empty quotes or words not in the sentence', () => {
+        expect(locateAnswerSpan('Returns are accepted within 30 days.', '')).toBeUndefined();
+        expect(locateAnswerSpan('Returns are accepted within 30 days.', '""')).toBeUndefined();
+        expect(locateAnswerSpan('Returns are accepted within 30 days.', 'within 60 days')).toBeUndefined();
+    });
+});
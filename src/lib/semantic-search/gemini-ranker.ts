@@ -1,5 +1,7 @@
 import { log, err } from "~lib/log";
-import type { SentenceSegment } from "./sentence-segmenter";
+import { normalizeText, type SentenceSegment } from "./sentence-segmenter";
+import type { SentenceContext } from "./sentence-context";
+import { tokenize } from "./fusion";
 import { z } from "zod";
 import {
     PromptClient,
@@ -8,24 +10,74 @@ import {
     type SessionManager
 } from "@ahnopologetic/use-prompt-api";
 
+// Character offsets into a sentence's text with whitespace collapsed (see normalizeText),
+// end exclusive; findTextRange maps them back onto the page
+export interface AnswerSpan {
+    start: number;
+    end: number;
+}
+
 export interface RankingResult {
     answer: string;
     index: number;
     confidence: number;
+    // The words of the sentence that answer the query, when they could be pinned down
+    span?: AnswerSpan;
 }
 
 export interface GeminiRankingOptions {
     maxCandidates?: number;
     fallbackToSimilarity?: boolean;
+    // Context of each candidate, in the same order, shown to the model alongside it
+    contexts?: SentenceContext[];
 }
 
 // Zod schema for ranking result
 const rankingResultSchema = z.object({
-    answer: z.string().describe("Brief explanation of why this sentence is relevant"),
-    index: z.number().int().describe("Index of the best matching sentence (0-based)"),
-    confidence: z.number().min(0).max(1).default(0.5).describe("Confidence score between 0.0 and 1.0"),
+    rankings: z.array(z.object({
+        index: z.number().int().describe("Index of a relevant sentence (0-based)"),
+        confidence: z.number().min(0).max(1).default(0.5).describe("How well the sentence answers the question, between 0.0 and 1.0"),
+        quote: z.string().default("").describe("The words of the sentence that answer the question, copied exactly; empty if no part does"),
+        answer: z.string().describe("Brief explanation of why this sentence is relevant"),
+    })).describe("Relevant sentences, most relevant first"),
 });
 
+/**
+ * Offsets of a quoted answer inside the sentence. Models often change case, spacing or
+ * add quotation marks and a final period, so those are forgiven; anything else that is
+ * not in the sentence gives no span.
+ */
+export const locateAnswerSpan = (text: string, quote: string): AnswerSpan | undefined => {
+    const needle = normalizeText(quote).replace(/^["'“‘]+|["'”’]+$/g, '').replace(/[.。]$/, '').trim();
+    if (!needle) return undefined;
+
+    const start = normalizeText(text).toLowerCase().indexOf(needle.toLowerCase());
+    return start === -1 ? undefined : { start, end: start + needle.length };
+};
+
+/**
+ * One candidate as the model sees it: the sentence itself on the numbered line, and its
+ * heading path and neighbours indented below so they are not mistaken for candidates
+ */
+const formatCandidate = (index: number, candidate: SentenceSegment, context?: SentenceContext): string => {
+    // Structured segments are written from a table, image or definition list, which the
+    // model should know to read "Price: $20" as a table cell
+    const label = candidate.kind === 'sentence' ? '' : `[${candidate.kind}] `;
+    const lines = [`${index}: ${label}${candidate.text}`];
+    if (context) {
+        if (context.headingPath.length > 0) {
+            lines.push(`   Section: ${context.headingPath.join(' > ')}`);
+        }
+        if (context.before.length > 0) {
+            lines.push(`   Before: ${context.before.join(' ')}`);
+        }
+        if (context.after.length > 0) {
+            lines.push(`   After: ${context.after.join(' ')}`);
+        }
+    }
+    return lines.join("\n");
+};
+
 /**
  * Service for ranking sentence candidates using Gemini Nano Prompt API
  */
@@ -69,16 +121,18 @@ export class GeminiRanker {
     }
 
     /**
-     * Rank sentence candidates using Gemini Nano
+     * Rank sentence candidates using Gemini Nano, best first. Candidates the model finds
+     * irrelevant are left out.
      */
     async rankCandidates(
         query: string,
         candidates: SentenceSegment[],
         options: GeminiRankingOptions = {}
-    ): Promise<RankingResult | null> {
+    ): Promise<RankingResult[] | null> {
         const {
             maxCandidates = 10,
-            fallbackToSimilarity = true
+            fallbackToSimilarity = true,
+            contexts = []
         } = options;
 
         // Limit candidates to avoid token limits
@@ -102,8 +156,9 @@ export class GeminiRanker {
             if (!this.session) {
                 await this.client.initialize();
                 this.session = await this.client.createSession({
-                    systemPrompt: "You are a helpful assistant that finds the most relevant sentence to answer a user's question. " +
-                        "Given a list of candidate sentences, identify the best matching sentence based on semantic meaning, not just keyword matching.",
+                    systemPrompt: "You are a helpful assistant that finds the sentences that answer a user's question. " +
+                        "Given a list of candidate sentences, rank the relevant ones based on semantic meaning, not just keyword matching, " +
+                        "and quote the exact words in each that answer the question.",
                     temperature: 0.3, // Lower temperature for more focused ranking
                     topK: 3,
                 });
@@ -113,9 +168,11 @@ export class GeminiRanker {
             const userPrompt = `Question: ${query}
 
 Candidates:
-${limitedCandidates.map((candidate, i) => `${i}: ${candidate.text}`).join("\n")}
+${limitedCandidates.map((candidate, i) => formatCandidate(i, candidate, contexts[i])).join("\n")}
+
+Each candidate may be followed by its section and the sentences around it, to help understand what it refers to. Only the numbered sentences are candidates.
 
-Select the index of the most relevant sentence that best answers the question. Provide a brief explanation of why this sentence is relevant, and a confidence score between 0.0 and 1.0.`;
+List the indexes of the sentences that help answer the question, most relevant first, and leave out the rest. For each, give a confidence score between 0.0 and 1.0, quote the words of the numbered sentence that answer the question exactly as written, and briefly explain why it is relevant.`;
 
             // Use structured output with Zod schema
             const result = await promptWithStructure(
@@ -127,13 +184,27 @@ Select the index of the most relevant sentence that best answers the question. P
                 }
             );
 
-            // Validate the index is within range
-            if (result.index < 0 || result.index >= limitedCandidates.length) {
-                throw new Error(`Invalid index returned: ${result.index}`);
+            // Keep the first mention of each valid index
+            const seen = new Set<number>();
+            const rankings: RankingResult[] = [];
+            for (const { index, confidence, quote, answer } of result.rankings) {
+                if (index < 0 || index >= limitedCandidates.length || seen.has(index)) {
+                    log('[semantic-search] Ignoring invalid or repeated index from Gemini Nano:', index);
+                    continue;
+                }
+                seen.add(index);
+                rankings.push({ index, confidence, answer, span: locateAnswerSpan(limitedCandidates[index].text, quote) });
+            }
+
+            if (rankings.length === 0) {
+                throw new Error('No valid candidate indexes returned');
             }
 
-            log('[semantic-search] Gemini Nano ranking result:', result);
-            return result;
+            // The model's order is a hint; its confidence scores decide, ties keep its order
+            rankings.sort((a, b) => b.confidence - a.confidence);
+
+            log('[semantic-search] Gemini Nano ranking result:', rankings);
+            return rankings;
 
         } catch (error) {
             err('[semantic-search] Error ranking candidates with Gemini Nano:', error);
@@ -148,43 +219,36 @@ Select the index of the most relevant sentence that best answers the question. P
     }
 
     /**
-     * Fallback ranking using simple keyword matching
+     * Fallback ranking by the share of query words each candidate contains. Numbers and
+     * codes count as words, and ties keep the retrieval order, which already blends
+     * semantic and keyword relevance.
      */
     private fallbackRanking(
         query: string,
         candidates: SentenceSegment[]
-    ): RankingResult {
-        const queryWords = query.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-
-        let bestIndex = 0;
-        let bestScore = 0;
+    ): RankingResult[] {
+        const queryTerms = new Set(tokenize(query));
 
-        for (let i = 0; i < candidates.length; i++) {
-            const candidate = candidates[i];
-            const candidateWords = candidate.text.toLowerCase().split(/\s+/);
+        const rankings = candidates.map((candidate, index) => {
+            const candidateTerms = new Set(tokenize(candidate.text));
 
-            // Count word matches
             let matches = 0;
-            for (const queryWord of queryWords) {
-                if (candidateWords.some(word => word.includes(queryWord) || queryWord.includes(word))) {
+            for (const term of queryTerms) {
+                if (candidateTerms.has(term)) {
                     matches++;
                 }
             }
 
-            // Calculate score (normalized by query length)
-            const score = matches / queryWords.length;
-
-            if (score > bestScore) {
-                bestScore = score;
-                bestIndex = i;
-            }
-        }
+            const score = queryTerms.size > 0 ? matches / queryTerms.size : 0;
+            return {
+                answer: `Found ${Math.round(score * 100)}% keyword match`,
+                index,
+                confidence: score
+            };
+        });
 
-        return {
-            answer: `Found ${Math.round(bestScore * 100)}% keyword match`,
-            index: bestIndex,
-            confidence: bestScore
-        };
+        // Array.prototype.sort is stable, so ties keep the retrieval order
+        return rankings.sort((a, b) => b.confidence - a.confidence);
     }
 
     /**
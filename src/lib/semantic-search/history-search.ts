@@ -0,0 +1,132 @@
+import { log, warn } from "~lib/log";
+import { call } from "~lib/messaging";
+import type { SegmentKind } from "./sentence-segmenter";
+
+export interface HistorySearchMatch {
+  kind: SegmentKind;
+  text: string;
+  selector: string;
+  score: number;
+}
+
+export interface HistorySearchResult {
+  url: string;
+  title: string;
+  bestScore: number;
+  matches: HistorySearchMatch[];
+}
+
+export interface HistorySearchOptions {
+  maxPages?: number;
+  maxResultsPerPage?: number;
+  signal?: AbortSignal;
+}
+
+// Sentences pulled from the index per page shown, so one long page cannot crowd out the rest
+const CANDIDATES_PER_PAGE = 4;
+const TAB_LOAD_TIMEOUT_MS = 30_000;
+// The content script registers its receiver shortly after the page finishes loading
+const HIGHLIGHT_ATTEMPTS = 5;
+const HIGHLIGHT_RETRY_DELAY_MS = 500;
+
+/**
+ * Search every page that has been indexed so far, not only the open tabs, and group the
+ * matching sentences by page, best page first.
+ */
+export async function searchHistory(
+  query: string,
+  options: HistorySearchOptions = {}
+): Promise<HistorySearchResult[]> {
+  const { maxPages = 10, maxResultsPerPage = 3, signal } = options;
+
+  log('[semantic-search] Searching browsing history for:', query);
+  const { matches } = await call(
+    'background',
+    { type: 'SEARCH_SIMILAR', query, limit: maxPages * CANDIDATES_PER_PAGE },
+    { signal }
+  );
+
+  // Matches arrive best first, so the first sentence seen for a page is its best
+  const pages = new Map<string, HistorySearchResult>();
+  for (const { url, title, sentence, similarity } of matches) {
+    let page = pages.get(url);
+    if (!page) {
+      if (pages.size >= maxPages) continue;
+      page = { url, title: title || url, bestScore: similarity, matches: [] };
+      pages.set(url, page);
+    }
+    if (page.matches.length < maxResultsPerPage) {
+      page.matches.push({ kind: sentence.kind, text: sentence.text, selector: sentence.selector, score: similarity });
+    }
+  }
+
+  log('[semantic-search] History search found', matches.length, 'sentences on', pages.size, 'pages');
+  return [...pages.values()];
+}
+
+/**
+ * Show a history search match: switch to the page's tab, or open it in a new one, then
+ * scroll to the sentence and highlight it.
+ * @returns whether the sentence was found on the page as it is now
+ */
+export async function openHistoryResult(url: string, match: HistorySearchMatch): Promise<boolean> {
+  const tabs = await chrome.tabs.query({});
+  const existing = tabs.find(tab => tab.url === url);
+
+  const tab = existing?.id !== undefined
+    ? await chrome.tabs.update(existing.id, { active: true })
+    : await chrome.tabs.create({ url, active: true });
+  if (!tab?.id) {
+    throw new Error(`Could not open ${url}`);
+  }
+  if (tab.windowId !== undefined) {
+    await chrome.windows.update(tab.windowId, { focused: true });
+  }
+
+  await waitForTabLoad(tab.id);
+
+  let lastError: unknown;
+  for (let attempt = 0; attempt < HIGHLIGHT_ATTEMPTS; attempt++) {
+    try {
+      const { found } = await call(
+        'content',
+        { type: 'HIGHLIGHT_SENTENCE', selector: match.selector, text: match.text, kind: match.kind },
+        { tabId: tab.id }
+      );
+      if (!found) {
+        warn('[semantic-search] Sentence no longer on the page:', match.selector);
+      }
+      return found;
+    } catch (error) {
+      lastError = error;
+      await new Promise(resolve => setTimeout(resolve, HIGHLIGHT_RETRY_DELAY_MS));
+    }
+  }
+  throw lastError;
+}
+
+async function waitForTabLoad(tabId: number): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const done = (error?: Error) => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(handleUpdate);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const timer = setTimeout(() => done(new Error('Timed out waiting for the page to load')), TAB_LOAD_TIMEOUT_MS);
+
+    function handleUpdate(updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') done();
+    }
+
+    // Listen first so a load that finishes in between is not missed
+    chrome.tabs.onUpdated.addListener(handleUpdate);
+    chrome.tabs.get(tabId).then(
+      tab => { if (tab.status === 'complete') done(); },
+      error => done(error)
+    );
+  });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { detectPageLanguage, guessLanguage } from './language';
+
+describe('guessLanguage', () => {
+  it('recognises languages by their script', () => {
+    expect(guessLanguage('서울은 대한민국의 수도입니다.')).toBe('ko');
+    expect(guessLanguage('Москва — столица России.')).toBe('ru');
+    expect(guessLanguage('القاهرة هي عاصمة مصر.')).toBe('ar');
+    expect(guessLanguage('Η Αθήνα είναι η πρωτεύουσα της Ελλάδας.')).toBe('el');
+  });
+
+  it('tells Japanese from Chinese by any kana among the Han characters', () => {
+    expect(guessLanguage('北京是中华人民共和国的首都。')).toBe('zh');
+    expect(guessLanguage('東京は日本の首都です。')).toBe('ja');
+    // Mostly kanji, with a single kana
+    expect(guessLanguage('東京都千代田区永田町一丁目の国会議事堂')).toBe('ja');
+  });
+
+  it('does not take a Latin-script text with a few kana for Japanese', () => {
+    expect(guessLanguage('The word for thank you is ありがとう, and it is used in many situations.')).toBe('en');
+  });
+
+  it('tells short Romance texts apart by the words they do not share', () => {
+    // Mostly "de", "la" and "que", which Spanish, French and Portuguese all use
+    expect(guessLanguage('La fin de la journée que je préfère')).toBe('fr');
+    expect(guessLanguage('Cidade de São Paulo que nunca para')).toBe('pt');
+    expect(guessLanguage('La casa de la playa que compré en el pueblo')).toBe('es');
+    expect(guessLanguage('O gato da casa é muito bonito.')).toBe('pt');
+  });
+
+  it('recognises English and German', () => {
+    expect(guessLanguage('The keepers of the lighthouse kept records for every ship.')).toBe('en');
+    expect(guessLanguage('Der Leuchtturm ist nicht mehr in Betrieb und die Lampe ist aus.')).toBe('de');
+  });
+
+  it('falls back to English without letters or known words', () => {
+    expect(guessLanguage('')).toBe('en');
+    expect(guessLanguage('1234 — 5678')).toBe('en');
+    expect(guessLanguage('Xyzzy plugh')).toBe('en');
+  });
+});
+
+describe('detectPageLanguage', () => {
+  const page = (html: string, text = '') => {
+    const doc = document.implementation.createHTMLDocument('');
+    doc.documentElement.innerHTML = html;
+    // jsdom does not lay out text, so it has no innerText
+    Object.defineProperty(doc.body, 'innerText', { value: text });
+    return doc;
+  };
+
+  it('uses the lang attribute, canonicalized', () => {
+    const doc = page('<body></body>', 'The text is in English.');
+    doc.documentElement.lang = 'PT-br';
+
+    expect(detectPageLanguage(doc)).toBe('pt-BR');
+  });
+
+  it('uses the first language of a Content-Language meta tag', () => {
+    const doc = page('<head><meta http-equiv="Content-Language" content="fr, en"></head><body></body>');
+
+    expect(detectPageLanguage(doc)).toBe('fr');
+  });
+
+  it('guesses from the text when nothing is declared, or the declaration is malformed', () => {
+    expect(detectPageLanguage(page('<body></body>', '東京は日本の首都です。'))).toBe('ja');
+
+    const malformed = page('<body></body>', 'Der Leuchtturm ist nicht mehr in Betrieb.');
+    malformed.documentElement.lang = 'not a tag!';
+    expect(detectPageLanguage(malformed)).toBe('de');
+  });
+});
@@ -0,0 +1,85 @@
+import { log } from "~lib/log";
+
+// Scripts used by (almost) a single language, checked on a sample of the page's text.
+// Han is shared by Chinese and Japanese and is told apart by kana (see guessLanguage).
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'zh'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Thai}/gu, 'th'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Greek}/gu, 'el']
+];
+
+// Frequent short words that tell Latin-script languages apart. Words the languages share
+// (de, la, que, en, ...) are left out, or short text would go to whichever is listed first.
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'with'],
+  es: ['el', 'los', 'las', 'y', 'por', 'con', 'del', 'una', 'es', 'muy'],
+  fr: ['le', 'les', 'et', 'est', 'des', 'une', 'pour', 'du', 'dans', 'qui', 'je', 'pas'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'ein', 'eine', 'zu'],
+  pt: ['o', 'e', 'do', 'da', 'em', 'não', 'uma', 'dos', 'ao', 'é', 'são', 'com']
+};
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+const SAMPLE_LENGTH = 2000;
+const DEFAULT_LANGUAGE = 'en';
+
+// Canonical form of a declared tag, or null when it is malformed or the browser has no data for it
+const canonicalize = (tag: string): string | null => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(tag.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Guess the language of a text from its script, or for Latin-script text from its most
+ * frequent short words.
+ */
+export function guessLanguage(text: string): string {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return DEFAULT_LANGUAGE;
+
+  for (const [script, language] of SCRIPT_LANGUAGES) {
+    if ((sample.match(script) || []).length / letters > 0.2) {
+      // Chinese is written without kana, while Japanese mixes some in with the kanji
+      // (sometimes very little, e.g. in headlines and addresses)
+      return language === 'zh' && KANA.test(sample) ? 'ja' : language;
+    }
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  let best = DEFAULT_LANGUAGE;
+  let bestCount = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const count = words.filter(word => stopwords.includes(word)).length;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * The page's language as a BCP 47 tag: the `lang` attribute or Content-Language when
+ * the page declares one, otherwise a guess from its text.
+ */
+export function detectPageLanguage(doc: Document = document): string {
+  const declared = doc.documentElement.lang
+    || doc.querySelector('meta[http-equiv="content-language" i]')?.getAttribute('content')?.split(',')[0];
+  const canonical = declared ? canonicalize(declared) : null;
+  if (canonical) {
+    return canonical;
+  }
+
+  const guessed = guessLanguage(doc.body?.innerText || '');
+  log('[semantic-search] Page declares no language, guessed:', guessed);
+  return guessed;
+}
@@ -0,0 +1,87 @@
+import { log } from "~lib/log";
+
+export interface PageWatcherOptions {
+  // Wait for the page to stay quiet this long before reporting, so a feed loading a
+  // batch of items or an expanding section counts as one change
+  debounceMs?: number;
+}
+
+// The extension's own overlay lives under this element and must not count as page content
+const OVERLAY_HOST = 'plasmo-csui';
+
+const isOwnMutation = (mutation: MutationRecord) => {
+  const target = mutation.target instanceof Element ? mutation.target : mutation.target.parentElement;
+  if (target?.closest(OVERLAY_HOST)) return true;
+  return Array.from(mutation.addedNodes).concat(Array.from(mutation.removedNodes))
+    .some(node => node instanceof Element && node.localName === OVERLAY_HOST);
+};
+
+/**
+ * Call `onChange` when the page's content changes (feeds, SPAs, expandable sections).
+ * Returns a function that stops watching.
+ */
+export function watchPageChanges(onChange: () => void, options: PageWatcherOptions = {}): () => void {
+  const { debounceMs = 3000 } = options;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const observer = new MutationObserver(mutations => {
+    if (mutations.every(isOwnMutation)) return;
+
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      log('[semantic-search] Page content changed');
+      onChange();
+    }, debounceMs);
+  });
+
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+
+  return () => {
+    clearTimeout(timer);
+    observer.disconnect();
+  };
+}
+
+export interface SettleOptions {
+  // The page counts as settled after this long without changes
+  quietMs?: number;
+  // Give up waiting for quiet after this long, e.g. on pages with tickers or animations
+  maxWaitMs?: number;
+}
+
+/**
+ * Resolve once the page has finished loading, stayed unchanged for a while and the
+ * browser is idle, so background work does not compete with the page's own.
+ */
+export function waitForPageToSettle(options: SettleOptions = {}): Promise<void> {
+  const { quietMs = 2000, maxWaitMs = 20000 } = options;
+
+  const loaded = document.readyState === 'complete'
+    ? Promise.resolve()
+    : new Promise<void>(resolve => window.addEventListener('load', () => resolve(), { once: true }));
+
+  return loaded.then(() => new Promise<void>(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = () => {
+      clearTimeout(timer);
+      clearTimeout(deadline);
+      observer.disconnect();
+      // requestIdleCallback's timeout keeps a busy page from holding this up forever
+      requestIdleCallback(() => resolve(), { timeout: quietMs });
+    };
+
+    const observer = new MutationObserver(mutations => {
+      if (mutations.every(isOwnMutation)) return;
+      clearTimeout(timer);
+      timer = setTimeout(settle, quietMs);
+    });
+    const deadline = setTimeout(() => {
+      log('[semantic-search] Page kept changing; treating it as settled');
+      settle();
+    }, maxWaitMs);
+
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+    timer = setTimeout(settle, quietMs);
+  }));
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { isPreIndexAllowed } from './pre-indexer';
+
+describe('isPreIndexAllowed', () => {
+  it('allows every web page when no domains are listed', () => {
+    expect(isPreIndexAllowed('https://example.com/article', [], [])).toBe(true);
+    expect(isPreIndexAllowed('http://localhost:8080/', [], [])).toBe(true);
+  });
+
+  it('never indexes pages that are not on the web', () => {
+    for (const url of ['chrome://extensions', 'chrome-extension://abc/sidepanel.html', 'file:///home/notes.html', 'about:blank', 'not a url']) {
+      expect(isPreIndexAllowed(url, [], []), url).toBe(false);
+    }
+  });
+
+  it('matches a listed domain and its subdomains, but not lookalikes', () => {
+    const allowed = ['example.com'];
+
+    expect(isPreIndexAllowed('https://example.com/', allowed, [])).toBe(true);
+    expect(isPreIndexAllowed('https://docs.example.com/guide', allowed, [])).toBe(true);
+    expect(isPreIndexAllowed('https://notexample.com/', allowed, [])).toBe(false);
+    expect(isPreIndexAllowed('https://example.com.evil.net/', allowed, [])).toBe(false);
+  });
+
+  it('normalizes case, whitespace and *. or . prefixes in the lists', () => {
+    expect(isPreIndexAllowed('https://Docs.Example.com/', ['  *.EXAMPLE.com '], [])).toBe(true);
+    expect(isPreIndexAllowed('https://news.example.org/', ['.example.org'], [])).toBe(true);
+    expect(isPreIndexAllowed('https://mail.example.com/', [], ['*.example.com'])).toBe(false);
+  });
+
+  it('ignores empty entries instead of matching everything', () => {
+    expect(isPreIndexAllowed('https://example.com/', ['', '  ', '*.'], [])).toBe(false);
+    expect(isPreIndexAllowed('https://example.com/', [], ['', '*.'])).toBe(true);
+  });
+
+  it('lets a blocked domain win over an allowed one', () => {
+    expect(isPreIndexAllowed('https://bank.example.com/', ['example.com'], ['bank.example.com'])).toBe(false);
+    expect(isPreIndexAllowed('https://www.example.com/', ['example.com'], ['bank.example.com'])).toBe(true);
+  });
+});
@@ -0,0 +1,218 @@
+import { log, err } from "~lib/log";
+import { call, notify } from "~lib/messaging";
+import { USER_CONFIG_STORAGE_KEY } from "~lib/user-config-storage";
+import { DEFAULT_CONFIG, type AdvancedSettings, type UserConfig } from "~types/user-config";
+
+// Sentences the offscreen document embeds at a time, pausing in between so searches get a turn
+const BATCH_SIZE = 16;
+// Sentences embedded by pre-indexing today, kept across service worker restarts
+const BUDGET_STORAGE_KEY = 'erpa_pre_index_budget';
+
+interface BudgetUsage {
+  // Local date, YYYY-MM-DD
+  day: string;
+  embedded: number;
+}
+
+interface PreIndexJob {
+  tabId: number;
+  url: string;
+}
+
+interface ActivePreIndex extends PreIndexJob {
+  // Sentences embedded so far, and how many the page needs
+  embedded: number;
+  total: number;
+}
+
+const today = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const matchesDomain = (hostname: string, domain: string): boolean => {
+  const normalized = domain.trim().toLowerCase().replace(/^\*?\./, '');
+  return normalized !== '' && (hostname === normalized || hostname.endsWith('.' + normalized));
+};
+
+/**
+ * Whether a URL may be pre-indexed: only web pages, never a blocked domain, and only an
+ * allowed domain when any are listed
+ */
+export function isPreIndexAllowed(url: string, allowedDomains: string[], blockedDomains: string[]): boolean {
+  let hostname: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+    hostname = parsed.hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  if (blockedDomains.some(domain => matchesDomain(hostname, domain))) return false;
+  return allowedDomains.length === 0 || allowedDomains.some(domain => matchesDomain(hostname, domain));
+}
+
+/**
+ * Indexes the active tab in the background once its page has settled, so the first
+ * search on it does not wait for the embeddings. Runs in the background worker, one
+ * page at a time: the content script supplies the sentences, the offscreen document
+ * embeds them in small batches and stores them, and the tab is told how far it got.
+ */
+export class PreIndexScheduler {
+  private running = false;
+  // The latest tab to index once the current job is finished; earlier requests are dropped
+  private pending: PreIndexJob | null = null;
+  // The page being embedded, while its SYNC_PAGE_INDEX runs
+  private active: ActivePreIndex | null = null;
+  // Budget updates in order, since a batch can be reported while the last one is written
+  private budgetUpdate: Promise<void> = Promise.resolve();
+
+  /**
+   * @param ensureOffscreen - creates the offscreen document if needed; it is called
+   *   before every request to it, since the document can be closed between them
+   */
+  constructor(private ensureOffscreen: () => Promise<void>) {}
+
+  /**
+   * Pre-index a tab's page if pre-indexing is on and the page and budget allow it
+   */
+  schedule(tabId: number, url: string): void {
+    this.pending = { tabId, url };
+    if (!this.running) {
+      this.drain().catch(error => err('[semantic-search] Pre-indexing stopped:', error));
+    }
+  }
+
+  /**
+   * A batch of the page being pre-indexed was embedded (PAGE_INDEX_PROGRESS from the
+   * offscreen document): count it against today's budget and tell the tab
+   */
+  async reportProgress(url: string, embedded: number, total: number): Promise<void> {
+    const active = this.active;
+    // Only the page being pre-indexed counts against the budget
+    if (!active || active.url !== url || embedded <= active.embedded) return;
+
+    const batch = embedded - active.embedded;
+    active.embedded = embedded;
+    active.total = total;
+    await this.addBudgetUsage(batch);
+    this.notifyProgress(active, false);
+  }
+
+  private notifyProgress({ tabId, url, embedded, total }: ActivePreIndex, done: boolean): void {
+    notify('content', { type: 'PRE_INDEX_PROGRESS', url, embedded, total, done }, { tabId });
+  }
+
+  private async drain(): Promise<void> {
+    this.running = true;
+    try {
+      while (this.pending) {
+        const job = this.pending;
+        this.pending = null;
+        try {
+          await this.run(job);
+        } catch (error) {
+          // Tabs without a content script (e.g. the Web Store) end up here too
+          err('[semantic-search] Pre-indexing failed for', job.url, error);
+          notify('content', { type: 'PRE_INDEX_PROGRESS', url: job.url, embedded: 0, total: 0, done: true }, { tabId: job.tabId });
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run({ tabId, url }: PreIndexJob): Promise<void> {
+    const settings = await this.getSettings();
+    if (!settings.preIndexing) return;
+    if (!isPreIndexAllowed(url, settings.preIndexAllowedDomains, settings.preIndexBlockedDomains)) {
+      log('[semantic-search] Pre-indexing not allowed for', url);
+      return;
+    }
+
+    const usage = await this.getBudgetUsage();
+    const remaining = settings.preIndexDailyBudget - usage.embedded;
+    if (remaining <= 0) {
+      log('[semantic-search] Pre-indexing budget used up for today');
+      return;
+    }
+
+    // Resolves once the page has stopped changing after load
+    const page = await call('content', { type: 'GET_PAGE_SENTENCES' }, { tabId });
+    if (page.url !== url || page.segments.length === 0) return;
+
+    await this.ensureOffscreen();
+    const { positions } = await call('offscreen', {
+      type: 'FIND_UNEMBEDDED_SENTENCES',
+      url,
+      texts: page.segments.map(segment => segment.text)
+    });
+    if (positions.length === 0) {
+      log('[semantic-search] Page already indexed:', url);
+      return;
+    }
+    if (positions.length > remaining) {
+      log('[semantic-search] Skipping pre-indexing of', url, '-', positions.length, 'sentences exceed the', remaining, 'left in today\'s budget');
+      return;
+    }
+
+    // Give up on pages the tab navigated away from while they settled
+    const tab = await chrome.tabs.get(tabId).catch(() => null);
+    if (!tab || tab.url !== url) {
+      log('[semantic-search] Tab left', url, '- pre-indexing abandoned');
+      return;
+    }
+
+    log('[semantic-search] Pre-indexing', url, '-', positions.length, 'sentences to embed');
+    const active: ActivePreIndex = { tabId, url, embedded: 0, total: positions.length };
+    this.active = active;
+    this.notifyProgress(active, false);
+
+    // Only the sentences travel; the offscreen document embeds the new ones itself and
+    // reports each batch, which reportProgress() counts against the budget
+    try {
+      await this.ensureOffscreen();
+      const sync = await call('offscreen', {
+        type: 'SYNC_PAGE_INDEX',
+        url,
+        title: page.title,
+        segments: page.segments,
+        batchSize: BATCH_SIZE
+      });
+      // Batches whose report did not arrive before the sync finished
+      if (sync.embedded > active.embedded) {
+        const uncounted = sync.embedded - active.embedded;
+        active.embedded = sync.embedded;
+        await this.addBudgetUsage(uncounted);
+      }
+      this.notifyProgress(active, true);
+      log('[semantic-search] ✅ Pre-indexed', url, sync);
+    } finally {
+      this.active = null;
+    }
+  }
+
+  private async getSettings(): Promise<AdvancedSettings> {
+    const result = await chrome.storage.local.get(USER_CONFIG_STORAGE_KEY);
+    const config = result[USER_CONFIG_STORAGE_KEY] as UserConfig | undefined;
+    return { ...DEFAULT_CONFIG.advanced, ...config?.advanced };
+  }
+
+  private async getBudgetUsage(): Promise<BudgetUsage> {
+    const result = await chrome.storage.local.get(BUDGET_STORAGE_KEY);
+    const usage = result[BUDGET_STORAGE_KEY] as BudgetUsage | undefined;
+    return usage && usage.day === today() ? usage : { day: today(), embedded: 0 };
+  }
+
+  private addBudgetUsage(embedded: number): Promise<void> {
+    const update = this.budgetUpdate.then(async () => {
+      const usage = await this.getBudgetUsage();
+      await chrome.storage.local.set({
+        [BUDGET_STORAGE_KEY]: { day: usage.day, embedded: usage.embedded + embedded }
+      });
+    });
+    this.budgetUpdate = update.catch(() => {});
+    return update;
+  }
+}
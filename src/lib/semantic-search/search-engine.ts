@@ -1,8 +1,17 @@
 import { log, err } from "~lib/log";
+import { call } from "~lib/messaging";
 import { EmbeddingService } from "./embedding-service";
-import type { CachedEmbeddings } from "./cache";
-import { GeminiRanker } from "./gemini-ranker";
-import { segmentPageIntoSentences, filterMeaningfulSegments, type SentenceSegment } from "./sentence-segmenter";
+import type { CachedEmbeddings, SearchMode, SerializableSentenceSegment } from "./cache";
+import { GeminiRanker, type AnswerSpan } from "./gemini-ranker";
+import { buildSentenceContext, DEFAULT_CONTEXT_SIZE, type SentenceContext } from "./sentence-context";
+import { detectSections } from "~hooks/useDetectSections";
+import {
+  segmentPageIntoSentences,
+  filterMeaningfulSegments,
+  resolveSentenceElement,
+  type SegmentKind,
+  type SentenceSegment
+} from "./sentence-segmenter";
 
 export interface SearchResult {
   sentence: SentenceSegment;
@@ -12,12 +21,22 @@ export interface SearchResult {
   selector: string;
   answer?: string;
   confidence?: number;
+  // Where in the sentence's text the answer is, when the ranker found it
+  answerSpan?: AnswerSpan;
+  // Neighbouring sentences and the headings the sentence sits under
+  context: SentenceContext;
 }
 
 export interface SearchOptions {
   maxCandidates?: number;
   useGeminiRanking?: boolean;
   autoPlayFirst?: boolean;
+  // How candidates are retrieved before ranking; 'hybrid' also catches exact names and numbers
+  mode?: SearchMode;
+  // Sentences of context gathered on each side of a match
+  contextSize?: number;
+  // Only search these kinds of segments, e.g. tables; every kind by default
+  kinds?: SegmentKind[];
 }
 
 /**
@@ -28,6 +47,11 @@ export class SemanticSearchEngine {
   private embeddingService: EmbeddingService;
   private ranker: GeminiRanker;
   private isInitialized = false;
+  // Pages synced with the index during this visit, with their sentence counts
+  private syncedPages = new Map<string, number>();
+  // Every sentence of each synced page as last segmented, for the context of matches
+  private pageSegments = new Map<string, SentenceSegment[]>();
+  private pendingSync: Promise<unknown> = Promise.resolve();
 
   private constructor() {
     this.embeddingService = EmbeddingService.getInstance();
@@ -71,7 +95,10 @@ export class SemanticSearchEngine {
     const {
       maxCandidates = 10,
       useGeminiRanking = true,
-      autoPlayFirst = false
+      autoPlayFirst = false,
+      mode = 'hybrid',
+      contextSize = DEFAULT_CONTEXT_SIZE,
+      kinds
     } = options;
 
     try {
@@ -80,102 +107,74 @@ export class SemanticSearchEngine {
       // Initialize if needed
       await this.initialize();
 
-      // Get current page URL
       const url = window.location.href;
+      const sentenceCount = await this.ensurePageIndexed(url);
 
-
-      let segments: SentenceSegment[] = [];
-      let sentenceEmbeddings: number[][];
-      let cachedEmbeddings: CachedEmbeddings | null = null;
-
-      // Step 1: Check cache by URL only (no sentences required)
-      log('[semantic-search] 🔍 Checking cache by URL...');
-      cachedEmbeddings = await this.getCachedEmbeddingsByUrl(url);
-
-      if (cachedEmbeddings && cachedEmbeddings.embeddings && cachedEmbeddings.embeddings.length > 0) {
-        // Use cached embeddings directly - no validation needed
-        sentenceEmbeddings = cachedEmbeddings.embeddings;
-        segments = cachedEmbeddings.sentences || [];
-        log('[semantic-search] ✅ Using', sentenceEmbeddings.length, 'cached embeddings - skipping generation!');
-      }
-
-      if (!cachedEmbeddings) {
-        // Generate embeddings for all sentences
-        // Segment page into sentences
-        const allSegments = segmentPageIntoSentences();
-        segments = filterMeaningfulSegments(allSegments);
-
-        if (segments.length === 0) {
-          log('[semantic-search] No meaningful sentences found on page');
-          return [];
-        }
-
-        log('[semantic-search] Found', segments.length, 'meaningful sentences');
-        log('[semantic-search] ⚙️ No valid cache - Generating embeddings for', segments.length, 'sentences (this may take ~30 seconds)...');
-        const texts = segments.map(s => s.text);
-        sentenceEmbeddings = await this.embeddingService.generateBatchEmbeddings(texts);
-
-        // Cache the embeddings via background worker
-        log('[semantic-search] 💾 Saving embeddings to cache...');
-        const cacheResult = await this.cacheEmbeddingsInBackground(url, segments, sentenceEmbeddings);
-        if (cacheResult) {
-          log('[semantic-search] ✅ Successfully saved', sentenceEmbeddings.length, 'embeddings to cache');
-        } else {
-          log('[semantic-search] ⚠️ Failed to cache embeddings, but continuing with search');
-        }
+      if (sentenceCount === 0) {
+        return [];
       }
 
-      // Generate query embedding
-      const queryEmbedding = await this.embeddingService.generateEmbedding(query);
-
-      // Find top candidates by similarity
-      const topSimilar = this.embeddingService.findTopSimilar(
-        queryEmbedding,
-        sentenceEmbeddings,
-        maxCandidates
-      );
+      // Find top candidates in the offscreen document's vector and keyword indexes
+      const { matches } = await call('background', {
+        type: 'SEARCH_SIMILAR',
+        query,
+        url,
+        limit: maxCandidates,
+        mode,
+        kinds
+      });
 
-      log('[semantic-search] Found', topSimilar.length, 'candidate sentences');
+      log('[semantic-search] Found', matches.length, 'candidate sentences');
 
-      if (topSimilar.length === 0) {
+      if (matches.length === 0) {
         return [];
       }
 
-      // Get the actual sentence segments for top candidates
-      // When using cached embeddings, the segments array indices match the embedding indices
-      const candidateSegments = topSimilar.map(({ index: similarityIndex }) => {
-        return segments[similarityIndex];
-      }).filter(Boolean);
+      // Cached sentences carry a selector rather than a live element
+      const candidateSegments: SentenceSegment[] = matches.map(({ sentence }) => ({
+        ...sentence,
+        element: resolveSentenceElement(sentence.selector, sentence.text, document, sentence.kind)
+      }));
+      const topSimilar = matches.map((match, index) => ({ index, similarity: match.similarity }));
       log('[semantic-search] candidateSegments: ', candidateSegments);
 
+      const pageSegments = this.pageSegments.get(url) ?? [];
+      const sections = detectSections();
+      const contexts = candidateSegments.map(segment =>
+        buildSentenceContext(pageSegments, segment, segment.element, sections, contextSize)
+      );
+
       let results: SearchResult[];
 
       if (useGeminiRanking) {
         // Use Gemini Nano to rank candidates
-        const rankingResult = await this.ranker.rankCandidates(query, candidateSegments);
-
-        if (rankingResult) {
-          log('[semantic-search] rankingResult: ', rankingResult);
-          const bestSegment = candidateSegments[rankingResult.index];
-          log('[semantic-search] bestSegment: ', bestSegment);
-          results = [{
-            sentence: bestSegment,
-            index: rankingResult.index,
-            score: rankingResult.confidence,
-            element: bestSegment.element,
-            selector: bestSegment.selector,
-            answer: rankingResult.answer,
-            confidence: rankingResult.confidence
-          }];
-
-          log('[semantic-search] Gemini Nano selected best match:', rankingResult);
+        const rankings = await this.ranker.rankCandidates(query, candidateSegments, { contexts });
+
+        if (rankings && rankings.length > 0) {
+          // Every ranked candidate is kept so the search bar can step through alternatives
+          results = rankings.map(ranking => {
+            const segment = candidateSegments[ranking.index];
+            return {
+              sentence: segment,
+              index: ranking.index,
+              score: ranking.confidence,
+              element: segment.element,
+              selector: segment.selector,
+              answer: ranking.answer,
+              confidence: ranking.confidence,
+              answerSpan: ranking.span,
+              context: contexts[ranking.index]
+            };
+          });
+
+          log('[semantic-search] Gemini Nano ranked', results.length, 'matches, best:', rankings[0]);
         } else {
           // Fallback to similarity ranking
-          results = this.createSimilarityResults(topSimilar, candidateSegments);
+          results = this.createSimilarityResults(topSimilar, candidateSegments, contexts);
         }
       } else {
         // Use pure similarity ranking
-        results = this.createSimilarityResults(topSimilar, candidateSegments);
+        results = this.createSimilarityResults(topSimilar, candidateSegments, contexts);
       }
 
       log('[semantic-search] Search completed, found', results.length, 'results');
@@ -187,12 +186,101 @@ export class SemanticSearchEngine {
     }
   }
 
+  /**
+   * Make sure the current page has cached embeddings without running a search.
+   * Used to index background tabs for cross-tab search.
+   * @returns number of indexed sentences
+   */
+  async indexPage(): Promise<number> {
+    await this.initialize();
+    return this.ensurePageIndexed(window.location.href);
+  }
+
+  /**
+   * The current page's meaningful sentences, for the background worker to index ahead
+   * of the first search
+   */
+  getPageSentences(): SerializableSentenceSegment[] {
+    return this.segmentPage(window.location.href);
+  }
+
+  /**
+   * Bring the current page's index up to date after it changed, if it was indexed during
+   * this visit. Called by the page change watcher; only new or changed sentences are
+   * embedded.
+   */
+  async refreshIndex(): Promise<void> {
+    const url = window.location.href;
+    if (!this.syncedPages.has(url)) return;
+    await this.syncPageIndex(url);
+  }
+
+  /**
+   * Make sure a page's sentences are in the index. The first time per visit the page is
+   * synced, so a revisited page that changed since it was indexed is brought up to date.
+   * @returns number of indexed sentences
+   */
+  private async ensurePageIndexed(url: string): Promise<number> {
+    const sentenceCount = this.syncedPages.get(url);
+    if (sentenceCount !== undefined) {
+      return sentenceCount;
+    }
+    return this.syncPageIndex(url);
+  }
+
+  /**
+   * Segment the page and sync its sentences with the index. Syncs run one at a time; a
+   * sync requested while one runs waits for it and then picks up the latest content.
+   * @returns number of indexed sentences
+   */
+  private syncPageIndex(url: string): Promise<number> {
+    const sync = this.pendingSync
+      .catch(() => undefined)
+      .then(async () => {
+        const segments = this.segmentPage(url);
+
+        if (segments.length === 0) {
+          log('[semantic-search] No meaningful sentences found on page');
+          return 0;
+        }
+
+        log('[semantic-search] Syncing', segments.length, 'meaningful sentences with the index...');
+        const { sentenceCount, embedded, removed } = await call('background', {
+          type: 'SYNC_PAGE_INDEX',
+          url,
+          title: document.title,
+          segments
+        });
+
+        log('[semantic-search] ✅ Page index synced:', { sentenceCount, embedded, removed });
+        this.syncedPages.set(url, sentenceCount);
+        return sentenceCount;
+      });
+
+    this.pendingSync = sync;
+    return sync;
+  }
+
+  /**
+   * Segment the page, keeping every sentence for the context of matches, and return the
+   * meaningful ones in the form the index stores
+   */
+  private segmentPage(url: string): SerializableSentenceSegment[] {
+    const pageSegments = segmentPageIntoSentences();
+    this.pageSegments.set(url, pageSegments);
+
+    return filterMeaningfulSegments(pageSegments).map(({ kind, text, selector, startOffset, endOffset, index }) => ({
+      kind, text, selector, startOffset, endOffset, index
+    }));
+  }
+
   /**
    * Create search results from similarity scores
    */
   private createSimilarityResults(
     topSimilar: Array<{ index: number; similarity: number }>,
-    candidateSegments: SentenceSegment[]
+    candidateSegments: SentenceSegment[],
+    contexts: SentenceContext[]
   ): SearchResult[] {
     return topSimilar.map(({ index, similarity }) => {
       const segment = candidateSegments[index];
@@ -202,38 +290,12 @@ export class SemanticSearchEngine {
         score: similarity,
         element: segment.element,
         selector: segment.selector,
-        confidence: similarity
+        confidence: similarity,
+        context: contexts[index]
       };
     });
   }
 
-  /**
-   * Get cached embeddings from background worker (URL-only lookup)
-   */
-  private async getCachedEmbeddingsByUrl(url: string): Promise<CachedEmbeddings | null> {
-    try {
-      log('[semantic-search] Requesting cached embeddings by URL from background for:', url);
-      const response = await chrome.runtime.sendMessage({
-        type: 'GET_CACHED_EMBEDDINGS_BY_URL',
-        url
-      });
-
-      log('[semantic-search] Response from GET_CACHED_EMBEDDINGS_BY_URL (from background):', response);
-
-      if (response?.success && response.cachedEmbeddings) {
-        log('[semantic-search] 🎯 Cache hit! Received', response.cachedEmbeddings.embeddings?.length, 'embeddings for URL');
-        return response.cachedEmbeddings;
-      }
-
-      log('[semantic-search] ⭕ Cache miss - no embeddings found for URL');
-      return null;
-    } catch (error) {
-      err('[semantic-search] ❌ Error retrieving cached embeddings by URL from background:', error);
-      return null;
-    }
-  }
-
-
   /**
    * Get cached embeddings from background worker (legacy method for backward compatibility)
    * @deprecated Use getCachedEmbeddingsByUrl + validateCachedEmbeddings instead
@@ -241,17 +303,17 @@ export class SemanticSearchEngine {
   private async getCachedEmbeddingsFromBackground(url: string, segments: SentenceSegment[]): Promise<CachedEmbeddings | null> {
     try {
       log('[semantic-search] Requesting cached embeddings from background for:', url);
-      const response = await chrome.runtime.sendMessage({
+      const { cachedEmbeddings } = await call('background', {
         type: 'GET_CACHED_EMBEDDINGS',
         url,
         segments
       });
 
-      log('[semantic-search] Response from GET_CACHED_EMBEDDINGS (from background):', response);
+      log('[semantic-search] Response from GET_CACHED_EMBEDDINGS (from background):', cachedEmbeddings);
 
-      if (response?.success && response.cachedEmbeddings) {
-        log('[semantic-search] 🎯 Cache hit! Received', response.cachedEmbeddings.embeddings?.length, 'embeddings');
-        return response.cachedEmbeddings;
+      if (cachedEmbeddings) {
+        log('[semantic-search] 🎯 Cache hit! Received', cachedEmbeddings.embeddings?.length, 'embeddings');
+        return cachedEmbeddings;
       }
 
       log('[semantic-search] ⭕ Cache miss - no embeddings found');
@@ -262,46 +324,13 @@ export class SemanticSearchEngine {
     }
   }
 
-  /**
-   * Cache embeddings via background worker
-   * @returns true if caching was successful, false otherwise
-   */
-  private async cacheEmbeddingsInBackground(url: string, segments: SentenceSegment[], embeddings: number[][]): Promise<boolean> {
-    try {
-      log('[semantic-search] Sending', embeddings.length, 'embeddings to background for caching...');
-      const response = await chrome.runtime.sendMessage({
-        type: 'CACHE_EMBEDDINGS',
-        url,
-        segments,
-        embeddings
-      });
-
-      if (!response?.success) {
-        throw new Error(response?.error || 'Failed to cache embeddings');
-      }
-
-      return true;
-    } catch (error) {
-      err('[semantic-search] ❌ Error caching embeddings in background:', error);
-      // Don't throw - caching failure shouldn't break search
-      return false;
-    }
-  }
-
   /**
    * Get cache statistics
    */
   async getCacheStats() {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'GET_CACHE_STATS'
-      });
-
-      if (response?.success) {
-        return response.stats;
-      } else {
-        throw new Error(response?.error || 'Failed to get cache stats');
-      }
+      const { stats } = await call('background', { type: 'GET_CACHE_STATS' });
+      return stats;
     } catch (error) {
       err('[semantic-search] Error getting cache stats:', error);
       throw error;
@@ -314,15 +343,8 @@ export class SemanticSearchEngine {
   async clearCache(): Promise<void> {
     try {
       // Send message to background worker to clear cache
-      const response = await chrome.runtime.sendMessage({
-        type: 'CLEANUP_CACHE'
-      });
-
-      if (response?.success) {
-        log('[semantic-search] Cache cleared successfully');
-      } else {
-        throw new Error(response?.error || 'Failed to clear cache');
-      }
+      await call('background', { type: 'CLEANUP_CACHE' });
+      log('[semantic-search] Cache cleared successfully');
     } catch (error) {
       err('[semantic-search] Error clearing cache:', error);
       throw error;
@@ -341,6 +363,8 @@ export class SemanticSearchEngine {
    */
   reset(): void {
     this.isInitialized = false;
+    this.syncedPages.clear();
+    this.pageSegments.clear();
     this.embeddingService.reset();
     this.ranker.reset();
   }
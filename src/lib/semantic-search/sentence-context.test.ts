@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildSentenceContext, findEnclosingSection, getHeadingPath } from './sentence-context';
+import type { SentenceSegment } from './sentence-segmenter';
+
+const OUTLINE = `
+  <h1>Trailblazer 2</h1>
+  <p id="overview">The pack holds 28 liters.</p>
+  <h2>Fit</h2>
+  <h3>Shoulder straps</h3>
+  <p id="straps">Adjust the straps to your torso length.</p>
+  <h3>Hip belt [edit]</h3>
+  <p id="belt">The belt carries most of the load.</p>
+  <h2>Care</h2>
+  <p id="care">Wash by hand in cold water.</p>
+`;
+
+const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+const segments = (texts: string[], kinds: Array<SentenceSegment['kind']> = []): SentenceSegment[] =>
+  texts.map((text, index) => ({
+    kind: kinds[index] ?? 'sentence',
+    text,
+    // Only the texts and kinds make the window
+    element: null,
+    selector: `p:nth-of-type(${index + 1})`,
+    startOffset: 0,
+    endOffset: text.length,
+    index
+  }));
+
+describe('getHeadingPath', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('follows the outline down to the nearest heading', () => {
+    document.body.innerHTML = OUTLINE;
+
+    expect(getHeadingPath(byId('overview'))).toEqual(['Trailblazer 2']);
+    expect(getHeadingPath(byId('straps'))).toEqual(['Trailblazer 2', 'Fit', 'Shoulder straps']);
+  });
+
+  it('replaces a heading with the next one of the same or a higher level', () => {
+    document.body.innerHTML = OUTLINE;
+
+    expect(getHeadingPath(byId('belt'))).toEqual(['Trailblazer 2', 'Fit', 'Hip belt']);
+    expect(getHeadingPath(byId('care'))).toEqual(['Trailblazer 2', 'Care']);
+  });
+
+  it('is empty before the first heading and skips headings without text', () => {
+    document.body.innerHTML = '<p id="lead">Intro.</p><h1>Title</h1><h2></h2><p id="body">Text.</p>';
+
+    expect(getHeadingPath(byId('lead'))).toEqual([]);
+    expect(getHeadingPath(byId('body'))).toEqual(['Title']);
+  });
+});
+
+describe('findEnclosingSection', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('takes the last section that starts before the element, whatever order the sections come in', () => {
+    document.body.innerHTML = OUTLINE;
+    const sections = [
+      { title: 'Care', cssSelector: 'h2:nth-of-type(2)' },
+      { title: 'Trailblazer 2', cssSelector: 'h1' },
+      { title: 'Fit', cssSelector: 'h2:nth-of-type(1)' }
+    ];
+
+    expect(findEnclosingSection(byId('belt'), sections)?.title).toBe('Fit');
+    expect(findEnclosingSection(byId('care'), sections)?.title).toBe('Care');
+    expect(findEnclosingSection(byId('overview'), sections)?.title).toBe('Trailblazer 2');
+  });
+
+  it('skips sections whose selector is invalid or matches nothing', () => {
+    document.body.innerHTML = OUTLINE;
+    const sections = [
+      { title: 'Broken', cssSelector: 'h2:nth-of-type(' },
+      { title: 'Gone', cssSelector: '#removed' }
+    ];
+
+    expect(findEnclosingSection(byId('care'), sections)).toBeNull();
+  });
+});
+
+describe('buildSentenceContext', () => {
+  const page = segments(['First.', 'Second.', 'Third.', 'Fourth.', 'Fifth.']);
+
+  it('takes up to the given number of sentences on each side', () => {
+    const context = buildSentenceContext(page, page[2], null, [], 2);
+
+    expect(context.before).toEqual(['First.', 'Second.']);
+    expect(context.after).toEqual(['Fourth.', 'Fifth.']);
+  });
+
+  it('clips the window at the start and the end of the page', () => {
+    expect(buildSentenceContext(page, page[0], null, [], 2)).toMatchObject({ before: [], after: ['Second.', 'Third.'] });
+    expect(buildSentenceContext(page, page[4], null, [], 2)).toMatchObject({ before: ['Third.', 'Fourth.'], after: [] });
+    expect(buildSentenceContext(page, page[1], null, [], 3).before).toEqual(['First.']);
+  });
+
+  it('stops the window at segments of another kind', () => {
+    const mixed = segments(['Caption.', 'Row one', 'Row two', 'Row three', 'After the table.'], ['sentence', 'table', 'table', 'table', 'sentence']);
+
+    expect(buildSentenceContext(mixed, mixed[1], null, [], 2)).toMatchObject({ before: [], after: ['Row two', 'Row three'] });
+    expect(buildSentenceContext(mixed, mixed[3], null, [], 2)).toMatchObject({ before: ['Row one', 'Row two'], after: [] });
+  });
+
+  it('finds the sentence by its text when its index is stale, and has no window when it is gone', () => {
+    const moved = buildSentenceContext(page, { text: 'Fourth.', index: 0 }, null, [], 1);
+    expect(moved).toMatchObject({ before: ['Third.'], after: ['Fifth.'] });
+
+    const gone = buildSentenceContext(page, { text: 'Sixth.', index: 5 }, null, [], 1);
+    expect(gone).toMatchObject({ before: [], after: [], section: null, headingPath: [] });
+  });
+});
@@ -0,0 +1,120 @@
+import type { Section } from "~hooks/useDetectSections";
+import type { SentenceSegment } from "./sentence-segmenter";
+
+// What surrounds a matched sentence on the page, so it can be understood on its own
+export interface SentenceContext {
+  // Up to `size` sentences before and after the match, in page order
+  before: string[];
+  after: string[];
+  // The detectSections() section the sentence falls in
+  section: Pick<Section, 'title' | 'cssSelector'> | null;
+  // Titles of the headings the sentence sits under, outermost first
+  headingPath: string[];
+}
+
+// Sentences taken on each side of a match unless the caller asks otherwise
+export const DEFAULT_CONTEXT_SIZE = 2;
+
+const HEADING_SELECTOR = 'h1,h2,h3,h4,h5,h6';
+
+const headingTitle = (heading: Element): string =>
+  (heading.textContent || '').replace('[edit]', '').trim();
+
+/**
+ * The last section that starts before the element (or contains it) in document order
+ */
+export function findEnclosingSection(element: HTMLElement, sections: Section[]): Section | null {
+  let enclosing: Section | null = null;
+
+  for (const section of sections) {
+    let sectionElement: Element | null = null;
+    try {
+      sectionElement = document.querySelector(section.cssSelector);
+    } catch {
+      continue;
+    }
+    if (!sectionElement) continue;
+
+    const position = sectionElement.compareDocumentPosition(element);
+    if (sectionElement === element || position & Node.DOCUMENT_POSITION_FOLLOWING) {
+      // Visual clusters are not in document order, so keep the one closest to the element
+      if (!enclosing || isAfter(sectionElement, enclosing)) {
+        enclosing = section;
+      }
+    }
+  }
+
+  return enclosing;
+}
+
+const isAfter = (element: Element, section: Section): boolean => {
+  const other = document.querySelector(section.cssSelector);
+  return !other || Boolean(other.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING);
+};
+
+/**
+ * The outline path to an element: the nearest heading before it, the nearest higher
+ * level heading before that, and so on up to h1.
+ */
+export function getHeadingPath(element: HTMLElement, root: Document = document): string[] {
+  const path: Array<{ level: number; title: string }> = [];
+
+  for (const heading of Array.from(root.body.querySelectorAll(HEADING_SELECTOR))) {
+    const precedes = heading === element
+      || Boolean(heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING);
+    if (!precedes) break;
+
+    const title = headingTitle(heading);
+    if (!title) continue;
+
+    const level = Number(heading.tagName[1]);
+    while (path.length > 0 && path[path.length - 1].level >= level) {
+      path.pop();
+    }
+    path.push({ level, title });
+  }
+
+  return path.map(({ title }) => title);
+}
+
+const takeWhile = <T>(items: T[], keep: (item: T) => boolean): T[] => {
+  const end = items.findIndex(item => !keep(item));
+  return end === -1 ? items : items.slice(0, end);
+};
+
+const takeWhileFromEnd = <T>(items: T[], keep: (item: T) => boolean): T[] =>
+  takeWhile([...items].reverse(), keep).reverse();
+
+/**
+ * Gather the context of one sentence of the page.
+ * @param segments - the page's sentences in order, as segmentPageIntoSentences() returns them
+ * @param sentence - the matched sentence; its index is looked up in segments, falling back
+ *   to its text when the page changed since it was segmented
+ */
+export function buildSentenceContext(
+  segments: SentenceSegment[],
+  sentence: Pick<SentenceSegment, 'text' | 'index'>,
+  element: HTMLElement | null,
+  sections: Section[],
+  size: number = DEFAULT_CONTEXT_SIZE
+): SentenceContext {
+  const position = segments[sentence.index]?.text === sentence.text
+    ? sentence.index
+    : segments.findIndex(segment => segment.text === sentence.text);
+
+  // Neighbours of the same kind only: a table row's context is the rows around it, not
+  // the image after the table
+  const kind = segments[position]?.kind;
+  const sameKind = (segment: SentenceSegment) => segment.kind === kind;
+  const before = position === -1 ? [] : takeWhileFromEnd(segments.slice(Math.max(0, position - size), position), sameKind);
+  const after = position === -1 ? [] : takeWhile(segments.slice(position + 1, position + 1 + size), sameKind);
+
+  const section = element ? findEnclosingSection(element, sections) : null;
+
+  return {
+    before: before.map(segment => segment.text),
+    after: after.map(segment => segment.text),
+    section: section ? { title: section.title, cssSelector: section.cssSelector } : null,
+    headingPath: element ? getHeadingPath(element) : []
+  };
+}
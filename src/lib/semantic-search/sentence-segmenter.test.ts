@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { locateAnswerSpan } from './gemini-ranker';
+import { findTextRange } from './sentence-segmenter';
+
+const render = (html: string): HTMLElement => {
+  document.body.innerHTML = html;
+  return document.body.firstElementChild as HTMLElement;
+};
+
+describe('findTextRange', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('selects the characters of the sentence across inline elements', () => {
+    const element = render('<p>Shipping is <strong>free</strong> on orders over $50.</p>');
+
+    expect(findTextRange(element, 'Shipping is free on orders over $50.', 12, 16)?.toString()).toBe('free');
+    expect(findTextRange(element, 'free on orders', 8, 14)?.toString()).toBe('orders');
+  });
+
+  it('compares whitespace collapsed in the page and in the sentence', () => {
+    const element = render('<p>\n  Returns are\n    accepted   <em>within</em>\n 30 days.</p>');
+
+    expect(findTextRange(element, 'Returns are accepted within 30 days.', 12, 27)?.toString()).toBe('accepted   within');
+    expect(findTextRange(element, 'Returns  are\taccepted within 30 days.', 0, 11)?.toString()).toBe('Returns are');
+  });
+
+  it('highlights the answer span the ranker located, whatever the spacing', () => {
+    const sentence = 'Returns are\n    accepted   within 30 days.';
+    const element = render(`<p>${sentence}</p>`);
+
+    const span = locateAnswerSpan(sentence, 'within 30 days');
+
+    expect(findTextRange(element, sentence, span!.start, span!.end)?.toString()).toBe('within 30 days');
+  });
+
+  it('returns null when the element no longer shows the sentence or the span is empty', () => {
+    const element = render('<p>Gift cards never expire.</p>');
+
+    expect(findTextRange(element, 'Gift cards expire.', 0, 4)).toBeNull();
+    expect(findTextRange(element, 'Gift cards never expire.', 4, 4)).toBeNull();
+  });
+});
@@ -1,8 +1,20 @@
 import { findReadableNodesUntilNextSection } from "~lib/debugging/readable";
 import { log } from "~lib/log";
 import { detectSections } from "~hooks/useDetectSections";
+import { detectPageLanguage } from "./language";
+import { extractStructuredSegments } from "./structured-segments";
+
+/**
+ * What a segment was made from. Sentences come from the page's running text; the others
+ * are written from structured content that has no sentences of its own: a table row with
+ * its column headers, an image's or chart's description, a definition list entry.
+ */
+export type SegmentKind = 'sentence' | 'table' | 'image' | 'definition';
+
+export const SEGMENT_KINDS: SegmentKind[] = ['sentence', 'table', 'image', 'definition'];
 
 export interface SentenceSegment {
+  kind: SegmentKind;
   text: string;
   element: HTMLElement;
   selector: string;
@@ -45,12 +57,16 @@ function generateUniqueSelector(el: Element): string {
   return path.join(' > ');
 }
 
+// Han, kana and Hangul carry a word's meaning in one or two characters
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
 /**
- * Segments text into sentences using Intl.Segmenter
+ * Segments text into sentences using Intl.Segmenter with the text's locale, so that
+ * e.g. Japanese sentences split on 。 and Spanish ones keep their ¿ and ¡
  */
-function segmentTextIntoSentences(text: string): string[] {
+function segmentTextIntoSentences(text: string, locale: string): string[] {
   try {
-    const segmenter = new Intl.Segmenter("en", { granularity: "sentence" });
+    const segmenter = new Intl.Segmenter(locale, { granularity: "sentence" });
     const segments = [...segmenter.segment(text)]
       .map(seg => seg.segment.trim())
       .filter(s => s.length > 0);
@@ -59,7 +75,7 @@ function segmentTextIntoSentences(text: string): string[] {
     log('Intl.Segmenter not available, falling back to regex:', error);
     // Fallback to regex-based sentence splitting
     return text
-      .split(/[.!?]+/)
+      .split(/[.!?。！？]+/)
       .map(s => s.trim())
       .filter(s => s.length > 0);
   }
@@ -95,6 +111,7 @@ function mapSentencesToElements(
     // If we found an element, create a segment
     if (bestElement) {
       segments.push({
+        kind: 'sentence',
         text: sentence,
         element: bestElement,
         selector: bestSelector,
@@ -106,6 +123,7 @@ function mapSentencesToElements(
       // Fallback: assign to the first element if no specific match found
       if (elements.length > 0) {
         segments.push({
+          kind: 'sentence',
           text: sentence,
           element: elements[0],
           selector: generateUniqueSelector(elements[0]),
@@ -124,7 +142,7 @@ function mapSentencesToElements(
 /**
  * Process readable nodes and convert them to sentence segments
  */
-function processReadableNodes(readableNodes: HTMLElement[], source: string): SentenceSegment[] {
+function processReadableNodes(readableNodes: HTMLElement[], source: string, locale: string): SentenceSegment[] {
   // Extract text content from all nodes
   const fullText = readableNodes
     .map(node => node.textContent || '')
@@ -135,8 +153,8 @@ function processReadableNodes(readableNodes: HTMLElement[], source: string): Sen
   log('[semantic-search] Extracted text length from', source + ':', fullText.length);
 
   // Segment into sentences
-  const sentences = segmentTextIntoSentences(fullText);
-  log('[semantic-search] Segmented into', sentences.length, 'sentences');
+  const sentences = segmentTextIntoSentences(fullText, locale);
+  log('[semantic-search] Segmented into', sentences.length, 'sentences (locale:', locale + ')');
 
   // Map sentences back to their DOM elements
   const segments = mapSentencesToElements(sentences, readableNodes);
@@ -146,9 +164,18 @@ function processReadableNodes(readableNodes: HTMLElement[], source: string): Sen
 }
 
 /**
- * Extracts readable content from the page and segments it into sentences
+ * Extracts readable content from the page and segments it into sentences of the page's
+ * language, followed by segments for its tables, images and definition lists
  */
-export function segmentPageIntoSentences(): SentenceSegment[] {
+export function segmentPageIntoSentences(locale: string = detectPageLanguage()): SentenceSegment[] {
+  const sentences = segmentPageText(locale);
+  // Numbered after the sentences, so sentence indexes do not shift when e.g. an image is added
+  const structured = extractStructuredSegments(document, sentences.length);
+  log('[semantic-search] Found', structured.length, 'table, image and definition segments');
+  return [...sentences, ...structured];
+}
+
+function segmentPageText(locale: string): SentenceSegment[] {
   try {
     log('[semantic-search] Starting page segmentation...');
     
@@ -163,7 +190,7 @@ export function segmentPageIntoSentences(): SentenceSegment[] {
         log('[semantic-search] No readable nodes found');
         return [];
       }
-      return processReadableNodes(readableNodes, 'body');
+      return processReadableNodes(readableNodes, 'body', locale);
     }
 
     log('[semantic-search] Found', sections.length, 'sections');
@@ -190,7 +217,7 @@ export function segmentPageIntoSentences(): SentenceSegment[] {
     }
 
     log('[semantic-search] Total readable nodes collected:', allReadableNodes.length);
-    return processReadableNodes(allReadableNodes, 'sections');
+    return processReadableNodes(allReadableNodes, 'sections', locale);
     
   } catch (error) {
     log('[semantic-search] Error during page segmentation:', error);
@@ -204,22 +231,114 @@ export function segmentPageIntoSentences(): SentenceSegment[] {
 export function filterMeaningfulSegments(segments: SentenceSegment[]): SentenceSegment[] {
   return segments.filter(segment => {
     const text = segment.text.trim();
+
+    // Structured segments are mostly names and figures ("Price: $20"), already chosen
+    // for describing something
+    if (segment.kind !== 'sentence') return text.length >= 3;
     
-    // Filter out very short sentences
-    if (text.length < 10) return false;
+    // Filter out very short sentences. CJK sentences say as much in far fewer characters.
+    if (text.length < (CJK_PATTERN.test(text) ? 4 : 10)) return false;
     
-    // Filter out sentences that are mostly punctuation or numbers
-    const alphaRatio = (text.match(/[a-zA-Z]/g) || []).length / text.length;
+    // Filter out sentences that are mostly punctuation or numbers, in any script
+    const alphaRatio = (text.match(/\p{L}/gu) || []).length / text.length;
     if (alphaRatio < 0.5) return false;
     
     // Filter out common non-content patterns
     const skipPatterns = [
       /^(click|tap|press|enter|submit|continue|next|back|menu|home|search|login|logout)$/i,
       /^\d+$/,
-      /^[^\w\s]+$/,
+      /^[^\p{L}\p{N}\s]+$/u,
       /^(yes|no|ok|cancel|close|open)$/i
     ];
     
     return !skipPatterns.some(pattern => pattern.test(text));
   });
 }
+
+// Whitespace runs collapsed to one space, as sentences are compared with what a page shows
+export const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Find the element showing a stored sentence. The stored selector is used while its
+ * element still contains the text; pages that re-render (feeds, SPAs) leave selectors
+ * pointing elsewhere, so otherwise the deepest element containing the text is used.
+ * Structured segments are written rather than shown as-is, so only their selector is tried.
+ */
+export function resolveSentenceElement(
+  selector: string,
+  text: string,
+  root: Document = document,
+  kind: SegmentKind = 'sentence'
+): HTMLElement | null {
+  if (kind !== 'sentence') {
+    try {
+      return root.querySelector(selector) as HTMLElement | null;
+    } catch (error) {
+      log('[semantic-search] Invalid stored selector:', selector);
+      return null;
+    }
+  }
+
+  const needle = normalizeText(text);
+  const contains = (element: Element) => normalizeText(element.textContent || '').includes(needle);
+
+  try {
+    const element = root.querySelector(selector) as HTMLElement | null;
+    if (element && contains(element)) {
+      return element;
+    }
+  } catch (error) {
+    log('[semantic-search] Invalid stored selector:', selector);
+  }
+
+  if (!root.body || !contains(root.body)) {
+    return null;
+  }
+
+  let match: HTMLElement = root.body;
+  for (;;) {
+    const child = Array.from(match.children).find(contains) as HTMLElement | undefined;
+    if (!child) break;
+    match = child;
+  }
+
+  log('[semantic-search] Re-resolved stale selector by text:', selector);
+  return match;
+}
+
+/**
+ * DOM range of characters [start, end) of a sentence shown inside an element, e.g. the
+ * answer within a search match. Whitespace is compared collapsed, so the offsets count
+ * characters of normalizeText(text), like an AnswerSpan. Null when the element no longer
+ * shows the sentence.
+ */
+export function findTextRange(element: HTMLElement, text: string, start = 0, end = text.length): Range | null {
+  // The element's text with whitespace runs collapsed, and where each character came from
+  let collapsed = '';
+  const sources: Array<{ node: Text; offset: number }> = [];
+
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    for (let offset = 0; offset < node.data.length; offset++) {
+      const isSpace = /\s/.test(node.data[offset]);
+      if (isSpace && (collapsed.length === 0 || collapsed.endsWith(' '))) continue;
+      collapsed += isSpace ? ' ' : node.data[offset];
+      sources.push({ node, offset });
+    }
+  }
+
+  const needle = normalizeText(text);
+  const at = collapsed.indexOf(needle);
+  const from = Math.max(0, Math.min(start, needle.length));
+  const to = Math.max(from, Math.min(end, needle.length));
+  if (at === -1 || from === to) {
+    return null;
+  }
+
+  const first = sources[at + from];
+  const last = sources[at + to - 1];
+  const range = document.createRange();
+  range.setStart(first.node, first.offset);
+  range.setEnd(last.node, last.offset + 1);
+  return range;
+}
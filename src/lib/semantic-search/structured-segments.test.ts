@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractStructuredSegments } from './structured-segments';
+
+// jsdom lays nothing out, so give every element a box large enough to be read
+const layOut = () => {
+  vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(200);
+  vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockReturnValue(200);
+  vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 200, 200));
+};
+
+const texts = (html: string, kind: string) => {
+  document.body.innerHTML = html;
+  return extractStructuredSegments(document)
+    .filter(segment => segment.kind === kind)
+    .map(segment => segment.text);
+};
+
+describe('extractStructuredSegments', () => {
+  beforeEach(layOut);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('pairs each value of a table row with its column header, after the caption', () => {
+    const rows = texts(`
+      <table>
+        <caption>Plans</caption>
+        <thead><tr><th>Plan</th><th>Price</th><th>Storage</th></tr></thead>
+        <tbody>
+          <tr><td>Pro</td><td>$20</td><td>10 GB</td></tr>
+          <tr><td>Team</td><td></td><td>1 TB</td></tr>
+        </tbody>
+      </table>
+    `, 'table');
+
+    expect(rows).toEqual([
+      'Plans - Plan: Pro; Price: $20; Storage: 10 GB',
+      'Plans - Plan: Team; Storage: 1 TB'
+    ]);
+  });
+
+  it('takes a first row of header cells as the headers, and skips layout tables', () => {
+    const rows = texts(`
+      <table aria-label="Opening hours">
+        <tr><th>Day</th><th>Hours</th></tr>
+        <tr><td>Monday</td><td>9 to 5</td></tr>
+      </table>
+      <table role="presentation"><tr><td>Sidebar</td><td>Main</td></tr></table>
+    `, 'table');
+
+    expect(rows).toEqual(['Opening hours - Day: Monday; Hours: 9 to 5']);
+  });
+
+  it('skips decorative images with an empty alt text', () => {
+    const images = texts(`
+      <img src="divider.png" alt="">
+      <img src="chart.png" alt="Sales doubled in 2023">
+    `, 'image');
+
+    expect(images).toEqual(['Sales doubled in 2023']);
+  });
+
+  it('makes one segment of a figure, its image and its caption', () => {
+    document.body.innerHTML = `
+      <figure id="lighthouse">
+        <img src="lighthouse.jpg" alt="A white lighthouse on a cliff">
+        <figcaption>The lighthouse in 1900.</figcaption>
+      </figure>
+      <figure id="decorative">
+        <img src="wave.png" alt="">
+        <figcaption>Waves at high tide.</figcaption>
+      </figure>
+    `;
+
+    const images = extractStructuredSegments(document).filter(segment => segment.kind === 'image');
+
+    expect(images.map(segment => segment.text)).toEqual([
+      'A white lighthouse on a cliff. The lighthouse in 1900.',
+      // A caption describes the figure even when its image is decorative
+      'Waves at high tide.'
+    ]);
+    expect(images.map(segment => segment.element.id)).toEqual(['lighthouse', 'decorative']);
+  });
+
+  it('says the same words only once when the alt text, title and label repeat them', () => {
+    const images = texts(`
+      <img src="map.png" alt="Map of the trail" title="Map of the trail">
+      <figure>
+        <img src="summit.jpg" aria-label="View from the summit" title="Taken at dawn">
+        <figcaption>View from the summit</figcaption>
+      </figure>
+    `, 'image');
+
+    expect(images).toEqual(['Map of the trail', 'View from the summit. Taken at dawn']);
+  });
+
+  it('numbers the segments from the index it is given, tables first', () => {
+    document.body.innerHTML = `
+      <dl><dt>Torso length</dt><dd>From the base of the neck to the hip bones.</dd></dl>
+      <img src="pack.png" alt="The pack from the side">
+      <table><tr><th>Size</th></tr><tr><td>M</td></tr></table>
+    `;
+
+    const segments = extractStructuredSegments(document, 10);
+
+    expect(segments.map(segment => [segment.index, segment.kind])).toEqual([
+      [10, 'table'],
+      [11, 'image'],
+      [12, 'definition']
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { generateUniqueSelector, isContentNode } from "~hooks/useDetectSections";
+import type { SentenceSegment } from "./sentence-segmenter";
+
+// Images smaller than this are icons, spacers or tracking pixels
+const MIN_IMAGE_SIZE = 48;
+// Rows longer than this are data dumps rather than something to read out
+const MAX_ROW_LENGTH = 500;
+
+const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+// The extension's own overlay is not part of the page
+const isOwnElement = (element: Element) => element.closest('plasmo-csui') !== null;
+
+const isVisible = (element: Element): boolean =>
+  isContentNode(element) && !isOwnElement(element) && !element.closest('[aria-hidden="true"], [hidden]');
+
+/**
+ * Text of the elements an aria-labelledby or aria-describedby attribute points to
+ */
+const referencedText = (element: Element, attribute: string, root: Document): string =>
+  (element.getAttribute(attribute) || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(id => clean(root.getElementById(id)?.textContent))
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Header texts of a table's columns: the thead's last row, or a first row of th cells
+ */
+const columnHeaders = (table: HTMLTableElement): { headers: string[]; headerRow: HTMLTableRowElement | null } => {
+  const headRows = table.tHead?.rows;
+  const headerRow = headRows && headRows.length > 0
+    ? headRows[headRows.length - 1]
+    : Array.from(table.rows).find(row => row.cells.length > 0) ?? null;
+
+  if (!headerRow || !Array.from(headerRow.cells).every(cell => cell.tagName === 'TH')) {
+    return { headers: [], headerRow: null };
+  }
+
+  // Spanning headers repeat for each column they cover
+  const headers: string[] = [];
+  for (const cell of Array.from(headerRow.cells)) {
+    for (let i = 0; i < cell.colSpan; i++) {
+      headers.push(clean(cell.textContent));
+    }
+  }
+  return { headers, headerRow };
+};
+
+/**
+ * One segment per body row of each data table, written as "Header: value" pairs (after
+ * the caption) so a row like "Pro | $20 | 10 GB" says what each value is
+ */
+function extractTableRows(root: Document): Array<Omit<SentenceSegment, 'index'>> {
+  const segments: Array<Omit<SentenceSegment, 'index'>> = [];
+
+  for (const table of Array.from(root.querySelectorAll('table'))) {
+    // Layout tables hold page structure, not data
+    const role = table.getAttribute('role');
+    if (role === 'presentation' || role === 'none' || !isVisible(table)) continue;
+    if (table.querySelector('table')) continue;
+
+    const caption = clean(table.caption?.textContent) || clean(table.getAttribute('aria-label'));
+    const { headers, headerRow } = columnHeaders(table);
+
+    for (const row of Array.from(table.rows)) {
+      if (row === headerRow || row.parentElement === table.tHead) continue;
+
+      const pairs: string[] = [];
+      let column = 0;
+      for (const cell of Array.from(row.cells)) {
+        const value = clean(cell.textContent);
+        const header = headers[column];
+        column += cell.colSpan;
+        if (!value) continue;
+        pairs.push(header && header !== value ? `${header}: ${value}` : value);
+      }
+      if (pairs.length === 0) continue;
+
+      const text = (caption ? `${caption} - ` : '') + pairs.join('; ');
+      if (text.length > MAX_ROW_LENGTH) continue;
+
+      segments.push({
+        kind: 'table',
+        text,
+        element: row,
+        selector: generateUniqueSelector(row),
+        startOffset: 0,
+        endOffset: text.length
+      });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * One segment per described image, figure or chart, from its alt text, title, ARIA label
+ * and description, and figcaption. Undescribed and decorative (alt="") images are skipped.
+ */
+function extractImages(root: Document): Array<Omit<SentenceSegment, 'index'>> {
+  const segments: Array<Omit<SentenceSegment, 'index'>> = [];
+  const seen = new Set<Element>();
+
+  const candidates = root.querySelectorAll('img, svg, canvas, [role="img"], [role="figure"], figure');
+  for (const candidate of Array.from(candidates)) {
+    // A figure's image and caption make one segment, highlighted as a whole
+    const target = (candidate.closest('figure') ?? candidate) as HTMLElement;
+    if ([...seen].some(done => done.contains(target)) || !isVisible(target)) continue;
+
+    const rect = target.getBoundingClientRect();
+    if (rect.width < MIN_IMAGE_SIZE || rect.height < MIN_IMAGE_SIZE) continue;
+
+    const described = target.tagName === 'FIGURE'
+      ? target.querySelector('img, svg, canvas, [role="img"]') ?? target
+      : target;
+    if (described.getAttribute('alt') === '' && !target.querySelector('figcaption')) continue;
+
+    const parts = [
+      described.getAttribute('alt'),
+      described.getAttribute('aria-label'),
+      referencedText(described, 'aria-labelledby', root),
+      described.getAttribute('title'),
+      described.tagName === 'svg' ? described.querySelector('title')?.textContent : null,
+      described.tagName === 'svg' ? described.querySelector('desc')?.textContent : null,
+      referencedText(described, 'aria-describedby', root),
+      target.querySelector('figcaption')?.textContent
+    ].map(clean).filter(Boolean);
+
+    // The same words often appear as alt text and title, or label and caption
+    const text = [...new Set(parts)].join('. ');
+    if (!text) continue;
+
+    seen.add(target);
+    segments.push({
+      kind: 'image',
+      text,
+      element: target,
+      selector: generateUniqueSelector(target),
+      startOffset: 0,
+      endOffset: text.length
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * One segment per term of each definition list, as "term: definition"
+ */
+function extractDefinitions(root: Document): Array<Omit<SentenceSegment, 'index'>> {
+  const segments: Array<Omit<SentenceSegment, 'index'>> = [];
+
+  for (const list of Array.from(root.querySelectorAll('dl'))) {
+    if (!isVisible(list)) continue;
+
+    // Terms and definitions may be wrapped in divs, as HTML allows
+    const items = Array.from(list.querySelectorAll('dt, dd')).filter(item => item.closest('dl') === list);
+    for (let i = 0; i < items.length; i++) {
+      if (items[i].tagName !== 'DT') continue;
+
+      const term = items[i] as HTMLElement;
+      const definitions: string[] = [];
+      for (let j = i + 1; j < items.length && items[j].tagName === 'DD'; j++) {
+        definitions.push(clean(items[j].textContent));
+      }
+
+      const title = clean(term.textContent);
+      const definition = definitions.filter(Boolean).join(' ');
+      if (!title || !definition) continue;
+
+      const text = `${title}: ${definition}`;
+      segments.push({
+        kind: 'definition',
+        text,
+        element: term,
+        selector: generateUniqueSelector(term),
+        startOffset: 0,
+        endOffset: text.length
+      });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Segments for the page's content that running text leaves out: data table rows,
+ * described images and charts, and definition list entries. Indexes start at
+ * `firstIndex` and follow the order of the kinds above.
+ */
+export function extractStructuredSegments(root: Document = document, firstIndex = 0): SentenceSegment[] {
+  if (!root.body) return [];
+
+  const segments: SentenceSegment[] = [];
+  for (const extract of [extractTableRows, extractImages, extractDefinitions]) {
+    for (const segment of extract(root)) {
+      segments.push({ ...segment, index: firstIndex + segments.length });
+    }
+  }
+  return segments;
+}
+
+/**
+ * How a segment is read aloud. Structured segments get a short lead-in, since the
+ * listener cannot see that the words come from a table or an image.
+ */
+export function spokenSegmentText(segment: Pick<SentenceSegment, 'kind' | 'text'>): string {
+  switch (segment.kind) {
+    case 'table':
+      return `Table row. ${segment.text}`;
+    case 'image':
+      return `Image. ${segment.text}`;
+    case 'definition':
+      return `Definition. ${segment.text}`;
+    case 'sentence':
+      return segment.text;
+  }
+}
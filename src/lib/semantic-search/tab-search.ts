@@ -0,0 +1,97 @@
+import { log, err } from "~lib/log";
+import { call } from "~lib/messaging";
+
+export interface TabSearchTarget {
+  tabId: number;
+  url: string;
+  title: string;
+}
+
+export interface TabSearchMatch {
+  text: string;
+  selector: string;
+  score: number;
+}
+
+export interface TabSearchResult {
+  tabId: number;
+  url: string;
+  title: string;
+  bestScore: number;
+  matches: TabSearchMatch[];
+}
+
+export interface TabSearchOptions {
+  maxResultsPerTab?: number;
+  // Ask tabs without cached embeddings to index themselves first (slow: one embedding pass per page)
+  indexMissing?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TabSearchOutcome {
+  results: TabSearchResult[];
+  // Tabs that could not be searched, e.g. not indexed yet or without a content script
+  skipped: Array<{ tabId: number; title: string; reason: string }>;
+}
+
+/**
+ * Search several tabs at once using the sentence index kept per URL by the offscreen
+ * document. Runs outside the pages themselves, so it works from the sidepanel.
+ */
+export async function searchTabs(
+  query: string,
+  tabs: TabSearchTarget[],
+  options: TabSearchOptions = {}
+): Promise<TabSearchOutcome> {
+  const { maxResultsPerTab = 3, indexMissing = false, signal } = options;
+
+  log('[semantic-search] Searching', tabs.length, 'tabs for:', query);
+
+  const results: TabSearchResult[] = [];
+  const skipped: TabSearchOutcome['skipped'] = [];
+
+  for (const tab of tabs) {
+    signal?.throwIfAborted();
+    try {
+      let { page } = await call('background', { type: 'GET_INDEXED_PAGE', url: tab.url }, { signal });
+
+      if (!page && indexMissing) {
+        log('[semantic-search] Indexing tab before search:', tab.tabId, tab.url);
+        await call('content', { type: 'INDEX_PAGE' }, { tabId: tab.tabId, signal });
+        ({ page } = await call('background', { type: 'GET_INDEXED_PAGE', url: tab.url }, { signal }));
+      }
+
+      if (!page || page.sentenceCount === 0) {
+        skipped.push({ tabId: tab.tabId, title: tab.title, reason: 'Page has not been indexed for search yet' });
+        continue;
+      }
+
+      const { matches: similar } = await call(
+        'background',
+        { type: 'SEARCH_SIMILAR', query, url: tab.url, limit: maxResultsPerTab },
+        { signal }
+      );
+      const matches: TabSearchMatch[] = similar.map(({ sentence, similarity }) => ({
+        text: sentence.text,
+        selector: sentence.selector,
+        score: similarity
+      }));
+
+      results.push({
+        tabId: tab.tabId,
+        url: tab.url,
+        title: tab.title,
+        bestScore: matches[0]?.score ?? 0,
+        matches
+      });
+    } catch (error) {
+      // A stopped search is not a per-tab failure
+      if (signal?.aborted) throw error;
+      err('[semantic-search] Failed to search tab', tab.tabId, error);
+      skipped.push({ tabId: tab.tabId, title: tab.title, reason: (error as Error)?.message || 'Unknown error' });
+    }
+  }
+
+  results.sort((a, b) => b.bestScore - a.bestScore);
+  return { results, skipped };
+}
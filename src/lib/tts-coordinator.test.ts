@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const SPEAKING = { speaking: { id: 'chat-1', source: 'sidepanel' }, paused: false, queued: 0 };
+
+describe('ttsCoordinator', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('asks for the speech state when first asked, not when imported', async () => {
+    const sendMessage = vi.fn(async () => ({ ok: true, state: SPEAKING }));
+    vi.stubGlobal('chrome', { runtime: { sendMessage } });
+
+    const { ttsCoordinator } = await import('./tts-coordinator');
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    const listener = vi.fn();
+    ttsCoordinator.subscribe(listener);
+    expect(ttsCoordinator.isCurrentlyPlaying()).toBe(false);
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(SPEAKING));
+    expect(ttsCoordinator.getCurrentSource()).toBe('sidepanel');
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'GET_SPEECH_STATE', target: 'background' }));
+  });
+});
@@ -1,10 +1,16 @@
 /**
  * Global TTS Coordinator
- * 
- * Manages TTS playback across the entire extension to prevent conflicts
- * between sidepanel and content script TTS instances.
+ *
+ * This context's handle on the speech coordinator in the background (see
+ * ./tts/speech-coordinator), which plays the speech of the sidepanel and every tab so they
+ * never talk over each other. Requests are sent there; their progress comes back as
+ * SPEECH_EVENT messages and what is being said anywhere as SPEECH_STATE, which the
+ * sidepanel and content script pass to handleEvent() and handleState().
  */
 
+import { call } from './messaging';
+import type { SpeechEvent, SpeechSource, SpeechState } from './tts/speech-coordinator';
+
 export interface TTSSettings {
   voice?: SpeechSynthesisVoice | null;
   rate?: number;
@@ -16,263 +22,222 @@ export interface TTSRequest {
   id: string;
   text: string;
   settings: TTSSettings;
+  // A higher priority request interrupts a lower one, which carries on afterwards
   priority: 'high' | 'normal' | 'low';
-  source: 'sidepanel' | 'content' | 'other';
+  source: SpeechSource;
   onStart?: () => void;
   onEnd?: () => void;
-  onError?: (error: Event) => void;
+  onError?: (error: Event | Error) => void;
+  // Stopped by someone else, e.g. the global stop shortcut in another tab; onEnd is called without it
+  onCancel?: () => void;
+  // Called as each word starts, with its position in `text`; the timing is estimated
+  // when the voice does not report word boundaries
+  onBoundary?: (charIndex: number, charLength: number) => void;
 }
 
+const IDLE_STATE: SpeechState = { speaking: null, paused: false, queued: 0 };
+
 class TTSCoordinator {
-  private currentRequest: TTSRequest | null = null;
-  private currentUtterance: SpeechSynthesisUtterance | null = null;
-  private isPlaying: boolean = false;
-  private isPaused: boolean = false;
-  private queue: TTSRequest[] = [];
-  private voicesLoaded: boolean = false;
+  // This context's requests that have not ended yet
+  private requests = new Map<string, TTSRequest>();
+  private state: SpeechState = IDLE_STATE;
+  private listeners = new Set<(state: SpeechState) => void>();
+  private stateRequested = false;
 
-  constructor() {
-    this.initializeVoices();
+  /**
+   * Fetch the speech state the first time this context asks for it, not when the module
+   * loads, so importing the coordinator does not message the background
+   */
+  private ensureState(): void {
+    if (this.stateRequested) return;
+    this.stateRequested = true;
+
+    this.initializeState();
+    // SPEECH_STATE may have been missed while hidden, e.g. when the background restarted
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.initializeState();
+      });
+    }
   }
 
-  private initializeVoices() {
-    const loadVoices = () => {
-      const voices = speechSynthesis.getVoices();
-      if (voices.length > 0) {
-        this.voicesLoaded = true;
-        console.log('[TTS Coordinator] Voices loaded:', voices.length);
-      }
-    };
-
-    // Try to load voices immediately
-    loadVoices();
-
-    // Listen for voices to be loaded
-    const handleVoicesChanged = () => {
-      loadVoices();
-    };
-
-    speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+  private initializeState() {
+    call('background', { type: 'GET_SPEECH_STATE' })
+      .then(({ state }) => this.handleState(state))
+      .catch(error => console.warn('[TTS Coordinator] Failed to get speech state:', error));
   }
 
   /**
    * Request TTS playback
    */
   async requestTTS(request: TTSRequest): Promise<void> {
-    console.log('[TTS Coordinator] TTS request received:', {
+    console.log('[TTS Coordinator] TTS request:', {
       id: request.id,
       source: request.source,
       priority: request.priority,
       textLength: request.text.length
     });
 
-    // Cancel current playback if higher priority
-    if (this.currentRequest && this.shouldInterrupt(request)) {
-      console.log('[TTS Coordinator] Interrupting current TTS for higher priority request');
-      this.cancelCurrent();
-    }
-
-    // If already playing and not interrupting, queue the request
-    if (this.isPlaying && !this.shouldInterrupt(request)) {
-      console.log('[TTS Coordinator] Queuing TTS request');
-      this.queueRequest(request);
-      return;
+    this.requests.set(request.id, request);
+    try {
+      await call('background', {
+        type: 'SPEAK',
+        id: request.id,
+        text: request.text,
+        settings: {
+          voiceName: request.settings.voice?.name,
+          rate: request.settings.rate,
+          pitch: request.settings.pitch,
+          volume: request.settings.volume
+        },
+        priority: request.priority,
+        source: request.source,
+        boundaries: !!request.onBoundary
+      });
+    } catch (error) {
+      console.error('[TTS Coordinator] TTS request failed:', error, 'Request:', request.id);
+      this.requests.delete(request.id);
+      request.onError?.(error as Error);
     }
-
-    // Start playing immediately
-    await this.playTTS(request);
   }
 
   /**
-   * Pause current TTS playback
+   * Pause whatever is being said, from any context
    */
   pause(): void {
-    if (!this.isPlaying || this.isPaused) {
-      return;
-    }
-
-    console.log('[TTS Coordinator] Pausing TTS');
-    speechSynthesis.pause();
-    this.isPaused = true;
+    this.send('PAUSE_SPEECH');
   }
 
   /**
-   * Resume paused TTS playback
+   * Resume whatever was paused, from any context
    */
   resume(): void {
-    if (!this.isPlaying || !this.isPaused) {
-      return;
-    }
-
-    console.log('[TTS Coordinator] Resuming TTS');
-    speechSynthesis.resume();
-    this.isPaused = false;
+    this.send('RESUME_SPEECH');
   }
 
   /**
    * Toggle pause/resume state
    */
   togglePause(): void {
-    if (this.isPaused) {
-      this.resume();
-    } else {
-      this.pause();
-    }
+    this.send('TOGGLE_SPEECH_PAUSE');
   }
 
   /**
    * Check if TTS is paused
    */
   isPausedState(): boolean {
-    return this.isPaused;
+    this.ensureState();
+    return this.state.paused;
   }
 
   /**
-   * Cancel current TTS playback
+   * Stop what is being said, from any context; queued requests carry on
    */
   cancelCurrent(): void {
-    if (this.currentUtterance) {
-      console.log('[TTS Coordinator] Cancelling current TTS');
-      speechSynthesis.cancel();
-      this.currentUtterance = null;
-    }
-    this.currentRequest = null;
-    this.isPlaying = false;
-    this.isPaused = false;
+    this.send('SKIP_SPEECH');
   }
 
   /**
-   * Cancel TTS by source
+   * Stop what is being said and everything queued, in every context
    */
-  cancelBySource(source: 'sidepanel' | 'content' | 'other'): void {
-    if (this.currentRequest?.source === source) {
-      console.log('[TTS Coordinator] Cancelling TTS by source:', source);
-      this.cancelCurrent();
-    }
+  stopAll(): void {
+    this.send('STOP_ALL_SPEECH');
+  }
 
-    // Remove queued requests from this source
-    this.queue = this.queue.filter(req => req.source !== source);
+  /**
+   * Cancel this context's TTS from a source
+   */
+  cancelBySource(source: SpeechSource): void {
+    for (const [id, request] of this.requests) {
+      if (request.source === source) {
+        this.requests.delete(id);
+      }
+    }
+    call('background', { type: 'CANCEL_SPEECH_BY_SOURCE', source }).catch(error => {
+      console.error('[TTS Coordinator] Failed to cancel TTS by source:', source, error);
+    });
   }
 
   /**
-   * Check if TTS is currently playing
+   * Check if TTS is currently playing, in any context
    */
   isCurrentlyPlaying(): boolean {
-    return this.isPlaying;
+    this.ensureState();
+    return this.state.speaking !== null;
   }
 
   /**
-   * Get current TTS source
+   * Check if what is being said was requested by this context
    */
-  getCurrentSource(): string | null {
-    return this.currentRequest?.source || null;
+  isSpeakingHere(): boolean {
+    this.ensureState();
+    return !!this.state.speaking && this.requests.has(this.state.speaking.id);
   }
 
-  private shouldInterrupt(request: TTSRequest): boolean {
-    if (!this.currentRequest) return true;
-
-    // Priority order: high > normal > low
-    const priorityOrder = { high: 3, normal: 2, low: 1 };
-    const currentPriority = priorityOrder[this.currentRequest.priority];
-    const newPriority = priorityOrder[request.priority];
-
-    return newPriority > currentPriority;
+  /**
+   * Get current TTS source
+   */
+  getCurrentSource(): SpeechSource | null {
+    this.ensureState();
+    return this.state.speaking?.source ?? null;
   }
 
-  private queueRequest(request: TTSRequest): void {
-    // Insert request in priority order
-    const priorityOrder = { high: 3, normal: 2, low: 1 };
-    const requestPriority = priorityOrder[request.priority];
-    
-    let insertIndex = this.queue.length;
-    for (let i = 0; i < this.queue.length; i++) {
-      if (priorityOrder[this.queue[i].priority] < requestPriority) {
-        insertIndex = i;
-        break;
-      }
-    }
-
-    this.queue.splice(insertIndex, 0, request);
-    console.log('[TTS Coordinator] Request queued at index:', insertIndex);
+  getState(): SpeechState {
+    this.ensureState();
+    return this.state;
   }
 
-  private async playTTS(request: TTSRequest): Promise<void> {
-    this.currentRequest = request;
-    this.isPlaying = true;
-    this.isPaused = false;
-
-    // Wait for voices to be loaded if needed
-    if (!this.voicesLoaded) {
-      await this.waitForVoices();
-    }
-
-    const utterance = new SpeechSynthesisUtterance(request.text);
-
-    // Apply TTS settings
-    if (request.settings.voice) {
-      utterance.voice = request.settings.voice;
-    }
-    utterance.rate = request.settings.rate || 1.0;
-    utterance.pitch = request.settings.pitch || 1.0;
-    utterance.volume = request.settings.volume || 1.0;
-
-    // Set up event handlers
-    utterance.onstart = () => {
-      console.log('[TTS Coordinator] TTS started:', request.id);
-      request.onStart?.();
-    };
-
-    utterance.onend = () => {
-      console.log('[TTS Coordinator] TTS ended:', request.id);
-      this.handleTTSComplete();
-      request.onEnd?.();
-    };
-
-    utterance.onerror = (event) => {
-      console.error('[TTS Coordinator] TTS error:', event, 'Request:', request.id);
-      this.handleTTSComplete();
-      request.onError?.(event);
+  /**
+   * Follow what is being said anywhere; returns the unsubscribe function
+   */
+  subscribe(listener: (state: SpeechState) => void): () => void {
+    this.ensureState();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
     };
-
-    this.currentUtterance = utterance;
-    speechSynthesis.speak(utterance);
   }
 
-  private handleTTSComplete(): void {
-    this.currentRequest = null;
-    this.currentUtterance = null;
-    this.isPlaying = false;
-    this.isPaused = false;
+  /**
+   * Progress of one of this context's requests, from SPEECH_EVENT
+   */
+  handleEvent(event: SpeechEvent): void {
+    const request = this.requests.get(event.id);
+    if (!request) return;
 
-    // Play next queued request
-    if (this.queue.length > 0) {
-      const nextRequest = this.queue.shift()!;
-      console.log('[TTS Coordinator] Playing next queued request:', nextRequest.id);
-      this.playTTS(nextRequest);
+    switch (event.event) {
+      case 'start':
+        request.onStart?.();
+        break;
+      case 'boundary':
+        request.onBoundary?.(event.charIndex ?? 0, event.charLength ?? 0);
+        break;
+      case 'end':
+        this.requests.delete(event.id);
+        request.onEnd?.();
+        break;
+      case 'cancel':
+        this.requests.delete(event.id);
+        (request.onCancel ?? request.onEnd)?.();
+        break;
+      case 'error':
+        this.requests.delete(event.id);
+        request.onError?.(new Error(event.error || 'Speech failed'));
+        break;
     }
   }
 
-  private async waitForVoices(): Promise<void> {
-    return new Promise((resolve) => {
-      if (this.voicesLoaded) {
-        resolve();
-        return;
-      }
-
-      const handleVoicesChanged = () => {
-        speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
-        this.voicesLoaded = true;
-        resolve();
-      };
-
-      speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+  /**
+   * What is being said anywhere, from SPEECH_STATE
+   */
+  handleState(state: SpeechState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
 
-      // Fallback timeout
-      setTimeout(() => {
-        speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
-        this.voicesLoaded = true;
-        resolve();
-      }, 1000);
+  private send(type: 'PAUSE_SPEECH' | 'RESUME_SPEECH' | 'TOGGLE_SPEECH_PAUSE' | 'SKIP_SPEECH' | 'STOP_ALL_SPEECH'): void {
+    call('background', { type }).catch(error => {
+      console.error('[TTS Coordinator] Failed to send', type, error);
     });
   }
 }
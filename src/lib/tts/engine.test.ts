@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChromeTTSEngine } from './engine';
+
+const events = { onStart: vi.fn(), onBoundary: vi.fn(), onEnd: vi.fn(), onError: vi.fn() };
+
+describe('ChromeTTSEngine', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const speakWith = async (settings: { rate?: number; pitch?: number; volume?: number }) => {
+    const speak = vi.fn();
+    vi.stubGlobal('chrome', { tts: { speak, getVoices: async () => [] }, runtime: {} });
+
+    new ChromeTTSEngine().speak('Hello', settings, events);
+    await vi.waitFor(() => expect(speak).toHaveBeenCalled());
+    return speak.mock.calls[0][1] as chrome.tts.SpeakOptions;
+  };
+
+  it('passes a volume of 0 through instead of the default', async () => {
+    expect(await speakWith({ volume: 0 })).toMatchObject({ volume: 0, rate: 1, pitch: 1 });
+  });
+
+  it('uses the defaults for settings that are not given', async () => {
+    expect(await speakWith({ rate: 1.5 })).toMatchObject({ rate: 1.5, pitch: 1, volume: 1 });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Speech engines the background's speech coordinator speaks through: the system voices
+ * of chrome.tts, or a neural voice synthesized on-device and played in the offscreen document
+ */
+
+import { call } from '~lib/messaging';
+import { DEFAULT_NEURAL_VOICE_ID } from './neural-voice';
+import { base64ToBlob } from './wav';
+
+export type TTSEngineId = 'speech-synthesis' | 'neural';
+
+// Settings of one utterance, as they are sent between contexts
+export interface SpeechSettings {
+  // Name of a system voice; the default voice without it
+  voiceName?: string;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+}
+
+export interface TTSEngineEvents {
+  // With how long the audio plays at the requested rate, in milliseconds, when the engine knows
+  onStart(durationMs?: number): void;
+  onBoundary(charIndex: number, charLength: number): void;
+  onEnd(): void;
+  onError(error: Event | Error): void;
+}
+
+// Control of one utterance while it is being spoken
+export interface TTSPlayback {
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+}
+
+export interface TTSEngine {
+  readonly id: TTSEngineId;
+  speak(text: string, settings: SpeechSettings, events: TTSEngineEvents): TTSPlayback;
+}
+
+/**
+ * The voices of the OS and browser, through chrome.tts so they can be used from the
+ * background. Word boundaries are reported by the voices that have them.
+ */
+export class ChromeTTSEngine implements TTSEngine {
+  readonly id = 'speech-synthesis';
+  private voiceNames: Promise<Set<string>> | null = null;
+
+  speak(text: string, settings: SpeechSettings, events: TTSEngineEvents): TTSPlayback {
+    let cancelled = false;
+
+    this.hasVoice(settings.voiceName).then(hasVoice => {
+      if (cancelled) return;
+
+      chrome.tts.speak(text, {
+        // A voice of the sidepanel's speechSynthesis that chrome.tts does not know is left to the default
+        voiceName: hasVoice ? settings.voiceName : undefined,
+        rate: settings.rate ?? 1.0,
+        pitch: settings.pitch ?? 1.0,
+        volume: settings.volume ?? 1.0,
+        onEvent: (event) => {
+          switch (event.type) {
+            case 'start':
+              events.onStart();
+              break;
+            case 'word':
+              events.onBoundary(event.charIndex ?? 0, event.length ?? 0);
+              break;
+            case 'end':
+              events.onEnd();
+              break;
+            case 'error':
+              events.onError(new Error(event.errorMessage || 'Speech failed'));
+              break;
+          }
+        }
+      }, () => {
+        if (chrome.runtime.lastError) {
+          events.onError(new Error(chrome.runtime.lastError.message));
+        }
+      });
+    });
+
+    return {
+      pause: () => chrome.tts.pause(),
+      resume: () => chrome.tts.resume(),
+      cancel: () => {
+        cancelled = true;
+        chrome.tts.stop();
+      }
+    };
+  }
+
+  private async hasVoice(voiceName: string | undefined): Promise<boolean> {
+    if (!voiceName) return false;
+
+    this.voiceNames ??= chrome.tts.getVoices().then(voices => new Set(voices.map(voice => voice.voiceName ?? '')));
+    return (await this.voiceNames).has(voiceName);
+  }
+}
+
+export interface SynthesizedAudio {
+  blob: Blob;
+  // In seconds
+  duration: number;
+}
+
+/**
+ * Speak text with a neural voice into a WAV blob, with the voice chosen in TTS settings
+ * when no voiceId is given. The voice is downloaded on first use, which can take minutes.
+ */
+export async function synthesizeSpeech(text: string, voiceId?: string): Promise<SynthesizedAudio> {
+  const { audio, mimeType, duration } = await call('background', { type: 'SYNTHESIZE_SPEECH', text, voiceId });
+  return { blob: base64ToBlob(audio, mimeType), duration };
+}
+
+// Recently spoken texts kept as audio, so going back to a paragraph does not synthesize it again
+const AUDIO_CACHE_SIZE = 20;
+
+/**
+ * A neural voice, played as audio once the whole text is synthesized. Pitch is not
+ * adjustable; rate changes the playback speed and keeps the pitch. Plays in the offscreen
+ * document, which synthesizes the audio itself.
+ */
+export class NeuralTTSEngine implements TTSEngine {
+  readonly id = 'neural';
+  private audioCache = new Map<string, Promise<SynthesizedAudio>>();
+
+  constructor(
+    readonly voiceId: string = DEFAULT_NEURAL_VOICE_ID,
+    private synthesizeAudio: (text: string, voiceId: string) => Promise<SynthesizedAudio> = synthesizeSpeech
+  ) {}
+
+  speak(text: string, settings: SpeechSettings, events: TTSEngineEvents): TTSPlayback {
+    const rate = settings.rate ?? 1.0;
+    let audio: HTMLAudioElement | null = null;
+    let url: string | null = null;
+    let started = false;
+    let paused = false;
+    let cancelled = false;
+
+    const release = () => {
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+      url = null;
+      audio = null;
+    };
+
+    const play = (durationMs: number) => {
+      audio?.play().then(() => {
+        if (!started) {
+          started = true;
+          events.onStart(durationMs);
+        }
+      }).catch(error => {
+        if (cancelled) return;
+        release();
+        events.onError(error);
+      });
+    };
+
+    let durationMs = 0;
+    this.synthesize(text).then(synthesized => {
+      if (cancelled) return;
+
+      durationMs = (synthesized.duration * 1000) / rate;
+      url = URL.createObjectURL(synthesized.blob);
+      audio = new Audio(url);
+      audio.playbackRate = rate;
+      audio.volume = settings.volume ?? 1.0;
+      audio.onended = () => {
+        release();
+        events.onEnd();
+      };
+      audio.onerror = () => {
+        const message = audio?.error?.message || 'Audio playback failed';
+        release();
+        events.onError(new Error(message));
+      };
+
+      // Paused while synthesizing: start on resume
+      if (!paused) {
+        play(durationMs);
+      }
+    }).catch(error => {
+      if (!cancelled) {
+        events.onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    return {
+      pause: () => {
+        paused = true;
+        audio?.pause();
+      },
+      resume: () => {
+        paused = false;
+        play(durationMs);
+      },
+      cancel: () => {
+        cancelled = true;
+        audio?.pause();
+        release();
+      }
+    };
+  }
+
+  private synthesize(text: string): Promise<SynthesizedAudio> {
+    const cached = this.audioCache.get(text);
+    if (cached) {
+      // Most recently used last
+      this.audioCache.delete(text);
+      this.audioCache.set(text, cached);
+      return cached;
+    }
+
+    const synthesized = this.synthesizeAudio(text, this.voiceId);
+    synthesized.catch(() => this.audioCache.delete(text));
+    this.audioCache.set(text, synthesized);
+    if (this.audioCache.size > AUDIO_CACHE_SIZE) {
+      this.audioCache.delete(this.audioCache.keys().next().value!);
+    }
+    return synthesized;
+  }
+}
+
+// Progress of neural playbacks in the offscreen document, by playback id
+const offscreenPlaybacks = new Map<string, TTSEngineEvents>();
+
+/**
+ * The background's handle on a NeuralTTSEngine in the offscreen document. The document
+ * reports how each playback goes with SPEECH_PLAYBACK_EVENT, passed to handleOffscreenPlaybackEvent().
+ */
+export class OffscreenNeuralEngine implements TTSEngine {
+  readonly id = 'neural';
+
+  constructor(
+    readonly voiceId: string,
+    // Creates the offscreen document if it does not exist
+    private ensureDocument: () => Promise<void>
+  ) {}
+
+  speak(text: string, settings: SpeechSettings, events: TTSEngineEvents): TTSPlayback {
+    const id = `speech-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    offscreenPlaybacks.set(id, events);
+
+    const control = (action: 'pause' | 'resume' | 'cancel') => {
+      call('offscreen', { type: 'CONTROL_SPEECH_PLAYBACK', id, action }).catch(error => {
+        console.error('[tts] Failed to', action, 'neural playback:', error);
+      });
+    };
+
+    this.ensureDocument()
+      .then(() => call('offscreen', { type: 'PLAY_SPEECH', id, text, voiceId: this.voiceId, settings }))
+      .catch(error => {
+        if (offscreenPlaybacks.delete(id)) {
+          events.onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+
+    return {
+      pause: () => control('pause'),
+      resume: () => control('resume'),
+      cancel: () => {
+        offscreenPlaybacks.delete(id);
+        control('cancel');
+      }
+    };
+  }
+}
+
+export function handleOffscreenPlaybackEvent(
+  { id, event, durationMs, error }: { id: string; event: 'start' | 'end' | 'error'; durationMs?: number; error?: string }
+): void {
+  const events = offscreenPlaybacks.get(id);
+  if (!events) return;
+
+  switch (event) {
+    case 'start':
+      events.onStart(durationMs);
+      break;
+    case 'end':
+      offscreenPlaybacks.delete(id);
+      events.onEnd();
+      break;
+    case 'error':
+      offscreenPlaybacks.delete(id);
+      events.onError(new Error(error || 'Neural playback failed'));
+      break;
+  }
+}
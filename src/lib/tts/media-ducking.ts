@@ -0,0 +1,56 @@
+/**
+ * Turns down the page's own audio and video while the extension speaks, so speech is not
+ * drowned out, and puts it back afterwards
+ */
+
+// Share of its volume media keeps while ducked
+const DUCKED_VOLUME = 0.2;
+
+export class MediaDucker {
+  // Volume of each ducked element before it was ducked
+  private originalVolumes = new Map<HTMLMediaElement, number>();
+  private ducked = false;
+
+  constructor(private root: Document = document) {}
+
+  // Media that starts playing while ducked is turned down too. Media events do not bubble,
+  // so the listener captures them.
+  private handlePlay = (event: Event) => {
+    if (event.target instanceof HTMLMediaElement) {
+      this.duckElement(event.target);
+    }
+  };
+
+  duck(): void {
+    if (this.ducked) return;
+    this.ducked = true;
+
+    this.root.querySelectorAll<HTMLMediaElement>('audio, video').forEach(element => this.duckElement(element));
+    this.root.addEventListener('play', this.handlePlay, true);
+  }
+
+  restore(): void {
+    if (!this.ducked) return;
+    this.ducked = false;
+
+    this.root.removeEventListener('play', this.handlePlay, true);
+    this.originalVolumes.forEach((volume, element) => {
+      // Left alone if the user changed the volume while ducked
+      if (element.volume === volume * DUCKED_VOLUME) {
+        element.volume = volume;
+      }
+    });
+    this.originalVolumes.clear();
+  }
+
+  isDucked(): boolean {
+    return this.ducked;
+  }
+
+  private duckElement(element: HTMLMediaElement): void {
+    if (this.originalVolumes.has(element) || element.muted || element.paused) return;
+
+    this.originalVolumes.set(element, element.volume);
+    element.volume = element.volume * DUCKED_VOLUME;
+  }
+}
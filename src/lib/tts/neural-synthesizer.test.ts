@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { splitForSynthesis } from './neural-synthesizer';
+
+// Kept in step with MAX_CHUNK_CHARS
+const MAX_CHUNK_CHARS = 400;
+
+const sentence = (words: number, index = 0) =>
+  `Sentence ${index} ${Array.from({ length: words }, (_, i) => `word${i}`).join(' ')}.`;
+
+describe('splitForSynthesis', () => {
+  it('keeps a short text whole', () => {
+    expect(splitForSynthesis('Hello there. How are you?')).toEqual(['Hello there. How are you?']);
+  });
+
+  it('groups whole sentences up to the chunk size', () => {
+    const sentences = Array.from({ length: 12 }, (_, i) => sentence(10, i));
+    const chunks = splitForSynthesis(sentences.join(' '));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_CHUNK_CHARS);
+      // Every chunk starts a sentence and ends one
+      expect(chunk).toMatch(/^Sentence \d+ .*\.$/);
+    }
+    expect(chunks.join(' ')).toBe(sentences.join(' '));
+  });
+
+  it('splits a sentence longer than the chunk size between words', () => {
+    const long = sentence(100);
+    const chunks = splitForSynthesis(long);
+
+    expect(long.length).toBeGreaterThan(MAX_CHUNK_CHARS);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_CHUNK_CHARS);
+      expect(chunk).not.toMatch(/^\s|\s$/);
+    }
+    expect(chunks.join(' ')).toBe(long);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitForSynthesis('')).toEqual([]);
+    expect(splitForSynthesis('   \n ')).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { log, err } from "~lib/log";
+import type { NeuralVoiceInfo } from "./neural-voice";
+
+export interface SynthesizedSpeech {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// The models truncate their input, so longer texts are spoken a few sentences at a time
+const MAX_CHUNK_CHARS = 400;
+// Pause put between chunks, where a sentence ended
+const CHUNK_GAP_SECONDS = 0.15;
+
+/**
+ * Speaks text with one registered neural voice, run by transformers.js (ONNX in
+ * WebAssembly) in the offscreen document. The model is downloaded from the Hugging Face
+ * CDN and loaded on the first synthesize() or an explicit load().
+ */
+export class NeuralSpeechSynthesizer {
+  private pipeline: any = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(readonly voice: NeuralVoiceInfo) {}
+
+  isLoaded(): boolean {
+    return this.pipeline !== null;
+  }
+
+  load(): Promise<void> {
+    if (this.pipeline) return Promise.resolve();
+
+    this.loading ??= (async () => {
+      try {
+        log('[tts] Loading neural voice in offscreen document:', this.voice.model);
+
+        // Dynamic import to avoid bundling issues
+        const { pipeline, env } = await import('@xenova/transformers');
+
+        env.allowLocalModels = false; // Use CDN
+        env.allowRemoteModels = true;
+
+        this.pipeline = await pipeline('text-to-speech', this.voice.model, {
+          quantized: this.voice.source.quantized,
+          progress_callback: (progress: any) => {
+            if (progress.status === 'downloading') {
+              log('[tts] Voice download progress:', Math.round(progress.progress * 100) + '%');
+            }
+          }
+        });
+        log('[tts] Neural voice loaded successfully:', this.voice.model);
+      } catch (error) {
+        err('[tts] Failed to load neural voice:', this.voice.model, error);
+        throw error;
+      } finally {
+        this.loading = null;
+      }
+    })();
+    return this.loading;
+  }
+
+  async synthesize(text: string): Promise<SynthesizedSpeech> {
+    await this.load();
+
+    const options = this.voice.source.kind === 'speecht5'
+      ? { speaker_embeddings: this.voice.source.speakerEmbeddings }
+      : {};
+
+    const parts: Float32Array[] = [];
+    let sampleRate = 0;
+    for (const chunk of splitForSynthesis(text)) {
+      const result = await this.pipeline(chunk, options);
+      sampleRate = result.sampling_rate;
+      parts.push(result.audio as Float32Array);
+    }
+
+    return { samples: joinWithGaps(parts, Math.round(sampleRate * CHUNK_GAP_SECONDS)), sampleRate };
+  }
+
+  // Release the model's memory; the synthesizer can load again afterwards
+  async dispose(): Promise<void> {
+    const pipeline = this.pipeline;
+    this.pipeline = null;
+    await pipeline?.dispose();
+  }
+}
+
+/**
+ * Whole sentences grouped up to MAX_CHUNK_CHARS; a longer sentence is split between words
+ */
+export function splitForSynthesis(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  const chunks: string[] = [];
+  let current = '';
+
+  const add = (piece: string) => {
+    if (current && current.length + piece.length > MAX_CHUNK_CHARS) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += piece;
+  };
+
+  for (const { segment } of segmenter.segment(text)) {
+    if (segment.length <= MAX_CHUNK_CHARS) {
+      add(segment);
+      continue;
+    }
+    for (const word of segment.match(/\S+\s*/g) ?? []) {
+      add(word);
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks.filter(Boolean);
+}
+
+const joinWithGaps = (parts: Float32Array[], gap: number): Float32Array => {
+  if (parts.length === 1) return parts[0];
+
+  const length = parts.reduce((total, part) => total + part.length, 0) + gap * Math.max(0, parts.length - 1);
+  const samples = new Float32Array(length);
+  let offset = 0;
+  parts.forEach((part, i) => {
+    samples.set(part, offset);
+    offset += part.length + (i < parts.length - 1 ? gap : 0);
+  });
+  return samples;
+};
@@ -0,0 +1,51 @@
+// How a voice's audio is produced in the offscreen document
+export type NeuralVoiceSource =
+  // Text straight to waveform (VITS, as used by Piper and MMS)
+  | { kind: 'vits'; quantized: boolean }
+  // Spectrogram model with a vocoder, speaking as the speaker whose x-vector is at the URL
+  | { kind: 'speecht5'; quantized: boolean; speakerEmbeddings: string };
+
+export interface NeuralVoiceInfo {
+  id: string;
+  // transformers.js model id
+  model: string;
+  label: string;
+  description: string;
+  // BCP 47 language the voice speaks
+  language: string;
+  source: NeuralVoiceSource;
+}
+
+export const NEURAL_VOICES: NeuralVoiceInfo[] = [
+  {
+    id: 'mms-eng',
+    model: 'Xenova/mms-tts-eng',
+    label: 'MMS English',
+    description: 'Fast VITS voice, ~30 MB',
+    language: 'en',
+    source: { kind: 'vits', quantized: true }
+  },
+  {
+    id: 'speecht5-slt',
+    model: 'Xenova/speecht5_tts',
+    label: 'SpeechT5 English (female)',
+    description: 'More natural but slower, ~150 MB with its vocoder',
+    language: 'en',
+    source: {
+      kind: 'speecht5',
+      quantized: false,
+      speakerEmbeddings: 'https://huggingface.co/datasets/Xenova/transformers.js-docs/resolve/main/speaker_embeddings.bin'
+    }
+  }
+];
+
+export const DEFAULT_NEURAL_VOICE_ID = 'mms-eng';
+
+/**
+ * The registered voice with this id, or the default voice for unknown ids (e.g. a voice
+ * that was removed after being selected)
+ */
+export function getNeuralVoice(id: string | null | undefined): NeuralVoiceInfo {
+  return NEURAL_VOICES.find(voice => voice.id === id)
+    ?? NEURAL_VOICES.find(voice => voice.id === DEFAULT_NEURAL_VOICE_ID)!;
+}
@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TTSEngine, TTSEngineEvents, TTSPlayback } from './engine';
+import { SpeechCoordinator, type SpeechEvent, type SpeechPriority, type SpeechRequest, type SpeechState } from './speech-coordinator';
+
+interface Utterance {
+  text: string;
+  events: TTSEngineEvents;
+  cancelled: boolean;
+  paused: boolean;
+}
+
+// Records what it is asked to say; the test plays each utterance's events itself
+class FakeEngine implements TTSEngine {
+  readonly id = 'speech-synthesis';
+  utterances: Utterance[] = [];
+
+  speak(text: string, _settings: unknown, events: TTSEngineEvents): TTSPlayback {
+    const utterance: Utterance = { text, events, cancelled: false, paused: false };
+    this.utterances.push(utterance);
+    return {
+      pause: () => { utterance.paused = true; },
+      resume: () => { utterance.paused = false; },
+      cancel: () => { utterance.cancelled = true; }
+    };
+  }
+
+  get last(): Utterance {
+    return this.utterances[this.utterances.length - 1];
+  }
+}
+
+// play() looks the engine up asynchronously
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const setup = (getEngine?: () => Promise<TTSEngine>) => {
+  const engine = new FakeEngine();
+  const events: SpeechEvent[] = [];
+  const states: SpeechState[] = [];
+  const coordinator = new SpeechCoordinator({
+    getEngine: getEngine ?? (async () => engine),
+    fallbackEngine: engine,
+    onEvent: (_, event) => events.push(event),
+    onStateChange: state => states.push(state)
+  });
+  return { coordinator, engine, events, states };
+};
+
+const request = (id: string, priority: SpeechPriority, text = `Text of ${id}`, tabId?: number): SpeechRequest => ({
+  id,
+  text,
+  settings: {},
+  priority,
+  source: tabId === undefined ? 'sidepanel' : 'content',
+  origin: { tabId },
+  boundaries: false,
+  offset: 0
+});
+
+const eventsOf = (events: SpeechEvent[], id: string) => events.filter(event => event.id === id).map(event => event.event);
+
+describe('SpeechCoordinator.speak', () => {
+  it('speaks right away when nothing is being said', async () => {
+    const { coordinator, engine } = setup();
+
+    coordinator.speak(request('a', 'normal'));
+    await flush();
+
+    expect(engine.utterances.map(utterance => utterance.text)).toEqual(['Text of a']);
+    expect(coordinator.getState()).toMatchObject({ speaking: { id: 'a' }, queued: 0 });
+  });
+
+  it('queues requests by priority and in arrival order within one', async () => {
+    const { coordinator, engine } = setup();
+
+    coordinator.speak(request('first', 'high'));
+    await flush();
+    for (const [id, priority] of [['low', 'low'], ['normal-1', 'normal'], ['high', 'high'], ['normal-2', 'normal']] as const) {
+      coordinator.speak(request(id, priority));
+    }
+    expect(coordinator.getState().queued).toBe(4);
+
+    const spoken: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      await flush();
+      spoken.push(engine.last.text);
+      engine.last.events.onEnd();
+    }
+
+    expect(spoken).toEqual(['Text of first', 'Text of high', 'Text of normal-1', 'Text of normal-2', 'Text of low']);
+    expect(coordinator.getState()).toEqual({ speaking: null, paused: false, queued: 0 });
+  });
+
+  it('does not interrupt for a request of the same or lower priority', async () => {
+    const { coordinator, engine } = setup();
+
+    coordinator.speak(request('a', 'normal'));
+    await flush();
+    coordinator.speak(request('b', 'normal'));
+    coordinator.speak(request('c', 'low'));
+    await flush();
+
+    expect(engine.utterances).toHaveLength(1);
+    expect(engine.last.cancelled).toBe(false);
+  });
+
+  it('interrupts for a higher priority request and resumes from the last word afterwards', async () => {
+    const { coordinator, engine, events } = setup();
+    const reading = request('reading', 'normal', 'The keepers kept meticulous records of every ship.');
+
+    coordinator.speak(reading);
+    await flush();
+    const interrupted = engine.last;
+    interrupted.events.onStart();
+    interrupted.events.onBoundary(12, 4);
+
+    coordinator.speak(request('reply', 'high'));
+    await flush();
+
+    expect(interrupted.cancelled).toBe(true);
+    expect(engine.last.text).toBe('Text of reply');
+    expect(coordinator.getState()).toMatchObject({ speaking: { id: 'reply' }, queued: 1 });
+
+    engine.last.events.onEnd();
+    await flush();
+
+    expect(engine.last.text).toBe('kept meticulous records of every ship.');
+    // Positions stay in the whole text
+    engine.last.events.onBoundary(5, 10);
+    expect(events).toContainEqual({ id: 'reading', event: 'boundary', charIndex: 17, charLength: 10 });
+    // Being interrupted is neither an end nor a cancel for the reader
+    expect(eventsOf(events, 'reading')).toEqual(['start', 'boundary', 'boundary']);
+  });
+
+  it('puts an interrupted request ahead of queued ones of its priority', async () => {
+    const { coordinator, engine } = setup();
+
+    coordinator.speak(request('reading', 'normal'));
+    await flush();
+    coordinator.speak(request('queued', 'normal'));
+    coordinator.speak(request('reply', 'high'));
+    await flush();
+    engine.last.events.onEnd();
+    await flush();
+
+    expect(engine.last.text).toBe('Text of reading');
+  });
+
+  it('ignores events of an utterance it has stopped', async () => {
+    const { coordinator, engine, events } = setup();
+
+    coordinator.speak(request('reading', 'low'));
+    await flush();
+    const stale = engine.last;
+    coordinator.speak(request('reply', 'high'));
+    await flush();
+
+    stale.events.onEnd();
+    await flush();
+
+    expect(coordinator.getState().speaking?.id).toBe('reply');
+    expect(eventsOf(events, 'reading')).toEqual([]);
+  });
+});
+
+describe('SpeechCoordinator controls', () => {
+  it('stops everything and tells every request', async () => {
+    const { coordinator, engine, events } = setup();
+
+    coordinator.speak(request('a', 'normal', 'A', 1));
+    await flush();
+    coordinator.speak(request('b', 'normal', 'B', 2));
+    coordinator.stopAll();
+
+    expect(engine.last.cancelled).toBe(true);
+    expect(events).toEqual([{ id: 'a', event: 'cancel' }, { id: 'b', event: 'cancel' }]);
+    expect(coordinator.getState()).toEqual({ speaking: null, paused: false, queued: 0 });
+  });
+
+  it('skips to the next request', async () => {
+    const { coordinator, engine, events } = setup();
+
+    coordinator.speak(request('a', 'normal'));
+    await flush();
+    coordinator.speak(request('b', 'normal'));
+    coordinator.skip();
+    await flush();
+
+    expect(events).toEqual([{ id: 'a', event: 'cancel' }]);
+    expect(engine.last.text).toBe('Text of b');
+  });
+
+  it('cancels only the asking context\'s requests, without telling it', async () => {
+    const { coordinator, engine, events } = setup();
+
+    coordinator.speak(request('tab-1', 'normal', 'One', 1));
+    await flush();
+    coordinator.speak(request('tab-2', 'normal', 'Two', 2));
+    coordinator.speak(request('tab-1-more', 'normal', 'More', 1));
+
+    coordinator.cancel({ tabId: 1 }, 'content');
+    await flush();
+
+    expect(events).toEqual([]);
+    expect(engine.last.text).toBe('Two');
+    expect(coordinator.getState()).toMatchObject({ speaking: { id: 'tab-2' }, queued: 0 });
+  });
+
+  it('pauses and resumes the current utterance', async () => {
+    const { coordinator, engine } = setup();
+
+    coordinator.speak(request('a', 'normal'));
+    await flush();
+    coordinator.togglePause();
+
+    expect(engine.last.paused).toBe(true);
+    expect(coordinator.getState().paused).toBe(true);
+
+    coordinator.togglePause();
+
+    expect(engine.last.paused).toBe(false);
+    expect(coordinator.getState().paused).toBe(false);
+  });
+});
+
+describe('SpeechCoordinator failures', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports a request whose engine cannot be looked up and plays the next one', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const engine = new FakeEngine();
+    const getEngine = vi.fn()
+      .mockRejectedValueOnce(new Error('Storage is unavailable'))
+      .mockResolvedValue(engine);
+    const { coordinator, events } = setup(getEngine);
+
+    coordinator.speak(request('a', 'normal'));
+    coordinator.speak(request('b', 'normal'));
+    await flush();
+
+    expect(events).toEqual([{ id: 'a', event: 'error', error: 'Storage is unavailable' }]);
+    expect(engine.utterances.map(utterance => utterance.text)).toEqual(['Text of b']);
+    expect(coordinator.getState()).toMatchObject({ speaking: { id: 'b' }, queued: 0 });
+  });
+
+  it('does not get stuck when the engine throws on speak', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { coordinator, engine, events } = setup();
+    const speak = vi.spyOn(engine, 'speak').mockImplementationOnce(() => {
+      throw new Error('No voices');
+    });
+
+    coordinator.speak(request('a', 'normal'));
+    await flush();
+
+    expect(events).toEqual([{ id: 'a', event: 'error', error: 'No voices' }]);
+    expect(coordinator.getState()).toEqual({ speaking: null, paused: false, queued: 0 });
+
+    coordinator.speak(request('b', 'normal'));
+    await flush();
+
+    expect(speak).toHaveBeenCalledTimes(2);
+    expect(coordinator.getState().speaking?.id).toBe('b');
+  });
+});
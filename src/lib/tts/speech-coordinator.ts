@@ -0,0 +1,392 @@
+/**
+ * The one place speech is played from. Runs in the background; the sidepanel and every
+ * tab send their requests to it (see ~lib/tts-coordinator), so sources take turns by
+ * priority instead of talking over each other.
+ */
+
+import { log, warn, err } from '~lib/log';
+import type { SpeechSettings, TTSEngine, TTSPlayback } from './engine';
+
+export type SpeechSource = 'sidepanel' | 'content' | 'other';
+export type SpeechPriority = 'high' | 'normal' | 'low';
+
+// The context a request came from: a tab's content script, or the sidepanel without a tabId
+export interface SpeechOrigin {
+  tabId?: number;
+  tabTitle?: string;
+}
+
+export interface SpeechRequest {
+  id: string;
+  text: string;
+  settings: SpeechSettings;
+  priority: SpeechPriority;
+  source: SpeechSource;
+  origin: SpeechOrigin;
+  // Report each word as it is spoken
+  boundaries: boolean;
+  // Characters already spoken when a higher priority request interrupted this one
+  offset: number;
+}
+
+// Progress of a request, for the context that made it. Character positions are in the
+// request's whole text. 'cancel' means someone else stopped it (e.g. the global stop).
+export interface SpeechEvent {
+  id: string;
+  event: 'start' | 'boundary' | 'end' | 'error' | 'cancel';
+  charIndex?: number;
+  charLength?: number;
+  error?: string;
+}
+
+// What every context is told about, for "now speaking" indicators and the global controls
+export interface SpeechState {
+  speaking: {
+    id: string;
+    source: SpeechSource;
+    priority: SpeechPriority;
+    tabId?: number;
+    tabTitle?: string;
+    // Start of the text being spoken
+    text: string;
+  } | null;
+  paused: boolean;
+  queued: number;
+}
+
+export interface SpeechCoordinatorOptions {
+  // The engine chosen in TTS settings, looked up as each request starts
+  getEngine(): Promise<TTSEngine>;
+  // Takes over a request the chosen engine could not start (e.g. a neural voice that cannot be downloaded)
+  fallbackEngine: TTSEngine;
+  onEvent(origin: SpeechOrigin, event: SpeechEvent): void;
+  onStateChange(state: SpeechState): void;
+}
+
+const PRIORITY_ORDER: Record<SpeechPriority, number> = { high: 3, normal: 2, low: 1 };
+
+// How long to wait after speech starts for a boundary event before estimating word timing
+const BOUNDARY_GRACE_MS = 600;
+// Speaking speed at rate 1.0 used for the estimate, in characters (including spaces) per second
+const ESTIMATED_CHARS_PER_SECOND = 14;
+// Characters of the spoken text included in SpeechState
+const STATE_TEXT_LENGTH = 80;
+
+interface EstimatedBoundaries {
+  request: SpeechRequest;
+  words: Array<{ index: number; length: number }>;
+  next: number;
+  msPerChar: number;
+  // When the next word is due, and the time left until then while paused
+  dueAt: number;
+  remainingMs: number;
+}
+
+export class SpeechCoordinator {
+  private current: SpeechRequest | null = null;
+  private currentPlayback: TTSPlayback | null = null;
+  private paused = false;
+  private queue: SpeechRequest[] = [];
+  // Position in the current request's text of the last word reported, where it resumes
+  // after being interrupted
+  private spokenUpTo = 0;
+  private boundaryTimer: ReturnType<typeof setTimeout> | null = null;
+  private estimatedBoundaries: EstimatedBoundaries | null = null;
+
+  constructor(private options: SpeechCoordinatorOptions) {}
+
+  /**
+   * Speak now if nothing is being said, or interrupt what is being said for a higher
+   * priority request; it is queued otherwise
+   */
+  speak(request: SpeechRequest): void {
+    log('[tts] Speech request:', { id: request.id, source: request.source, priority: request.priority, tabId: request.origin.tabId });
+
+    if (!this.current) {
+      this.play(request);
+      return;
+    }
+
+    if (PRIORITY_ORDER[request.priority] > PRIORITY_ORDER[this.current.priority]) {
+      // The interrupted request carries on from its last word afterwards
+      const interrupted = this.current;
+      log('[tts] Interrupting', interrupted.id, 'for higher priority', request.id);
+      this.stopCurrent();
+      interrupted.offset = this.spokenUpTo;
+      this.enqueue(interrupted, true);
+      this.play(request);
+      return;
+    }
+
+    this.enqueue(request);
+    this.emitState();
+  }
+
+  pause(): void {
+    if (!this.current || this.paused) return;
+
+    this.currentPlayback?.pause();
+    this.paused = true;
+
+    if (this.estimatedBoundaries && this.boundaryTimer) {
+      clearTimeout(this.boundaryTimer);
+      this.boundaryTimer = null;
+      this.estimatedBoundaries.remainingMs = Math.max(0, this.estimatedBoundaries.dueAt - Date.now());
+    }
+    this.emitState();
+  }
+
+  resume(): void {
+    if (!this.current || !this.paused) return;
+
+    this.currentPlayback?.resume();
+    this.paused = false;
+
+    if (this.estimatedBoundaries) {
+      this.scheduleEstimatedBoundary(this.estimatedBoundaries.remainingMs);
+    }
+    this.emitState();
+  }
+
+  togglePause(): void {
+    if (this.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  /**
+   * Stop what is being said; queued requests carry on
+   */
+  skip(): void {
+    const request = this.current;
+    if (!request) return;
+
+    this.stopCurrent();
+    this.emit(request, { event: 'cancel' });
+    this.playNext();
+  }
+
+  /**
+   * Stop what is being said and everything queued, from every context
+   */
+  stopAll(): void {
+    const stopped = [...(this.current ? [this.current] : []), ...this.queue];
+    this.queue = [];
+    this.stopCurrent();
+    stopped.forEach(request => this.emit(request, { event: 'cancel' }));
+    this.emitState();
+  }
+
+  /**
+   * Drop one context's requests from a source. The context asked for it, so it is not told.
+   */
+  cancel(origin: SpeechOrigin, source: SpeechSource): void {
+    const matches = (request: SpeechRequest) => request.source === source && request.origin.tabId === origin.tabId;
+
+    this.queue = this.queue.filter(request => !matches(request));
+    if (this.current && matches(this.current)) {
+      log('[tts] Cancelling', this.current.id);
+      this.stopCurrent();
+      this.playNext();
+    } else {
+      this.emitState();
+    }
+  }
+
+  getState(): SpeechState {
+    return {
+      speaking: this.current && {
+        id: this.current.id,
+        source: this.current.source,
+        priority: this.current.priority,
+        tabId: this.current.origin.tabId,
+        tabTitle: this.current.origin.tabTitle,
+        text: this.current.text.slice(this.current.offset, this.current.offset + STATE_TEXT_LENGTH)
+      },
+      paused: this.paused,
+      queued: this.queue.length
+    };
+  }
+
+  private enqueue(request: SpeechRequest, ahead: boolean = false): void {
+    // After requests of the same priority, or before them for an interrupted request
+    const priority = PRIORITY_ORDER[request.priority];
+    const index = this.queue.findIndex(queued => ahead
+      ? PRIORITY_ORDER[queued.priority] <= priority
+      : PRIORITY_ORDER[queued.priority] < priority);
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, request);
+  }
+
+  private async play(request: SpeechRequest, engine?: TTSEngine): Promise<void> {
+    this.current = request;
+    this.paused = false;
+    this.spokenUpTo = request.offset;
+    this.emitState();
+
+    try {
+      const speakingEngine = engine ?? await this.options.getEngine();
+      if (this.current !== request) {
+        // Cancelled while the engine was looked up
+        return;
+      }
+
+      const text = request.text.slice(request.offset);
+      let started = false;
+      const playback: TTSPlayback = speakingEngine.speak(text, request.settings, {
+        onStart: (durationMs) => {
+          if (this.currentPlayback !== playback) return;
+          started = true;
+          this.emit(request, { event: 'start' });
+
+          if (!request.boundaries) return;
+          // With the audio's length known the words can be spaced over it right away
+          if (durationMs) {
+            this.startEstimatedBoundaries(request, text, durationMs / Math.max(1, text.length));
+            return;
+          }
+          // Some voices (many remote ones) never fire boundary events
+          const rate = request.settings.rate || 1.0;
+          this.boundaryTimer = setTimeout(() => {
+            if (this.currentPlayback === playback) {
+              log('[tts] No word boundaries from voice, estimating timing');
+              this.startEstimatedBoundaries(request, text, 1000 / (ESTIMATED_CHARS_PER_SECOND * rate));
+            }
+          }, BOUNDARY_GRACE_MS);
+        },
+
+        onBoundary: (charIndex, charLength) => {
+          if (this.currentPlayback !== playback) return;
+          // Real boundaries take over from the estimate
+          this.stopBoundaries();
+          this.reportBoundary(request, charIndex, charLength);
+        },
+
+        onEnd: () => {
+          if (this.currentPlayback !== playback) return;
+          log('[tts] Speech ended:', request.id);
+          this.finishCurrent();
+          this.emit(request, { event: 'end' });
+          this.playNext();
+        },
+
+        onError: (error) => {
+          if (this.currentPlayback !== playback) return;
+
+          if (!started && speakingEngine !== this.options.fallbackEngine) {
+            warn('[tts] Engine', speakingEngine.id, 'failed, falling back to system voices:', error);
+            this.currentPlayback = null;
+            this.play(request, this.options.fallbackEngine);
+            return;
+          }
+
+          err('[tts] Speech error:', error, 'Request:', request.id);
+          this.finishCurrent();
+          this.emit(request, { event: 'error', error: error instanceof Error ? error.message : error.type });
+          this.playNext();
+        }
+      });
+
+      this.currentPlayback = playback;
+      // Paused while the engine was looked up
+      if (this.paused) {
+        playback.pause();
+      }
+    } catch (error) {
+      // A request that never started must not stay current, or every later one would only queue
+      if (this.current !== request) return;
+      err('[tts] Could not start speech:', error, 'Request:', request.id);
+      this.stopCurrent();
+      this.emit(request, { event: 'error', error: error instanceof Error ? error.message : String(error) });
+      this.playNext();
+    }
+  }
+
+  private playNext(): void {
+    const next = this.queue.shift();
+    if (next) {
+      this.play(next);
+    } else {
+      this.emitState();
+    }
+  }
+
+  private stopCurrent(): void {
+    this.currentPlayback?.cancel();
+    this.finishCurrent();
+  }
+
+  private finishCurrent(): void {
+    this.stopBoundaries();
+    this.current = null;
+    this.currentPlayback = null;
+    this.paused = false;
+  }
+
+  private reportBoundary(request: SpeechRequest, charIndex: number, charLength: number): void {
+    this.spokenUpTo = request.offset + charIndex;
+    this.emit(request, { event: 'boundary', charIndex: request.offset + charIndex, charLength });
+  }
+
+  /**
+   * Report words on a timer, spacing them by their length
+   */
+  private startEstimatedBoundaries(request: SpeechRequest, text: string, msPerChar: number): void {
+    const words: Array<{ index: number; length: number }> = [];
+    const wordPattern = /\S+/g;
+    for (let match = wordPattern.exec(text); match; match = wordPattern.exec(text)) {
+      words.push({ index: match.index, length: match[0].length });
+    }
+
+    this.estimatedBoundaries = {
+      request,
+      words,
+      next: 0,
+      msPerChar,
+      dueAt: Date.now(),
+      remainingMs: 0
+    };
+
+    // The first word started before the grace period
+    this.scheduleEstimatedBoundary(0);
+  }
+
+  private scheduleEstimatedBoundary(delay: number): void {
+    const estimate = this.estimatedBoundaries;
+    if (!estimate) return;
+
+    estimate.dueAt = Date.now() + delay;
+    estimate.remainingMs = delay;
+    this.boundaryTimer = setTimeout(() => {
+      this.boundaryTimer = null;
+      if (this.estimatedBoundaries !== estimate || this.paused) return;
+
+      const word = estimate.words[estimate.next];
+      if (!word) return;
+      this.reportBoundary(estimate.request, word.index, word.length);
+      estimate.next++;
+
+      const following = estimate.words[estimate.next];
+      if (following) {
+        this.scheduleEstimatedBoundary((following.index - word.index) * estimate.msPerChar);
+      }
+    }, delay);
+  }
+
+  private stopBoundaries(): void {
+    if (this.boundaryTimer) {
+      clearTimeout(this.boundaryTimer);
+      this.boundaryTimer = null;
+    }
+    this.estimatedBoundaries = null;
+  }
+
+  private emit(request: SpeechRequest, event: Omit<SpeechEvent, 'id'>): void {
+    this.options.onEvent(request.origin, { id: request.id, ...event });
+  }
+
+  private emitState(): void {
+    this.options.onStateChange(this.getState());
+  }
+}
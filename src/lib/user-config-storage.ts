@@ -1,6 +1,6 @@
 import { DEFAULT_CONFIG, UserConfig, validateConfig, ConfigUpdate } from '~types/user-config';
 
-const STORAGE_KEY = 'erpa_user_config';
+export const USER_CONFIG_STORAGE_KEY = 'erpa_user_config';
 const CURRENT_VERSION = 1;
 
 type Subscriber = (config: UserConfig) => void;
@@ -16,8 +16,8 @@ export class UserConfigManager {
     }
 
     try {
-      const result = await chrome.storage.local.get(STORAGE_KEY);
-      const stored = result[STORAGE_KEY];
+      const result = await chrome.storage.local.get(USER_CONFIG_STORAGE_KEY);
+      const stored = result[USER_CONFIG_STORAGE_KEY];
 
       if (stored && validateConfig(stored)) {
         // Check version and migrate if needed
@@ -37,7 +37,7 @@ export class UserConfigManager {
 
   async save(config: UserConfig): Promise<void> {
     try {
-      await chrome.storage.local.set({ [STORAGE_KEY]: config });
+      await chrome.storage.local.set({ [USER_CONFIG_STORAGE_KEY]: config });
       this.cachedConfig = config;
       this.notifySubscribers(config);
     } catch (error) {
@@ -95,8 +95,14 @@ export class UserConfigManager {
       // Reset to defaults for now (can implement actual migration later)
       return DEFAULT_CONFIG;
     }
-    
-    return config;
+
+    // Settings added within version 1 are missing from configs saved before them
+    return {
+      ...config,
+      tts: { ...DEFAULT_CONFIG.tts, ...config.tts },
+      experience: { ...DEFAULT_CONFIG.experience, ...config.experience },
+      advanced: { ...DEFAULT_CONFIG.advanced, ...config.advanced },
+    };
   }
 
   async exportConfig(): Promise<string> {
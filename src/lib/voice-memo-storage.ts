@@ -1,4 +1,11 @@
 import { VoiceMemo, ChatSession, VoiceMemoStorage } from '~types/voice-memo';
+import { arrayBufferToBase64, base64ToBlob } from '~lib/tts/wav';
+
+// chrome.storage only keeps JSON, so a memo's audio is stored as base64 with its type.
+// Its object URL is not stored, since it stops working when the page that made it closes.
+type StoredVoiceMemo = Omit<VoiceMemo, 'audioBlob' | 'audioUrl'> & {
+    audio?: { data: string; type: string };
+};
 
 export class VoiceMemoStorageManager implements VoiceMemoStorage {
     private readonly CHAT_SESSIONS_KEY = 'voice_memo_chat_sessions';
@@ -38,9 +45,9 @@ export class VoiceMemoStorageManager implements VoiceMemoStorage {
     async saveVoiceMemo(voiceMemo: VoiceMemo): Promise<void> {
         try {
             const result = await chrome.storage.local.get([this.VOICE_MEMOS_KEY]);
-            const voiceMemos: Record<string, VoiceMemo> = result[this.VOICE_MEMOS_KEY] || {};
+            const voiceMemos: Record<string, StoredVoiceMemo> = result[this.VOICE_MEMOS_KEY] || {};
 
-            voiceMemos[voiceMemo.id] = voiceMemo;
+            voiceMemos[voiceMemo.id] = await this.toStoredVoiceMemo(voiceMemo);
 
             await chrome.storage.local.set({
                 [this.VOICE_MEMOS_KEY]: voiceMemos
@@ -54,9 +61,9 @@ export class VoiceMemoStorageManager implements VoiceMemoStorage {
     async loadVoiceMemo(id: string): Promise<VoiceMemo | null> {
         try {
             const result = await chrome.storage.local.get([this.VOICE_MEMOS_KEY]);
-            const voiceMemos: Record<string, VoiceMemo> = result[this.VOICE_MEMOS_KEY] || {};
+            const voiceMemos: Record<string, StoredVoiceMemo> = result[this.VOICE_MEMOS_KEY] || {};
 
-            return voiceMemos[id] || null;
+            return voiceMemos[id] ? this.fromStoredVoiceMemo(voiceMemos[id]) : null;
         } catch (error) {
             console.error('Failed to load voice memo:', error);
             return null;
@@ -66,7 +73,7 @@ export class VoiceMemoStorageManager implements VoiceMemoStorage {
     async deleteVoiceMemo(id: string): Promise<void> {
         try {
             const result = await chrome.storage.local.get([this.VOICE_MEMOS_KEY]);
-            const voiceMemos: Record<string, VoiceMemo> = result[this.VOICE_MEMOS_KEY] || {};
+            const voiceMemos: Record<string, StoredVoiceMemo> = result[this.VOICE_MEMOS_KEY] || {};
 
             delete voiceMemos[id];
 
@@ -89,6 +96,26 @@ export class VoiceMemoStorageManager implements VoiceMemoStorage {
         }
     }
 
+    private async toStoredVoiceMemo(voiceMemo: VoiceMemo): Promise<StoredVoiceMemo> {
+        const { audioBlob, audioUrl, ...rest } = voiceMemo;
+        if (!audioBlob || audioBlob.size === 0) {
+            return rest;
+        }
+        return {
+            ...rest,
+            audio: { data: arrayBufferToBase64(await audioBlob.arrayBuffer()), type: audioBlob.type }
+        };
+    }
+
+    private fromStoredVoiceMemo(stored: StoredVoiceMemo): VoiceMemo {
+        // Memos saved before audio was encoded have an unusable audioBlob and audioUrl
+        const { audio, audioBlob, audioUrl, ...rest } = stored as StoredVoiceMemo & Partial<VoiceMemo>;
+        return {
+            ...rest,
+            audioBlob: audio ? base64ToBlob(audio.data, audio.type) : new Blob()
+        };
+    }
+
     // Utility methods
     generateVoiceMemoId(): string {
         return `voice_memo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
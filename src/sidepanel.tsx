@@ -1,4 +1,4 @@
-import { MicIcon, PencilIcon, SendIcon, SettingsIcon } from "lucide-react"
+import { HistoryIcon, MicIcon, PencilIcon, SendIcon, SettingsIcon, SquareIcon } from "lucide-react"
 import React from "react"
 import { TocPopup } from "~components/toc-popup"
 import { Button } from "~components/ui/button"
@@ -7,10 +7,13 @@ import { Textarea } from "~components/ui/textarea"
 import { VoicePoweredOrb } from "~components/ui/voice-powered-orb"
 import { Select, SelectContent, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "~components/ui/select"
 import { err, log, warn } from "~lib/log"
+import { call, createReceiver } from "~lib/messaging"
 import { ErpaChatAgent, useErpaChatAgent } from "~hooks/useErpaChatAgent"
-import { getContentFunction, navigateFunction, readOutFunction, semanticSearchFunction, summarizePageFunction } from "~lib/functions/definitions"
-import { UserConfigProvider } from "~contexts/UserConfigContext"
+import { agentFunctions } from "~lib/functions/definitions"
+import { parseConfirmationAnswer } from "~lib/functions/confirmation"
+import { UserConfigProvider, useAdvancedSettings } from "~contexts/UserConfigContext"
 import { SettingsDialog } from "~components/settings/settings-dialog"
+import { HistorySearchDialog } from "~components/history-search-dialog"
 import "~style.css"
 import type { ChatMessage } from "~types/voice-memo"
 import systemPrompt from "~lib/prompt"
@@ -18,6 +21,8 @@ import icon from "data-base64:/assets/logo.png"
 import "~lib/test-notification"
 import { ttsCoordinator } from "~lib/tts-coordinator"
 
+// Spoken or typed while the agent runs, cancels the run instead of starting a new one
+const STOP_COMMAND = /^\s*(stop|cancel|never ?mind|be quiet)\b/i
 
 function Sidepanel() {
     const [isListening, setIsListening] = React.useState(false)
@@ -35,13 +40,22 @@ function Sidepanel() {
     const [agentInitialized, setAgentInitialized] = React.useState(false)
     const [agentInitializing, setAgentInitializing] = React.useState(true)
     const [settingsOpen, setSettingsOpen] = React.useState(false)
+    const [historySearchOpen, setHistorySearchOpen] = React.useState(false)
+    const [awaitingConfirmation, setAwaitingConfirmation] = React.useState(false)
+    const [isAgentRunning, setIsAgentRunning] = React.useState(false)
 
     const agent = React.useRef<ErpaChatAgent | null>(null)
+    const abortControllerRef = React.useRef<AbortController | null>(null)
+    const { planningMode } = useAdvancedSettings()
 
     // Handle agent message updates
     const handleAgentMessageUpdate = React.useCallback((message: ChatMessage) => {
         console.log('Received message update:', message);
 
+        if (message.functionCallResponse) {
+            setAwaitingConfirmation(message.functionCallResponse.confirmation?.status === 'pending');
+        }
+
         setChatMessages(prev => {
             console.log('Current messages before update:', prev);
 
@@ -135,7 +149,7 @@ function Sidepanel() {
                 setAgentInitialized(false)
 
                 agent.current = new ErpaChatAgent({
-                    functions: [navigateFunction, readOutFunction, getContentFunction, semanticSearchFunction, summarizePageFunction],
+                    functions: agentFunctions,
                     systemPrompt: systemPrompt,
                     maxIterations: 10,
                     onMessageUpdate: handleAgentMessageUpdate,
@@ -161,16 +175,17 @@ function Sidepanel() {
     }, [])
 
     React.useEffect(() => {
-        const handleMessage = async (message: any) => {
-            if (message.type === "close-sidepanel") {
-                log(`Received close message: ${message.type}`);
+        const handleMessage = createReceiver('sidepanel', {
+            CLOSE_SIDEPANEL: () => {
+                log('Received close message: CLOSE_SIDEPANEL');
                 setIsSidepanelEnabled(false);
-            }
-
-            if (message.type === "speech-recognition-started") {
+                return {};
+            },
+            SPEECH_RECOGNITION_STARTED: () => {
                 setIsListening(true)
-            }
-            if (message.type === "speech-recognition-result") {
+                return {};
+            },
+            SPEECH_RECOGNITION_RESULT: async (message) => {
                 log('[speech-recognition-result] Speech recognition result received', { message })
                 setChatMessages(prev => [...prev, {
                     id: `speech-recognition-result-${Date.now()}`,
@@ -183,9 +198,18 @@ function Sidepanel() {
                     },
                     createdAt: Date.now()
                 } as ChatMessage])
-                await agent.current.run(message.transcript)
-            }
-            if (message.type === "speech-recognition-error") {
+                if (abortControllerRef.current && STOP_COMMAND.test(message.transcript)) {
+                    stopAgent()
+                    return {};
+                }
+                if (agent.current?.hasPendingConfirmation()) {
+                    answerConfirmation(message.transcript)
+                    return {};
+                }
+                await runAgent(message.transcript)
+                return {};
+            },
+            SPEECH_RECOGNITION_ERROR: (message) => {
                 log('[speech-recognition-error] Speech recognition error received', { message })
                 setChatMessages(prev => [...prev, {
                     id: `speech-recognition-error-${Date.now()}`,
@@ -199,24 +223,36 @@ function Sidepanel() {
                     createdAt: Date.now()
                 } as ChatMessage])
                 setIsListening(false)
-            }
-            if (message.type === "speech-recognition-ended") {
+                return {};
+            },
+            SPEECH_RECOGNITION_ENDED: (message) => {
                 log('[speech-recognition-ended] Speech recognition ended', { message })
                 setIsListening(false)
-            }
-            if (message.type === "speech-recognition-state-update") {
+                return {};
+            },
+            SPEECH_RECOGNITION_STATE_UPDATE: (message) => {
                 log('[speech-recognition-state-update] Received state update', { message })
                 log('[speech-recognition-state-update] Updating isListening from', isListening, 'to', message.isListening)
                 setIsListening(message.isListening)
+                return {};
+            },
+            SPEECH_EVENT: (event) => {
+                ttsCoordinator.handleEvent(event);
+                return {};
+            },
+            SPEECH_STATE: ({ state }) => {
+                // Nullable fields are inferred as optional without strictNullChecks
+                ttsCoordinator.handleState({ ...state, speaking: state.speaking ?? null });
+                return {};
             }
-        };
+        });
 
         chrome.runtime.onMessage.addListener(handleMessage);
 
         return () => {
             chrome.runtime.onMessage.removeListener(handleMessage);
         };
-    }, [agent.current, isListening]);
+    }, [agent.current, isListening, planningMode]);
 
     // Listen for tab updates to refresh the tab list
     React.useEffect(() => {
@@ -254,7 +290,8 @@ function Sidepanel() {
     // TTS control keyboard shortcuts
     React.useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            // TTS control shortcuts: ctrl+cmd+option+spacebar for pause/resume, ctrl+cmd+option+enter for stop
+            // TTS control shortcuts: ctrl+cmd+option+spacebar for pause/resume, ctrl+cmd+option+enter for stop.
+            // Both act on whatever is being said, here or in any tab.
             if (e.ctrlKey && e.metaKey && e.altKey) {
                 if (e.key === 'Space' || e.key === ' ') {
                     e.preventDefault();
@@ -267,8 +304,8 @@ function Sidepanel() {
                 
                 if (e.key === 'Enter') {
                     e.preventDefault();
-                    log('[TTS] Ctrl + Command + Option + Enter pressed - stopping TTS');
-                    ttsCoordinator.cancelCurrent();
+                    log('[TTS] Ctrl + Command + Option + Enter pressed - stopping all TTS');
+                    ttsCoordinator.stopAll();
                     return;
                 }
             }
@@ -294,6 +331,51 @@ function Sidepanel() {
         await agent.current.addToContext([{ role: 'system', content: `The table of contents is: ${sections.map(s => `Name: ${s.title} (Selector: ${s.cssSelector})`).join('\n')}` }])
     }, [agent])
 
+    const handleConfirmFunctionCall = React.useCallback((approved: boolean) => {
+        agent.current?.respondToConfirmation(approved)
+    }, [])
+
+    // Runs the agent with a fresh abort signal, so one run can be stopped without affecting the next
+    const runAgent = async (task: string) => {
+        if (!agent.current) {
+            log('Agent not initialized')
+            return
+        }
+        abortControllerRef.current?.abort()
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        setIsAgentRunning(true)
+        try {
+            await agent.current.run(task, { signal: controller.signal, plan: planningMode })
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null
+                setIsAgentRunning(false)
+            }
+        }
+    }
+
+    const stopAgent = React.useCallback(() => {
+        log('Stopping agent run')
+        abortControllerRef.current?.abort()
+    }, [])
+
+    // Spoken or typed answer while the agent waits for a confirmation
+    const answerConfirmation = (answer: string) => {
+        const approved = parseConfirmationAnswer(answer)
+        if (approved === null) {
+            ttsCoordinator.requestTTS({
+                id: `confirmation-retry-${Date.now()}`,
+                text: 'Please answer yes or no.',
+                settings: {},
+                priority: 'high',
+                source: 'sidepanel'
+            })
+            return
+        }
+        handleConfirmFunctionCall(approved)
+    }
+
     const deleteMessage = React.useCallback((messageId: string) => {
         setChatMessages(prev => prev.filter(msg => msg.id !== messageId))
     }, [])
@@ -325,6 +407,18 @@ function Sidepanel() {
             createdAt: Date.now()
         } as ChatMessage])
 
+        if (abortControllerRef.current && STOP_COMMAND.test(userMessage)) {
+            setTextInput("")
+            stopAgent()
+            return
+        }
+
+        if (agent.current.hasPendingConfirmation()) {
+            setTextInput("")
+            answerConfirmation(userMessage)
+            return
+        }
+
         // Clear input and set loading states
         setTextInput("")
         setIsProcessingText(true)
@@ -333,7 +427,7 @@ function Sidepanel() {
         try {
             log('Starting agent execution with task:', userMessage)
 
-            await agent.current.run(userMessage)
+            await runAgent(userMessage)
 
             log('Agent execution completed')
         } catch (error) {
@@ -434,15 +528,26 @@ function Sidepanel() {
                         />
                         <h1 className="text-xl font-semibold">Erpa</h1>
                     </div>
-                    <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => setSettingsOpen(true)}
-                        className="hover:bg-gray-800"
-                        aria-label="Settings"
-                    >
-                        <SettingsIcon className="w-5 h-5" />
-                    </Button>
+                    <div className="flex items-center gap-1">
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistorySearchOpen(true)}
+                            className="hover:bg-gray-800"
+                            aria-label="Search everything I've read"
+                        >
+                            <HistoryIcon className="w-5 h-5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setSettingsOpen(true)}
+                            className="hover:bg-gray-800"
+                            aria-label="Settings"
+                        >
+                            <SettingsIcon className="w-5 h-5" />
+                        </Button>
+                    </div>
                 </div>
                 <p className="mt-2 text-sm text-gray-400">
                     {agentInitializing ? "Agent is initializing..." :
@@ -481,6 +586,7 @@ function Sidepanel() {
                 <ChatInterface
                     messages={chatMessages}
                     onDeleteMessage={deleteMessage}
+                    onConfirmFunctionCall={handleConfirmFunctionCall}
                     isLoading={chatLoading || isTranscribing || isProcessingText}
                     currentStreamingMessageId={currentStreamingMessageId}
                     className="h-full"
@@ -524,6 +630,11 @@ function Sidepanel() {
                     </div>
                     <div className="toc flex items-center gap-1">
                         <TocPopup onTocGenerated={handleTocGenerated} />
+                        {isAgentRunning && (
+                            <Button variant="ghost" size="sm" onClick={stopAgent} aria-label="Stop the agent" title="Stop (or say &quot;stop&quot;)">
+                                <SquareIcon className="w-4 h-4 fill-current" />
+                            </Button>
+                        )}
                         {
                             mode === "text" ? (
                                 <Button variant="ghost" size="sm" onClick={() => setMode("voice")}>
@@ -549,15 +660,13 @@ function Sidepanel() {
                                     if (currentTabId) {
                                         try {
                                             log('[toggle-mic] Sending message to tab', currentTabId, 'with payload:', {
-                                                type: 'toggle-mic',
-                                                target: 'content',
+                                                type: 'TOGGLE_MIC',
                                                 isListening: !isListening
                                             })
-                                            await chrome.tabs.sendMessage(currentTabId, {
-                                                type: 'toggle-mic',
-                                                target: 'content',
+                                            await call('content', {
+                                                type: 'TOGGLE_MIC',
                                                 isListening: !isListening
-                                            })
+                                            }, { tabId: currentTabId })
                                             log('[toggle-mic] Message sent to content script successfully')
                                         } catch (error) {
                                             err('[toggle-mic] Failed to send message to content script:', error)
@@ -592,8 +701,8 @@ function Sidepanel() {
                                 onKeyPress={handleKeyPress}
                                 onClick={(e) => e.stopPropagation()}
                                 className="rounded-xl overflow-hidden shadow-2xl hover:scale-120 transition-all duration-300 max-h-24 w-full px-4 text-sm resize-none"
-                                placeholder="Type your message..."
-                                disabled={isProcessingText}
+                                placeholder={awaitingConfirmation ? "Answer yes or no..." : "Type your message..."}
+                                disabled={isProcessingText && !awaitingConfirmation}
                             />
                             <Button
                                 variant="ghost"
@@ -602,7 +711,7 @@ function Sidepanel() {
                                     e.stopPropagation()
                                     handleTextSubmit()
                                 }}
-                                disabled={!textInput.trim() || isProcessingText}
+                                disabled={!textInput.trim() || (isProcessingText && !awaitingConfirmation)}
                                 className="flex-shrink-0"
                             >
                                 {isProcessingText ? (
@@ -618,6 +727,7 @@ function Sidepanel() {
             
             {/* Settings Dialog */}
             <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+            <HistorySearchDialog open={historySearchOpen} onOpenChange={setHistorySearchOpen} />
         </div>
     )
 }
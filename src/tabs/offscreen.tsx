@@ -1,14 +1,58 @@
 import { useEffect, useRef } from "react"
 import { countRows, getDB, initSchema } from "~lib/db"
 import { log, err } from "~lib/log"
-import { EmbeddingCache } from "~lib/semantic-search/cache"
-
-// Embedding model management
-let embeddingModel: any = null
-let modelLoadingPromise: Promise<any> | null = null
+import { createReceiver, notify } from "~lib/messaging"
+import { MemoryStore } from "~lib/memory/store"
+import { EmbeddingCache, type IndexedPage } from "~lib/semantic-search/cache"
+import { benchmarkEmbeddingModels } from "~lib/semantic-search/benchmark"
+import {
+  DEFAULT_EMBEDDING_MODEL_ID,
+  EMBEDDING_MODELS,
+  getEmbeddingModel,
+  type EmbeddingModelInfo
+} from "~lib/semantic-search/embedding-model"
+import { createEmbeddingProvider, type EmbeddingProvider } from "~lib/semantic-search/embedding-provider"
+import { RETRIEVAL_FIXTURE } from "~lib/semantic-search/evaluation"
+import type { CachedPageSummary } from "~lib/messaging"
+import { NeuralTTSEngine, type SpeechSettings, type TTSPlayback } from "~lib/tts/engine"
+import { NeuralSpeechSynthesizer } from "~lib/tts/neural-synthesizer"
+import { getNeuralVoice } from "~lib/tts/neural-voice"
+import { arrayBufferToBase64, encodeWav, WAV_MIME_TYPE } from "~lib/tts/wav"
+
+// Embedding model management. The background selects the model chosen in Advanced
+// settings when it creates this document and whenever the setting changes.
+let embeddingProvider: EmbeddingProvider = createEmbeddingProvider(getEmbeddingModel(DEFAULT_EMBEDDING_MODEL_ID))
+
+// Neural voice for speech synthesis, created for the voice of the first request and
+// replaced when a request asks for another one
+let speechSynthesizer: NeuralSpeechSynthesizer | null = null
+// Plays the neural voice for the background's speech coordinator, keeping recent audio
+let speechEngine: NeuralTTSEngine | null = null
+// Playbacks started by PLAY_SPEECH, by the background's playback id
+const speechPlaybacks = new Map<string, TTSPlayback>()
 
 // Cache instance (initialized after db is ready)
 let cacheInstance: EmbeddingCache | null = null
+let memoryStoreInstance: MemoryStore | null = null
+// Memories saved under an earlier embedding model are re-embedded once, on first use
+let memoryReembedPromise: Promise<number> | null = null
+
+// Recalled memories below this similarity are unrelated to the query
+const DEFAULT_MEMORY_MIN_SIMILARITY = 0.3
+// Pause between the batches of a batched SYNC_PAGE_INDEX, so searches get a turn
+const SYNC_BATCH_PAUSE_MS = 250
+
+const toCachedPageSummary = (page: IndexedPage): CachedPageSummary => ({
+  url: page.url,
+  created_at: new Date(page.timestamp).toISOString(),
+  sentences_count: page.sentenceCount,
+  embeddings_count: page.sentenceCount,
+  timestamp: page.timestamp,
+  pageHash: page.pageHash,
+  modelId: page.modelId,
+  modelVersion: page.modelVersion,
+  dimensions: page.dimensions
+})
 
 /**
  * Helper to wait for setup completion with timeout
@@ -26,53 +70,11 @@ async function waitForSetup(setupComplete: React.MutableRefObject<boolean>): Pro
 }
 
 /**
- * Load the embedding model using transformers.js
+ * Load the selected embedding model
  */
-async function loadEmbeddingModel(): Promise<any> {
-  if (embeddingModel) {
-    return embeddingModel
-  }
-
-  if (modelLoadingPromise) {
-    return modelLoadingPromise
-  }
-
-  modelLoadingPromise = (async () => {
-    try {
-      log('[semantic-search] Loading embedding model in offscreen document...')
-
-      // Dynamic import to avoid bundling issues
-      const { pipeline, env } = await import('@xenova/transformers')
-
-      // Configure environment
-      env.allowLocalModels = false // Use CDN
-      env.allowRemoteModels = true
-
-      // Load the sentence transformer model
-      const model = await pipeline(
-        'feature-extraction',
-        'Xenova/all-MiniLM-L6-v2',
-        {
-          quantized: true, // Use quantized model for smaller size
-          progress_callback: (progress: any) => {
-            if (progress.status === 'downloading') {
-              log('[semantic-search] Model download progress:', Math.round(progress.progress * 100) + '%')
-            }
-          }
-        }
-      )
-
-      embeddingModel = model
-      log('[semantic-search] Embedding model loaded successfully in offscreen document')
-      return model
-    } catch (error) {
-      err('[semantic-search] Failed to load embedding model:', error)
-      modelLoadingPromise = null
-      throw error
-    }
-  })()
-
-  return modelLoadingPromise
+async function loadEmbeddingModel(): Promise<EmbeddingModelInfo> {
+  await embeddingProvider.load()
+  return embeddingProvider.model
 }
 
 /**
@@ -80,13 +82,8 @@ async function loadEmbeddingModel(): Promise<any> {
  */
 async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const model = await loadEmbeddingModel()
-    const result = await model(text, {
-      pooling: 'mean',
-      normalize: true
-    })
-
-    return Array.from(result.data)
+    const [embedding] = await embeddingProvider.embed([text])
+    return embedding
   } catch (error) {
     err('[semantic-search] Error generating embedding:', error)
     throw error
@@ -98,22 +95,8 @@ async function generateEmbedding(text: string): Promise<number[]> {
  */
 async function generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
   try {
-    const model = await loadEmbeddingModel()
-    log('[semantic-search] Generating embeddings for', texts.length, 'texts')
-
-    // Process in batches to avoid memory issues
-    const batchSize = 10
-    const embeddings: number[][] = []
-
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize)
-      const results = await Promise.all(
-        batch.map(text => generateEmbedding(text))
-      )
-      embeddings.push(...results)
-
-      log('[semantic-search] Processed batch', Math.floor(i / batchSize) + 1, 'of', Math.ceil(texts.length / batchSize))
-    }
+    log('[semantic-search] Generating embeddings for', texts.length, 'texts with', embeddingProvider.model.id)
+    const embeddings = await embeddingProvider.embed(texts)
 
     log('[semantic-search] Generated', embeddings.length, 'embeddings')
     return embeddings
@@ -123,6 +106,81 @@ async function generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
   }
 }
 
+/**
+ * Embed a page's new sentences a batch at a time for a batched SYNC_PAGE_INDEX, telling
+ * the background how far it got after each batch
+ */
+async function generateEmbeddingsInBatches(url: string, texts: string[], batchSize: number): Promise<number[][]> {
+  const embeddings: number[][] = []
+  for (let i = 0; i < texts.length; i += batchSize) {
+    if (i > 0) {
+      await new Promise(resolve => setTimeout(resolve, SYNC_BATCH_PAUSE_MS))
+    }
+    embeddings.push(...await generateBatchEmbeddings(texts.slice(i, i + batchSize)))
+    notify('background', { type: 'PAGE_INDEX_PROGRESS', url, embedded: embeddings.length, total: texts.length })
+  }
+  return embeddings
+}
+
+/**
+ * Speak text with a neural voice, as a WAV file
+ */
+async function synthesizeWav(text: string, voiceId?: string) {
+  const voice = getNeuralVoice(voiceId)
+  if (speechSynthesizer?.voice.id !== voice.id) {
+    log('[tts] Switching neural voice to', voice.id)
+    const previous = speechSynthesizer
+    speechSynthesizer = new NeuralSpeechSynthesizer(voice)
+    await previous?.dispose()
+  }
+
+  const { samples, sampleRate } = await speechSynthesizer.synthesize(text)
+  log('[tts] Synthesized', samples.length, 'samples for', text.length, 'characters')
+  return {
+    wav: encodeWav(samples, sampleRate),
+    sampleRate,
+    duration: samples.length / sampleRate,
+    voice
+  }
+}
+
+async function synthesizeSpeech(text: string, voiceId?: string) {
+  const { wav, sampleRate, duration, voice } = await synthesizeWav(text, voiceId)
+  return { audio: arrayBufferToBase64(wav), mimeType: WAV_MIME_TYPE, sampleRate, duration, voice }
+}
+
+/**
+ * Play text with a neural voice here, where audio can play without a page. How it goes is
+ * reported to the background, which is waiting on it.
+ */
+function playSpeech(id: string, text: string, voiceId: string, settings: SpeechSettings) {
+  if (speechEngine?.voiceId !== voiceId) {
+    speechEngine = new NeuralTTSEngine(voiceId, async (text, voiceId) => {
+      const { wav, duration } = await synthesizeWav(text, voiceId)
+      return { blob: new Blob([wav], { type: WAV_MIME_TYPE }), duration }
+    })
+  }
+
+  const report = (event: 'start' | 'end' | 'error', details: { durationMs?: number; error?: string } = {}) => {
+    notify('background', { type: 'SPEECH_PLAYBACK_EVENT', id, event, ...details })
+  }
+
+  speechPlaybacks.set(id, speechEngine.speak(text, settings, {
+    onStart: (durationMs) => report('start', { durationMs }),
+    // Neural voices have no word boundaries; the coordinator spaces them over the duration
+    onBoundary: () => {},
+    onEnd: () => {
+      speechPlaybacks.delete(id)
+      report('end')
+    },
+    onError: (error) => {
+      speechPlaybacks.delete(id)
+      err('[tts] Neural playback failed:', error)
+      report('error', { error: error instanceof Error ? error.message : error.type })
+    }
+  }))
+}
+
 // Global debugging interface for devtools
 declare global {
   interface Window {
@@ -161,324 +219,288 @@ const Offscreen = () => {
   useEffect(() => {
     log('[semantic-search] Offscreen embedding worker initialized')
 
-    // Listen for messages from the background script
-    const handleMessage = (message: any, _sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
-      // Only handle messages targeted to offscreen
-      if (message?.target !== 'offscreen') return false
-
-      if (message.type === 'LOAD_EMBEDDING_MODEL') {
-        loadEmbeddingModel()
-          .then(() => {
-            sendResponse({ success: true })
-          })
-          .catch((error) => {
-            sendResponse({ success: false, error: error.message })
-          })
-        return true // Keep message channel open for async response
-      }
-
-      if (message.type === 'GENERATE_EMBEDDING') {
-        generateEmbedding(message.text)
-          .then((embedding) => {
-            sendResponse({ success: true, embedding })
-          })
-          .catch((error) => {
-            sendResponse({ success: false, error: error.message })
-          })
-        return true // Keep message channel open for async response
+    /**
+     * Resolve the cache once database setup has finished
+     */
+    const requireCache = async (): Promise<EmbeddingCache> => {
+      if (!(await waitForSetup(setupComplete))) {
+        err('[offscreen] ❌ Timeout waiting for database setup')
+        throw new Error('Database setup timeout')
       }
 
-      if (message.type === 'BATCH_GENERATE_EMBEDDINGS') {
-        generateBatchEmbeddings(message.texts)
-          .then((embeddings) => {
-            sendResponse({ success: true, embeddings })
-          })
-          .catch((error) => {
-            sendResponse({ success: false, error: error.message })
-          })
-        return true // Keep message channel open for async response
+      if (!cacheInstance) {
+        err('[offscreen] ❌ Cache not initialized')
+        throw new Error('Cache not initialized')
       }
 
-      // Cache operations
-      if (message.type === 'GET_CACHED_EMBEDDINGS') {
-        (async () => {
-          try {
-            // Wait for setup to complete
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout', cachedEmbeddings: null })
-              return
-            }
-
-            if (!cacheInstance) {
-              err('[offscreen] ❌ Cache not initialized')
-              sendResponse({ success: false, error: 'Cache not initialized', cachedEmbeddings: null })
-              return
-            }
-
-            log('[offscreen] Getting cached embeddings for URL:', message.url)
-            const cachedEmbeddings = await cacheInstance.getCachedEmbeddings(message.url, message.segments)
-
-            if (cachedEmbeddings) {
-              log('[offscreen] ✅ Found cached embeddings, returning to caller')
-            } else {
-              log('[offscreen] ❌ No cached embeddings found')
-            }
+      return cacheInstance
+    }
 
-            sendResponse({ success: true, cachedEmbeddings })
-          } catch (error) {
-            err('[offscreen] ❌ Error getting cached embeddings:', error)
-            sendResponse({ success: false, error: error.message, cachedEmbeddings: null })
-          }
-        })()
-        return true
+    const requireMemoryStore = async (): Promise<MemoryStore> => {
+      if (!(await waitForSetup(setupComplete))) {
+        err('[offscreen] ❌ Timeout waiting for database setup')
+        throw new Error('Database setup timeout')
       }
 
-      if (message.type === 'GET_CACHED_EMBEDDINGS_BY_URL') {
-        (async () => {
-          try {
-            // Wait for setup to complete
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout', cachedEmbeddings: null })
-              return
-            }
-
-            if (!cacheInstance) {
-              err('[offscreen] ❌ Cache not initialized')
-              sendResponse({ success: false, error: 'Cache not initialized', cachedEmbeddings: null })
-              return
-            }
-
-            log('[offscreen] Getting cached embeddings by URL only:', message.url)
-            const cachedEmbeddings = await cacheInstance.getCachedEmbeddingsByUrl(message.url)
-
-            if (cachedEmbeddings) {
-              log('[offscreen] ✅ Found cached embeddings by URL, returning to caller')
-            } else {
-              log('[offscreen] ❌ No cached embeddings found for URL')
-            }
-
-            sendResponse({ success: true, cachedEmbeddings })
-          } catch (error) {
-            err('[offscreen] ❌ Error getting cached embeddings by URL:', error)
-            sendResponse({ success: false, error: error.message, cachedEmbeddings: null })
-          }
-        })()
-        return true
+      if (!memoryStoreInstance) {
+        err('[offscreen] ❌ Memory store not initialized')
+        throw new Error('Memory store not initialized')
       }
 
+      return memoryStoreInstance
+    }
 
-      if (message.type === 'CACHE_EMBEDDINGS') {
-        (async () => {
-          try {
-            // Wait for setup to complete
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
-
-            if (!cacheInstance) {
-              err('[offscreen] ❌ Cache not initialized')
-              sendResponse({ success: false, error: 'Cache not initialized' })
-              return
-            }
-
-            log('[offscreen] 💾 Caching embeddings for URL:', message.url)
-            log('[offscreen] Received', message.embeddings?.length, 'embeddings for', message.segments?.length, 'segments')
-
-            await cacheInstance.cacheEmbeddings(message.url, message.segments, message.embeddings)
-
-            log('[offscreen] ✅ Successfully cached embeddings')
-            sendResponse({ success: true })
-          } catch (error) {
-            err('[offscreen] ❌ Error caching embeddings:', error)
-            sendResponse({ success: false, error: error.message })
-          }
-        })()
-        return true
+    // For handlers that compare embeddings: memories from an earlier model are refreshed first
+    const requireCurrentMemoryStore = async (): Promise<MemoryStore> => {
+      const store = await requireMemoryStore()
+      if (!memoryReembedPromise) {
+        memoryReembedPromise = store.reembed(generateBatchEmbeddings).catch(error => {
+          memoryReembedPromise = null
+          throw error
+        })
       }
+      await memoryReembedPromise
+      return store
+    }
 
-      if (message.type === 'GET_CACHE_STATS') {
-        (async () => {
-          try {
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
-
-            if (!cacheInstance) {
-              err('[offscreen] ❌ Cache not initialized')
-              sendResponse({ success: false, error: 'Cache not initialized' })
-              return
-            }
-
-            const stats = await cacheInstance.getCacheStats()
-
-            log('[offscreen] 📊 Cache stats:', stats)
-            sendResponse({ success: true, stats })
-          } catch (error) {
-            err('[offscreen] ❌ Error getting cache stats:', error)
-            sendResponse({ success: false, error: error.message })
-          }
-        })()
-        return true
+    /**
+     * Switch the model used for embeddings. The cache and memory store switch with it,
+     * so pages and memories are read and written in the new model's namespace.
+     */
+    const selectEmbeddingModel = async (modelId: string): Promise<EmbeddingModelInfo> => {
+      const model = getEmbeddingModel(modelId)
+      if (model.id === embeddingProvider.model.id && model.version === embeddingProvider.model.version) {
+        return model
       }
 
-      if (message.type === 'CLEAR_ALL_CACHE') {
-        (async () => {
-          try {
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
-
-            if (!cacheInstance) {
-              err('[offscreen] ❌ Cache not initialized')
-              sendResponse({ success: false, error: 'Cache not initialized' })
-              return
-            }
+      log('[semantic-search] Switching embedding model from', embeddingProvider.model.id, 'to', model.id)
+      const previous = embeddingProvider
+      embeddingProvider = createEmbeddingProvider(model)
+      await previous.dispose()
 
-            await cacheInstance.clearAllCachedEmbeddings()
-
-            log('[offscreen] 🗑️ Cleared all cached embeddings')
-            sendResponse({ success: true })
-          } catch (error) {
-            err('[offscreen] ❌ Error clearing cache:', error)
-            sendResponse({ success: false, error: error.message })
-          }
-        })()
-        return true
+      // Before setup the stores do not exist yet; setup creates them for the selected model
+      if (cacheInstance && db.current) {
+        cacheInstance = new EmbeddingCache(db.current, model)
+        memoryStoreInstance = new MemoryStore(db.current, model)
+        memoryReembedPromise = null
       }
+      return model
+    }
 
-      if (message.type === 'CLEANUP_CACHE') {
-        (async () => {
-          try {
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
+    const requireDb = async () => {
+      if (!(await waitForSetup(setupComplete))) {
+        err('[offscreen] ❌ Timeout waiting for database setup')
+        throw new Error('Database setup timeout')
+      }
 
-            if (!cacheInstance) {
-              err('[offscreen] ❌ Cache not initialized')
-              sendResponse({ success: false, error: 'Cache not initialized' })
-              return
-            }
+      if (!db.current) {
+        err('[offscreen] ❌ Database not initialized')
+        throw new Error('Database not initialized')
+      }
 
-            await cacheInstance.cleanupExpiredEntries()
+      return db.current
+    }
 
-            log('[offscreen] 🧹 Cleaned up expired cache entries')
-            sendResponse({ success: true })
-          } catch (error) {
-            err('[offscreen] ❌ Error cleaning up cache:', error)
-            sendResponse({ success: false, error: error.message })
-          }
-        })()
-        return true
-      }
+    // Listen for messages from the background script
+    const handleMessage = createReceiver('offscreen', {
+      LOAD_EMBEDDING_MODEL: async ({ modelId }) => {
+        if (modelId) {
+          await selectEmbeddingModel(modelId)
+        }
+        return { model: await loadEmbeddingModel() }
+      },
 
-      // Debug message handlers
-      if (message.type === 'DEBUG_GET_DB_STATS') {
-        (async () => {
-          try {
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
+      SELECT_EMBEDDING_MODEL: async ({ modelId }) => ({ model: await selectEmbeddingModel(modelId) }),
 
-            if (!db.current) {
-              err('[offscreen] ❌ Database not initialized')
-              sendResponse({ success: false, error: 'Database not initialized' })
-              return
-            }
+      BENCHMARK_EMBEDDING_MODELS: async ({ modelIds }) => {
+        const models = modelIds ? EMBEDDING_MODELS.filter(model => modelIds.includes(model.id)) : EMBEDDING_MODELS
+        log('[semantic-search] Benchmarking', models.length, 'embedding models')
+        return { results: await benchmarkEmbeddingModels(models, RETRIEVAL_FIXTURE.sentences) }
+      },
 
-            const cachedPagesCount = await countRows(db.current, 'cached_pages')
+      GENERATE_EMBEDDING: async ({ text }) => ({ embedding: await generateEmbedding(text) }),
 
-            const stats = {
-              cachedPages: { count: cachedPagesCount, table: 'cached_pages' },
-              setupComplete: setupComplete.current,
-              modelLoaded: embeddingModel !== null
-            }
+      BATCH_GENERATE_EMBEDDINGS: async ({ texts }) => ({ embeddings: await generateBatchEmbeddings(texts) }),
 
-            sendResponse({ success: true, stats })
-          } catch (error) {
-            err('[offscreen] ❌ Error getting DB stats:', error)
-            sendResponse({ success: false, error: error.message })
-          }
-        })()
-        return true
-      }
+      // Cache operations
+      GET_CACHED_EMBEDDINGS: async ({ url, segments }) => {
+        const cache = await requireCache()
 
-      if (message.type === 'DEBUG_QUERY_DB') {
-        (async () => {
-          try {
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
+        log('[offscreen] Getting cached embeddings for URL:', url)
+        const cachedEmbeddings = await cache.getCachedEmbeddings(url, segments)
 
-            if (!db.current) {
-              err('[offscreen] ❌ Database not initialized')
-              sendResponse({ success: false, error: 'Database not initialized' })
-              return
-            }
+        if (cachedEmbeddings) {
+          log('[offscreen] ✅ Found cached embeddings, returning to caller')
+        } else {
+          log('[offscreen] ❌ No cached embeddings found')
+        }
 
-            const result = await db.current.query(message.sql, message.params || [])
-            sendResponse({ success: true, result })
-          } catch (error) {
-            err('[offscreen] ❌ Error executing query:', error)
-            sendResponse({ success: false, error: error.message })
-          }
-        })()
-        return true
-      }
+        return { cachedEmbeddings }
+      },
 
+      GET_CACHED_EMBEDDINGS_BY_URL: async ({ url }) => {
+        const cache = await requireCache()
 
-      if (message.type === 'DEBUG_GET_CACHED_PAGES') {
-        (async () => {
-          try {
-            if (!(await waitForSetup(setupComplete))) {
-              err('[offscreen] ❌ Timeout waiting for database setup')
-              sendResponse({ success: false, error: 'Database setup timeout' })
-              return
-            }
+        log('[offscreen] Getting cached embeddings by URL only:', url)
+        const cachedEmbeddings = await cache.getCachedEmbeddingsByUrl(url)
 
-            if (!db.current) {
-              err('[offscreen] ❌ Database not initialized')
-              sendResponse({ success: false, error: 'Database not initialized' })
-              return
-            }
+        if (cachedEmbeddings) {
+          log('[offscreen] ✅ Found cached embeddings by URL, returning to caller')
+        } else {
+          log('[offscreen] ❌ No cached embeddings found for URL')
+        }
 
-            const result = await db.current.query(
-              'SELECT url, created_at, page_data FROM cached_pages ORDER BY created_at DESC'
-            )
+        return { cachedEmbeddings }
+      },
+
+      GET_INDEXED_PAGE: async ({ url }) => {
+        const cache = await requireCache()
+        return { page: await cache.getIndexedPage(url) }
+      },
+
+      SEARCH_SIMILAR: async ({ query, url, limit, mode, kinds }) => {
+        const cache = await requireCache()
+        const matches = await cache.searchSentences(query, await generateEmbedding(query), {
+          limit: limit ?? 10,
+          url,
+          mode: mode ?? 'hybrid',
+          kinds
+        })
+
+        log('[offscreen] Found', matches.length, 'matching sentences', url ? `on ${url}` : 'across all pages', `(${mode ?? 'hybrid'})`)
+        return { matches }
+      },
+
+      CACHE_EMBEDDINGS: async ({ url, title, segments, embeddings }) => {
+        const cache = await requireCache()
+
+        log('[offscreen] 💾 Caching embeddings for URL:', url)
+        log('[offscreen] Received', embeddings.length, 'embeddings for', segments.length, 'segments')
+
+        await cache.cacheEmbeddings(url, segments, embeddings, title)
+
+        log('[offscreen] ✅ Successfully cached embeddings')
+        return {}
+      },
+
+      GET_CACHE_STATS: async () => {
+        const cache = await requireCache()
+        const stats = await cache.getCacheStats()
+
+        log('[offscreen] 📊 Cache stats:', stats)
+        return { stats }
+      },
+
+      SYNC_PAGE_INDEX: async ({ url, title, segments, batchSize }) => {
+        const cache = await requireCache()
+        const embed = batchSize
+          ? (texts: string[]) => generateEmbeddingsInBatches(url, texts, batchSize)
+          : generateBatchEmbeddings
+        return cache.syncPage(url, segments, embed, title)
+      },
+
+      FIND_UNEMBEDDED_SENTENCES: async ({ url, texts }) => {
+        const cache = await requireCache()
+        return { positions: await cache.findUnembeddedSentences(url, texts) }
+      },
+
+      CLEAR_CACHED_PAGE: async ({ url }) => {
+        const cache = await requireCache()
+        await cache.clearCachedEmbeddings(url)
+        return {}
+      },
+
+      CLEAR_ALL_CACHE: async () => {
+        const cache = await requireCache()
+        await cache.clearAllCachedEmbeddings()
+
+        log('[offscreen] 🗑️ Cleared all cached embeddings')
+        return {}
+      },
+
+      CLEANUP_CACHE: async () => {
+        const cache = await requireCache()
+        await cache.cleanupExpiredEntries()
+
+        log('[offscreen] 🧹 Cleaned up expired cache entries')
+        return {}
+      },
+
+      // Agent memory operations
+      ADD_MEMORY: async ({ kind, content, sourceUrl }) => {
+        const store = await requireCurrentMemoryStore()
+        const memory = await store.add({ kind, content, sourceUrl }, await generateEmbedding(content))
+        return { memory }
+      },
+
+      SEARCH_MEMORIES: async ({ query, limit, minSimilarity }) => {
+        const store = await requireCurrentMemoryStore()
+        const memories = await store.search(await generateEmbedding(query), limit ?? 5, minSimilarity ?? DEFAULT_MEMORY_MIN_SIMILARITY)
+
+        log('[offscreen] Recalled', memories.length, 'memories for query')
+        return { memories }
+      },
+
+      LIST_MEMORIES: async () => {
+        const store = await requireMemoryStore()
+        return { memories: await store.list() }
+      },
+
+      DELETE_MEMORY: async ({ id }) => {
+        const store = await requireMemoryStore()
+        await store.delete(id)
+        return {}
+      },
+
+      CLEAR_MEMORIES: async () => {
+        const store = await requireMemoryStore()
+        await store.clear()
+        return {}
+      },
+
+      SYNTHESIZE_SPEECH: async ({ text, voiceId }) => synthesizeSpeech(text, voiceId),
+
+      PLAY_SPEECH: ({ id, text, voiceId, settings }) => {
+        playSpeech(id, text, voiceId, settings)
+        return {}
+      },
+
+      CONTROL_SPEECH_PLAYBACK: ({ id, action }) => {
+        const playback = speechPlaybacks.get(id)
+        if (action === 'cancel') {
+          speechPlaybacks.delete(id)
+        }
+        playback?.[action]()
+        return {}
+      },
 
-            const pages = result.rows.map(row => ({
-              url: row.url,
-              created_at: row.created_at,
-              sentences_count: row.page_data.sentences?.length || 0,
-              embeddings_count: row.page_data.embeddings?.length || 0,
-              timestamp: row.page_data.timestamp,
-              pageHash: row.page_data.pageHash
-            }))
+      // Debug message handlers
+      DEBUG_GET_DB_STATS: async () => {
+        const database = await requireDb()
+        const cachedPagesCount = await countRows(database, 'pages')
 
-            sendResponse({ success: true, pages })
-          } catch (error) {
-            err('[offscreen] ❌ Error getting cached pages:', error)
-            sendResponse({ success: false, error: error.message })
+        return {
+          stats: {
+            cachedPages: { count: cachedPagesCount, table: 'pages' },
+            setupComplete: setupComplete.current,
+            modelLoaded: embeddingProvider.isLoaded(),
+            model: embeddingProvider.model
           }
-        })()
-        return true
+        }
+      },
+
+      DEBUG_QUERY_DB: async ({ sql, params }) => {
+        const database = await requireDb()
+        const result = await database.query(sql, params || [])
+        return { result }
+      },
+
+      DEBUG_GET_CACHED_PAGES: async () => {
+        const cache = await requireCache()
+        const pages = (await cache.listIndexedPages()).map(toCachedPageSummary)
+        return { pages }
       }
-
-      return false
-    }
+    })
 
     const setup = async () => {
       try {
@@ -487,18 +509,12 @@ const Offscreen = () => {
         await initSchema(db.current)
 
         // Initialize cache with db instance
-        cacheInstance = new EmbeddingCache(db.current)
+        cacheInstance = new EmbeddingCache(db.current, embeddingProvider.model)
+        memoryStoreInstance = new MemoryStore(db.current, embeddingProvider.model)
         log('[semantic-search] Initialized cache with database instance')
 
-        let count = await countRows(db.current, 'cached_pages')
-
-        if (count === 0) {
-          // TODO: seed the database.
-          log('[semantic-search] No embeddings found in the database, seeding...')
-        }
-        // Get Items
-        const items = await db.current.query('SELECT url, page_data FROM cached_pages')
-        log('[semantic-search] Found', items.rows.length, 'cached pages in the database')
+        const count = await countRows(db.current, 'pages')
+        log('[semantic-search] Found', count, 'cached pages in the database')
 
         // Mark setup as complete
         setupComplete.current = true
@@ -522,15 +538,15 @@ const Offscreen = () => {
           try {
             if (!db.current) throw new Error('Database not initialized')
 
-            const cachedPagesCount = await countRows(db.current, 'cached_pages')
+            const cachedPagesCount = await countRows(db.current, 'pages')
 
             const result = {
               cachedPages: {
                 count: cachedPagesCount,
-                table: 'cached_pages'
+                table: 'pages'
               },
               setupComplete: setupComplete.current,
-              modelLoaded: embeddingModel !== null
+              modelLoaded: embeddingProvider.isLoaded()
             }
 
             console.log('📊 Database Stats:', result)
@@ -558,20 +574,9 @@ const Offscreen = () => {
 
         getCachedPages: async () => {
           try {
-            if (!db.current) throw new Error('Database not initialized')
-
-            const result = await db.current.query(
-              'SELECT url, created_at, page_data FROM cached_pages ORDER BY created_at DESC'
-            )
+            if (!cacheInstance) throw new Error('Cache not initialized')
 
-            const pages = result.rows.map(row => ({
-              url: row.url,
-              created_at: row.created_at,
-              sentences_count: row.page_data.sentences?.length || 0,
-              embeddings_count: row.page_data.embeddings?.length || 0,
-              timestamp: row.page_data.timestamp,
-              pageHash: row.page_data.pageHash
-            }))
+            const pages = (await cacheInstance.listIndexedPages()).map(toCachedPageSummary)
 
             console.log(`📄 Retrieved ${pages.length} cached pages`)
             return pages
@@ -618,17 +623,12 @@ const Offscreen = () => {
           try {
             if (!cacheInstance) throw new Error('Cache not initialized')
 
-            const result = await db.current.query(
-              'SELECT page_data FROM cached_pages WHERE url = $1',
-              [url]
-            )
-
-            if (result.rows.length === 0) {
+            const cached = await cacheInstance.getCachedEmbeddingsByUrl(url)
+            if (!cached) {
               console.log(`❌ No cached embeddings found for URL: ${url}`)
               return null
             }
 
-            const cached = result.rows[0].page_data
             console.log(`📄 Cached embeddings for ${url}:`, {
               sentences: cached.sentences?.length || 0,
               embeddings: cached.embeddings?.length || 0,
@@ -673,7 +673,7 @@ const Offscreen = () => {
           try {
             const model = await loadEmbeddingModel()
             console.log('✅ Model loaded successfully')
-            return { success: true, model: 'Xenova/all-MiniLM-L6-v2' }
+            return { success: true, model: model.id }
           } catch (error) {
             console.error('❌ Error loading model:', error)
             throw error
@@ -709,8 +709,8 @@ const Offscreen = () => {
             initializing: initailizing.current,
             dbInitialized: db.current !== null,
             cacheInitialized: cacheInstance !== null,
-            modelLoaded: embeddingModel !== null,
-            modelLoading: modelLoadingPromise !== null
+            modelLoaded: embeddingProvider.isLoaded(),
+            model: embeddingProvider.model.id
           }
 
           console.log('🔧 Setup Status:', status)
@@ -721,8 +721,8 @@ const Offscreen = () => {
           try {
             if (!db.current) throw new Error('Database not initialized')
 
-            // Clear cached pages table
-            await db.current.query('DELETE FROM cached_pages')
+            // Clear indexed pages; their sentences cascade
+            await db.current.query('DELETE FROM pages')
 
             console.log('🗑️ Database reset complete')
             return { success: true }
@@ -736,13 +736,16 @@ const Offscreen = () => {
           try {
             if (!db.current) throw new Error('Database not initialized')
 
-            const cachedPages = await db.current.query('SELECT * FROM cached_pages')
+            const cachedPages = await db.current.query('SELECT * FROM pages')
+            const sentences = await db.current.query('SELECT url, idx, segment_index, text, selector, start_offset, end_offset, embedding::text AS embedding FROM sentences ORDER BY url, idx')
 
             const exportData = {
               timestamp: new Date().toISOString(),
               cachedPages: cachedPages.rows,
+              sentences: sentences.rows,
               stats: {
-                cachedPagesCount: cachedPages.rows.length
+                cachedPagesCount: cachedPages.rows.length,
+                sentencesCount: sentences.rows.length
               }
             }
 
@@ -776,11 +779,11 @@ const Offscreen = () => {
       console.log('- erpaDebug.getDbStats() // See database counts')
       console.log('- erpaDebug.getCachedPages() // List all cached pages')
       console.log('- erpaDebug.getCachedEmbeddingsByUrl("https://example.com") // Get cache by URL')
-      console.log('- erpaDebug.queryDb("SELECT * FROM cached_pages LIMIT 5") // Custom SQL')
+      console.log('- erpaDebug.queryDb("SELECT url, sentence_count FROM pages LIMIT 5") // Custom SQL')
       console.log('- erpaDebug.generateEmbedding("Hello world") // Test embedding generation')
       console.log('')
       console.log('🔍 To access from main extension context, use:')
-      console.log('chrome.runtime.sendMessage({target: "offscreen", type: "DEBUG_GET_DB_STATS"})')
+      console.log('chrome.runtime.sendMessage({target: "offscreen", v: 1, type: "DEBUG_GET_DB_STATS"})')
     }
 
     chrome.runtime.onMessage.addListener(handleMessage)
@@ -16,6 +16,7 @@ declare global {
 
     interface SummarizerContextOptions {
         context?: string
+        signal?: AbortSignal
     }
 
     interface SummarizerDownloadProgressEvent extends Event {
@@ -1,31 +1,15 @@
-enum SpeechRecognitionMessageType {
-    SPEECH_RECOGNITION_START = "speech-recognition-start",
-    SPEECH_RECOGNITION_END = "speech-recognition-end",
-    SPEECH_RECOGNITION_RESULT = "speech-recognition-result",
-    SPEECH_RECOGNITION_ERROR = "speech-recognition-error",
-    SPEECH_RECOGNITION_ENDED = "speech-recognition-ended",
-}
-
-enum ToggleMicMessageType {
-    TOGGLE_MIC = "toggle-mic",
-}
-
-enum StopRecordingMessageType {
-    STOP_RECORDING = "stop-recording",
-}
-
-enum StartRecordingMessageType {
-    START_RECORDING = "start-recording",
-}
-
-enum GetTabStreamIdMessageType {
-    GET_TAB_STREAM_ID = "get-tab-stream-id",
-}
-
-enum RecordingStoppedMessageType {
-    RECORDING_STOPPED = "recording-stopped",
-}
-
-type MessageType = SpeechRecognitionMessageType | ToggleMicMessageType | StopRecordingMessageType | StartRecordingMessageType | GetTabStreamIdMessageType | RecordingStoppedMessageType
-
-export type { SpeechRecognitionMessageType, ToggleMicMessageType, StopRecordingMessageType, StartRecordingMessageType, GetTabStreamIdMessageType, RecordingStoppedMessageType, MessageType }
\ No newline at end of file
+// Message types are defined by the typed message bus in ~lib/messaging/protocol.
+// This module re-exports them so type-only consumers don't pull in zod.
+
+export type {
+    MessageTarget,
+    MessageType,
+    RequestMessage,
+    RequestPayload,
+    ResponsePayload,
+    ResponseEnvelope,
+    ResponseMap,
+    SemanticSearchMatch,
+    CacheStats,
+    CachedPageSummary
+} from "~lib/messaging/protocol"
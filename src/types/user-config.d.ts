@@ -21,6 +21,8 @@ export interface AdvancedSettings {
   maxIterations: number;
   debugLogging: boolean;
   cacheTTL: number;
+  // Break multi-step requests into a plan before acting
+  planningMode: boolean;
 }
 
 export interface UserConfig {
@@ -53,6 +55,7 @@ export const DEFAULT_CONFIG: UserConfig = {
     maxIterations: 10,
     debugLogging: false,
     cacheTTL: 24,
+    planningMode: false,
   },
 };
 
@@ -93,6 +96,8 @@ export function validateConfig(config: unknown): config is UserConfig {
   if (typeof c.advanced.maxIterations !== 'number' || c.advanced.maxIterations < 1 || c.advanced.maxIterations > 20) return false;
   if (typeof c.advanced.debugLogging !== 'boolean') return false;
   if (typeof c.advanced.cacheTTL !== 'number' || c.advanced.cacheTTL < 1) return false;
+  // Added after version 1; configs saved before it are filled in with the default
+  if (c.advanced.planningMode !== undefined && typeof c.advanced.planningMode !== 'boolean') return false;
   
   return true;
 }
@@ -1,3 +1,8 @@
+import { DEFAULT_EMBEDDING_MODEL_ID } from '~lib/semantic-search/embedding-model';
+import type { Keymap } from '~lib/navigation/keymap';
+import type { TTSEngineId } from '~lib/tts/engine';
+import { DEFAULT_NEURAL_VOICE_ID } from '~lib/tts/neural-voice';
+
 export interface TTSSettings {
   speed: number;
   pitch: number;
@@ -5,6 +10,12 @@ export interface TTSSettings {
   voice: string | null;
   autoReadAloud: boolean;
   stopOnHandsUp: boolean;
+  // Speak with the system's voices or with an on-device neural voice
+  engine: TTSEngineId;
+  // Id of the voice used by the neural engine and for voice replies (see NEURAL_VOICES)
+  neuralVoice: string;
+  // Turn down audio and video on the page while the extension speaks
+  duckMedia: boolean;
 }
 
 export interface ExperienceSettings {
@@ -15,12 +26,26 @@ export interface ExperienceSettings {
   showProgress: boolean;
   voiceFeedback: boolean;
   reduceMotion: boolean;
+  // Reading navigation chords the user changed from DEFAULT_KEYMAP
+  keyBindings: Partial<Keymap>;
 }
 
 export interface AdvancedSettings {
   maxIterations: number;
   debugLogging: boolean;
   cacheTTL: number;
+  // Break multi-step requests into a plan before acting
+  planningMode: boolean;
+  // Id of the model that embeds pages for semantic search (see EMBEDDING_MODELS)
+  embeddingModel: string;
+  // Index the active tab in the background once it has loaded, so the first search is fast
+  preIndexing: boolean;
+  // Sentences pre-indexing may embed per day, across all pages
+  preIndexDailyBudget: number;
+  // Domains to pre-index (subdomains included); empty means every domain not blocked
+  preIndexAllowedDomains: string[];
+  // Domains never to pre-index, even when allowed
+  preIndexBlockedDomains: string[];
 }
 
 export interface UserConfig {
@@ -39,6 +64,9 @@ export const DEFAULT_CONFIG: UserConfig = {
     voice: null, // Use system default
     autoReadAloud: false,
     stopOnHandsUp: true,
+    engine: 'speech-synthesis',
+    neuralVoice: DEFAULT_NEURAL_VOICE_ID,
+    duckMedia: true,
   },
   experience: {
     autoSummarize: false,
@@ -48,11 +76,18 @@ export const DEFAULT_CONFIG: UserConfig = {
     showProgress: true,
     voiceFeedback: false,
     reduceMotion: false,
+    keyBindings: {},
   },
   advanced: {
     maxIterations: 10,
     debugLogging: false,
     cacheTTL: 24,
+    planningMode: false,
+    embeddingModel: DEFAULT_EMBEDDING_MODEL_ID,
+    preIndexing: false,
+    preIndexDailyBudget: 2000,
+    preIndexAllowedDomains: [],
+    preIndexBlockedDomains: [],
   },
 };
 
@@ -77,6 +112,10 @@ export function validateConfig(config: unknown): config is UserConfig {
   if (typeof c.tts.volume !== 'number' || c.tts.volume < 0 || c.tts.volume > 1) return false;
   if (typeof c.tts.autoReadAloud !== 'boolean') return false;
   if (typeof c.tts.stopOnHandsUp !== 'boolean') return false;
+  // Added after version 1
+  if (c.tts.engine !== undefined && !['speech-synthesis', 'neural'].includes(c.tts.engine)) return false;
+  if (c.tts.neuralVoice !== undefined && typeof c.tts.neuralVoice !== 'string') return false;
+  if (c.tts.duckMedia !== undefined && typeof c.tts.duckMedia !== 'boolean') return false;
   
   // Check Experience settings
   if (!c.experience || typeof c.experience !== 'object') return false;
@@ -87,12 +126,30 @@ export function validateConfig(config: unknown): config is UserConfig {
   if (typeof c.experience.showProgress !== 'boolean') return false;
   if (typeof c.experience.voiceFeedback !== 'boolean') return false;
   if (typeof c.experience.reduceMotion !== 'boolean') return false;
+  // Added after version 1, like the optional advanced settings below
+  if (c.experience.keyBindings !== undefined && !isStringRecord(c.experience.keyBindings)) return false;
   
   // Check Advanced settings
   if (!c.advanced || typeof c.advanced !== 'object') return false;
   if (typeof c.advanced.maxIterations !== 'number' || c.advanced.maxIterations < 1 || c.advanced.maxIterations > 20) return false;
   if (typeof c.advanced.debugLogging !== 'boolean') return false;
   if (typeof c.advanced.cacheTTL !== 'number' || c.advanced.cacheTTL < 1) return false;
+  // Added after version 1; configs saved before it are filled in with the default
+  if (c.advanced.planningMode !== undefined && typeof c.advanced.planningMode !== 'boolean') return false;
+  if (c.advanced.embeddingModel !== undefined && typeof c.advanced.embeddingModel !== 'string') return false;
+  if (c.advanced.preIndexing !== undefined && typeof c.advanced.preIndexing !== 'boolean') return false;
+  if (c.advanced.preIndexDailyBudget !== undefined && (typeof c.advanced.preIndexDailyBudget !== 'number' || c.advanced.preIndexDailyBudget < 0)) return false;
+  if (c.advanced.preIndexAllowedDomains !== undefined && !isStringArray(c.advanced.preIndexAllowedDomains)) return false;
+  if (c.advanced.preIndexBlockedDomains !== undefined && !isStringArray(c.advanced.preIndexBlockedDomains)) return false;
   
   return true;
 }
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -13,6 +13,13 @@ export interface VoiceMemo {
     error?: string;
 }
 
+export interface FunctionCallConfirmation {
+    status: 'pending' | 'approved' | 'declined';
+    // What the agent wants to do, e.g. 'press the "Subscribe" button'
+    description: string;
+    riskLevel: 'read-only' | 'navigation' | 'mutating';
+}
+
 interface ParsedFunctionWithResult {
     functionCall: {
         name: string;
@@ -20,12 +27,23 @@ interface ParsedFunctionWithResult {
     };
     result: any;
     success: boolean;
+    confirmation?: FunctionCallConfirmation;
+}
+
+export type PlanStepStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+export interface AgentPlanProgress {
+    task: string;
+    steps: Array<{ description: string; status: PlanStepStatus }>;
+    // Incremented each time the agent replans after a failed step
+    revision: number;
 }
 
 export interface ChatMessage {
     id: string;
     voiceMemo?: VoiceMemo;
     functionCallResponse?: ParsedFunctionWithResult;
+    plan?: AgentPlanProgress;
     progressUpdate?: {
         iteration: number;
         action: string;
@@ -58,6 +76,7 @@ export interface ChatInterfaceProps {
     onSendMessage?: (audioBlob: Blob, transcription: string) => void;
     onPlayMessage?: (message: ChatMessage) => void;
     onDeleteMessage?: (messageId: string) => void;
+    onConfirmFunctionCall?: (approved: boolean) => void;
     isLoading?: boolean;
     className?: string;
 }
@@ -0,0 +1,23 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Same as the `~*` path in tsconfig.json
+    alias: [
+      { find: /^~(.*)$/, replacement: path.resolve(__dirname, 'src/$1') },
+      // db.ts imports the vector extension by file, which Plasmo resolves but the package's
+      // exports map does not list
+      { find: '@electric-sql/pglite/dist/vector', replacement: '@electric-sql/pglite/vector' },
+    ],
+  },
+  // The extension's PostCSS setup (Tailwind) is for the Plasmo build; tests load no CSS
+  css: { postcss: {} },
+  test: {
+    environment: 'jsdom',
+    globals: true,
+    // packages/* run their own tests
+    include: ['src/**/*.test.{ts,tsx}'],
+    setupFiles: ['./vitest.setup.ts'],
+  },
+});
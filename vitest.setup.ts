@@ -0,0 +1,29 @@
+// jsdom does not implement CSS.escape, which the content script uses to build selectors.
+// This follows the algorithm of the CSSOM spec.
+if (typeof globalThis.CSS === 'undefined' || typeof globalThis.CSS.escape !== 'function') {
+  const escape = (value: string): string => {
+    let result = '';
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      const char = value.charAt(i);
+      if (code === 0) {
+        result += '�';
+      } else if (
+        (code >= 0x1 && code <= 0x1f) || code === 0x7f ||
+        (i === 0 && code >= 0x30 && code <= 0x39) ||
+        (i === 1 && code >= 0x30 && code <= 0x39 && value.charCodeAt(0) === 0x2d)
+      ) {
+        result += `\\${code.toString(16)} `;
+      } else if (i === 0 && value.length === 1 && code === 0x2d) {
+        result += `\\${char}`;
+      } else if (code >= 0x80 || code === 0x2d || code === 0x5f || /[0-9A-Za-z]/.test(char)) {
+        result += char;
+      } else {
+        result += `\\${char}`;
+      }
+    }
+    return result;
+  };
+
+  (globalThis as any).CSS = { ...(globalThis as any).CSS, escape };
+}